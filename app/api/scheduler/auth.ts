@@ -0,0 +1,35 @@
+/**
+ * Owner authentication for the scheduler API routes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthorization } from '@/services/scheduler/SchedulerAuth';
+
+/**
+ * Host sign-in messages must be for: SCHEDULER_DOMAIN when set, otherwise the
+ * request URL's host. The client-set x-forwarded-host header only counts
+ * behind a trusted proxy (SCHEDULER_TRUST_PROXY=true)
+ */
+function getSchedulerDomain(request: NextRequest): string {
+  const configured = (process.env.SCHEDULER_DOMAIN || '').trim();
+  if (configured) {
+    return configured;
+  }
+
+  const forwarded = process.env.SCHEDULER_TRUST_PROXY === 'true' ? request.headers.get('x-forwarded-host') : null;
+  return forwarded ? forwarded.split(',')[0].trim() : request.nextUrl.host;
+}
+
+/**
+ * Account that signed the request, or a 401 response
+ */
+export function authenticateOwner(request: NextRequest): string | NextResponse {
+  try {
+    return verifyAuthorization(request.headers.get('authorization'), getSchedulerDomain(request));
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Unauthorized', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 401 }
+    );
+  }
+}
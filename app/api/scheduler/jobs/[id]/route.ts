@@ -0,0 +1,125 @@
+/**
+ * API Route: /api/scheduler/jobs/[id]
+ * Inspect, pause, resume and delete a server-side agent job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/services/scheduler/JobStore';
+import { computeNextExecution } from '@/services/agent/ScheduleCalculator';
+import type { ScheduledJob } from '@/types/scheduler';
+import { authenticateOwner } from '../../auth';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Job `id` when it belongs to the signed-in account, or the error response
+ * Other accounts' jobs are reported as not found
+ */
+async function getOwnedJob(request: NextRequest, id: string): Promise<ScheduledJob | NextResponse> {
+  const ownerAddress = authenticateOwner(request);
+  if (ownerAddress instanceof NextResponse) {
+    return ownerAddress;
+  }
+
+  const job = await getJobStore().get(id);
+  if (!job || job.ownerAddress.toLowerCase() !== ownerAddress.toLowerCase()) {
+    return NextResponse.json({ error: `Job not found: ${id}` }, { status: 404 });
+  }
+  return job;
+}
+
+/**
+ * GET /api/scheduler/jobs/[id]
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const job = await getOwnedJob(request, id);
+  if (job instanceof NextResponse) {
+    return job;
+  }
+
+  return NextResponse.json({ data: job });
+}
+
+/**
+ * PATCH /api/scheduler/jobs/[id]
+ * Body: { action: 'pause' | 'resume', withAgent?: boolean }
+ * `withAgent` marks a pause made by pausing the job's agent
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const { action, withAgent } = await request.json();
+
+    if (action !== 'pause' && action !== 'resume') {
+      return NextResponse.json(
+        { error: 'action must be "pause" or "resume"' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getOwnedJob(request, id);
+    if (existing instanceof NextResponse) {
+      return existing;
+    }
+    if (existing.status === 'completed') {
+      return NextResponse.json({ error: 'Completed jobs cannot be paused or resumed' }, { status: 409 });
+    }
+
+    const job = await getJobStore().update(id, target => {
+      if (action === 'pause') {
+        target.status = 'paused';
+        target.pausedWithAgent = withAgent === true;
+        return;
+      }
+
+      // Runs missed while paused are not caught up: continue from the next slot
+      const now = new Date();
+      target.status = 'active';
+      delete target.pausedWithAgent;
+      if (!target.nextRunAt || target.nextRunAt.getTime() < now.getTime()) {
+        target.nextRunAt = target.intent.schedule ? computeNextExecution(target.intent.schedule, now) : null;
+      }
+      if (!target.nextRunAt) {
+        target.status = 'completed';
+      }
+    });
+
+    console.log(`⏯️ API: Job ${id} ${action === 'pause' ? 'paused' : 'resumed'}`);
+    return NextResponse.json({ data: job });
+  } catch (error) {
+    console.error('❌ API Error updating scheduler job:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update job',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/scheduler/jobs/[id]
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const job = await getOwnedJob(request, id);
+  if (job instanceof NextResponse) {
+    return job;
+  }
+
+  const deleted = await getJobStore().delete(id);
+
+  if (!deleted) {
+    return NextResponse.json({ error: `Job not found: ${id}` }, { status: 404 });
+  }
+
+  console.log(`🗑️ API: Deleted scheduler job ${id}`);
+  return NextResponse.json({ data: { id, deleted: true } });
+}
@@ -0,0 +1,176 @@
+/**
+ * API Route: /api/scheduler/jobs
+ * List and create server-side agent jobs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/services/scheduler/JobStore';
+import { addReportedSpend, reviveJob } from '@/services/scheduler/ScheduledJobs';
+import { getAllowedOwners, isSamePermissionGrant, verifyPermissionGrant } from '@/services/scheduler/SchedulerAuth';
+import { computeNextExecution, isCalendarSchedule } from '@/services/agent/ScheduleCalculator';
+import { DEFAULT_APPROVAL_POLICY } from '@/services/agent/ApprovalPolicy';
+import { scheduledJobRequestSchema } from '@/lib/validation';
+import { SCHEDULER_CONFIG } from '@/lib/constants';
+import { authenticateOwner } from '../auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/scheduler/jobs
+ * List the signed-in account's jobs
+ */
+export async function GET(request: NextRequest) {
+  const ownerAddress = authenticateOwner(request);
+  if (ownerAddress instanceof NextResponse) {
+    return ownerAddress;
+  }
+
+  try {
+    const jobs = await getJobStore().list();
+    const data = jobs.filter(job => job.ownerAddress.toLowerCase() === ownerAddress.toLowerCase());
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('❌ API Error listing scheduler jobs:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list jobs',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/scheduler/jobs
+ * Create a job for a recurring intent of the signed-in account
+ *
+ * The permission must carry its owner's grant signature. The first job of a
+ * permission records the grant; later jobs use the recorded terms and must
+ * not change them. What the job may still spend comes from the grant's
+ * ledger, which reported browser spend can only raise.
+ */
+export async function POST(request: NextRequest) {
+  const ownerAddress = authenticateOwner(request);
+  if (ownerAddress instanceof NextResponse) {
+    return ownerAddress;
+  }
+  if (getAllowedOwners().indexOf(ownerAddress) === -1) {
+    return NextResponse.json(
+      { error: 'This account may not use the server signer; add it to SCHEDULER_ALLOWED_OWNERS' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const parsed = scheduledJobRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid job request',
+          details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const {
+      intent,
+      permission,
+      permissionSignature,
+      catchUpPolicy,
+      agentId,
+      agent,
+      approvalPolicy,
+      knownCounterparties,
+      velocityCap,
+      spentAmount,
+      periodSpend,
+    } = parsed.data;
+    if (!verifyPermissionGrant(permission, permissionSignature, ownerAddress)) {
+      return NextResponse.json({ error: 'The permission is not signed by the signed-in account' }, { status: 403 });
+    }
+    if (agent?.permissionIds && agent.permissionIds.indexOf(permission.id) === -1) {
+      return NextResponse.json({ error: `Permission ${permission.id} is not bound to the agent` }, { status: 400 });
+    }
+    if (velocityCap && velocityCap.tokenAddress.toLowerCase() !== permission.tokenAddress.toLowerCase()) {
+      return NextResponse.json({ error: 'The velocity cap is not for the permission\'s token' }, { status: 400 });
+    }
+
+    const now = new Date();
+    const recorded = await getJobStore().recordGrant({
+      ownerAddress,
+      permission,
+      signature: permissionSignature,
+      grantedAt: now,
+      spentAmount: '0',
+      reportedSpent: '0',
+    });
+    if (recorded.revokedAt) {
+      return NextResponse.json(
+        { error: `Permission ${permission.id} was revoked; grant a new permission instead` },
+        { status: 409 }
+      );
+    }
+    if (!isSamePermissionGrant(recorded.permission, permission)) {
+      return NextResponse.json(
+        { error: `Permission ${permission.id} was granted with different terms; grant a new permission instead` },
+        { status: 409 }
+      );
+    }
+
+    const grant = await getJobStore().updateGrant(ownerAddress, permission.id, updated => {
+      addReportedSpend(updated, spentAmount, periodSpend, now);
+    }) || recorded;
+
+    const job = reviveJob({
+      id: `job_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      intent,
+      permission: grant.permission,
+      ownerAddress,
+      agentId,
+      agent,
+      status: 'active',
+      approvalPolicy: approvalPolicy || DEFAULT_APPROVAL_POLICY,
+      knownCounterparties: knownCounterparties && {
+        recipients: knownCounterparties.recipients.map(address => address.toLowerCase()),
+        contracts: knownCounterparties.contracts.map(address => address.toLowerCase()),
+      },
+      catchUpPolicy: catchUpPolicy || SCHEDULER_CONFIG.DEFAULT_CATCH_UP_POLICY,
+      nextRunAt: null,
+      spentAmount: grant.spentAmount,
+      periodSpend: grant.periodSpend,
+      velocityCap,
+      runs: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    // Interval schedules run on the next tick; calendar schedules wait for their first slot
+    const schedule = job.intent.schedule;
+    job.nextRunAt = schedule && isCalendarSchedule(schedule) ? computeNextExecution(schedule, now) : now;
+    if (!job.nextRunAt) {
+      return NextResponse.json(
+        { error: 'Schedule has no upcoming run before its end condition' },
+        { status: 400 }
+      );
+    }
+
+    await getJobStore().create(job);
+    console.log(`✅ API: Created scheduler job ${job.id} for "${job.intent.description}"`);
+
+    return NextResponse.json({ data: job }, { status: 201 });
+  } catch (error) {
+    console.error('❌ API Error creating scheduler job:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create job',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * API Route: /api/scheduler/permissions/[id]/revoke
+ * Revoke a permission the signed-in account granted to the server signer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/services/scheduler/JobStore';
+import { authenticateOwner } from '../../../auth';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/scheduler/permissions/[id]/revoke
+ * Marks the grant revoked and completes every job on the permission, so the
+ * server signer never acts under it again. Revoking twice keeps the first time;
+ * permissions never sent to the server are accepted with no jobs to complete
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const ownerAddress = authenticateOwner(request);
+  if (ownerAddress instanceof NextResponse) {
+    return ownerAddress;
+  }
+
+  try {
+    const { id } = await context.params;
+    const store = getJobStore();
+    const now = new Date();
+
+    const grant = await store.updateGrant(ownerAddress, id, updated => {
+      updated.revokedAt = updated.revokedAt || now;
+    });
+    const revokedAt = grant?.revokedAt || now;
+
+    const jobs = (await store.list()).filter(job =>
+      job.ownerAddress.toLowerCase() === ownerAddress.toLowerCase() &&
+      job.permission.id === id &&
+      job.status !== 'completed'
+    );
+    for (const job of jobs) {
+      await store.update(job.id, target => {
+        target.status = 'completed';
+        target.nextRunAt = null;
+        target.permissionRevokedAt = revokedAt;
+      });
+    }
+
+    console.log(`🚫 API: Revoked permission ${id} and completed ${jobs.length} job(s)`);
+    return NextResponse.json({ data: { permissionId: id, revokedAt, completedJobIds: jobs.map(job => job.id) } });
+  } catch (error) {
+    console.error('❌ API Error revoking permission:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to revoke permission',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * API Route: /api/scheduler/tick
+ * Runs every due server-side job once; called by the scheduler worker process or a cron
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/services/scheduler/JobStore';
+import { SchedulerWorker } from '@/services/scheduler/SchedulerWorker';
+import { AgentJobRunner } from '@/services/scheduler/AgentJobRunner';
+
+export const dynamic = 'force-dynamic';
+
+let worker: SchedulerWorker | null = null;
+
+function getWorker(): SchedulerWorker {
+  if (!worker) {
+    worker = new SchedulerWorker(getJobStore(), new AgentJobRunner());
+  }
+  return worker;
+}
+
+/**
+ * POST /api/scheduler/tick
+ * Requires `Authorization: Bearer $SCHEDULER_SECRET`; disabled until SCHEDULER_SECRET is set
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.SCHEDULER_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: 'Scheduler tick is disabled: set SCHEDULER_SECRET' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await getWorker().tick();
+    if (result.checked > 0) {
+      console.log(`⏰ API: Scheduler tick ran ${result.ran} and skipped ${result.skipped} occurrence(s)`);
+    }
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error('❌ API Error running scheduler tick:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Scheduler tick failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
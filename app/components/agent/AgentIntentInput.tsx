@@ -5,30 +5,72 @@
 'use client';
 
 import { useState } from 'react';
-import { AgentIntent, AgentExecutor } from '@/services/agent/AgentExecutor';
+import { AgentIntent, AgentExecutor, AgentExecution } from '@/services/agent/AgentExecutor';
+import { AgentActionType } from '@/types/agent';
 import { ERC7715Permission } from '@/types/permissions';
+import { CatchUpPolicy } from '@/types/scheduler';
+import { SCHEDULER_CONFIG } from '@/lib/constants';
 import { PermissionManager } from '@/services/permissions/PermissionManager';
+import { ParsedIntent, getTokenSymbol } from '@/services/agent/IntentParser';
+import { LLMExchange } from '@/services/agent/LLMProvider';
+import { describeSchedule } from '@/services/agent/ScheduleCalculator';
+import { PACING_LABELS, PacingMode } from '@/services/agent/BudgetPacer';
+import { StrategyDraft } from '@/services/agent/StrategyTemplates';
+import { BacktestPanel } from './BacktestPanel';
+
+const ACTION_LABELS: Record<AgentActionType, string> = {
+  transfer: '💸 Transfer',
+  approve: '✅ Approve',
+  swap: '🔄 Swap',
+  stake: '🏦 Stake',
+  unstake: '📤 Unstake',
+};
+
+// What the target contract means for each action
+const TARGET_HINTS: Record<AgentActionType, string> = {
+  transfer: 'Recipient',
+  approve: 'Spender to approve',
+  swap: 'Swap router',
+  stake: 'Vault to deposit into',
+  unstake: 'Vault to withdraw from',
+};
 
 interface AgentIntentInputProps {
   agentExecutor: AgentExecutor;
   permissionManager: PermissionManager;
   onCommandCreated?: () => void;
+  draft?: StrategyDraft | null; // Strategy template to start the command from
+  draftPermissionId?: string | null; // Permission created for the template
   className?: string;
 }
 
 /**
  * Natural language interface for submitting agent intents
  */
-export function AgentIntentInput({ agentExecutor, permissionManager, onCommandCreated, className = '' }: AgentIntentInputProps) {
-  const [description, setDescription] = useState('');
-  const [selectedPermission, setSelectedPermission] = useState('');
+export function AgentIntentInput({ agentExecutor, permissionManager, onCommandCreated, draft, draftPermissionId, className = '' }: AgentIntentInputProps) {
+  // Get permissions from the permission manager, limited to those bound to the agent
+  const permissions = permissionManager ? permissionManager.getPermissions() : [];
+  const boundIds = agentExecutor.getAgent()?.permissionIds;
+  const activePermissions: ERC7715Permission[] = permissions.filter((p: ERC7715Permission) =>
+    p.status === 'active' && (!boundIds || boundIds.indexOf(p.id) !== -1)
+  );
+
+  const draftPermission = activePermissions.find(p => p.id === draftPermissionId);
+  const [description, setDescription] = useState(draft?.command || '');
+  const [selectedPermission, setSelectedPermission] = useState(draftPermission ? draftPermission.id : '');
   const [amount, setAmount] = useState('');
-  const [contractAddress, setContractAddress] = useState('');
+  const [contractAddress, setContractAddress] = useState(draftPermission?.allowedContracts[0] || '');
   const [isSubmitting, setIsSubmitting] = useState(false);
-
-  // Get permissions from the permission manager
-  const permissions = permissionManager ? permissionManager.getPermissions() : [];
-  const activePermissions: ERC7715Permission[] = permissions.filter((p: ERC7715Permission) => p.status === 'active');
+  const [runOnServer, setRunOnServer] = useState(false);
+  const [misfirePolicy, setMisfirePolicy] = useState<CatchUpPolicy>(draft?.misfirePolicy || SCHEDULER_CONFIG.DEFAULT_CATCH_UP_POLICY);
+  const [pacing, setPacing] = useState<PacingMode | ''>(draft?.pacing || '');
+  const [parsedIntent, setParsedIntent] = useState<ParsedIntent | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [parseExchanges, setParseExchanges] = useState<LLMExchange[]>([]); // Kept with the execution of the applied parse
+  const [actionType, setActionType] = useState<AgentActionType>('transfer');
+  const [tokenOut, setTokenOut] = useState('');
+  const [minAmountOut, setMinAmountOut] = useState('');
+  const [showBacktest, setShowBacktest] = useState(false);
 
   const handlePermissionChange = (permissionId: string) => {
     setSelectedPermission(permissionId);
@@ -44,46 +86,104 @@ export function AgentIntentInput({ agentExecutor, permissionManager, onCommandCr
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!selectedPermission || !amount || !contractAddress || !description.trim()) {
+  const parseDescription = async () => {
+    if (!description.trim()) {
+      return;
+    }
+
+    setIsParsing(true);
+    try {
+      setParsedIntent(await agentExecutor.parseIntent(description.trim()));
+    } catch (error) {
+      console.error('Failed to parse intent:', error);
+      alert('❌ Failed to read the command. Please fill in the fields manually.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  // Fill the form with the confirmed parse
+  const applyParsedIntent = (parsed: ParsedIntent) => {
+    if (!parsed.permissionId) {
       return;
     }
+    setSelectedPermission(parsed.permissionId);
+    setActionType(parsed.fields.action.type);
+    setAmount(parsed.fields.amount || '');
+    setContractAddress(parsed.fields.contractAddress || '');
+    setTokenOut(parsed.fields.action.tokenOut || '');
+    setMinAmountOut(parsed.fields.action.minAmountOut || '');
+    setParseExchanges(parsed.llmExchanges);
+    setParsedIntent(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await submitIntent(false);
+  };
 
+  // The form as an intent, or null while it is incomplete
+  const buildIntent = (): AgentIntent | null => {
     const permission = activePermissions.find((p: any) => p.id === selectedPermission);
-    if (!permission) {
+    if (!permission || !amount || !contractAddress || !description.trim()) {
+      return null;
+    }
+
+    return {
+      description: description.trim(),
+      tokenAddress: permission.tokenAddress,
+      amount,
+      contractAddress,
+      permissionId: selectedPermission,
+      action: actionType === 'swap'
+        ? { type: actionType, tokenOut, minAmountOut }
+        : { type: actionType },
+    };
+  };
+
+  const submitIntent = async (simulate: boolean) => {
+    const intent = buildIntent();
+    if (!intent) {
       return;
     }
 
     setIsSubmitting(true);
 
     try {
-      const intent: AgentIntent = {
-        description: description.trim(),
-        tokenAddress: permission.tokenAddress,
-        amount,
-        contractAddress,
-        permissionId: selectedPermission,
-      };
-
       // Use agentExecutor to process the intent
-      const execution = await agentExecutor.processIntent(intent);
+      const execution = await agentExecutor.processIntent(intent, {
+        runOnServer,
+        simulate,
+        misfirePolicy,
+        pacing: pacing || undefined,
+        llmExchanges: parseExchanges.length > 0 ? parseExchanges : undefined,
+      });
       
       // Show result
-      if (execution.status === 'executed') {
+      if (execution.status === 'simulated') {
+        alert(describeSimulation(execution));
+      } else if (execution.status === 'executed') {
         const baseScanUrl = `https://sepolia-explorer.base.org/tx/${execution.transactionHash}`;
         alert(`🎉 Agent executed successfully!\n\n💡 AI Reasoning: ${execution.decision.reasoning}\n\n📋 Result: ${execution.explanation}\n\n🔗 View on BaseScan: ${baseScanUrl}`);
+      } else if (execution.status === 'awaiting_approval') {
+        alert(`✋ Waiting for your approval:\n\n📋 ${execution.explanation}\n\nApprove or reject it in the Trust Dashboard's Approvals tab.`);
+      } else if (execution.status === 'scheduled') {
+        alert(`⏰ Agent command scheduled!\n\n📋 ${execution.explanation}`);
       } else if (execution.status === 'blocked') {
         alert(`🚫 Agent blocked execution:\n\n💡 AI Reasoning: ${execution.decision.reasoning}\n\n📋 Explanation: ${execution.explanation}`);
       } else if (execution.status === 'failed') {
         alert(`❌ Execution failed:\n\n📋 Error: ${execution.explanation}`);
       }
       
-      // Reset form and notify parent
-      setDescription('');
-      setAmount('');
-      setContractAddress('');
+      // Keep the form after a dry run so the same command can be submitted for real
+      if (!simulate) {
+        setDescription('');
+        setParseExchanges([]);
+        setAmount('');
+        setContractAddress('');
+        setTokenOut('');
+        setMinAmountOut('');
+      }
       
       if (onCommandCreated) {
         onCommandCreated();
@@ -96,11 +196,15 @@ export function AgentIntentInput({ agentExecutor, permissionManager, onCommandCr
     }
   };
 
+  const backtestIntent = showBacktest ? buildIntent() : null;
+  const backtestPermission = activePermissions.find(p => p.id === selectedPermission);
+
   const getExampleIntents = () => [
     "Buy ETH every minute using up to 10 USDC when gas is low",
     "Swap 5 USDC to ETH weekly if price drops below $2000",
     "Rebalance portfolio by selling 2 ETH for USDC every 3 days",
     "DCA into ETH with 20 USDC hourly when network congestion is low",
+    "Pay 50 USDC on the first business day of the month at 9:00 until Dec 31",
   ];
 
   if (activePermissions.length === 0) {
@@ -128,6 +232,13 @@ export function AgentIntentInput({ agentExecutor, permissionManager, onCommandCr
         </p>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          {draft && (
+            <div className="bg-primary-50 border border-primary-200 rounded-lg p-3 text-sm text-primary-800">
+              📋 Command from the <strong>{draft.templateName}</strong> template
+              {draftPermission ? ', using the permission you just created' : ''}. Use &quot;Fill Fields from Description&quot; to check it.
+            </div>
+          )}
+
           {/* Natural Language Intent */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -137,9 +248,29 @@ export function AgentIntentInput({ agentExecutor, permissionManager, onCommandCr
               className="input w-full h-24 resize-none"
               placeholder="Describe what you want your agent to do..."
               value={description}
-              onChange={(e) => setDescription(e.target.value)}
+              onChange={(e) => {
+                setDescription(e.target.value);
+                setParsedIntent(null);
+                setParseExchanges([]);
+              }}
               required
             />
+            <button
+              type="button"
+              onClick={parseDescription}
+              disabled={isParsing || !description.trim()}
+              className="mt-2 text-sm text-primary-600 hover:text-primary-800 disabled:text-gray-400"
+            >
+              {isParsing ? '🧩 Reading command...' : '🧩 Fill Fields from Description'}
+            </button>
+
+            {parsedIntent && (
+              <ParsedIntentPreview
+                parsed={parsedIntent}
+                onApply={() => applyParsedIntent(parsedIntent)}
+                onDismiss={() => setParsedIntent(null)}
+              />
+            )}
             
             {/* Example Intents */}
             <div className="mt-2">
@@ -149,7 +280,10 @@ export function AgentIntentInput({ agentExecutor, permissionManager, onCommandCr
                   <button
                     key={index}
                     type="button"
-                    onClick={() => setDescription(example)}
+                    onClick={() => {
+                      setDescription(example);
+                      setParseExchanges([]);
+                    }}
                     className="text-xs px-2 py-1 bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
                   >
                     {example}
@@ -179,6 +313,54 @@ export function AgentIntentInput({ agentExecutor, permissionManager, onCommandCr
             </select>
           </div>
 
+          {/* Action Type */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Action
+            </label>
+            <select
+              className="input w-full"
+              value={actionType}
+              onChange={(e) => setActionType(e.target.value as AgentActionType)}
+            >
+              {Object.entries(ACTION_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          {actionType === 'swap' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Token Out
+                </label>
+                <input
+                  type="text"
+                  className="input w-full"
+                  placeholder="0x..."
+                  value={tokenOut}
+                  onChange={(e) => setTokenOut(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Minimum Received
+                </label>
+                <input
+                  type="number"
+                  step="0.000001"
+                  className="input w-full"
+                  placeholder="Slippage floor"
+                  value={minAmountOut}
+                  onChange={(e) => setMinAmountOut(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+          )}
+
           {/* Amount */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -231,7 +413,7 @@ export function AgentIntentInput({ agentExecutor, permissionManager, onCommandCr
               />
             )}
             <p className="text-xs text-gray-500 mt-1">
-              Choose from the contracts allowed in your selected permission
+              {TARGET_HINTS[actionType]} - choose from the contracts allowed in your selected permission
             </p>
           </div>
 
@@ -277,16 +459,100 @@ export function AgentIntentInput({ agentExecutor, permissionManager, onCommandCr
             </div>
           )}
 
-          {/* Submit Button */}
-          <button
-            type="submit"
-            disabled={isSubmitting || !selectedPermission || !amount || !contractAddress || !description.trim()}
-            className="btn-primary w-full"
-          >
-            {isSubmitting ? '🤖 Agent Evaluating...' : '🚀 Submit to Agent'}
-          </button>
+          {/* Server Scheduling */}
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={runOnServer}
+              onChange={(e) => setRunOnServer(e.target.checked)}
+            />
+            <span>
+              Run recurring commands on the server
+              <span className="block text-xs text-gray-500">
+                Keeps schedules running when this tab is closed. One-off and condition-triggered commands still run here.
+              </span>
+            </span>
+          </label>
+
+          {/* Misfire Policy */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Missed Runs
+            </label>
+            <select
+              className="input w-full"
+              value={misfirePolicy}
+              onChange={(e) => setMisfirePolicy(e.target.value as CatchUpPolicy)}
+            >
+              <option value="run_once">Run once to catch up</option>
+              <option value="run_all">Run each missed slot (up to {SCHEDULER_CONFIG.MAX_CATCH_UP_RUNS})</option>
+              <option value="skip">Skip missed slots</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              What a recurring command does with runs that fell due while the app or server worker was down
+            </p>
+          </div>
+
+          {/* Budget Pacing */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Budget Pacing
+            </label>
+            <select
+              className="input w-full"
+              value={pacing}
+              onChange={(e) => setPacing(e.target.value as PacingMode | '')}
+            >
+              <option value="">Same amount every run</option>
+              {Object.entries(PACING_LABELS).map(([mode, label]) => (
+                <option key={mode} value={mode}>{label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Paced recurring commands size each run from the allowance and runs left before the permission ends; the amount above becomes the most one run spends
+            </p>
+          </div>
+
+          {/* Submit Buttons */}
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={isSubmitting || !selectedPermission || !amount || !contractAddress || !description.trim()}
+              className="btn-primary flex-1"
+            >
+              {isSubmitting ? '🤖 Agent Evaluating...' : '🚀 Submit to Agent'}
+            </button>
+            <button
+              type="button"
+              onClick={() => submitIntent(true)}
+              disabled={isSubmitting || !selectedPermission || !amount || !contractAddress || !description.trim()}
+              className="btn-secondary"
+              title="Evaluate and simulate without broadcasting anything"
+            >
+              🧪 Dry Run
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowBacktest(!showBacktest)}
+              disabled={!selectedPermission || !amount || !contractAddress || !description.trim()}
+              className="btn-secondary"
+              title="Replay the command against historical market data"
+            >
+              📈 Backtest
+            </button>
+          </div>
         </form>
 
+        {showBacktest && backtestIntent && backtestPermission && (
+          <BacktestPanel
+            intent={backtestIntent}
+            permission={backtestPermission}
+            pacing={pacing || undefined}
+            spentAmount={permissionManager.getSpendTracking(backtestPermission.id)?.totalSpent || '0'}
+          />
+        )}
+
         {/* How It Works */}
         <div className="mt-6 p-4 bg-gray-50 rounded-lg">
           <h4 className="text-sm font-medium text-gray-800 mb-2">
@@ -326,10 +592,142 @@ export function AgentIntentInput({ agentExecutor, permissionManager, onCommandCr
               <div className="bg-purple-100 p-2 rounded">
                 <strong>"every 5 minutes"</strong> → Custom minute intervals
               </div>
+              <div className="bg-purple-100 p-2 rounded">
+                <strong>"every Monday at 9:00"</strong> → Exact weekly time
+              </div>
+              <div className="bg-purple-100 p-2 rounded">
+                <strong>"first business day of the month"</strong> → Calendar rules
+              </div>
+              <div className="bg-purple-100 p-2 rounded">
+                <strong>"cron 0 9 * * 1-5"</strong> → Cron expressions
+              </div>
+              <div className="bg-purple-100 p-2 rounded">
+                <strong>"until Dec 31" / "10 times"</strong> → End conditions
+              </div>
+              <div className="bg-purple-100 p-2 rounded col-span-2">
+                <strong>"in Europe/Berlin"</strong> → Timezone for calendar times (defaults to your browser's)
+              </div>
+            </div>
+          </div>
+
+          <div className="border-t pt-3 mt-3">
+            <h5 className="text-sm font-medium text-indigo-800 mb-2">
+              🎯 Condition Triggers
+            </h5>
+            <p className="text-sm text-indigo-700 mb-2">
+              Start a command with "when" or "if" to run it only once market conditions are met:
+            </p>
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <div className="bg-indigo-100 p-2 rounded">
+                <strong>"when gas is below 15 gwei"</strong> → Gas threshold
+              </div>
+              <div className="bg-indigo-100 p-2 rounded">
+                <strong>"if price drops below $2000"</strong> → Price threshold
+              </div>
+              <div className="bg-indigo-100 p-2 rounded">
+                <strong>"when price drops 5% in 24 hours"</strong> → Percent change
+              </div>
+              <div className="bg-indigo-100 p-2 rounded">
+                <strong>"when balance is above 100"</strong> → Balance threshold
+              </div>
             </div>
           </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Summary of a dry run for the result alert
+ */
+function describeSimulation(execution: AgentExecution): string {
+  const simulation = execution.simulation;
+  const lines = [`🧪 Dry run (nothing was broadcast)`, '', `📋 ${execution.explanation}`];
+
+  if (execution.decision.reasoning) {
+    lines.push('', `💡 AI Reasoning: ${execution.decision.reasoning}`);
+  }
+
+  if (simulation?.result) {
+    lines.push('', '💰 Predicted balance changes:');
+    simulation.result.balanceChanges.forEach(change => {
+      lines.push(`  ${change.tokenAddress.slice(0, 8)}...: ${change.before} → ${change.after} (${change.isMinimum ? 'at least ' : ''}${change.delta})`);
+    });
+  }
+
+  if (simulation) {
+    lines.push('', '🛡️ Allowance left afterwards:');
+    simulation.allowances.forEach(allowance => {
+      lines.push(`  ${allowance.permissionId}: ${allowance.before} → ${allowance.after}`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+// Parsed command shown for confirmation before it fills the form
+function ParsedIntentPreview({
+  parsed,
+  onApply,
+  onDismiss,
+}: {
+  parsed: ParsedIntent;
+  onApply: () => void;
+  onDismiss: () => void;
+}) {
+  const { fields } = parsed;
+  const formatToken = (address: string | null | undefined) =>
+    address ? getTokenSymbol(address) || `${address.slice(0, 8)}...` : '—';
+
+  return (
+    <div className={`mt-3 rounded-lg p-4 border ${parsed.rejection ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'}`}>
+      <h4 className={`text-sm font-medium mb-2 ${parsed.rejection ? 'text-red-800' : 'text-green-800'}`}>
+        🧩 Understood command ({parsed.source === 'llm' ? 'read by the LLM' : 'read by the rule grammar'})
+      </h4>
+      <ul className="text-sm text-gray-700 space-y-1">
+        <li>• Action: <strong>{ACTION_LABELS[fields.action.type]}</strong></li>
+        <li>• Amount: <strong>{fields.amount || '—'} {formatToken(fields.tokenAddress)}</strong></li>
+        {fields.action.type === 'swap' && (
+          <li>• Into: <strong>{formatToken(fields.action.tokenOut)}</strong>{fields.action.minAmountOut && ` (at least ${fields.action.minAmountOut})`}</li>
+        )}
+        <li>• {TARGET_HINTS[fields.action.type]}: <span className="font-mono">{fields.contractAddress || '—'}</span></li>
+        <li>• Schedule: {parsed.schedule.type === 'recurring' ? describeSchedule(parsed.schedule) : 'Once, now'}</li>
+        <li>• Permission: {parsed.permissionId || '—'}</li>
+      </ul>
+
+      {parsed.rejection && (
+        <p className="text-sm text-red-700 mt-2">🚫 {parsed.rejection}</p>
+      )}
+
+      {parsed.ambiguities.length > 0 && (
+        <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800">
+          <div className="font-medium mb-1">⚠️ Please check:</div>
+          <ul className="space-y-1">
+            {parsed.ambiguities.map((ambiguity, index) => (
+              <li key={index}>• {ambiguity}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex gap-2 mt-3">
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={!!parsed.rejection}
+          className="px-3 py-1 text-sm bg-green-100 text-green-800 rounded hover:bg-green-200 disabled:opacity-50"
+        >
+          ✅ Use These Values
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
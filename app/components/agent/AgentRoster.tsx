@@ -0,0 +1,167 @@
+/**
+ * Agent Roster - Pick, pause and create named agents
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { AgentProfile, AgentRegistry } from '@/services/agent/AgentRegistry';
+import { PermissionManager } from '@/services/permissions/PermissionManager';
+
+interface AgentRosterProps {
+  agentRegistry: AgentRegistry;
+  permissionManager: PermissionManager;
+  selectedAgentId: string;
+  onSelectAgent: (id: string) => void;
+  className?: string;
+}
+
+/**
+ * Named agents side by side; commands and the dashboard follow the selected one
+ */
+export function AgentRoster({ agentRegistry, permissionManager, selectedAgentId, onSelectAgent, className = '' }: AgentRosterProps) {
+  const [agents, setAgents] = useState<AgentProfile[]>(agentRegistry.listAgents());
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [persona, setPersona] = useState('');
+  const [permissionIds, setPermissionIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const activePermissions = permissionManager.getPermissions('active');
+
+  const togglePaused = async (agent: AgentProfile) => {
+    try {
+      if (agent.paused) {
+        await agentRegistry.resumeAgent(agent.id);
+      } else {
+        await agentRegistry.pauseAgent(agent.id);
+      }
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : 'Could not update the agent'}`);
+    }
+    setAgents(agentRegistry.listAgents());
+  };
+
+  const togglePermission = (id: string) => {
+    setPermissionIds(previous => previous.indexOf(id) === -1
+      ? previous.concat(id)
+      : previous.filter(permissionId => permissionId !== id));
+  };
+
+  const handleCreate = () => {
+    try {
+      const agent = agentRegistry.createAgent({ name, persona: persona || undefined, permissionIds });
+      setAgents(agentRegistry.listAgents());
+      setIsCreating(false);
+      setName('');
+      setPersona('');
+      setPermissionIds([]);
+      setError(null);
+      onSelectAgent(agent.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the agent');
+    }
+  };
+
+  return (
+    <div className={`card ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-lg font-semibold">🤖 Agents</h3>
+          <p className="text-sm text-gray-600">Each agent has its own persona, permissions, approval policy and history</p>
+        </div>
+        <button onClick={() => setIsCreating(!isCreating)} className="btn-secondary text-sm">
+          {isCreating ? 'Cancel' : '➕ New Agent'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {agents.map(agent => (
+          <div
+            key={agent.id}
+            onClick={() => onSelectAgent(agent.id)}
+            className={`p-3 border rounded-lg cursor-pointer ${
+              agent.id === selectedAgentId ? 'border-primary-500 bg-primary-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{agent.name}</span>
+              <span className={`px-2 py-0.5 rounded-full text-xs ${agent.paused ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'}`}>
+                {agent.paused ? '⏸️ Paused' : '▶️ Running'}
+              </span>
+            </div>
+            {agent.persona && (
+              <p className="text-xs text-gray-600 mt-1 truncate">{agent.persona}</p>
+            )}
+            <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+              <span>
+                {agent.permissionIds
+                  ? `${agent.permissionIds.length} permission${agent.permissionIds.length === 1 ? '' : 's'}`
+                  : 'All permissions'}
+              </span>
+              <button
+                onClick={(event) => {
+                  event.stopPropagation();
+                  togglePaused(agent);
+                }}
+                className="text-primary-600 hover:underline"
+              >
+                {agent.paused ? 'Resume' : 'Pause'}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isCreating && (
+        <div className="mt-4 p-4 bg-gray-50 rounded-lg space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="DCA bot"
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Persona (optional)</label>
+            <textarea
+              value={persona}
+              onChange={(e) => setPersona(e.target.value)}
+              placeholder="A patient dollar-cost averager: prefers small regular buys and skips runs when gas is expensive"
+              className="input"
+              rows={2}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Permissions it may use</label>
+            {activePermissions.length === 0 ? (
+              <p className="text-sm text-gray-500">No active permissions. Create one first.</p>
+            ) : (
+              <div className="space-y-1">
+                {activePermissions.map(permission => (
+                  <label key={permission.id} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={permissionIds.indexOf(permission.id) !== -1}
+                      onChange={() => togglePermission(permission.id)}
+                      className="rounded"
+                    />
+                    <span className="font-mono text-xs">{permission.id}</span>
+                    <span className="text-gray-500">up to {permission.maxSpendAmount}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button onClick={handleCreate} className="btn-primary text-sm">
+            Create Agent
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * Backtest Panel - Replay a command against historical market data
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { AgentIntent } from '@/services/agent/AgentExecutor';
+import { PacingMode } from '@/services/agent/BudgetPacer';
+import {
+  BacktestReport,
+  BacktestStage,
+  MarketSample,
+  alignPermissionWindow,
+  fetchChainMarketSeries,
+  parseMarketSeries,
+  runBacktest,
+} from '@/services/agent/Backtester';
+import { ERC7715Permission } from '@/types/permissions';
+import { NETWORK_CONFIG } from '@/lib/constants';
+
+const STAGE_LABELS: Record<BacktestStage, string> = {
+  permission: 'Permission bounds and rate limits',
+  balance: 'Insufficient balance',
+  gas_ceiling: 'Gas ceiling',
+  decision: 'Policy or agent decision',
+};
+
+interface BacktestPanelProps {
+  intent: AgentIntent;
+  permission: ERC7715Permission;
+  pacing?: PacingMode;
+  spentAmount: string;
+}
+
+/**
+ * Load a market series and show what the command would have done over it; nothing is sent
+ */
+export function BacktestPanel({ intent, permission, pacing, spentAmount }: BacktestPanelProps) {
+  const [series, setSeries] = useState<MarketSample[] | null>(null);
+  const [seriesSource, setSeriesSource] = useState('');
+  const [startingBalance, setStartingBalance] = useState(permission.maxSpendAmount);
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFile = async (file: File) => {
+    try {
+      setSeries(parseMarketSeries(await file.text()));
+      setSeriesSource(file.name);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const loadFromChain = async () => {
+    setIsRunning(true);
+    try {
+      setSeries(await fetchChainMarketSeries(process.env.NEXT_PUBLIC_RPC_URL || NETWORK_CONFIG[84532].rpcUrl));
+      setSeriesSource('chain fee history (no prices)');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the chain');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!series) {
+      return;
+    }
+    setIsRunning(true);
+    try {
+      setReport(await runBacktest({
+        intent,
+        permission: alignPermissionWindow(permission, series[0].timestamp),
+        series,
+        startingBalance,
+        spentAmount,
+        pacing,
+      }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Backtest failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-lg space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-800">📈 Backtest</h4>
+        <p className="text-xs text-gray-600">
+          Replays the command&apos;s schedule or trigger over historical market data, with this permission granted at the first sample.
+          Decisions come from the permission&apos;s policy; nothing is sent.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label className="btn-secondary text-sm cursor-pointer">
+          ⬆ Market data (CSV or JSON)
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                loadFile(file);
+              }
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button type="button" onClick={loadFromChain} disabled={isRunning} className="btn-secondary text-sm">
+          ⛓️ Load from Chain
+        </button>
+        {series && (
+          <span className="text-xs text-gray-600">
+            {series.length} samples from {seriesSource}, {series[0].timestamp.toLocaleDateString()} to {series[series.length - 1].timestamp.toLocaleDateString()}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Columns: timestamp, gasPrice (gwei), tokenPrice (USD, optional), networkCongestion (optional)
+      </p>
+
+      <div className="flex items-center gap-2 text-sm">
+        <span>Starting balance</span>
+        <input
+          type="number"
+          min="0"
+          step="0.000001"
+          className="input w-32"
+          value={startingBalance}
+          onChange={(e) => setStartingBalance(e.target.value)}
+        />
+        <button type="button" onClick={handleRun} disabled={!series || isRunning} className="btn-primary text-sm">
+          {isRunning ? 'Running...' : 'Run Backtest'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {report && (
+        <div className="space-y-2 text-sm">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <div className="p-2 bg-white rounded border">
+              <div className="text-xs text-gray-500">Executions</div>
+              <div className="font-semibold">{report.executed} of {report.runs.length}</div>
+            </div>
+            <div className="p-2 bg-white rounded border">
+              <div className="text-xs text-gray-500">Total spend</div>
+              <div className="font-semibold">{report.totalSpent}</div>
+            </div>
+            <div className="p-2 bg-white rounded border">
+              <div className="text-xs text-gray-500">Ending balance</div>
+              <div className="font-semibold">{report.endingBalance}</div>
+            </div>
+            <div className="p-2 bg-white rounded border">
+              <div className="text-xs text-gray-500">Allowance exhausted</div>
+              <div className="font-semibold">
+                {report.allowanceExhaustedAt ? report.allowanceExhaustedAt.toLocaleString() : `No (${report.remainingAllowance} left)`}
+              </div>
+            </div>
+          </div>
+
+          {report.blocked > 0 && (
+            <ul className="text-xs text-gray-700">
+              {(Object.keys(report.blockedBy) as BacktestStage[])
+                .filter(stage => report.blockedBy[stage] > 0)
+                .map(stage => (
+                  <li key={stage}>• {report.blockedBy[stage]} blocked by {STAGE_LABELS[stage].toLowerCase()}</li>
+                ))}
+            </ul>
+          )}
+          {report.truncated && (
+            <p className="text-xs text-yellow-700">Stopped after {report.runs.length} runs; shorten the series to see the rest.</p>
+          )}
+
+          <div className="max-h-64 overflow-y-auto border rounded bg-white">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-100 sticky top-0">
+                <tr>
+                  <th className="text-left p-1">When</th>
+                  <th className="text-left p-1">Result</th>
+                  <th className="text-right p-1">Amount</th>
+                  <th className="text-right p-1">Gas</th>
+                  <th className="text-right p-1">Balance</th>
+                  <th className="text-left p-1">Why</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.runs.map((run, index) => (
+                  <tr key={index} className="border-t">
+                    <td className="p-1 whitespace-nowrap">{run.at.toLocaleString()}</td>
+                    <td className={`p-1 ${run.status === 'executed' ? 'text-green-700' : 'text-red-700'}`}>
+                      {run.status === 'executed' ? '✅ Executed' : '🚫 Blocked'}
+                    </td>
+                    <td className="p-1 text-right">{run.amount}</td>
+                    <td className="p-1 text-right">{run.market.gasPrice}</td>
+                    <td className="p-1 text-right">{run.balanceAfter}</td>
+                    <td className="p-1 text-gray-600 truncate max-w-xs" title={run.explanation}>{run.explanation}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+/**
+ * Strategy Template Picker - Start a permission and agent command from a template
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+  StrategyDraft,
+  StrategyTemplate,
+  StrategyTemplateLibrary,
+  applyTemplate,
+  defaultTemplateValues,
+} from '@/services/agent/StrategyTemplates';
+
+interface StrategyTemplatePickerProps {
+  library: StrategyTemplateLibrary;
+  onApply: (draft: StrategyDraft) => void;
+  className?: string;
+}
+
+/**
+ * Pick a template, fill in its parameters and hand the draft on; import and export template files
+ */
+export function StrategyTemplatePicker({ library, onApply, className = '' }: StrategyTemplatePickerProps) {
+  const [templates, setTemplates] = useState<StrategyTemplate[]>(library.listTemplates());
+  const [selected, setSelected] = useState<StrategyTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const selectTemplate = (template: StrategyTemplate) => {
+    setSelected(template);
+    setValues(defaultTemplateValues(template));
+    setError(null);
+  };
+
+  const handleApply = () => {
+    if (!selected) {
+      return;
+    }
+    try {
+      onApply(applyTemplate(selected, values));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not apply the template');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = library.importFile(await file.text());
+      setTemplates(library.listTemplates());
+      alert(`📥 Imported ${imported.map(template => template.name).join(', ')}`);
+    } catch (err) {
+      alert(`❌ ${err instanceof Error ? err.message : 'Could not import the file'}`);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    library.removeTemplate(id);
+    setTemplates(library.listTemplates());
+    if (selected?.id === id) {
+      setSelected(null);
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([library.exportFile()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `metapilot-strategy-templates-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={`card ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-lg font-semibold">📋 Strategy Templates</h3>
+          <p className="text-sm text-gray-600">Start from a proven strategy: it fills in the permission below and the agent command</p>
+        </div>
+        <div className="flex space-x-2">
+          <label className="btn-secondary text-sm cursor-pointer">
+            ⬆ Import
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  handleImport(file);
+                }
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button onClick={handleExport} className="btn-secondary text-sm">
+            ⬇ Export
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        {templates.map(template => (
+          <div
+            key={template.id}
+            onClick={() => selectTemplate(template)}
+            className={`p-3 border rounded-lg cursor-pointer ${
+              template.id === selected?.id ? 'border-primary-500 bg-primary-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{template.name}</span>
+              {library.isImported(template.id) && (
+                <button
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    handleRemove(template.id);
+                  }}
+                  className="text-xs text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-600 mt-1">{template.description}</p>
+          </div>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="mt-4 p-4 bg-gray-50 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {selected.parameters.map(parameter => (
+              <div key={parameter.key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{parameter.label}</label>
+                {parameter.type === 'choice' ? (
+                  <select
+                    className="input w-full"
+                    value={values[parameter.key] || ''}
+                    onChange={(e) => setValues(prev => ({ ...prev, [parameter.key]: e.target.value }))}
+                  >
+                    {(parameter.options || []).map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    className={`input w-full ${parameter.type === 'address' ? 'font-mono text-xs' : ''}`}
+                    placeholder={parameter.type === 'address' ? '0x...' : parameter.type === 'token' ? 'usdc, weth, eth or 0x...' : ''}
+                    value={values[parameter.key] || ''}
+                    onChange={(e) => setValues(prev => ({ ...prev, [parameter.key]: e.target.value }))}
+                  />
+                )}
+                {parameter.hint && <p className="text-xs text-gray-500 mt-1">{parameter.hint}</p>}
+              </div>
+            ))}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button onClick={handleApply} className="btn-primary text-sm">
+            Use Template
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
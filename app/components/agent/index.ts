@@ -2,4 +2,7 @@
  * Agent components exports
  */
 
-export { AgentIntentInput } from './AgentIntentInput';
\ No newline at end of file
+export { AgentIntentInput } from './AgentIntentInput';
+export { AgentRoster } from './AgentRoster';
+export { StrategyTemplatePicker } from './StrategyTemplatePicker';
+export { BacktestPanel } from './BacktestPanel';
@@ -5,9 +5,26 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { debounceTime } from 'rxjs/operators';
 import { PermissionManager } from '@/services/permissions/PermissionManager';
-import { AgentExecutor, AgentExecution, AgentIntent } from '@/services/agent/AgentExecutor';
-import { ERC7715Permission, SpendTracking } from '@/types/permissions';
+import { AgentExecutor, AgentExecution, AgentIntent, ExecutionAttempt, ExecutionSimulation, MarketContext, PlanStepResult, ScheduleOccurrence } from '@/services/agent/AgentExecutor';
+import type { LLMExchange } from '@/services/agent/LLMProvider';
+import type { ApprovalPolicy } from '@/services/agent/ApprovalPolicy';
+import { MARKET_DATA_FIELDS } from '@/services/agent/MarketDataProvider';
+import { describeSchedule } from '@/services/agent/ScheduleCalculator';
+import { PACING_LABELS, SchedulePacingReport, SpendPoint } from '@/services/agent/BudgetPacer';
+import { describeTriggerCondition } from '@/services/agent/TriggerWatcher';
+import { LLMDecisionMaker } from '@/services/agent/DecisionMaker';
+import { createLLMProvider } from '@/services/agent/LLMProvider';
+import { DecisionReplayReport, replayDecisions } from '@/services/agent/DecisionReplay';
+import { parsePolicyText } from '@/services/permissions/PolicyEngine';
+import { RATE_LIMIT_LABELS, formatDuration } from '@/services/permissions/RateLimiter';
+import { describePeriod, getPeriodStatus } from '@/services/permissions/PeriodicAllowance';
+import { AGENT_EVENT_LABELS, AgentEvent } from '@/services/events/AgentEventBus';
+import { TOKEN_REGISTRY, UI_CONFIG } from '@/lib/constants';
+import { ERC7715Permission, SpendTracking, VelocityCap } from '@/types/permissions';
+import { ScheduledJob } from '@/types/scheduler';
+import { RuleVerdict } from '@/types/policy';
 
 interface TrustDashboardProps {
   permissionManager: PermissionManager;
@@ -29,7 +46,7 @@ interface TrustDashboardProps {
   className?: string;
 }
 
-type TabType = 'overview' | 'permissions' | 'activity' | 'executions' | 'schedules' | 'debug';
+type TabType = 'overview' | 'permissions' | 'approvals' | 'activity' | 'executions' | 'schedules' | 'debug';
 
 /**
  * Trust Dashboard for monitoring agent activity and permissions
@@ -46,9 +63,15 @@ export function TrustDashboard({
   const [activeTab, setActiveTab] = useState<TabType>('overview');
   const [permissions, setPermissions] = useState<ERC7715Permission[]>([]);
   const [executions, setExecutions] = useState<AgentExecution[]>([]);
-  const [schedules, setSchedules] = useState<Array<{ id: string; intent: AgentIntent; nextExecution: Date }>>([]);
+  const [pendingApprovals, setPendingApprovals] = useState<AgentExecution[]>([]);
+  const [schedules, setSchedules] = useState<Array<{ id: string; intent: AgentIntent; nextExecution: Date; isRunning: boolean }>>([]);
+  const [schedulePacing, setSchedulePacing] = useState<Record<string, SchedulePacingReport>>({});
+  const [triggers, setTriggers] = useState<Array<{ id: string; intent: AgentIntent }>>([]);
+  const [isWatcherRunning, setIsWatcherRunning] = useState(false);
+  const [serverJobs, setServerJobs] = useState<ScheduledJob[]>([]);
   const [spendTracking, setSpendTracking] = useState<Map<string, SpendTracking>>(new Map());
   const [debugInfo, setDebugInfo] = useState<any>(null);
+  const [recentEvents, setRecentEvents] = useState<AgentEvent[]>([]);
 
   // Refresh data
   const refreshData = () => {
@@ -58,15 +81,34 @@ export function TrustDashboard({
     setPermissions(allPermissions);
     console.log('📋 Loaded permissions:', allPermissions.length);
     
+    // Expire unanswered approvals before reading executions
+    setPendingApprovals(agentExecutor.getPendingApprovals());
+
     const allExecutions = agentExecutor.getExecutions();
     setExecutions(allExecutions);
     console.log('⚡ Loaded executions:', allExecutions.length);
 
     const activeSchedules = agentExecutor.getActiveSchedules();
     setSchedules(activeSchedules);
+
+    const pacing: Record<string, SchedulePacingReport> = {};
+    activeSchedules.forEach(schedule => {
+      const report = agentExecutor.getSchedulePacing(schedule.id);
+      if (report) {
+        pacing[schedule.id] = report;
+      }
+    });
+    setSchedulePacing(pacing);
     console.log('⏰ Loaded schedules:', activeSchedules.length);
     console.log('⏰ Schedule details:', activeSchedules);
 
+    setTriggers(agentExecutor.getActiveTriggers());
+    setIsWatcherRunning(agentExecutor.isTriggerWatcherRunning());
+
+    agentExecutor.listServerJobs()
+      .then(setServerJobs)
+      .catch(error => console.warn('⚠️ Could not load server scheduler jobs:', error));
+
     // Get debug info for schedules
     const debug = agentExecutor.getScheduleDebugInfo();
     setDebugInfo(debug);
@@ -85,10 +127,19 @@ export function TrustDashboard({
 
   useEffect(() => {
     refreshData();
-    
-    // Refresh every 10 seconds
-    const interval = setInterval(refreshData, 10000);
-    return () => clearInterval(interval);
+
+    // Changes made in this tab arrive as events; bursts refresh once
+    const events = agentExecutor.getEventBus().events$;
+    const feed = events.subscribe(event => setRecentEvents(previous => [event].concat(previous).slice(0, 20)));
+    const updates = events.pipe(debounceTime(UI_CONFIG.DEBOUNCE_DELAY_MS)).subscribe(refreshData);
+
+    // Server jobs and expiring approvals change without an event here
+    const interval = setInterval(refreshData, 60000);
+    return () => {
+      feed.unsubscribe();
+      updates.unsubscribe();
+      clearInterval(interval);
+    };
   }, [permissionManager, agentExecutor]);
 
   const getSystemStatus = () => {
@@ -188,6 +239,7 @@ export function TrustDashboard({
         {[
           { id: 'overview', label: '📊 Overview' },
           { id: 'permissions', label: '🔐 Permissions' },
+          { id: 'approvals', label: `✋ Approvals${pendingApprovals.length > 0 ? ` (${pendingApprovals.length})` : ''}` },
           { id: 'schedules', label: '⏰ Schedules' },
           { id: 'activity', label: '📈 Activity' },
           { id: 'executions', label: '⚡ Executions' },
@@ -221,8 +273,88 @@ export function TrustDashboard({
         <PermissionsTab 
           permissions={permissions} 
           spendTracking={spendTracking}
+          velocityCaps={permissionManager.getVelocityCaps()}
           onRevoke={(id) => {
-            permissionManager.revokePermission(id).then(refreshData);
+            permissionManager.revokePermission(id)
+              .catch(error => alert(`❌ ${error instanceof Error ? error.message : 'Revocation failed'}`))
+              .then(refreshData);
+          }}
+          onSaveVelocityCap={(cap) => {
+            try {
+              permissionManager.setVelocityCap(cap);
+              alert('✅ Spend caps saved');
+            } catch (error) {
+              alert(`❌ ${error instanceof Error ? error.message : 'Invalid spend caps'}`);
+            }
+            refreshData();
+          }}
+        />
+      )}
+
+      {activeTab === 'approvals' && (
+        <ApprovalsTab
+          pending={pendingApprovals}
+          policy={agentExecutor.getApprovalPolicy()}
+          onApprove={async (id) => {
+            try {
+              const execution = await agentExecutor.approveExecution(id);
+              alert(`${execution.status === 'executed' ? '🎉' : '⚠️'} ${execution.explanation}`);
+            } catch (error) {
+              alert(`❌ Approval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+            refreshData();
+          }}
+          onReject={(id) => {
+            try {
+              agentExecutor.rejectExecution(id);
+            } catch (error) {
+              alert(`❌ Rejection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+            refreshData();
+          }}
+          onSavePolicy={(policy) => {
+            try {
+              agentExecutor.setApprovalPolicy(policy);
+              alert('✅ Approval policy saved');
+            } catch (error) {
+              alert(`❌ ${error instanceof Error ? error.message : 'Invalid approval policy'}`);
+            }
+            refreshData();
+          }}
+        />
+      )}
+
+      {activeTab === 'schedules' && (
+        <ServerJobsSection
+          jobs={serverJobs}
+          onJobAction={async (id, action) => {
+            try {
+              if (action === 'pause') {
+                await agentExecutor.pauseServerJob(id);
+              } else if (action === 'resume') {
+                await agentExecutor.resumeServerJob(id);
+              } else {
+                await agentExecutor.deleteServerJob(id);
+              }
+            } catch (error) {
+              alert(`❌ Failed to ${action} job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+            refreshData();
+          }}
+        />
+      )}
+
+      {activeTab === 'schedules' && (
+        <TriggersSection
+          triggers={triggers}
+          isWatcherRunning={isWatcherRunning}
+          onStartWatcher={() => {
+            agentExecutor.startTriggerWatcher();
+            refreshData();
+          }}
+          onStopTrigger={(id) => {
+            agentExecutor.stopTrigger(id);
+            refreshData();
           }}
         />
       )}
@@ -230,7 +362,12 @@ export function TrustDashboard({
       {activeTab === 'schedules' && (
         <SchedulesTab 
           schedules={schedules}
+          pacing={schedulePacing}
           permissionManager={permissionManager}
+          onResumeSchedules={() => {
+            agentExecutor.resumeSchedules();
+            refreshData();
+          }}
           onStopSchedule={(id) => {
             console.log('🛑 TrustDashboard: Stopping schedule:', id);
             const success = agentExecutor.stopSchedule(id);
@@ -249,11 +386,11 @@ export function TrustDashboard({
       )}
       
       {activeTab === 'executions' && (
-        <ExecutionsTab executions={executions} />
+        <ExecutionsTab executions={executions} agentExecutor={agentExecutor} />
       )}
 
       {activeTab === 'debug' && (
-        <DebugTab debugInfo={debugInfo} onRefresh={refreshData} />
+        <DebugTab debugInfo={debugInfo} events={recentEvents} onRefresh={refreshData} />
       )}
     </div>
   );
@@ -319,7 +456,7 @@ function OverviewTab({
                 <div>
                   <div className="font-medium">{schedule.intent.description}</div>
                   <div className="text-sm text-gray-600">
-                    {schedule.intent.schedule?.frequency} • Amount: {schedule.intent.amount}
+                    {schedule.intent.schedule && describeSchedule(schedule.intent.schedule)} • Amount: {schedule.intent.amount}
                   </div>
                 </div>
                 <div className="text-right text-sm">
@@ -351,6 +488,8 @@ function OverviewTab({
                     execution.status === 'executed' ? 'bg-green-500' :
                     execution.status === 'failed' ? 'bg-red-500' :
                     execution.status === 'blocked' ? 'bg-yellow-500' :
+                    execution.status === 'simulated' ? 'bg-purple-500' :
+                    execution.status === 'awaiting_approval' ? 'bg-orange-500' :
                     'bg-gray-500'
                   }`} />
                   <div>
@@ -378,18 +517,79 @@ function OverviewTab({
   );
 }
 
+// Symbol of a registered token, or its address
+function describeToken(tokenAddress: string): string {
+  const token = TOKEN_REGISTRY.find(candidate => candidate.address.toLowerCase() === tokenAddress.toLowerCase());
+  return token ? token.symbol.toUpperCase() : tokenAddress;
+}
+
 // Permissions Tab Component
 function PermissionsTab({ 
   permissions, 
   spendTracking,
-  onRevoke 
+  velocityCaps,
+  onRevoke,
+  onSaveVelocityCap,
 }: { 
   permissions: ERC7715Permission[];
   spendTracking: Map<string, SpendTracking>;
+  velocityCaps: VelocityCap[];
   onRevoke: (id: string) => void;
+  onSaveVelocityCap: (cap: VelocityCap) => void;
 }) {
+  const draftFor = (tokenAddress: string) => {
+    const cap = velocityCaps.find(existing => existing.tokenAddress.toLowerCase() === tokenAddress.toLowerCase());
+    return { tokenAddress, dailyLimit: cap?.dailyLimit || '', weeklyLimit: cap?.weeklyLimit || '' };
+  };
+  const [capDraft, setCapDraft] = useState(() => draftFor(permissions[0]?.tokenAddress || TOKEN_REGISTRY[0].address));
+
   return (
     <div className="space-y-4">
+      <div className="card">
+        <h3 className="text-lg font-semibold mb-1">Account Spend Caps</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Total agent spend of a token across all permissions for it, in that token. Runs that would pass a cap are blocked before the agent decides. Leave both empty to remove a token's cap.
+        </p>
+        {velocityCaps.length > 0 && (
+          <ul className="text-sm text-gray-700 mb-3 space-y-1">
+            {velocityCaps.map(cap => (
+              <li key={cap.tokenAddress}>
+                <span className="font-medium">{describeToken(cap.tokenAddress)}</span>:{' '}
+                {[cap.dailyLimit && `${cap.dailyLimit} per 24 hours`, cap.weeklyLimit && `${cap.weeklyLimit} per 7 days`].filter(Boolean).join(', ')}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+          <label className="flex items-center space-x-2">
+            <span className="w-16">Token</span>
+            <select className="input flex-1" value={capDraft.tokenAddress} onChange={(e) => setCapDraft(draftFor(e.target.value))}>
+              {TOKEN_REGISTRY.map(token => (
+                <option key={token.address} value={token.address}>{token.symbol.toUpperCase()}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center space-x-2">
+            <span className="w-40">Per 24 hours</span>
+            <input type="number" min="0" className="input flex-1" placeholder="no cap" value={capDraft.dailyLimit} onChange={(e) => setCapDraft(prev => ({ ...prev, dailyLimit: e.target.value }))} />
+          </label>
+          <label className="flex items-center space-x-2">
+            <span className="w-40">Per 7 days</span>
+            <input type="number" min="0" className="input flex-1" placeholder="no cap" value={capDraft.weeklyLimit} onChange={(e) => setCapDraft(prev => ({ ...prev, weeklyLimit: e.target.value }))} />
+          </label>
+        </div>
+        <button
+          onClick={() => onSaveVelocityCap({
+            tokenAddress: capDraft.tokenAddress,
+            dailyLimit: capDraft.dailyLimit === '' ? null : capDraft.dailyLimit,
+            weeklyLimit: capDraft.weeklyLimit === '' ? null : capDraft.weeklyLimit,
+          })}
+          className="btn-primary mt-4"
+        >
+          Save Caps
+        </button>
+      </div>
+
       {permissions.length === 0 ? (
         <div className="card text-center py-8">
           <p className="text-gray-500">No permissions created yet</p>
@@ -399,6 +599,7 @@ function PermissionsTab({
           const tracking = spendTracking.get(permission.id);
           const spentPercentage = tracking ? 
             (parseFloat(tracking.totalSpent) / parseFloat(permission.maxSpendAmount)) * 100 : 0;
+          const period = permission.status === 'active' ? getPeriodStatus(permission, tracking?.periodSpend) : null;
 
           return (
             <div key={permission.id} className="card">
@@ -437,6 +638,27 @@ function PermissionsTab({
                       <div className="font-medium">Allowed Contracts</div>
                       <div className="text-gray-600">{permission.allowedContracts.length} contracts</div>
                     </div>
+                    {permission.rateLimit && (
+                      <div>
+                        <div className="font-medium">Rate Limits</div>
+                        <div className="text-gray-600">
+                          {[
+                            permission.rateLimit.maxExecutions && permission.rateLimit.windowMs
+                              ? `${permission.rateLimit.maxExecutions} per ${formatDuration(permission.rateLimit.windowMs)}`
+                              : null,
+                            permission.rateLimit.minSpacingMs
+                              ? `${formatDuration(permission.rateLimit.minSpacingMs)} apart`
+                              : null,
+                          ].filter(Boolean).join(' • ')}
+                        </div>
+                      </div>
+                    )}
+                    {permission.period && (
+                      <div>
+                        <div className="font-medium">Periodic Allowance</div>
+                        <div className="text-gray-600">{describePeriod(permission.period)}</div>
+                      </div>
+                    )}
                   </div>
 
                   {tracking && (
@@ -453,14 +675,34 @@ function PermissionsTab({
                       </div>
                     </div>
                   )}
+
+                  {period && (
+                    <div className="mt-3">
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>This Period</span>
+                        <span>{period.spent} / {period.amount}</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-blue-500 h-2 rounded-full"
+                          style={{ width: `${Math.min((parseFloat(period.spent) / parseFloat(period.amount)) * 100, 100)}%` }}
+                        />
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        {period.remaining} left{' '}
+                        {period.resetsAt ? `until it resets at ${period.resetsAt.toLocaleString()}` : 'until the permission ends'}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
-                {permission.status === 'active' && (
+                {(permission.status === 'active' || permission.status === 'revoked') && (
                   <button
                     onClick={() => onRevoke(permission.id)}
                     className="ml-4 px-3 py-1 text-sm text-red-600 hover:text-red-800 border border-red-300 rounded hover:bg-red-50"
+                    title={permission.status === 'revoked' ? 'Revoke the permission on the server scheduler again, stopping its server jobs' : undefined}
                   >
-                    Revoke
+                    {permission.status === 'revoked' ? 'Revoke on Server' : 'Revoke'}
                   </button>
                 )}
               </div>
@@ -488,6 +730,8 @@ function ActivityTab({ executions }: { executions: AgentExecution[] }) {
                 execution.status === 'executed' ? 'bg-green-500' :
                 execution.status === 'failed' ? 'bg-red-500' :
                 execution.status === 'blocked' ? 'bg-yellow-500' :
+                execution.status === 'simulated' ? 'bg-purple-500' :
+                execution.status === 'awaiting_approval' ? 'bg-orange-500' :
                 'bg-gray-500'
               }`} />
               
@@ -530,9 +774,130 @@ function ActivityTab({ executions }: { executions: AgentExecution[] }) {
   );
 }
 
+// Decisions waiting for the user, and the policy that sends them here
+function ApprovalsTab({
+  pending,
+  policy,
+  onApprove,
+  onReject,
+  onSavePolicy,
+}: {
+  pending: AgentExecution[];
+  policy: ApprovalPolicy;
+  onApprove: (id: string) => void;
+  onReject: (id: string) => void;
+  onSavePolicy: (policy: ApprovalPolicy) => void;
+}) {
+  const [draft, setDraft] = useState({
+    enabled: policy.enabled,
+    minConfidence: policy.minConfidence === null ? '' : String(policy.minConfidence),
+    maxAmount: policy.maxAmount || '',
+    newRecipients: policy.newRecipients,
+    newContracts: policy.newContracts,
+    expiresAfterHours: String(policy.expiresAfterMs / (60 * 60 * 1000)),
+  });
+
+  return (
+    <div className="space-y-4">
+      {pending.length === 0 ? (
+        <div className="card text-center py-8">
+          <p className="text-gray-500">No decisions are waiting for approval</p>
+        </div>
+      ) : (
+        pending.map(execution => (
+          <div key={execution.id} className="card border-l-4 border-orange-400">
+            <div className="flex items-start justify-between">
+              <div>
+                <div className="font-medium">{execution.intent.description}</div>
+                <div className="text-sm text-gray-600">
+                  {execution.intent.action?.type || 'transfer'} {execution.intent.amount} • {execution.intent.contractAddress}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  Requested {execution.approval?.requestedAt.toLocaleString()} • expires {execution.approval?.expiresAt.toLocaleString()}
+                </div>
+              </div>
+              <div className="flex space-x-2">
+                <button onClick={() => onApprove(execution.id)} className="btn-primary text-sm">
+                  Approve
+                </button>
+                <button onClick={() => onReject(execution.id)} className="btn-secondary text-sm">
+                  Reject
+                </button>
+              </div>
+            </div>
+            <ul className="mt-3 text-sm text-orange-700 list-disc list-inside">
+              {execution.approval?.reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+            <div className="mt-3 p-3 bg-blue-50 rounded text-sm">
+              <strong>AI Reasoning ({execution.decision.confidence}% confident):</strong> {execution.decision.reasoning}
+            </div>
+            {execution.plan && (
+              <PlanStepsDetails source={execution.plan.source} steps={execution.plan.steps} />
+            )}
+          </div>
+        ))
+      )}
+
+      <div className="card">
+        <h3 className="text-lg font-semibold mb-3">Approval Policy</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={draft.enabled} onChange={(e) => setDraft(prev => ({ ...prev, enabled: e.target.checked }))} />
+            <span>Ask before executing when a rule below matches</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={draft.newRecipients} onChange={(e) => setDraft(prev => ({ ...prev, newRecipients: e.target.checked }))} />
+            <span>First transfer to a recipient</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <span className="w-40">Confidence below (%)</span>
+            <input type="number" min="0" max="100" className="input flex-1" placeholder="off" value={draft.minConfidence} onChange={(e) => setDraft(prev => ({ ...prev, minConfidence: e.target.value }))} />
+          </label>
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={draft.newContracts} onChange={(e) => setDraft(prev => ({ ...prev, newContracts: e.target.checked }))} />
+            <span>First call to a contract</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <span className="w-40">Amount above</span>
+            <input type="number" min="0" className="input flex-1" placeholder="off" value={draft.maxAmount} onChange={(e) => setDraft(prev => ({ ...prev, maxAmount: e.target.value }))} />
+          </label>
+          <label className="flex items-center space-x-2">
+            <span className="w-40">Expire after (hours)</span>
+            <input type="number" min="1" className="input flex-1" value={draft.expiresAfterHours} onChange={(e) => setDraft(prev => ({ ...prev, expiresAfterHours: e.target.value }))} />
+          </label>
+        </div>
+        <button
+          onClick={() => onSavePolicy({
+            enabled: draft.enabled,
+            minConfidence: draft.minConfidence === '' ? null : parseFloat(draft.minConfidence),
+            maxAmount: draft.maxAmount === '' ? null : draft.maxAmount,
+            newRecipients: draft.newRecipients,
+            newContracts: draft.newContracts,
+            expiresAfterMs: parseFloat(draft.expiresAfterHours) * 60 * 60 * 1000,
+          })}
+          className="btn-primary mt-4"
+        >
+          Save Policy
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Save exported executions as a JSON file
+function downloadExport(content: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 // Executions Tab Component
-function ExecutionsTab({ executions }: { executions: AgentExecution[] }) {
+function ExecutionsTab({ executions, agentExecutor }: { executions: AgentExecution[]; agentExecutor: AgentExecutor }) {
   const [filter, setFilter] = useState<AgentExecution['status'] | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   
   const filteredExecutions = filter === 'all' 
     ? executions 
@@ -542,7 +907,17 @@ function ExecutionsTab({ executions }: { executions: AgentExecution[] }) {
     <div className="space-y-4">
       {/* Filter */}
       <div className="flex space-x-2">
-        {['all', 'executed', 'failed', 'blocked', 'pending'].map(status => (
+        <button
+          onClick={() => downloadExport(
+            agentExecutor.exportExecutions(filteredExecutions.map(e => e.id)),
+            `metapilot-executions-${new Date().toISOString().slice(0, 10)}.json`
+          )}
+          disabled={filteredExecutions.length === 0}
+          className="px-3 py-1 rounded text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 order-last ml-auto"
+        >
+          ⬇ Export {filteredExecutions.length}
+        </button>
+        {['all', 'executed', 'scheduled', 'awaiting_approval', 'failed', 'blocked', 'simulated', 'pending'].map(status => (
           <button
             key={status}
             onClick={() => setFilter(status as any)}
@@ -552,11 +927,13 @@ function ExecutionsTab({ executions }: { executions: AgentExecution[] }) {
                 : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
             }`}
           >
-            {status.charAt(0).toUpperCase() + status.slice(1)}
+            {status === 'awaiting_approval' ? 'Awaiting approval' : status.charAt(0).toUpperCase() + status.slice(1)}
           </button>
         ))}
       </div>
 
+      <DecisionReplaySection executions={filteredExecutions} />
+
       {/* Executions List */}
       {filteredExecutions.length === 0 ? (
         <div className="card text-center py-8">
@@ -581,9 +958,11 @@ function ExecutionsTab({ executions }: { executions: AgentExecution[] }) {
                       execution.status === 'executed' ? 'text-green-600' :
                       execution.status === 'failed' ? 'text-red-600' :
                       execution.status === 'blocked' ? 'text-yellow-600' :
+                      execution.status === 'simulated' ? 'text-purple-600' :
+                      execution.status === 'awaiting_approval' ? 'text-orange-600' :
                       'text-gray-600'
                     }`}>
-                      {execution.status}
+                      {execution.status.replace('_', ' ')}
                     </span>
                   </div>
                 </div>
@@ -593,6 +972,22 @@ function ExecutionsTab({ executions }: { executions: AgentExecution[] }) {
                       <span className="font-medium">Confidence:</span> {execution.decision.confidence}%
                     </div>
                   )}
+                  {execution.decision.source && (
+                    <div className="text-sm">
+                      <span className="font-medium">Decided by:</span>{' '}
+                      {execution.decision.source === 'llm' ? 'LLM' :
+                       execution.decision.source === 'llm_repaired' ? `LLM (repaired after ${execution.decision.repairAttempts} retr${execution.decision.repairAttempts === 1 ? 'y' : 'ies'})` :
+                       execution.decision.source === 'policy' ? 'Permission policy' :
+                       execution.decision.source === 'prompt_guard' ? 'Prompt guard' :
+                       'Rule-based fallback'}
+                    </div>
+                  )}
+                  {execution.decision.llmUsage && (
+                    <div className="text-sm">
+                      <span className="font-medium">Model:</span>{' '}
+                      {execution.decision.llmUsage.provider} • {execution.decision.llmUsage.model} • {execution.decision.llmUsage.totalTokens} tokens
+                    </div>
+                  )}
                   {execution.gasUsed && (
                     <div className="text-sm">
                       <span className="font-medium">Gas:</span> {execution.gasUsed}
@@ -606,6 +1001,52 @@ function ExecutionsTab({ executions }: { executions: AgentExecution[] }) {
                   <strong>AI Reasoning:</strong> {execution.decision.reasoning}
                 </div>
               )}
+
+              {execution.attempts && (execution.attempts.length > 1 || execution.attempts[0].outcome !== 'completed') && (
+                <AttemptsDetails attempts={execution.attempts} />
+              )}
+
+              {execution.rateLimit && (
+                <div className="mt-3 p-3 bg-red-50 rounded text-sm text-red-800">
+                  <strong>{RATE_LIMIT_LABELS[execution.rateLimit.limit]}:</strong> {execution.rateLimit.message}.
+                  {' '}Next allowed at {execution.rateLimit.retryAt.toLocaleString()}.
+                </div>
+              )}
+
+              {execution.decision.policyVerdicts && execution.decision.policyVerdicts.length > 0 && (
+                <PolicyVerdictsDetails verdicts={execution.decision.policyVerdicts} />
+              )}
+
+              {execution.simulation && (
+                <SimulationDetails simulation={execution.simulation} />
+              )}
+
+              {execution.plan && (
+                <PlanStepsDetails source={execution.plan.source} steps={execution.plan.steps} />
+              )}
+
+              {execution.marketContext && (
+                <MarketContextDetails marketContext={execution.marketContext} />
+              )}
+
+              <div className="mt-3 flex space-x-3 text-sm">
+                <button
+                  onClick={() => setExpandedId(expandedId === execution.id ? null : execution.id)}
+                  className="text-primary-600 hover:text-primary-800"
+                >
+                  {expandedId === execution.id ? '▾ Hide decision details' : '▸ Decision details'}
+                </button>
+                <button
+                  onClick={() => downloadExport(agentExecutor.exportExecutions([execution.id]), `metapilot-${execution.id}.json`)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  ⬇ Export
+                </button>
+              </div>
+
+              {expandedId === execution.id && (
+                <ProvenanceDetails execution={execution} />
+              )}
               
               {execution.transactionHash && (
                 <div className="mt-3 p-3 bg-green-50 rounded text-sm">
@@ -629,14 +1070,613 @@ function ExecutionsTab({ executions }: { executions: AgentExecution[] }) {
   );
 }
 
+// Re-run stored decisions through another model or policy and show what would change
+function DecisionReplaySection({ executions }: { executions: AgentExecution[] }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [policyText, setPolicyText] = useState('');
+  const [useLLM, setUseLLM] = useState(false);
+  const [model, setModel] = useState('');
+  const [report, setReport] = useState<DecisionReplayReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReplay = async () => {
+    setIsRunning(true);
+    try {
+      const policy = policyText.trim() ? parsePolicyText(policyText) : undefined;
+      const settings = model.trim() ? { models: { gaia: model.trim(), openai: model.trim() } } : {};
+      const provider = useLLM ? createLLMProvider(settings) : null;
+      if (useLLM && !provider) {
+        throw new Error('No LLM provider is configured');
+      }
+
+      setReport(await replayDecisions(executions, {
+        decisionMaker: new LLMDecisionMaker(provider, settings),
+        policy,
+        label: [useLLM ? `LLM${model.trim() ? ` (${model.trim()})` : ''}` : 'Policy only', policy ? 'new policy' : 'stored policies'].join(', '),
+      }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Replay failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button onClick={() => setIsOpen(true)} disabled={executions.length === 0} className="btn-secondary text-sm">
+        🔁 Replay Decisions
+      </button>
+    );
+  }
+
+  const flipped = report ? report.results.filter(result => result.flip) : [];
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h4 className="font-semibold">🔁 Decision Replay</h4>
+          <p className="text-sm text-gray-600">
+            Re-asks the {executions.length} listed execution{executions.length === 1 ? '' : 's'} with the market snapshot and permission they were decided on; nothing is sent
+          </p>
+        </div>
+        <button onClick={() => setIsOpen(false)} className="text-sm text-gray-500 hover:text-gray-700">
+          Close
+        </button>
+      </div>
+
+      <div className="space-y-3 text-sm">
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={useLLM} onChange={(e) => setUseLLM(e.target.checked)} className="rounded" />
+            <span>Ask the LLM</span>
+          </label>
+          <input
+            type="text"
+            className="input w-48"
+            placeholder="Model (provider default)"
+            value={model}
+            disabled={!useLLM}
+            onChange={(e) => setModel(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-gray-700 mb-1">Candidate policy (blank keeps each permission&apos;s own)</label>
+          <textarea
+            className="input w-full font-mono text-xs"
+            rows={3}
+            placeholder={'gasPrice < 30\nconfidence >= 80'}
+            value={policyText}
+            onChange={(e) => setPolicyText(e.target.value)}
+          />
+        </div>
+        <button onClick={handleReplay} disabled={isRunning || executions.length === 0} className="btn-primary text-sm">
+          {isRunning ? 'Replaying...' : 'Run Replay'}
+        </button>
+        {error && <p className="text-red-600">{error}</p>}
+      </div>
+
+      {report && (
+        <div className="mt-4 space-y-3 text-sm">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <div className="p-2 bg-gray-50 rounded border">
+              <div className="text-xs text-gray-500">Replayed</div>
+              <div className="font-semibold">{report.results.length} ({report.skipped.length} skipped)</div>
+            </div>
+            <div className="p-2 bg-gray-50 rounded border">
+              <div className="text-xs text-gray-500">Unchanged</div>
+              <div className="font-semibold">{report.unchanged}</div>
+            </div>
+            <div className="p-2 bg-red-50 rounded border">
+              <div className="text-xs text-gray-500">Would now execute</div>
+              <div className="font-semibold text-red-700">{report.flippedToExecute}</div>
+            </div>
+            <div className="p-2 bg-yellow-50 rounded border">
+              <div className="text-xs text-gray-500">Would now block</div>
+              <div className="font-semibold text-yellow-700">{report.flippedToBlock}</div>
+            </div>
+          </div>
+
+          {flipped.length > 0 && (
+            <div className="space-y-1">
+              {flipped.map(result => (
+                <div
+                  key={result.executionId}
+                  className={`p-2 rounded ${result.flip === 'now_executes' ? 'bg-red-50 text-red-800' : 'bg-yellow-50 text-yellow-800'}`}
+                >
+                  {result.flip === 'now_executes' ? '⚠️ Would execute, was blocked' : '🚫 Would block, was executed'}:{' '}
+                  {result.description} ({result.decidedAt.toLocaleString()}) — {result.decision.reasoning}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="max-h-64 overflow-y-auto border rounded">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-100 sticky top-0">
+                <tr>
+                  <th className="text-left p-1">Decided</th>
+                  <th className="text-left p-1">Intent</th>
+                  <th className="text-left p-1">Before</th>
+                  <th className="text-left p-1">{report.candidate}</th>
+                  <th className="text-right p-1">Confidence</th>
+                  <th className="text-left p-1">Risk</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.results.map(result => (
+                  <tr key={result.executionId} className={`border-t ${result.flip ? 'font-medium' : ''}`}>
+                    <td className="p-1 whitespace-nowrap">{result.decidedAt.toLocaleString()}</td>
+                    <td className="p-1 truncate max-w-xs" title={result.description}>{result.description}</td>
+                    <td className="p-1">{result.before.shouldExecute ? '✅ Execute' : '🚫 Block'}</td>
+                    <td className="p-1">{result.after.shouldExecute ? '✅ Execute' : '🚫 Block'}</td>
+                    <td className="p-1 text-right">
+                      {result.before.confidence}% → {result.after.confidence}%
+                      {result.confidenceDelta !== 0 && ` (${result.confidenceDelta > 0 ? '+' : ''}${result.confidenceDelta})`}
+                    </td>
+                    <td className={`p-1 truncate max-w-xs ${result.riskChanged ? 'text-orange-700' : 'text-gray-600'}`} title={result.after.riskAssessment}>
+                      {result.riskChanged ? `${result.before.riskAssessment} → ${result.after.riskAssessment}` : result.after.riskAssessment}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {report.skipped.length > 0 && (
+            <details className="text-xs text-gray-600">
+              <summary className="cursor-pointer">{report.skipped.length} not replayed</summary>
+              <ul className="mt-1 space-y-1">
+                {report.skipped.map(skip => (
+                  <li key={skip.executionId}>• {skip.description}: {skip.reason}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Everything the decision was based on: permission and spend state, prompts and raw replies
+function ProvenanceDetails({ execution }: { execution: AgentExecution }) {
+  const { decision, provenance } = execution;
+  const exchanges: LLMExchange[] = decision.llmExchanges || [];
+
+  return (
+    <div className="mt-3 p-3 border border-gray-200 rounded text-sm space-y-3">
+      {provenance ? (
+        <div>
+          <strong>Decided at:</strong> {provenance.decidedAt.toLocaleString()}
+          {provenance.permission ? (
+            <div className="mt-1 text-xs text-gray-600">
+              Permission {provenance.permission.id} ({provenance.permission.status}): up to {provenance.permission.maxSpendAmount} of{' '}
+              <span className="font-mono">{provenance.permission.tokenAddress}</span>, {provenance.permission.startTime.toLocaleString()} – {provenance.permission.endTime.toLocaleString()},{' '}
+              contracts {provenance.permission.allowedContracts.join(', ')}
+            </div>
+          ) : (
+            <div className="mt-1 text-xs text-gray-600">Permission not found at decision time</div>
+          )}
+          {provenance.spend && (
+            <div className="text-xs text-gray-600">
+              Spent {provenance.spend.totalSpent}, remaining {provenance.spend.remainingAllowance}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-gray-500">No provenance was recorded for this execution</div>
+      )}
+
+      {decision.llmError && (
+        <div className="text-red-600">
+          <strong>LLM error:</strong> {decision.llmError}
+        </div>
+      )}
+
+      {exchanges.length === 0 && !decision.llmError && (
+        <div className="text-gray-500">No LLM was asked; the decision came from the {decision.source === 'policy' ? 'permission policy' : 'rules'}</div>
+      )}
+
+      {exchanges.map((exchange, index) => (
+        <div key={index}>
+          <div className="font-medium">
+            LLM call {index + 1}: {exchange.provider} • {exchange.model} • {exchange.latencyMs} ms
+            {exchange.usage && ` • ${exchange.usage.promptTokens} + ${exchange.usage.completionTokens} tokens`}
+          </div>
+          {exchange.failedProviders && (
+            <div className="text-xs text-yellow-700">
+              Failed over from {exchange.failedProviders.map(failure => `${failure.provider} (${failure.error})`).join(', ')}
+            </div>
+          )}
+          {exchange.messages.map((message, messageIndex) => (
+            <div key={messageIndex} className="mt-1">
+              <div className="text-xs uppercase text-gray-500">{message.role}</div>
+              <pre className="whitespace-pre-wrap text-xs bg-gray-50 p-2 rounded">{message.content}</pre>
+            </div>
+          ))}
+          <div className="mt-1">
+            <div className="text-xs uppercase text-gray-500">Raw reply</div>
+            <pre className="whitespace-pre-wrap text-xs bg-gray-50 p-2 rounded">{exchange.content}</pre>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Dry-run prediction: call results, balance changes and allowance left
+function SimulationDetails({ simulation }: { simulation: ExecutionSimulation }) {
+  const outcomeLabels: Record<ExecutionSimulation['outcome'], string> = {
+    would_execute: '✅ Would execute',
+    would_block: '🚫 Would be blocked',
+    would_revert: '❌ Would revert',
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-purple-50 rounded text-sm">
+      <strong>Dry Run:</strong> {outcomeLabels[simulation.outcome]}
+      {simulation.result && (
+        <span className="ml-2 text-xs text-gray-500">
+          via {simulation.result.method} • {simulation.result.simulatedAt.toLocaleString()}
+        </span>
+      )}
+
+      {simulation.result && simulation.result.calls.some(call => !call.success) && (
+        <ul className="mt-2 space-y-1 text-red-700">
+          {simulation.result.calls.filter(call => !call.success).map((call, index) => (
+            <li key={index}>Revert at {call.to.slice(0, 8)}...: {call.revertReason}</li>
+          ))}
+        </ul>
+      )}
+
+      {simulation.result && simulation.result.balanceChanges.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-2">
+          {simulation.result.balanceChanges.map(change => (
+            <div key={change.tokenAddress}>
+              <div className="font-medium font-mono">{change.tokenAddress.slice(0, 8)}...</div>
+              <div>{change.before} → {change.after}</div>
+              <div className="text-xs text-gray-500">
+                {change.isMinimum ? 'at least ' : ''}{change.delta} • {change.source}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-2">
+        {simulation.allowances.map(allowance => (
+          <div key={allowance.permissionId} className="text-xs text-gray-600">
+            Allowance left on {allowance.permissionId}: {allowance.before} → {allowance.after}
+          </div>
+        ))}
+      </div>
+
+      {simulation.result?.note && (
+        <div className="mt-2 text-xs text-gray-500">{simulation.result.note}</div>
+      )}
+    </div>
+  );
+}
+
+// Result of each rule in the permission's policy
+function PolicyVerdictsDetails({ verdicts }: { verdicts: RuleVerdict[] }) {
+  const outcomeStyles: Record<RuleVerdict['outcome'], { icon: string; color: string }> = {
+    pass: { icon: '✓', color: 'text-green-600' },
+    fail: { icon: '✕', color: 'text-red-600' },
+    warn: { icon: '!', color: 'text-yellow-600' },
+    skip: { icon: '–', color: 'text-gray-400' },
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 rounded text-sm">
+      <strong>Policy rules:</strong>
+      <ul className="mt-2 space-y-1">
+        {verdicts.map(verdict => (
+          <li key={verdict.ruleId} className={outcomeStyles[verdict.outcome].color}>
+            <span className="font-mono mr-2">{outcomeStyles[verdict.outcome].icon}</span>
+            <span className="font-medium">{verdict.ruleId}</span>
+            <span className="ml-1 text-gray-600">{verdict.detail}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Tries at deciding and submitting, shown when any of them failed
+function AttemptsDetails({ attempts }: { attempts: ExecutionAttempt[] }) {
+  const outcomeStyles: Record<ExecutionAttempt['outcome'], { label: string; color: string }> = {
+    completed: { label: 'Completed', color: 'text-green-600' },
+    failed: { label: 'Failed', color: 'text-red-600' },
+    timed_out: { label: 'Timed out', color: 'text-orange-600' },
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 rounded text-sm">
+      <strong>Attempts:</strong>
+      <ul className="mt-2 space-y-1">
+        {attempts.map(attempt => (
+          <li key={attempt.number} className={outcomeStyles[attempt.outcome].color}>
+            <span className="font-medium">#{attempt.number} {outcomeStyles[attempt.outcome].label}</span>
+            <span className="ml-1 text-gray-600">
+              during {attempt.phase} • {((attempt.finishedAt.getTime() - attempt.startedAt.getTime()) / 1000).toFixed(1)}s
+              {attempt.error && ` • ${attempt.error}`}
+              {attempt.transactionHashes && ` • sent ${attempt.transactionHashes.length} transaction${attempt.transactionHashes.length === 1 ? '' : 's'}`}
+              {attempt.outcome !== 'completed' && attempt.number === attempts.length && (attempt.retryable ? ' • out of retries' : ' • not retryable')}
+              {attempt.lateResult?.transactionHashes && ` • finished late and sent ${attempt.lateResult.transactionHashes.join(', ')}; not counted as spent`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Steps of a multi-step plan, submitted together as one batch
+function PlanStepsDetails({ source, steps }: { source: 'llm' | 'template'; steps: PlanStepResult[] }) {
+  const statusColors: Record<PlanStepResult['status'], string> = {
+    pending: 'text-gray-600',
+    executed: 'text-green-600',
+    blocked: 'text-yellow-600',
+    failed: 'text-red-600',
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-indigo-50 rounded text-sm">
+      <strong>Plan ({steps.length} steps, {source === 'llm' ? 'planned by LLM' : 'rule template'}):</strong>
+      <ol className="mt-2 space-y-1 list-decimal list-inside">
+        {steps.map((result, index) => (
+          <li key={index}>
+            <span className="font-medium">{result.step.description}</span>
+            <span className="ml-1 text-gray-500">
+              ({result.step.action.type} {result.step.amount})
+            </span>
+            <span className={`ml-2 capitalize ${statusColors[result.status]}`}>{result.status}</span>
+            {result.explanation && (
+              <div className="text-xs text-gray-600 ml-5">{result.explanation}</div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+// Market context snapshot with the source and age of each field
+function MarketContextDetails({ marketContext }: { marketContext: MarketContext }) {
+  const labels: Record<string, string> = {
+    gasPrice: 'Gas Price',
+    tokenPrice: 'Token Price',
+    networkCongestion: 'Congestion',
+  };
+
+  const formatValue = (field: string): string => {
+    if (field === 'gasPrice') return `${parseFloat(marketContext.gasPrice).toFixed(2)} gwei`;
+    if (field === 'tokenPrice') return marketContext.tokenPrice !== null ? `$${marketContext.tokenPrice}` : 'unavailable';
+    return marketContext.networkCongestion;
+  };
+
+  const formatAge = (ageMs: number): string => {
+    const seconds = Math.round(ageMs / 1000);
+    if (seconds < 60) return `${seconds}s old`;
+    if (seconds < 3600) return `${Math.round(seconds / 60)}m old`;
+    return `${Math.round(seconds / 3600)}h old`;
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 rounded text-sm">
+      <strong>Market Data:</strong>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-2">
+        {MARKET_DATA_FIELDS.map(field => {
+          const source = marketContext.sources?.[field];
+          return (
+            <div key={field}>
+              <div className="font-medium">{labels[field]}: {formatValue(field)}</div>
+              {source && (
+                <div className="text-xs text-gray-500">
+                  {source.provider} • {formatAge(source.ageMs)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Jobs on the server scheduler, which run without this tab open
+function ServerJobsSection({
+  jobs,
+  onJobAction,
+}: {
+  jobs: ScheduledJob[];
+  onJobAction: (id: string, action: 'pause' | 'resume' | 'delete') => void;
+}) {
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const statusColors: Record<ScheduledJob['status'], string> = {
+    active: 'bg-green-100 text-green-800',
+    paused: 'bg-yellow-100 text-yellow-800',
+    completed: 'bg-gray-100 text-gray-800',
+  };
+
+  return (
+    <div className="space-y-4 mb-6">
+      <div className="card bg-teal-50 border-teal-200">
+        <h3 className="text-lg font-semibold text-teal-800 mb-2">
+          🖥️ Server Jobs ({jobs.length})
+        </h3>
+        <p className="text-teal-700 text-sm">
+          These schedules run on the server and keep going when this tab is closed. Missed runs are handled by each job&apos;s catch-up policy.
+        </p>
+      </div>
+
+      {jobs.map(job => (
+        <div key={job.id} className="card">
+          <div className="flex items-start justify-between">
+            <div className="flex-1">
+              <div className="flex items-center space-x-2 mb-1">
+                <h4 className="font-semibold text-lg">{job.intent.description}</h4>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusColors[job.status]}`}>
+                  {job.status}
+                </span>
+              </div>
+              <div className="text-sm text-gray-600 mb-3">
+                {job.intent.schedule ? describeSchedule(job.intent.schedule) : 'recurring'} • Catch-up: {job.catchUpPolicy.replace('_', ' ')}
+                {job.nextRunAt && ` • Next run ${job.nextRunAt.toLocaleString()}`}
+                {job.lease && ' • Running now'}
+              </div>
+
+              {job.runs.length > 0 && (
+                <div>
+                  <div className="text-xs font-medium text-gray-700 mb-1">Recent runs</div>
+                  <ul className="text-xs space-y-1">
+                    {job.runs.slice(0, 5).map((run, index) => (
+                      <li key={index} className="text-gray-600">
+                        <span className="font-medium">{run.status}</span> • {run.scheduledFor.toLocaleString()} • {run.explanation}
+                        {run.transactionHash && (
+                          <a
+                            href={`https://sepolia-explorer.base.org/tx/${run.transactionHash}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="ml-1 text-blue-600 hover:text-blue-800"
+                          >
+                            🔗 tx
+                          </a>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            <div className="ml-4 flex flex-col space-y-2">
+              {job.status === 'active' && (
+                <button
+                  onClick={() => onJobAction(job.id, 'pause')}
+                  className="px-3 py-2 text-sm text-yellow-700 border border-yellow-300 rounded hover:bg-yellow-50 transition-colors"
+                >
+                  ⏸️ Pause
+                </button>
+              )}
+              {job.status === 'paused' && (
+                <button
+                  onClick={() => onJobAction(job.id, 'resume')}
+                  className="px-3 py-2 text-sm text-green-700 border border-green-300 rounded hover:bg-green-50 transition-colors"
+                >
+                  ▶️ Resume
+                </button>
+              )}
+              <button
+                onClick={() => onJobAction(job.id, 'delete')}
+                className="px-3 py-2 text-sm text-red-600 hover:text-red-800 border border-red-300 rounded hover:bg-red-50 transition-colors"
+              >
+                🗑️ Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Condition triggers shown above the schedules list
+function TriggersSection({
+  triggers,
+  isWatcherRunning,
+  onStartWatcher,
+  onStopTrigger,
+}: {
+  triggers: Array<{ id: string; intent: AgentIntent }>;
+  isWatcherRunning: boolean;
+  onStartWatcher: () => void;
+  onStopTrigger: (id: string) => void;
+}) {
+  if (triggers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 mb-6">
+      <div className="card bg-indigo-50 border-indigo-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-indigo-800 mb-2">
+              🎯 Condition Triggers ({triggers.length})
+            </h3>
+            <p className="text-indigo-700 text-sm">
+              These commands run when their market conditions are met, subject to a cooldown and a maximum number of runs.
+            </p>
+          </div>
+          {isWatcherRunning ? (
+            <span className="px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800">👀 Watching</span>
+          ) : (
+            <button onClick={onStartWatcher} className="btn-primary text-sm">
+              ▶️ Start Watching
+            </button>
+          )}
+        </div>
+      </div>
+
+      {triggers.map(({ id, intent }) => {
+        const trigger = intent.trigger;
+        if (!trigger) return null;
+
+        return (
+          <div key={id} className="card">
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <h4 className="font-semibold text-lg">{intent.description}</h4>
+                <div className="text-sm text-gray-600 mb-3">
+                  Fired {trigger.fireCount}/{trigger.maxFires} • Cooldown {Math.round(trigger.cooldownMs / 60000)} min
+                  {trigger.lastFiredAt && ` • Last fired ${trigger.lastFiredAt.toLocaleString()}`}
+                </div>
+                <ul className="text-sm space-y-1">
+                  {trigger.conditions.map((condition, index) => {
+                    const result = trigger.lastEvaluation?.results[index];
+                    return (
+                      <li key={index} className={result ? (result.met ? 'text-green-700' : 'text-gray-600') : 'text-gray-500'}>
+                        {result ? (result.met ? '✅' : '⏳') : '•'} {describeTriggerCondition(condition)}
+                        {result && <span className="text-xs text-gray-500 ml-2">({result.detail})</span>}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+              <button
+                onClick={() => onStopTrigger(id)}
+                className="ml-4 px-3 py-2 text-sm text-red-600 hover:text-red-800 border border-red-300 rounded hover:bg-red-50 transition-colors"
+              >
+                🛑 Stop Trigger
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 // Schedules Tab Component
 function SchedulesTab({ 
   schedules, 
+  pacing,
   onStopSchedule,
+  onResumeSchedules,
   permissionManager,
 }: { 
-  schedules: Array<{ id: string; intent: AgentIntent; nextExecution: Date }>;
+  schedules: Array<{ id: string; intent: AgentIntent; nextExecution: Date; isRunning: boolean }>;
+  pacing: Record<string, SchedulePacingReport>;
   onStopSchedule: (id: string) => void;
+  onResumeSchedules: () => void;
   permissionManager?: any; // Add permission manager to check status
 }) {
   const getTimeUntilNext = (nextExecution: Date): string => {
@@ -702,6 +1742,20 @@ function SchedulesTab({
               These agent commands will execute automatically based on their schedule. 
               Each execution is still subject to permission validation and AI decision-making.
             </p>
+            {schedules.some(schedule => !schedule.isRunning) && (
+              <div className="flex items-center justify-between mt-3 p-3 bg-white border border-blue-200 rounded-lg">
+                <span className="text-sm text-blue-800">
+                  {schedules.filter(schedule => !schedule.isRunning).length} schedule(s) loaded from your last session are paused.
+                  Runs missed meanwhile follow each schedule&apos;s misfire policy.
+                </span>
+                <button
+                  onClick={onResumeSchedules}
+                  className="ml-4 px-3 py-2 text-sm text-blue-700 hover:text-blue-900 border border-blue-300 rounded hover:bg-blue-100 transition-colors"
+                >
+                  ▶️ Resume Schedules
+                </button>
+              </div>
+            )}
           </div>
 
           {schedules.map(schedule => {
@@ -724,10 +1778,10 @@ function SchedulesTab({
                         <h4 className="font-semibold text-lg">{schedule.intent.description}</h4>
                         <div className="flex items-center space-x-2 text-sm text-gray-600">
                           <span>
-                            Runs {schedule.intent.schedule?.frequency}
-                            {schedule.intent.schedule?.interval && schedule.intent.schedule.interval > 1 && 
-                              ` (every ${schedule.intent.schedule.interval} ${schedule.intent.schedule.frequency?.replace('ly', 's')})`
-                            }
+                            Runs: {schedule.intent.schedule && describeSchedule(schedule.intent.schedule)}
+                          </span>
+                          <span>
+                            • Missed runs: {(schedule.intent.schedule?.misfirePolicy || 'run_once').replace('_', ' ')}
                           </span>
                           <span className={`px-2 py-1 rounded text-xs font-medium ${
                             permissionStatus.color === 'green' ? 'bg-green-100 text-green-800' :
@@ -786,6 +1840,14 @@ function SchedulesTab({
                         </div>
                       </div>
                     </div>
+
+                    {pacing[schedule.id] && (
+                      <PacingChart report={pacing[schedule.id]} maxPerRun={schedule.intent.amount} />
+                    )}
+
+                    {schedule.intent.schedule?.history && schedule.intent.schedule.history.length > 0 && (
+                      <ScheduleHistory history={schedule.intent.schedule.history} />
+                    )}
                   </div>
 
                   <div className="ml-4 flex flex-col space-y-2">
@@ -815,10 +1877,12 @@ function SchedulesTab({
               💡 How Scheduling Works
             </h4>
             <ul className="text-sm text-gray-600 space-y-1">
-              <li>• Schedules are detected from natural language in your agent commands</li>
+              <li>• Schedules are detected from natural language in your agent commands, including cron expressions and calendar rules</li>
+              <li>• Calendar schedules run at exact times in their timezone and stop at their end condition</li>
               <li>• Each scheduled execution goes through the same AI evaluation process</li>
               <li>• Executions are still subject to permission boundaries and market conditions</li>
-              <li>• Schedules persist across browser sessions and will resume automatically</li>
+              <li>• Schedules persist across browser sessions; after a reload, resume them and runs missed meanwhile follow the schedule&apos;s misfire policy</li>
+              <li>• Each slot runs at most once, even with the dashboard open in several tabs</li>
               <li>• You can stop any schedule at any time using the "Stop Schedule" button</li>
             </ul>
           </div>
@@ -828,12 +1892,140 @@ function SchedulesTab({
   );
 }
 
+// Projected spend of a paced schedule next to the permission's actual spend
+function PacingChart({ report, maxPerRun }: { report: SchedulePacingReport; maxPerRun: string }) {
+  const width = 480;
+  const height = 120;
+  const all = report.actual.concat(report.projected);
+  const start = Math.min(...all.map(point => point.at.getTime()));
+  const end = Math.max(...all.map(point => point.at.getTime()), start + 1);
+  const top = Math.max(report.allowance, ...all.map(point => point.cumulative), 1);
+
+  // Long schedules have thousands of runs; a few hundred points draw the same line
+  const toPolyline = (points: SpendPoint[]) => {
+    const step = Math.max(1, Math.ceil(points.length / 200));
+    return points
+      .filter((_, index) => index % step === 0 || index === points.length - 1)
+      .map(point => {
+        const x = ((point.at.getTime() - start) / (end - start)) * width;
+        const y = height - (point.cumulative / top) * height;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 rounded-lg text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <div className="font-medium text-gray-700">
+          📏 {PACING_LABELS[report.mode]} pacing
+        </div>
+        <div className="text-gray-600">
+          Next run: <strong>{report.nextAmount}</strong> (max {maxPerRun}) • {report.remainingRuns} runs left
+        </div>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-32 bg-white border border-gray-200 rounded" preserveAspectRatio="none">
+        <line x1={0} y1={height - (report.allowance / top) * height} x2={width} y2={height - (report.allowance / top) * height} stroke="#d1d5db" strokeDasharray="2 2" />
+        <polyline points={toPolyline(report.projected)} fill="none" stroke="#8b5cf6" strokeWidth={2} strokeDasharray="6 4" />
+        <polyline points={toPolyline(report.actual)} fill="none" stroke="#10b981" strokeWidth={2} />
+      </svg>
+      <div className="flex gap-4 mt-1 text-xs text-gray-500">
+        <span><span className="text-purple-500">- -</span> Projected</span>
+        <span><span className="text-green-500">—</span> Actual (whole permission)</span>
+        <span><span className="text-gray-400">···</span> Allowance {report.allowance}</span>
+      </div>
+    </div>
+  );
+}
+
+// Recent occurrences of a browser schedule
+function ScheduleHistory({ history }: { history: ScheduleOccurrence[] }) {
+  const statusStyles: Record<ScheduleOccurrence['status'], string> = {
+    running: 'bg-blue-100 text-blue-800',
+    executed: 'bg-green-100 text-green-800',
+    skipped: 'bg-yellow-100 text-yellow-800',
+    failed: 'bg-red-100 text-red-800',
+    missed: 'bg-gray-100 text-gray-800',
+  };
+
+  return (
+    <details className="mt-3 text-sm">
+      <summary className="cursor-pointer text-gray-700 font-medium">
+        History ({history.length})
+      </summary>
+      <div className="mt-2 space-y-1">
+        {history.map(occurrence => (
+          <div key={occurrence.id} className="flex items-start gap-2">
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${statusStyles[occurrence.status]}`}>
+              {occurrence.status}
+            </span>
+            <span className="text-gray-700 whitespace-nowrap">{occurrence.scheduledFor.toLocaleString()}</span>
+            {occurrence.amount && <span className="text-gray-700 whitespace-nowrap">{occurrence.amount}</span>}
+            {occurrence.explanation && (
+              <span className="text-gray-500 truncate" title={occurrence.explanation}>{occurrence.explanation}</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
+
 // Debug Tab Component
+// Latest agent and permission events, newest first
+function EventFeed({ events }: { events: AgentEvent[] }) {
+  const describe = (event: AgentEvent): string => {
+    switch (event.type) {
+      case 'execution_created':
+        return event.execution.intent.description;
+      case 'decision_made':
+        return `${event.executionId}: ${event.decision.shouldExecute ? 'execute' : 'decline'} (${event.decision.confidence}% confidence)`;
+      case 'execution_submitted':
+        return `${event.executionId}: ${event.requestCount} request${event.requestCount === 1 ? '' : 's'}`;
+      case 'execution_confirmed':
+        return `${event.executionId}: ${event.transactionHash}`;
+      case 'execution_failed':
+        return `${event.executionId}: ${event.error}`;
+      case 'execution_updated':
+        return `${event.executionId}: ${event.status.replace(/_/g, ' ')}`;
+      case 'schedule_fired':
+        return `${event.scheduleId} for ${event.scheduledFor.toLocaleString()}`;
+      case 'permission_created':
+        return event.permission.id;
+      case 'allowance_low':
+        return `${event.permissionId}: ${event.remainingAllowance} of ${event.maxSpendAmount} left`;
+      default:
+        return event.permissionId;
+    }
+  };
+
+  return (
+    <div className="card">
+      <h4 className="font-semibold mb-3">📡 Event Stream</h4>
+      {events.length === 0 ? (
+        <p className="text-gray-500 text-sm">No events since the dashboard opened</p>
+      ) : (
+        <div className="space-y-1 text-sm">
+          {events.map((event, index) => (
+            <div key={`${event.at.getTime()}-${index}`} className="flex space-x-3">
+              <span className="text-gray-500 whitespace-nowrap">{event.at.toLocaleTimeString()}</span>
+              <span className="font-medium whitespace-nowrap">{AGENT_EVENT_LABELS[event.type]}</span>
+              <span className="text-gray-700 truncate">{describe(event)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function DebugTab({ 
   debugInfo, 
+  events,
   onRefresh 
 }: { 
   debugInfo: any;
+  events: AgentEvent[];
   onRefresh: () => void;
 }) {
   const [autoRefresh, setAutoRefresh] = useState(false);
@@ -898,6 +2090,8 @@ function DebugTab({
         </div>
       </div>
 
+      <EventFeed events={events} />
+
       {debugInfo ? (
         <div className="space-y-4">
           {/* Summary Stats */}
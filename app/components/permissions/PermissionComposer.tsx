@@ -4,20 +4,33 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useWallet } from '@/hooks/useWallet';
-import { PermissionRequest } from '@/types/permissions';
+import { ERC7715Permission, PermissionPeriod, PermissionRateLimit, PermissionRequest } from '@/types/permissions';
+import { parsePolicyText } from '@/services/permissions/PolicyEngine';
+import { StrategyDraft } from '@/services/agent/StrategyTemplates';
+import { validateEthereumAddress } from '@/lib/validation';
+import { getTokenDecimals } from '@/lib/tokenAmount';
+
+type DurationUnit = 'hours' | 'days' | 'weeks';
+
+const UNIT_MS: Record<DurationUnit, number> = {
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
 
 interface PermissionComposerProps {
   permissionManager: any; // PermissionManager instance
-  onPermissionCreated?: () => void;
+  draft?: StrategyDraft | null; // Recommended permission of a strategy template
+  onPermissionCreated?: (permission: ERC7715Permission) => void;
   className?: string;
 }
 
 /**
  * Visual UI for composing ERC-7715 Advanced Permissions
  */
-export function PermissionComposer({ permissionManager, onPermissionCreated, className = '' }: PermissionComposerProps) {
+export function PermissionComposer({ permissionManager, draft, onPermissionCreated, className = '' }: PermissionComposerProps) {
   const { connectionState } = useWallet();
   const [permission, setPermission] = useState<Partial<PermissionRequest>>({
     tokenAddress: '',
@@ -26,7 +39,19 @@ export function PermissionComposer({ permissionManager, onPermissionCreated, cla
   });
   const [timeWindow, setTimeWindow] = useState({
     duration: '7',
-    unit: 'days' as 'hours' | 'days' | 'weeks',
+    unit: 'days' as DurationUnit,
+  });
+  const [period, setPeriod] = useState({
+    amount: '',
+    duration: '1',
+    unit: 'days' as DurationUnit,
+  });
+  const [policyText, setPolicyText] = useState('');
+  const [policyError, setPolicyError] = useState<string | null>(null);
+  const [rateLimit, setRateLimit] = useState({
+    maxExecutions: '',
+    windowHours: '1',
+    minSpacingMinutes: '',
   });
 
   // Sample data for demo purposes
@@ -36,6 +61,35 @@ export function PermissionComposer({ permissionManager, onPermissionCreated, cla
     amount: '1000', // Increased to 1000 to allow for meaningful transactions
   };
 
+  // One expression per line, or a JSON array of rules
+  const samplePolicy = [
+    'gasPrice < 30',
+    'hour >= 9 && hour < 17',
+    "action != 'transfer' || amount <= 50",
+  ].join('\n');
+
+  // Pre-fill the form when a strategy template is picked
+  useEffect(() => {
+    if (!draft) {
+      return;
+    }
+    const limits = draft.permission.rateLimit;
+    setPermission({
+      tokenAddress: draft.permission.tokenAddress,
+      maxSpendAmount: draft.permission.maxSpendAmount,
+      allowedContracts: draft.permission.allowedContracts,
+    });
+    setTimeWindow({ duration: String(draft.permission.durationDays), unit: 'days' });
+    setPeriod({ amount: '', duration: '1', unit: 'days' });
+    setPolicyText(draft.permission.policyText);
+    setPolicyError(null);
+    setRateLimit({
+      maxExecutions: limits?.maxExecutions ? String(limits.maxExecutions) : '',
+      windowHours: limits?.windowMs ? String(limits.windowMs / (60 * 60 * 1000)) : '1',
+      minSpacingMinutes: limits?.minSpacingMs ? String(limits.minSpacingMs / (60 * 1000)) : '',
+    });
+  }, [draft]);
+
   const fillSampleData = () => {
     setPermission({
       tokenAddress: sampleData.usdcAddress,
@@ -51,25 +105,48 @@ export function PermissionComposer({ permissionManager, onPermissionCreated, cla
     const endTime = new Date();
     
     // Calculate end time based on duration and unit
-    const durationMs = {
-      hours: parseInt(timeWindow.duration) * 60 * 60 * 1000,
-      days: parseInt(timeWindow.duration) * 24 * 60 * 60 * 1000,
-      weeks: parseInt(timeWindow.duration) * 7 * 24 * 60 * 60 * 1000,
-    }[timeWindow.unit];
+    const durationMs = parseInt(timeWindow.duration) * UNIT_MS[timeWindow.unit];
     
     endTime.setTime(startTime.getTime() + durationMs);
 
+    let policy;
+    try {
+      policy = parsePolicyText(policyText);
+      setPolicyError(null);
+    } catch (error) {
+      setPolicyError(error instanceof Error ? error.message : 'Invalid policy');
+      return;
+    }
+
+    // Empty fields leave that limit off
+    const limits: PermissionRateLimit = {};
+    if (rateLimit.maxExecutions) {
+      limits.maxExecutions = parseInt(rateLimit.maxExecutions);
+      limits.windowMs = parseFloat(rateLimit.windowHours) * 60 * 60 * 1000;
+    }
+    if (rateLimit.minSpacingMinutes) {
+      limits.minSpacingMs = parseFloat(rateLimit.minSpacingMinutes) * 60 * 1000;
+    }
+
+    // An empty amount leaves the periodic allowance off
+    const periodAllowance: PermissionPeriod | undefined = period.amount
+      ? { amount: period.amount, durationMs: parseInt(period.duration) * UNIT_MS[period.unit] }
+      : undefined;
+
     const fullPermission: PermissionRequest = {
       tokenAddress: permission.tokenAddress!,
       maxSpendAmount: permission.maxSpendAmount!,
       startTime,
       endTime,
       allowedContracts: permission.allowedContracts!.filter(addr => addr.trim() !== ''),
+      policy: policy.length > 0 ? policy : undefined,
+      rateLimit: Object.keys(limits).length > 0 ? limits : undefined,
+      period: periodAllowance,
     };
 
     try {
       // Use permissionManager to create the permission
-      await permissionManager.createPermission(fullPermission);
+      const created: ERC7715Permission = await permissionManager.createPermission(fullPermission);
       
       // Show success message
       alert('🎉 Permission created successfully!\n\nYour AI agent can now operate within these constraints.');
@@ -84,10 +161,13 @@ export function PermissionComposer({ permissionManager, onPermissionCreated, cla
         duration: '7',
         unit: 'days',
       });
+      setPeriod({ amount: '', duration: '1', unit: 'days' });
+      setPolicyText('');
+      setRateLimit({ maxExecutions: '', windowHours: '1', minSpacingMinutes: '' });
       
       // Notify parent component
       if (onPermissionCreated) {
-        onPermissionCreated();
+        onPermissionCreated(created);
       }
     } catch (error) {
       console.error('Failed to create permission:', error);
@@ -138,6 +218,12 @@ export function PermissionComposer({ permissionManager, onPermissionCreated, cla
         </p>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          {draft && (
+            <div className="bg-primary-50 border border-primary-200 rounded-lg p-3 text-sm text-primary-800">
+              📋 Recommended by the <strong>{draft.templateName}</strong> template. Review it before creating the permission.
+            </div>
+          )}
+
           {/* Sample Data Helper */}
           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
             <div className="flex items-center justify-between">
@@ -191,6 +277,50 @@ export function PermissionComposer({ permissionManager, onPermissionCreated, cla
             />
             <p className="text-xs text-gray-500 mt-1">
               Total amount the agent can spend during the time window (e.g., 1000 USDC for multiple transactions)
+              {validateEthereumAddress(permission.tokenAddress || '') && (
+                <>. Tracked exactly, to the token&apos;s {getTokenDecimals(permission.tokenAddress || '')} decimal places</>
+              )}
+            </p>
+          </div>
+
+          {/* Periodic Allowance */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Per-Period Limit (optional)
+            </label>
+            <div className="flex items-center space-x-2 text-sm">
+              <span>Up to</span>
+              <input
+                type="number"
+                min="0"
+                step="0.000001"
+                className="input w-28"
+                placeholder="∞"
+                value={period.amount}
+                onChange={(e) => setPeriod(prev => ({ ...prev, amount: e.target.value }))}
+              />
+              <span>every</span>
+              <input
+                type="number"
+                min="1"
+                className="input w-20"
+                value={period.duration}
+                onChange={(e) => setPeriod(prev => ({ ...prev, duration: e.target.value }))}
+                required={!!period.amount}
+              />
+              <select
+                className="input"
+                value={period.unit}
+                onChange={(e) => setPeriod(prev => ({ ...prev, unit: e.target.value as DurationUnit }))}
+              >
+                <option value="hours">Hours</option>
+                <option value="days">Days</option>
+                <option value="weeks">Weeks</option>
+              </select>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              E.g. up to 50 USDC per day within the maximum above. Periods start when the permission does and
+              reset at each boundary; unspent budget does not carry over
             </p>
           </div>
 
@@ -263,6 +393,79 @@ export function PermissionComposer({ permissionManager, onPermissionCreated, cla
             </p>
           </div>
 
+          {/* Policy Rules */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Policy Rules (optional)
+              </label>
+              <button
+                type="button"
+                onClick={() => setPolicyText(samplePolicy)}
+                className="text-sm text-primary-600 hover:text-primary-800"
+              >
+                Use Example
+              </button>
+            </div>
+            <textarea
+              className="input w-full font-mono text-sm"
+              rows={4}
+              placeholder={samplePolicy}
+              value={policyText}
+              onChange={(e) => setPolicyText(e.target.value)}
+            />
+            {policyError && (
+              <p className="text-xs text-red-600 mt-1">{policyError}</p>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              One expression per line, or a JSON array of rules (gas_ceiling, time_window, max_amount, recipient, min_confidence, max_congestion).
+              Every rule must hold for the agent to act. Without rules the default policy applies (gas under 50 gwei, congestion not high).
+            </p>
+          </div>
+
+          {/* Rate Limits */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Rate Limits (optional)
+            </label>
+            <div className="flex items-center space-x-2 text-sm">
+              <span>At most</span>
+              <input
+                type="number"
+                min="1"
+                className="input w-20"
+                placeholder="∞"
+                value={rateLimit.maxExecutions}
+                onChange={(e) => setRateLimit(prev => ({ ...prev, maxExecutions: e.target.value }))}
+              />
+              <span>executions every</span>
+              <input
+                type="number"
+                min="0.1"
+                step="0.1"
+                className="input w-20"
+                value={rateLimit.windowHours}
+                onChange={(e) => setRateLimit(prev => ({ ...prev, windowHours: e.target.value }))}
+              />
+              <span>hours</span>
+            </div>
+            <div className="flex items-center space-x-2 text-sm mt-2">
+              <span>At least</span>
+              <input
+                type="number"
+                min="1"
+                className="input w-20"
+                placeholder="0"
+                value={rateLimit.minSpacingMinutes}
+                onChange={(e) => setRateLimit(prev => ({ ...prev, minSpacingMinutes: e.target.value }))}
+              />
+              <span>minutes between executions</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Checked before the agent is asked to decide, so a fast schedule or a runaway loop cannot send more than this.
+            </p>
+          </div>
+
           {/* Permission Preview */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <h4 className="text-sm font-medium text-blue-800 mb-2">
@@ -272,6 +475,13 @@ export function PermissionComposer({ permissionManager, onPermissionCreated, cla
               <li>• Spend up to <strong>{permission.maxSpendAmount || '0'}</strong> tokens</li>
               <li>• Active for <strong>{timeWindow.duration} {timeWindow.unit}</strong></li>
               <li>• Can interact with <strong>{permission.allowedContracts?.filter(a => a.trim()).length || 0}</strong> contracts</li>
+              {policyText.trim() && <li>• Must pass your <strong>policy rules</strong> before every action</li>}
+              {rateLimit.maxExecutions && (
+                <li>• At most <strong>{rateLimit.maxExecutions}</strong> executions every <strong>{rateLimit.windowHours} hours</strong></li>
+              )}
+              {rateLimit.minSpacingMinutes && (
+                <li>• At least <strong>{rateLimit.minSpacingMinutes} minutes</strong> between executions</li>
+              )}
               <li>• Permission expires automatically</li>
               <li>• You can revoke anytime</li>
             </ul>
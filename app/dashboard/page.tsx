@@ -10,17 +10,26 @@ import { useRouter } from 'next/navigation';
 import { useWallet, getWalletManager } from '@/hooks/useWallet';
 import { PermissionComposer } from '@/components/permissions/PermissionComposer';
 import { AgentIntentInput } from '@/components/agent/AgentIntentInput';
+import { AgentRoster } from '@/components/agent/AgentRoster';
+import { StrategyTemplatePicker } from '@/components/agent/StrategyTemplatePicker';
 import { TrustDashboard } from '@/components/dashboard/TrustDashboard';
 import { EnvioDataViewer } from '@/components/envio/EnvioDataViewer';
 import { PermissionManager } from '@/services/permissions/PermissionManager';
-import { AgentExecutor } from '@/services/agent/AgentExecutor';
+import { AgentRegistry } from '@/services/agent/AgentRegistry';
+import { StrategyDraft, StrategyTemplateLibrary } from '@/services/agent/StrategyTemplates';
+import { AGENT_CONFIG } from '@/lib/constants';
 
 export default function DashboardPage() {
   const router = useRouter();
   const { connectionState, disconnect } = useWallet();
   const [activeTab, setActiveTab] = useState<'permissions' | 'agent' | 'dashboard' | 'envio'>('permissions');
   const [permissionManager, setPermissionManager] = useState<PermissionManager | null>(null);
-  const [agentExecutor, setAgentExecutor] = useState<AgentExecutor | null>(null);
+  const [agentRegistry, setAgentRegistry] = useState<AgentRegistry | null>(null);
+  const [selectedAgentId, setSelectedAgentId] = useState<string>(AGENT_CONFIG.DEFAULT_AGENT_ID);
+  const [templateLibrary, setTemplateLibrary] = useState<StrategyTemplateLibrary | null>(null);
+  const [strategyDraft, setStrategyDraft] = useState<StrategyDraft | null>(null);
+  const [draftPermissionId, setDraftPermissionId] = useState<string | null>(null);
+  const agentExecutor = agentRegistry ? agentRegistry.getExecutor(selectedAgentId) : null;
 
   // Redirect to home if not connected
   useEffect(() => {
@@ -35,9 +44,9 @@ export default function DashboardPage() {
       const walletManager = getWalletManager();
       
       const permManager = new PermissionManager(walletManager);
-      const agentExec = new AgentExecutor(permManager, walletManager);
       setPermissionManager(permManager);
-      setAgentExecutor(agentExec);
+      setAgentRegistry(new AgentRegistry(permManager, walletManager));
+      setTemplateLibrary(new StrategyTemplateLibrary());
     }
   }, [connectionState.isConnected]);
 
@@ -156,9 +165,24 @@ export default function DashboardPage() {
                 Grant fine-grained, time-bound permissions to AI agents for safe automation.
               </p>
             </div>
+            {templateLibrary && (
+              <StrategyTemplatePicker
+                library={templateLibrary}
+                onApply={(draft) => {
+                  setStrategyDraft(draft);
+                  setDraftPermissionId(null);
+                }}
+                className="mb-6"
+              />
+            )}
             <PermissionComposer 
               permissionManager={permissionManager}
-              onPermissionCreated={() => {
+              draft={strategyDraft}
+              onPermissionCreated={(permission) => {
+                // Carry a template's command over to the new permission
+                if (strategyDraft) {
+                  setDraftPermissionId(permission.id);
+                }
                 // Auto-switch to agent tab after creating permission
                 setActiveTab('agent');
               }}
@@ -166,6 +190,16 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {(activeTab === 'agent' || activeTab === 'dashboard') && agentRegistry && permissionManager && (
+          <AgentRoster
+            agentRegistry={agentRegistry}
+            permissionManager={permissionManager}
+            selectedAgentId={selectedAgentId}
+            onSelectAgent={setSelectedAgentId}
+            className="mb-6"
+          />
+        )}
+
         {activeTab === 'agent' && agentExecutor && permissionManager && (
           <div>
             <div className="mb-6">
@@ -175,9 +209,15 @@ export default function DashboardPage() {
               </p>
             </div>
             <AgentIntentInput 
+              key={selectedAgentId}
               agentExecutor={agentExecutor}
               permissionManager={permissionManager}
+              draft={strategyDraft}
+              draftPermissionId={draftPermissionId}
               onCommandCreated={() => {
+                // A template's command is used once
+                setStrategyDraft(null);
+                setDraftPermissionId(null);
                 // Auto-switch to dashboard tab after execution
                 setActiveTab('dashboard');
               }}
@@ -190,7 +230,7 @@ export default function DashboardPage() {
             <div className="mb-6">
               <h2 className="text-2xl font-bold text-gray-900 mb-2">Trust Dashboard</h2>
               <p className="text-gray-600">
-                Monitor your agent's activities, permissions, and execution history.
+                Monitor {agentExecutor.getAgent()?.name || 'your agent'}&apos;s activities, permissions, and execution history.
               </p>
             </div>
             <TrustDashboard 
@@ -18,6 +18,16 @@ export const NETWORK_CONFIG = {
   },
 } as const;
 
+// Tokens with known decimals on Base Sepolia; other tokens count as DEFAULT_TOKEN_DECIMALS
+// until their decimals are read from the chain
+export const TOKEN_REGISTRY = [
+  { symbol: 'eth', address: '0x0000000000000000000000000000000000000000', decimals: 18 },
+  { symbol: 'weth', address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+  { symbol: 'usdc', address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', decimals: 6 },
+] as const;
+
+export const DEFAULT_TOKEN_DECIMALS = 18;
+
 // Permission validation constants
 export const PERMISSION_LIMITS = {
   MIN_SPEND_AMOUNT: '0.001', // Minimum spend amount in ETH
@@ -25,6 +35,8 @@ export const PERMISSION_LIMITS = {
   MIN_DURATION_HOURS: 1, // Minimum permission duration
   MAX_DURATION_DAYS: 365, // Maximum permission duration
   MAX_ALLOWED_CONTRACTS: 10, // Maximum number of allowed contracts
+  MIN_PERIOD_MS: 60 * 60 * 1000, // Shortest period of a periodic allowance
+  LOW_ALLOWANCE_FRACTION: 0.2, // Below this share of maxSpendAmount the allowance counts as low
 } as const;
 
 // Agent execution constants
@@ -33,6 +45,43 @@ export const AGENT_CONFIG = {
   RETRY_DELAY_MS: 1000,
   EXECUTION_TIMEOUT_MS: 30000,
   MAX_GAS_PRICE_GWEI: 100,
+  MAX_DECISION_REPAIR_ATTEMPTS: 2, // Follow-up requests when the LLM reply fails validation
+  TRIGGER_POLL_INTERVAL_MS: 30000,
+  TRIGGER_DEFAULT_COOLDOWN_MS: 60 * 60 * 1000, // 1 hour between trigger fires
+  TRIGGER_DEFAULT_MAX_FIRES: 1, // One-shot unless the intent asks for repeats
+  TRIGGER_DEFAULT_RECURRING_MAX_FIRES: 10, // Repeating triggers without an explicit "N times"
+  TRIGGER_MAX_FIRES_LIMIT: 100,
+  TRIGGER_LOW_GAS_GWEI: 20, // What "when gas is low" means
+  TRIGGER_PRICE_CHANGE_WINDOW_MS: 24 * 60 * 60 * 1000,
+  APPROVAL_MIN_CONFIDENCE: 60, // Decisions less confident than this wait for approval
+  APPROVAL_MAX_AMOUNT: '100', // Larger amounts wait for approval
+  APPROVAL_EXPIRY_MS: 24 * 60 * 60 * 1000, // Unanswered approvals are rejected after this
+  STORED_EXCHANGES_PER_EXECUTION: 20, // Newest LLM prompts and replies kept with a stored execution
+  STORED_EXCHANGE_EXECUTIONS: 50, // Only the newest executions keep their LLM prompts and replies in storage
+  SCHEDULE_CLAIM_RETENTION_MS: 7 * 24 * 60 * 60 * 1000, // How long ran schedule slots are remembered across tabs
+  DEFAULT_AGENT_ID: 'default', // The agent from before named agents; keeps the original storage keys
+} as const;
+
+// Server-side scheduler constants
+export const SCHEDULER_CONFIG = {
+  POLL_INTERVAL_MS: 15000,
+  LEASE_DURATION_MS: 5 * 60 * 1000, // A crashed worker's jobs are picked up after this
+  MISFIRE_GRACE_MS: 60 * 1000, // Runs later than this count as missed
+  MAX_CATCH_UP_RUNS: 5, // Upper bound for the run_all catch-up policy
+  MAX_RUN_HISTORY: 20,
+  DEFAULT_CATCH_UP_POLICY: 'run_once',
+  CHAIN_ID: 84532, // Chain the server signer sends on, and of signed permission grants
+  AUTH_SESSION_MS: 12 * 60 * 60 * 1000, // How long a signed sign-in message is accepted
+  AUTH_CLOCK_SKEW_MS: 5 * 60 * 1000,
+} as const;
+
+// LLM provider constants
+export const LLM_CONFIG = {
+  DEFAULT_PROVIDER_ORDER: ['gaia', 'openai'], // Failover order when LLM_PROVIDER_ORDER is unset
+  GAIA_DEFAULT_MODEL: 'gaia-agent',
+  DEFAULT_TEMPERATURE: 0.1,
+  DEFAULT_MAX_TOKENS: 500,
+  DEFAULT_TIMEOUT_MS: 30000, // Per request, before failing over to the next provider
 } as const;
 
 // API endpoints
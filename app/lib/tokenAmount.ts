@@ -0,0 +1,211 @@
+/**
+ * Exact token amounts
+ * Amounts are kept as bigint base units with their token's decimals, so
+ * limits and spend totals never pick up floating point rounding. Stored and
+ * displayed amounts stay decimal strings in token units ("12.5" USDC).
+ */
+
+import { DEFAULT_TOKEN_DECIMALS, TOKEN_REGISTRY } from './constants';
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const SCALE_PRECISION = 1000000; // Fractions passed to scale() are rounded to 6 places
+
+// Decimals read from the chain for tokens outside TOKEN_REGISTRY, by lowercase address
+const learnedDecimals: Map<string, number> = new Map();
+
+/**
+ * Decimals of a token: the registry, then what was read from the chain, then DEFAULT_TOKEN_DECIMALS
+ */
+export function getTokenDecimals(tokenAddress: string): number {
+  const address = tokenAddress.toLowerCase();
+  const known = TOKEN_REGISTRY.find(token => token.address.toLowerCase() === address);
+  if (known) {
+    return known.decimals;
+  }
+  return learnedDecimals.get(address) ?? DEFAULT_TOKEN_DECIMALS;
+}
+
+/**
+ * Remember a token's decimals as read from its contract
+ */
+export function registerTokenDecimals(tokenAddress: string, decimals: number): void {
+  learnedDecimals.set(tokenAddress.toLowerCase(), decimals);
+}
+
+/**
+ * Decimals of a permission's (or scope's) token: its own when recorded, otherwise the registry's
+ */
+export function getAmountDecimals(holder: { tokenAddress: string; decimals?: number }): number {
+  return holder.decimals ?? getTokenDecimals(holder.tokenAddress);
+}
+
+export class TokenAmount {
+  readonly units: bigint;
+  readonly decimals: number;
+
+  private constructor(units: bigint, decimals: number) {
+    this.units = units;
+    this.decimals = decimals;
+  }
+
+  /**
+   * Parse a decimal string in token units ("12.5")
+   * Throws when it is not a non-negative decimal or has more places than the token
+   */
+  static parse(text: string, decimals: number): TokenAmount {
+    const match = text.trim().match(/^(\d+)(?:\.(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid amount: ${text}`);
+    }
+
+    const fraction = match[2] || '';
+    if (fraction.length > decimals) {
+      throw new Error(`Amount ${text} has more than ${decimals} decimal places`);
+    }
+    return new TokenAmount(BigInt(match[1] + fraction + '0'.repeat(decimals - fraction.length)), decimals);
+  }
+
+  /**
+   * Read an amount stored before amounts were exact, which may carry float
+   * artifacts ("0.30000000000000004", "1e-7") or a negative sign; rounded to
+   * the token's decimals. Throws when it is not a number
+   */
+  static fromLegacy(value: string | number, decimals: number): TokenAmount {
+    let text = String(value).trim();
+    const negative = text.charAt(0) === '-';
+    if (negative) {
+      text = text.slice(1);
+    }
+    if (!/^\d+(\.\d+)?$/.test(text)) {
+      const numeric = Number(text);
+      if (text === '' || !isFinite(numeric)) {
+        throw new Error(`Invalid amount: ${value}`);
+      }
+      text = numeric.toFixed(20);
+    }
+
+    const [whole, fraction = ''] = text.split('.');
+    const kept = fraction.slice(0, decimals);
+    let amount = TokenAmount.parse(kept ? `${whole}.${kept}` : whole, decimals);
+    if (fraction.length > decimals && fraction.charAt(decimals) >= '5') {
+      amount = new TokenAmount(amount.units + ONE, decimals);
+    }
+    return negative ? new TokenAmount(-amount.units, decimals) : amount;
+  }
+
+  /**
+   * A computed amount (e.g. a paced share of an allowance), rounded down to
+   * the token's decimals so it never exceeds what it was computed from. Float
+   * noise past 15 significant digits is dropped first. Throws when negative
+   */
+  static floor(value: number, decimals: number): TokenAmount {
+    if (!isFinite(value) || value < 0) {
+      throw new Error(`Invalid amount: ${value}`);
+    }
+
+    // Plain decimal digits of the value, also when toPrecision uses an exponent
+    const [mantissa, exponent = '0'] = value.toPrecision(15).split('e');
+    const [whole, fraction = ''] = mantissa.split('.');
+    const digits = whole + fraction;
+    const point = whole.length + Number(exponent);
+    const integer = point <= 0 ? '0' : digits.slice(0, point) + '0'.repeat(Math.max(0, point - digits.length));
+    const kept = (point < 0 ? '0'.repeat(-point) + digits : digits.slice(Math.max(0, point))).slice(0, decimals);
+    return TokenAmount.parse(kept ? `${integer}.${kept}` : integer, decimals);
+  }
+
+  /**
+   * Amount from base units (wei for 18-decimal tokens)
+   */
+  static fromUnits(units: bigint, decimals: number): TokenAmount {
+    return new TokenAmount(units, decimals);
+  }
+
+  static zero(decimals: number): TokenAmount {
+    return new TokenAmount(ZERO, decimals);
+  }
+
+  plus(other: TokenAmount): TokenAmount {
+    this.assertSameToken(other);
+    return new TokenAmount(this.units + other.units, this.decimals);
+  }
+
+  minus(other: TokenAmount): TokenAmount {
+    this.assertSameToken(other);
+    return new TokenAmount(this.units - other.units, this.decimals);
+  }
+
+  /**
+   * This amount times a fraction (e.g. 0.2 for 20%), rounded down to a base unit
+   */
+  scale(fraction: number): TokenAmount {
+    return new TokenAmount(
+      (this.units * BigInt(Math.round(fraction * SCALE_PRECISION))) / BigInt(SCALE_PRECISION),
+      this.decimals
+    );
+  }
+
+  gt(other: TokenAmount): boolean {
+    this.assertSameToken(other);
+    return this.units > other.units;
+  }
+
+  lt(other: TokenAmount): boolean {
+    this.assertSameToken(other);
+    return this.units < other.units;
+  }
+
+  isZero(): boolean {
+    return this.units === ZERO;
+  }
+
+  isNegative(): boolean {
+    return this.units < ZERO;
+  }
+
+  /**
+   * This amount, or zero when it is negative
+   */
+  atLeastZero(): TokenAmount {
+    return this.isNegative() ? TokenAmount.zero(this.decimals) : this;
+  }
+
+  /**
+   * Approximate value, for charts and pacing estimates only
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * Decimal string in token units without trailing zeros ("12.5")
+   */
+  toString(): string {
+    const negative = this.units < ZERO;
+    const digits = (negative ? -this.units : this.units).toString();
+    if (this.decimals === 0) {
+      return `${negative ? '-' : ''}${digits}`;
+    }
+
+    const padded = digits.length > this.decimals ? digits : '0'.repeat(this.decimals - digits.length + 1) + digits;
+    const whole = padded.slice(0, padded.length - this.decimals);
+    const fraction = padded.slice(padded.length - this.decimals).replace(/0+$/, '');
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Private: Amounts of tokens with different decimals cannot be combined
+   */
+  private assertSameToken(other: TokenAmount): void {
+    if (other.decimals !== this.decimals) {
+      throw new Error(`Cannot combine amounts with ${this.decimals} and ${other.decimals} decimals`);
+    }
+  }
+}
+
+/**
+ * Base units of a decimal amount of a token, e.g. for a transaction value
+ */
+export function toBaseUnits(amount: string, decimals: number): bigint {
+  return TokenAmount.parse(amount, decimals).units;
+}
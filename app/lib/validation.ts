@@ -4,12 +4,161 @@
 
 import { z } from 'zod';
 import { PERMISSION_LIMITS } from './constants';
+import { parsePolicyExpression } from '@/services/permissions/PolicyExpression';
 
 // Ethereum address validation
 export const ethereumAddressSchema = z
   .string()
   .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address');
 
+// Permission policy rules (user-authored)
+const policyRuleBaseSchema = {
+  id: z.string().min(1).optional(),
+  description: z.string().optional(),
+  severity: z.enum(['block', 'warn']).optional(),
+};
+
+export const policyRuleSchema = z.discriminatedUnion('type', [
+  z.object({ ...policyRuleBaseSchema, type: z.literal('gas_ceiling'), maxGwei: z.number().positive() }),
+  z.object({
+    ...policyRuleBaseSchema,
+    type: z.literal('time_window'),
+    startHour: z.number().int().min(0).max(23),
+    endHour: z.number().int().min(0).max(24),
+    days: z.array(z.number().int().min(0).max(6)).optional(),
+    timezone: z.string().optional(),
+  }),
+  z.object({ ...policyRuleBaseSchema, type: z.literal('max_amount'), amount: z.string().regex(/^\d+(\.\d+)?$/, 'Amount must be a decimal number') }),
+  z.object({
+    ...policyRuleBaseSchema,
+    type: z.literal('recipient'),
+    allow: z.array(ethereumAddressSchema).optional(),
+    deny: z.array(ethereumAddressSchema).optional(),
+  }),
+  z.object({ ...policyRuleBaseSchema, type: z.literal('min_confidence'), confidence: z.number().min(0).max(100) }),
+  z.object({ ...policyRuleBaseSchema, type: z.literal('max_congestion'), level: z.enum(['low', 'medium', 'high']) }),
+  z.object({
+    ...policyRuleBaseSchema,
+    type: z.literal('expression'),
+    expression: z.string().min(1).superRefine((expression, ctx) => {
+      try {
+        parsePolicyExpression(expression);
+      } catch (error) {
+        ctx.addIssue({ code: 'custom', message: error instanceof Error ? error.message : 'Invalid expression' });
+      }
+    }),
+  }),
+]);
+
+export const policyRulesSchema = z.array(policyRuleSchema);
+
+// Permission execution rate limits
+export const permissionRateLimitSchema = z.object({
+  maxExecutions: z.number().int().positive().optional(),
+  windowMs: z.number().positive().optional(),
+  minSpacingMs: z.number().positive().optional(),
+}).refine(
+  (data) => (data.maxExecutions === undefined) === (data.windowMs === undefined),
+  { message: 'Max executions and its window must be set together', path: ['windowMs'] }
+);
+
+// Periodic allowances
+const decimalAmountSchema = z.string().regex(/^\d+(\.\d+)?$/, 'Amount must be a decimal number');
+export const permissionPeriodSchema = z.object({
+  durationMs: z.number().int().min(PERMISSION_LIMITS.MIN_PERIOD_MS, 'Periods must be at least an hour long'),
+  amount: decimalAmountSchema,
+});
+
+// Account-wide spend velocity caps, per token
+const capAmountSchema = z.string().regex(/^\d+(\.\d+)?$/, 'Cap must be a decimal number').nullable();
+export const velocityCapSchema = z.object({
+  tokenAddress: ethereumAddressSchema,
+  dailyLimit: capAmountSchema,
+  weeklyLimit: capAmountSchema,
+});
+export const velocityCapListSchema = z.array(velocityCapSchema);
+
+// Approval policies, as sent with server jobs
+export const approvalPolicySchema = z.object({
+  enabled: z.boolean(),
+  minConfidence: z.number().min(0).max(100).nullable(),
+  maxAmount: decimalAmountSchema.nullable(),
+  newRecipients: z.boolean(),
+  newContracts: z.boolean(),
+  expiresAfterMs: z.number().positive(),
+});
+
+// Agent model settings, as sent with server jobs
+export const agentLLMSettingsSchema = z.object({
+  providerOrder: z.array(z.string().min(1)).optional(),
+  models: z.record(z.string(), z.string().min(1)).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).max(4096).optional(),
+  timeoutMs: z.number().int().positive().max(300000).optional(),
+});
+
+// Named agent creation
+export const agentProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Agent name is required').max(40, 'Agent name must be at most 40 characters'),
+  persona: z.string().max(1000, 'Persona must be at most 1000 characters').optional(),
+  permissionIds: z.array(z.string().min(1)).min(1, 'Bind at least one permission').nullable(),
+});
+
+// Strategy templates, as imported from a shared JSON file
+const templateParameterSchema = z.object({
+  key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, 'Parameter keys must be identifiers'),
+  label: z.string().min(1),
+  type: z.enum(['token', 'address', 'amount', 'number', 'text', 'choice']),
+  default: z.string().optional(),
+  options: z.array(z.string().min(1)).min(1).optional(),
+  hint: z.string().optional(),
+}).refine(
+  (data) => data.type !== 'choice' || data.options !== undefined,
+  { message: 'Choice parameters need options', path: ['options'] }
+);
+
+export const strategyTemplateSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Template IDs use lowercase letters, digits and dashes'),
+  name: z.string().trim().min(1, 'Template name is required').max(60),
+  description: z.string().max(500),
+  parameters: z.array(templateParameterSchema),
+  command: z.string().min(1, 'Template command is required'),
+  schedule: z.string().optional(),
+  permission: z.object({
+    token: z.string().min(1),
+    maxSpendAmount: z.string().min(1),
+    durationDays: z.string().min(1),
+    allowedContracts: z.array(z.string().min(1)).min(1, 'Allow at least one contract'),
+  }),
+  policy: z.array(z.string().min(1)),
+  rateLimit: permissionRateLimitSchema.optional(),
+  misfirePolicy: z.enum(['skip', 'run_once', 'run_all']).optional(),
+  pacing: z.enum(['even', 'front_loaded', 'price_adaptive']).optional(),
+});
+
+export const strategyTemplateFileSchema = z.object({
+  format: z.literal('metapilot-strategy-templates'),
+  version: z.literal(1),
+  templates: z.array(strategyTemplateSchema).min(1, 'The file has no templates'),
+});
+
+// Historical market samples for backtests, one per row of a CSV or JSON file
+const decimalTextSchema = z.union([z.string(), z.number()])
+  .transform(value => String(value).trim())
+  .refine(value => /^\d+(\.\d+)?$/.test(value), 'Must be a decimal number');
+
+export const marketSampleSchema = z.object({
+  timestamp: z.union([z.string(), z.number()])
+    .transform(value => new Date(typeof value === 'number' && value < 1e12 ? value * 1000 : value))
+    .refine(date => !isNaN(date.getTime()), 'Invalid timestamp'),
+  gasPrice: decimalTextSchema,
+  tokenPrice: z.union([decimalTextSchema, z.literal(''), z.null()]).optional()
+    .transform(value => value ? value : null),
+  networkCongestion: z.enum(['low', 'medium', 'high']).optional().default('low'),
+});
+
+export const marketSeriesSchema = z.array(marketSampleSchema).min(1, 'The series has no samples');
+
 // Permission request validation
 export const permissionRequestSchema = z.object({
   tokenAddress: ethereumAddressSchema,
@@ -29,6 +178,9 @@ export const permissionRequestSchema = z.object({
     .array(ethereumAddressSchema)
     .min(1, 'At least one contract address is required')
     .max(PERMISSION_LIMITS.MAX_ALLOWED_CONTRACTS, `Maximum ${PERMISSION_LIMITS.MAX_ALLOWED_CONTRACTS} contracts allowed`),
+  policy: policyRulesSchema.optional(),
+  rateLimit: permissionRateLimitSchema.optional(),
+  period: permissionPeriodSchema.optional(),
 }).refine(
   (data) => data.endTime > data.startTime,
   {
@@ -73,6 +225,86 @@ export const gaiaLLMRequestSchema = z.object({
   max_tokens: z.number().min(1).max(4096).optional(),
 });
 
+// Agent decision validation (LLM output)
+export const agentDecisionSchema = z.object({
+  shouldExecute: z.boolean(),
+  reasoning: z.string().min(1, 'Reasoning is required'),
+  confidence: z.number().min(0).max(100),
+  riskAssessment: z.string().min(1, 'Risk assessment is required'),
+});
+
+// Multi-step plan validation (LLM output)
+export const agentPlanSchema = z.object({
+  steps: z.array(z.object({
+    description: z.string().min(1, 'Step description is required'),
+    type: z.enum(['swap', 'transfer', 'approve', 'stake', 'unstake']),
+    tokenAddress: ethereumAddressSchema,
+    amount: z.string().regex(/^\d+(\.\d+)?$/, 'Amount must be a decimal number'),
+    contractAddress: ethereumAddressSchema,
+    permissionId: z.string().min(1, 'Permission ID is required'),
+    tokenOut: ethereumAddressSchema.optional(),
+    minAmountOut: z.string().optional(),
+  })).min(1, 'A plan needs at least one step'),
+});
+
+// Intent field extraction (LLM output)
+export const intentExtractionSchema = z.object({
+  type: z.enum(['swap', 'transfer', 'approve', 'stake', 'unstake']),
+  tokenAddress: ethereumAddressSchema.nullable(),
+  amount: z.string().regex(/^\d+(\.\d+)?$/, 'Amount must be a decimal number').nullable(),
+  contractAddress: ethereumAddressSchema.nullable(),
+  tokenOut: ethereumAddressSchema.nullable().optional(),
+  minAmountOut: z.string().regex(/^\d+(\.\d+)?$/, 'Minimum amount out must be a decimal number').nullable().optional(),
+  ambiguities: z.array(z.string()).default([]),
+});
+
+// Server-side scheduler job creation
+export const scheduledJobRequestSchema = z.object({
+  intent: z.looseObject({
+    description: z.string().min(1, 'Intent description is required'),
+    tokenAddress: ethereumAddressSchema,
+    amount: z.string().min(1, 'Amount is required'),
+    contractAddress: ethereumAddressSchema,
+    permissionId: z.string().min(1, 'Permission ID is required'),
+    schedule: z.looseObject({
+      type: z.literal('recurring', 'Only recurring intents can run on the server'),
+      isActive: z.boolean(),
+    }),
+  }),
+  permission: z.object({
+    id: z.string().min(1),
+    tokenAddress: ethereumAddressSchema,
+    maxSpendAmount: decimalAmountSchema,
+    decimals: z.number().int().min(0).max(36).optional(),
+    startTime: z.coerce.date(),
+    endTime: z.coerce.date(),
+    allowedContracts: z.array(ethereumAddressSchema),
+    policy: policyRulesSchema.optional(),
+    rateLimit: permissionRateLimitSchema.optional(),
+    period: permissionPeriodSchema.optional(),
+  }),
+  permissionSignature: z.string().regex(/^0x[a-fA-F0-9]+$/, 'Permission signature must be hex'),
+  catchUpPolicy: z.enum(['skip', 'run_once', 'run_all']).optional(),
+  agentId: z.string().min(1).optional(),
+  agent: z.object({
+    name: z.string().max(40).optional(),
+    persona: z.string().max(1000, 'Persona must be at most 1000 characters').optional(),
+    llm: agentLLMSettingsSchema.optional(),
+    permissionIds: z.array(z.string().min(1)).nullable(),
+  }).optional(),
+  approvalPolicy: approvalPolicySchema.optional(),
+  knownCounterparties: z.object({
+    recipients: z.array(ethereumAddressSchema),
+    contracts: z.array(ethereumAddressSchema),
+  }).optional(),
+  velocityCap: velocityCapSchema.optional(),
+  spentAmount: decimalAmountSchema.optional(),
+  periodSpend: z.object({
+    index: z.number().int().min(0),
+    spent: decimalAmountSchema,
+  }).optional(),
+});
+
 // Network validation
 export const networkSchema = z.object({
   chainId: z.number().positive(),
@@ -1,10 +1,52 @@
 /**
  * AI Agent Execution Service
- * Handles agent decision-making and execution using Gaia LLM nodes
+ * Handles agent decision-making and execution using Gaia or other OpenAI-compatible LLMs
  */
 
 import { PermissionManager } from '@/services/permissions/PermissionManager';
 import { WalletManager } from '@/services/wallet/WalletManager';
+import { MarketDataProvider, createMarketDataProvider } from './MarketDataProvider';
+import { LLMDecisionMaker } from './DecisionMaker';
+import { AgentLLMSettings, LLMExchange, LLMProvider, LLMUsage, createLLMProvider } from './LLMProvider';
+import {
+  computeNextExecution,
+  describeSchedule,
+  getOccurrenceId,
+  hasScheduleEnded,
+  isCalendarSchedule,
+  parseScheduleFromDescription,
+  planDueOccurrences,
+} from './ScheduleCalculator';
+import { TriggerWatcher, describeTriggerCondition, parseTriggerFromDescription } from './TriggerWatcher';
+import { SchedulerClient } from '@/services/scheduler/SchedulerClient';
+import type { AgentEventBus } from '@/services/events/AgentEventBus';
+import type { AgentProfile } from './AgentRegistry';
+import type { CatchUpPolicy, ScheduledJob } from '@/types/scheduler';
+import { ActionRegistry, BuiltAction, createActionRegistry } from '@/services/blockchain/ActionRegistry';
+import type { TransactionResult } from '@/services/blockchain/TransactionService';
+import { TransactionSimulator, SimulationResult } from '@/services/blockchain/TransactionSimulator';
+import type { SmartAccountService } from '@/services/wallet/SmartAccountService';
+import type { ERC7715Permission, RateLimitViolation } from '@/types/permissions';
+import type { RuleVerdict } from '@/types/policy';
+import { AGENT_CONFIG, SCHEDULER_CONFIG } from '@/lib/constants';
+import { TokenAmount } from '@/lib/tokenAmount';
+import { InjectionFinding, describeFindings, scanForInjection } from './PromptGuard';
+import { AttemptContext, AttemptPhase, abortable, checkGasCeiling, getRetryDelay, isRetryableError, throwIfAborted } from './RetryPolicy';
+import { DEFAULT_POLICY, describeVerdicts, evaluatePolicy } from '@/services/permissions/PolicyEngine';
+import { buildPlanFromTemplate, isApprovalReplaced, isMultiStepIntent } from './PlanBuilder';
+import { AgentActionType } from '@/types/agent';
+import { ApprovalPolicy, DEFAULT_APPROVAL_POLICY, collectCounterparties, getApprovalReasons } from './ApprovalPolicy';
+import { ParsedIntent, compareExtractions, extractIntentWithGrammar, resolveIntentPermission } from './IntentParser';
+import {
+  PACING_LABELS,
+  PacingMode,
+  SchedulePacingReport,
+  SpendPoint,
+  computePacedAmount,
+  formatPacedAmount,
+  listRemainingRuns,
+  projectSpend,
+} from './BudgetPacer';
 
 export interface AgentIntent {
   description: string;
@@ -13,14 +55,111 @@ export interface AgentIntent {
   contractAddress: string;
   permissionId: string;
   schedule?: AgentSchedule; // Add scheduling information
+  trigger?: AgentTrigger; // Market conditions that fire the intent
+  action?: AgentActionParams; // What to do on-chain; a plain transfer when omitted
+  plan?: AgentPlan; // Prebuilt multi-step plan; planned from the description when omitted
+}
+
+/**
+ * On-chain action for an intent
+ * contractAddress is the recipient, spender, router or vault depending on the type
+ */
+export interface AgentActionParams {
+  type: AgentActionType;
+  adapter?: string; // Swap or stake adapter id, e.g. 'uniswap-v3' or 'erc4626'
+  tokenOut?: string; // Swap output token
+  minAmountOut?: string; // Swap slippage floor in tokenOut units
+  fee?: number; // Swap pool fee tier
+}
+
+/**
+ * Ordered steps submitted together as one batched Smart Account execution
+ */
+export interface AgentPlan {
+  steps: AgentPlanStep[];
+  source: 'llm' | 'template';
+}
+
+/**
+ * One step of a plan, checked against its own permission
+ */
+export interface AgentPlanStep {
+  description: string;
+  action: AgentActionParams;
+  tokenAddress: string;
+  amount: string;
+  contractAddress: string;
+  permissionId: string;
+}
+
+export interface PlanStepResult {
+  step: AgentPlanStep;
+  status: 'pending' | 'blocked' | 'executed' | 'failed';
+  explanation: string;
 }
 
 export interface AgentSchedule {
   type: 'once' | 'recurring';
   frequency?: 'minutely' | 'hourly' | 'daily' | 'weekly' | 'monthly';
   interval?: number; // e.g., every 2 hours, every 3 days
+  cron?: string; // 5-field cron expression, takes precedence over frequency
+  calendar?: CalendarRule; // Month-based rule such as "first business day of the month"
+  timezone?: string; // IANA timezone that cron and calendar times are evaluated in
+  endDate?: Date; // No runs after this instant ("until Dec 31")
+  maxOccurrences?: number; // Stop after this many runs ("10 times")
+  occurrenceCount?: number;
   nextExecution?: Date;
   isActive: boolean;
+  misfirePolicy?: CatchUpPolicy; // What to do with runs missed while the app was closed
+  maxCatchUpRuns?: number; // Upper bound for the run_all policy
+  pacing?: PacingMode; // Spread the allowance over the runs left; the intent's amount becomes the per-run maximum
+  pacingReferencePrice?: number; // Token price when price_adaptive pacing started
+  history?: ScheduleOccurrence[]; // Most recent first
+}
+
+/**
+ * One slot of a recurring schedule and what became of it
+ */
+export interface ScheduleOccurrence {
+  id: string; // Deterministic, see getOccurrenceId
+  scheduledFor: Date;
+  status: 'running' | 'executed' | 'skipped' | 'failed' | 'missed'; // skipped: evaluated but nothing was sent
+  executionId?: string;
+  amount?: string; // Paced amount of this run
+  explanation?: string;
+  recordedAt: Date;
+}
+
+/**
+ * Condition-based trigger: the intent runs when every condition holds
+ */
+export interface AgentTrigger {
+  conditions: TriggerCondition[];
+  cooldownMs: number; // Minimum time between fires
+  maxFires: number; // Hard cap so a trigger cannot drain the allowance
+  fireCount: number;
+  lastFiredAt?: Date;
+  lastEvaluation?: TriggerEvaluation;
+  isActive: boolean;
+}
+
+export type TriggerCondition =
+  | { type: 'gas_price'; operator: 'below' | 'above'; gwei: number }
+  | { type: 'token_price'; operator: 'below' | 'above'; usd: number }
+  | { type: 'price_change'; direction: 'drop' | 'rise'; percent: number; windowMs: number }
+  | { type: 'balance'; operator: 'below' | 'above'; amount: string; tokenAddress?: string }
+  | { type: 'congestion'; maxLevel: 'low' | 'medium' | 'high' };
+
+export interface TriggerEvaluation {
+  evaluatedAt: Date;
+  allMet: boolean;
+  results: Array<{ condition: TriggerCondition; met: boolean; detail: string }>;
+}
+
+export interface CalendarRule {
+  rule: 'first_business_day_of_month' | 'last_business_day_of_month' | 'last_day_of_month';
+  hour: number;
+  minute: number;
 }
 
 export interface AgentDecision {
@@ -28,46 +167,204 @@ export interface AgentDecision {
   reasoning: string;
   confidence: number;
   riskAssessment: string;
+  source?: DecisionSource;
+  repairAttempts?: number; // Follow-up requests needed to get a valid LLM reply
+  policyVerdicts?: RuleVerdict[]; // Result of each rule in the permission's policy
+  llmUsage?: LLMUsage; // Provider, model and tokens of the LLM calls behind the decision
+  llmExchanges?: LLMExchange[]; // Every prompt sent and raw reply received, in order
+  llmError?: string; // Why the LLM could not decide, when the policy decided instead
+  injectionFindings?: InjectionFinding[]; // Injection attempts found in the intent or the LLM reply
 }
 
+// Where a decision came from: a valid LLM reply, an LLM reply fixed after
+// validation feedback, the permission's policy alone, the prompt guard
+// (intent looked like an injection attempt), or the rule-based fallback
+// (records made before policies)
+export type DecisionSource = 'llm' | 'llm_repaired' | 'policy' | 'prompt_guard' | 'fallback';
+
 export interface AgentExecution {
   id: string;
   intent: AgentIntent;
   decision: AgentDecision;
-  status: 'pending' | 'executed' | 'failed' | 'blocked';
+  status: 'pending' | 'scheduled' | 'awaiting_approval' | 'executed' | 'failed' | 'blocked' | 'simulated';
   transactionHash?: string;
   timestamp: Date;
   explanation: string;
   gasUsed?: string;
   error?: string;
+  marketContext?: MarketContext; // Market snapshot the decision was based on
+  triggerId?: string; // Set when a trigger watcher fired this execution
+  occurrenceId?: string; // Set when a schedule slot ran this execution
+  plan?: { source: AgentPlan['source']; steps: PlanStepResult[] }; // Per-step results of a multi-step intent
+  simulation?: ExecutionSimulation; // Set on dry runs, which never broadcast or record spend
+  approval?: ApprovalRequest; // Set when the decision had to wait for the user
+  provenance?: DecisionProvenance; // Permission and spend state at decision time
+  rateLimit?: RateLimitViolation; // Set when a rate limit or velocity cap blocked the run
+  attempts?: ExecutionAttempt[]; // Every try at deciding and submitting, oldest first
+}
+
+/**
+ * One try at deciding on and submitting an execution
+ */
+export interface ExecutionAttempt {
+  number: number; // From 1
+  phase: AttemptPhase; // How far it got
+  startedAt: Date;
+  finishedAt: Date;
+  outcome: 'completed' | 'failed' | 'timed_out';
+  error?: string;
+  retryable?: boolean; // Set on failures
+  transactionHashes?: string[]; // Of the requests it sent; those are never sent again
+  lateResult?: LateAttemptResult; // Set when a timed-out attempt finished anyway
+}
+
+/**
+ * How a timed-out attempt ended after it was given up on
+ * Recorded on the attempt only; the execution and spend tracking are left as the timeout set them
+ */
+export interface LateAttemptResult {
+  finishedAt: Date;
+  outcome: 'completed' | 'failed';
+  error?: string;
+  transactionHashes?: string[]; // Requests it sent after all; check them before trying again
+}
+
+/**
+ * A decision waiting for, or answered by, the user
+ */
+export interface ApprovalRequest {
+  reasons: string[]; // Approval policy rules that matched
+  requestedAt: Date;
+  expiresAt: Date;
+  resolution?: 'approved' | 'rejected' | 'expired';
+  resolvedAt?: Date;
+}
+
+/**
+ * State the decision was made under, for audits
+ * Prompts and replies are on the decision, the market snapshot on the execution
+ */
+export interface DecisionProvenance {
+  decidedAt: Date;
+  permission: ERC7715Permission | null; // Copy at decision time
+  spend: { totalSpent: string; remainingAllowance: string } | null;
+}
+
+/**
+ * Executions exported for audits
+ */
+export interface ExecutionExport {
+  format: 'metapilot-executions';
+  version: 1;
+  exportedAt: string;
+  executions: AgentExecution[];
+}
+
+/**
+ * What a dry run predicts the agent would do
+ */
+export interface ExecutionSimulation {
+  outcome: 'would_execute' | 'would_block' | 'would_revert';
+  result?: SimulationResult; // Absent when the action was blocked before it was built
+  allowances: Array<{ permissionId: string; before: string; after: string }>; // Remaining allowance around the run
 }
 
 export interface MarketContext {
-  gasPrice: string;
-  tokenPrice: string;
+  gasPrice: string; // gwei
+  tokenPrice: string | null; // USD, null when no price source is configured
   networkCongestion: 'low' | 'medium' | 'high';
   timestamp: Date;
+  sources: Record<MarketDataField, MarketDataSource>;
+}
+
+export type MarketDataField = 'gasPrice' | 'tokenPrice' | 'networkCongestion';
+
+export interface MarketDataSource {
+  provider: string; // e.g. 'rpc:eth_feeHistory', 'oracle:0x...', 'fixture'
+  observedAt: Date;
+  ageMs: number; // Age of the data when the context was gathered
+}
+
+export interface AgentExecutorOptions {
+  marketDataProvider?: MarketDataProvider;
+  schedulerClient?: SchedulerClient;
+  actionRegistry?: ActionRegistry;
+  transactionSimulator?: TransactionSimulator;
+  approvalPolicy?: ApprovalPolicy; // Used until the user saves their own
+  llmProvider?: LLMProvider | null; // null disables the LLM; defaults to the providers configured in the environment
+  llm?: AgentLLMSettings; // Model, temperature, timeout and failover order for this agent
+  events?: AgentEventBus; // Defaults to the permission manager's bus
+  agent?: AgentProfile; // Named agent this executor runs (see AgentRegistry); the default agent when omitted
+}
+
+export interface ProcessIntentOptions {
+  triggerId?: string; // Run a fired trigger: skip schedule and trigger setup
+  runOnServer?: boolean; // Hand recurring schedules to the server scheduler instead of this tab
+  simulate?: boolean; // Dry run: evaluate once and simulate the transaction without broadcasting
+  misfirePolicy?: CatchUpPolicy; // Recurring schedules: what to do with runs missed while the app was closed
+  pacing?: PacingMode; // Recurring schedules: pace each run's amount over the permission's lifetime
+  llmExchanges?: LLMExchange[]; // Prompts and replies that read the intent from its command
 }
 
+// Largest delay setTimeout accepts before overflowing (2^31 - 1 ms)
+const MAX_TIMEOUT_MS = 2147483647;
+
+// localStorage key of claimed schedule occurrences, also the name of the Web Lock guarding it
+const OCCURRENCE_CLAIMS_KEY = 'metapilot_occurrence_claims';
+
+// Plan steps whose amount counts against the allowance: it leaves the account,
+// or (approve) the spender may take it at any time
+const SPENDING_ACTIONS: AgentActionType[] = ['transfer', 'approve', 'swap', 'stake'];
+
 export class AgentExecutor {
   private permissionManager: PermissionManager;
   private walletManager: WalletManager;
-  private gaiaEndpoint: string;
-  private gaiaApiKey: string;
+  private decisionMaker: LLMDecisionMaker;
   private executions: Map<string, AgentExecution> = new Map();
   private activeSchedules: Map<string, NodeJS.Timeout> = new Map();
   private scheduledIntents: Map<string, AgentIntent> = new Map();
+  private marketDataProvider: MarketDataProvider;
+  private triggeredIntents: Map<string, AgentIntent> = new Map();
+  private triggerWatcher: TriggerWatcher;
+  private schedulerClient: SchedulerClient;
+  private actionRegistry: ActionRegistry;
+  private transactionSimulator: TransactionSimulator;
+  private approvalPolicy: ApprovalPolicy;
+  private events: AgentEventBus;
+  private agent: AgentProfile | null;
+  private llmSettings: AgentLLMSettings | undefined;
+  private paused: boolean;
 
   constructor(
     permissionManager: PermissionManager,
     walletManager: WalletManager,
     gaiaEndpoint?: string,
-    gaiaApiKey?: string
+    gaiaApiKey?: string,
+    options: AgentExecutorOptions = {}
   ) {
     this.permissionManager = permissionManager;
     this.walletManager = walletManager;
-    this.gaiaEndpoint = gaiaEndpoint || process.env.GAIA_LLM_ENDPOINT || '';
-    this.gaiaApiKey = gaiaApiKey || process.env.GAIA_LLM_API_KEY || '';
+    this.agent = options.agent || null;
+    this.llmSettings = options.llm;
+    this.paused = this.agent?.paused || false;
+    this.decisionMaker = new LLMDecisionMaker(
+      options.llmProvider !== undefined
+        ? options.llmProvider
+        : createLLMProvider(options.llm, { endpoint: gaiaEndpoint, apiKey: gaiaApiKey }),
+      options.llm,
+      this.agent?.persona
+    );
+    this.marketDataProvider = options.marketDataProvider || createMarketDataProvider();
+    this.schedulerClient = options.schedulerClient || permissionManager.getSchedulerClient();
+    this.actionRegistry = options.actionRegistry || createActionRegistry();
+    this.transactionSimulator = options.transactionSimulator || new TransactionSimulator();
+    this.approvalPolicy = this.loadApprovalPolicy() || options.approvalPolicy || DEFAULT_APPROVAL_POLICY;
+    this.events = options.events || permissionManager.getEventBus();
+    this.triggerWatcher = new TriggerWatcher(
+      this.marketDataProvider,
+      () => this.walletManager.getSmartAccountService().getAddress(),
+      (triggerId, intent) => this.handleTriggerFired(triggerId, intent)
+    );
     
     console.log('🤖 AgentExecutor initialized');
     console.log('🔧 Debug: AgentExecutor available at window.agentExecutor');
@@ -75,15 +372,110 @@ export class AgentExecutor {
     this.loadPersistedExecutions();
     // DON'T automatically load and start schedules - they should be manually started
     this.loadPersistedSchedulesWithoutStarting();
+    // Triggers are loaded the same way; the watcher starts when asked to
+    this.loadPersistedTriggers();
     
     // Clean up any schedules with invalid permissions on startup
     this.cleanupInvalidSchedules();
   }
 
+  /**
+   * Profile of the named agent this executor runs, or null for an executor made without one
+   */
+  getAgent(): AgentProfile | null {
+    return this.agent;
+  }
+
+  /**
+   * Whether the agent is paused
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Stop this agent's schedule timers and trigger watcher, pause its server
+   * jobs and refuse new work. Schedules, triggers and jobs are kept; nothing
+   * of other agents is touched. Throws when the server jobs could not be paused
+   */
+  async pause(): Promise<void> {
+    this.paused = true;
+    Array.from(this.activeSchedules.values()).forEach(timeout => clearTimeout(timeout));
+    this.activeSchedules.clear();
+    this.triggerWatcher.stop();
+    console.log(`⏸️ Agent ${this.agent?.name || 'executor'} paused`);
+    await this.setServerJobsPaused(true);
+  }
+
+  /**
+   * Run again after pause(): schedules resume under their misfire policies and
+   * server jobs paused with the agent resume from their next slot
+   */
+  async resume(): Promise<void> {
+    this.paused = false;
+    this.resumeSchedules();
+    this.startTriggerWatcher();
+    console.log(`▶️ Agent ${this.agent?.name || 'executor'} resumed`);
+    await this.setServerJobsPaused(false);
+  }
+
+  /**
+   * Bus this executor publishes execution and schedule events on
+   */
+  getEventBus(): AgentEventBus {
+    return this.events;
+  }
+
+  /**
+   * Read token, amount, target, action and schedule from a command for the user to confirm
+   *
+   * The LLM extracts the fields when configured, the rule grammar otherwise;
+   * where both read something different it is flagged. Commands no active
+   * permission allows come back with a rejection instead of a permission.
+   */
+  async parseIntent(description: string): Promise<ParsedIntent> {
+    const permissions = this.getBoundPermissions();
+    const grammar = extractIntentWithGrammar(description);
+    const exchanges: LLMExchange[] = [];
+
+    const llm = await this.decisionMaker.extractIntent(description, permissions.map(permission => ({
+      id: permission.id,
+      tokenAddress: permission.tokenAddress,
+      maxSpendAmount: permission.maxSpendAmount,
+      remainingAllowance: this.permissionManager.getSpendTracking(permission.id)?.remainingAllowance ?? permission.maxSpendAmount,
+      startTime: permission.startTime,
+      endTime: permission.endTime,
+      allowedContracts: permission.allowedContracts,
+      policy: permission.policy,
+    })), exchanges);
+
+    const extracted = llm
+      ? { fields: llm.fields, ambiguities: llm.ambiguities.concat(compareExtractions(llm.fields, grammar.fields)) }
+      : grammar;
+    const findings = scanForInjection({ command: description });
+    if (findings.length > 0) {
+      extracted.ambiguities.push(`The command contains text that looks like instructions to the agent, which will refuse to run it: ${describeFindings(findings)}`);
+    }
+    const resolution = resolveIntentPermission(
+      extracted,
+      permissions,
+      (permissionId, tokenAddress, amount, contractAddress) =>
+        this.validateBoundAction(permissionId, tokenAddress, amount, contractAddress)
+    );
+
+    console.log(`🧩 Parsed intent (${llm ? 'llm' : 'grammar'}):`, resolution);
+    return {
+      ...resolution,
+      source: llm ? 'llm' : 'grammar',
+      schedule: parseScheduleFromDescription(description),
+      llmExchanges: exchanges,
+    };
+  }
+
   /**
    * Process a user intent and potentially execute it
    */
-  async processIntent(intent: AgentIntent): Promise<AgentExecution> {
+  async processIntent(intent: AgentIntent, options: ProcessIntentOptions = {}): Promise<AgentExecution> {
     // Validate wallet connection first
     if (!this.walletManager.isConnected()) {
       const execution: AgentExecution = {
@@ -96,15 +488,35 @@ export class AgentExecutor {
         error: 'Wallet not connected'
       };
       
-      this.executions.set(execution.id, execution);
-      this.persistExecutions();
+      this.events.emit({ type: 'execution_created', execution });
+      this.settleExecution(execution);
       return execution;
     }
     
     const executionId = this.generateExecutionId();
+
+    // A fired trigger evaluates and executes the intent as-is
+    if (options.triggerId) {
+      const execution = await this.executeIntentDirectly(intent);
+      execution.triggerId = options.triggerId;
+      this.persistExecutions();
+      return execution;
+    }
+
+    // Dry runs evaluate the intent once: no schedules, triggers or broadcasting
+    if (options.simulate) {
+      return this.simulateIntent(intent, options.llmExchanges);
+    }
     
     // Parse natural language for scheduling
-    const schedule = this.parseScheduleFromDescription(intent.description);
+    const schedule = parseScheduleFromDescription(intent.description);
+    if (schedule.type === 'recurring') {
+      schedule.misfirePolicy = options.misfirePolicy || SCHEDULER_CONFIG.DEFAULT_CATCH_UP_POLICY;
+      schedule.pacing = options.pacing;
+      if (options.pacing === 'price_adaptive') {
+        schedule.pacingReferencePrice = await this.getReferencePrice(intent.tokenAddress);
+      }
+    }
     intent.schedule = schedule;
     
     console.log('🔍 Parsed schedule for:', intent.description);
@@ -115,26 +527,80 @@ export class AgentExecutor {
     const execution: AgentExecution = {
       id: executionId,
       intent,
-      decision: { shouldExecute: false, reasoning: '', confidence: 0, riskAssessment: '' },
+      decision: { shouldExecute: false, reasoning: '', confidence: 0, riskAssessment: '', llmExchanges: options.llmExchanges?.slice() },
       status: 'pending',
       timestamp: new Date(),
       explanation: '',
     };
+    this.events.emit({ type: 'execution_created', execution });
+
+    if (this.blockIfPaused(execution)) {
+      this.settleExecution(execution);
+      return execution;
+    }
+
+    // Conditional intents wait for the trigger watcher instead of running now
+    const trigger = parseTriggerFromDescription(intent.description, schedule);
+    if (trigger) {
+      intent.trigger = trigger;
+      return this.registerTriggeredIntent(intent, execution);
+    }
 
     try {
       console.log('🤖 Processing agent intent:', intent);
       
       // If this is a recurring intent, set up the schedule
-      if (schedule.type === 'recurring' && schedule.frequency) {
+      if (schedule.type === 'recurring' && (schedule.frequency || isCalendarSchedule(schedule))) {
         console.log('🔄 Setting up recurring schedule...');
+
+        if (options.runOnServer) {
+          return this.scheduleOnServer(intent, execution);
+        }
+
+        // Calendar and paced schedules wait for their first slot instead of running on submit
+        if (isCalendarSchedule(schedule) || schedule.pacing) {
+          const isWithinBounds = this.validateBoundAction(
+            intent.permissionId,
+            intent.tokenAddress,
+            intent.amount,
+            intent.contractAddress
+          );
+
+          if (!isWithinBounds) {
+            execution.status = 'blocked';
+            execution.explanation = 'Schedule not created: Exceeds permission boundaries';
+            execution.decision.reasoning = 'The requested action would violate one or more permission constraints (spend limit, periodic allowance, time window, or contract restrictions)';
+          } else if (!schedule.nextExecution) {
+            execution.status = 'blocked';
+            execution.explanation = 'Schedule not created: No upcoming run before its end condition';
+          } else {
+            this.scheduleRecurringIntent(intent);
+            execution.status = 'scheduled';
+            execution.explanation = `Scheduled: ${describeSchedule(schedule)}. First run at ${schedule.nextExecution.toLocaleString()}.` +
+              (schedule.pacing ? ` ${PACING_LABELS[schedule.pacing]} pacing, at most ${intent.amount} per run.` : '');
+          }
+
+          this.settleExecution(execution);
+          return execution;
+        }
+
+        // The immediate evaluation below counts as the first run
+        schedule.occurrenceCount = 1;
         this.scheduleRecurringIntent(intent);
-        execution.explanation = `Scheduled to run ${schedule.frequency}. First execution will be evaluated now.`;
+        execution.explanation = `Scheduled to run ${describeSchedule(schedule)}. First execution will be evaluated now.`;
       } else {
         console.log('🔄 Not a recurring schedule, executing once');
       }
       
+      // Multi-step intents are planned, checked step by step and submitted as one batch
+      if (intent.plan || isMultiStepIntent(intent.description)) {
+        await this.runAttempts(execution, attempt => this.executePlanIntent(execution, false, attempt));
+        this.settleExecution(execution);
+        return execution;
+      }
+
       // Step 1: Validate permission boundaries
-      const isWithinBounds = this.permissionManager.validateAction(
+      const isWithinBounds = this.validateBoundAction(
         intent.permissionId,
         intent.tokenAddress,
         intent.amount,
@@ -146,35 +612,26 @@ export class AgentExecutor {
       if (!isWithinBounds) {
         execution.status = 'blocked';
         execution.explanation = 'Action blocked: Exceeds permission boundaries';
-        execution.decision.reasoning = 'The requested action would violate one or more permission constraints (spend limit, time window, or contract restrictions)';
-        this.executions.set(executionId, execution);
-        this.persistExecutions();
+        execution.decision.reasoning = 'The requested action would violate one or more permission constraints (spend limit, periodic allowance, time window, or contract restrictions)';
+        this.settleExecution(execution);
         return execution;
       }
 
-      // Step 2: Gather market context
-      const marketContext = await this.gatherMarketContext();
-
-      // Step 3: Query Gaia LLM for decision
-      const decision = await this.queryGaiaLLM(intent, marketContext);
-      execution.decision = decision;
-
-      // Step 4: Execute if approved
-      if (decision.shouldExecute) {
-        await this.executeTransaction(execution);
-      } else {
-        execution.status = 'blocked';
-        execution.explanation = `Agent declined to execute: ${decision.reasoning}`;
+      if (this.blockIfRateLimited(execution, intent.permissionId, intent.amount)) {
+        this.settleExecution(execution);
+        return execution;
       }
 
+      // Steps 2-4: Decide and execute, retrying transient failures
+      await this.runAttempts(execution, attempt => this.decideAndExecute(execution, attempt));
+
     } catch (error) {
       execution.status = 'failed';
       execution.error = error instanceof Error ? error.message : 'Unknown error';
       execution.explanation = `Execution failed: ${execution.error}`;
     }
 
-    this.executions.set(executionId, execution);
-    this.persistExecutions();
+    this.settleExecution(execution);
     return execution;
   }
 
@@ -198,6 +655,136 @@ export class AgentExecutor {
     return this.executions.get(id) || null;
   }
 
+  /**
+   * Export executions with their full decision provenance as JSON
+   */
+  exportExecutions(ids?: string[]): string {
+    const executions = ids
+      ? ids.map(id => this.executions.get(id)).filter((execution): execution is AgentExecution => execution !== undefined)
+      : this.getExecutions();
+
+    const data: ExecutionExport = {
+      format: 'metapilot-executions',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      executions,
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Current approval policy
+   */
+  getApprovalPolicy(): ApprovalPolicy {
+    return { ...this.approvalPolicy };
+  }
+
+  /**
+   * Replace the approval policy; applies to decisions made from now on
+   */
+  setApprovalPolicy(policy: ApprovalPolicy): void {
+    if (policy.minConfidence !== null && (policy.minConfidence < 0 || policy.minConfidence > 100)) {
+      throw new Error('Minimum confidence must be between 0 and 100');
+    }
+    if (policy.maxAmount !== null && !(parseFloat(policy.maxAmount) >= 0)) {
+      throw new Error('Maximum amount must be a non-negative number');
+    }
+    if (!(policy.expiresAfterMs > 0)) {
+      throw new Error('Approval expiry must be positive');
+    }
+
+    this.approvalPolicy = { ...policy };
+    try {
+      localStorage.setItem(this.storageKey('metapilot_approval_policy'), JSON.stringify(this.approvalPolicy));
+    } catch (error) {
+      console.error('Failed to persist approval policy:', error);
+    }
+  }
+
+  /**
+   * Executions waiting for the user, oldest first; expires stale requests
+   */
+  getPendingApprovals(): AgentExecution[] {
+    this.expireApprovals();
+    return Array.from(this.executions.values())
+      .filter(execution => execution.status === 'awaiting_approval')
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Approve a waiting execution and run it with its original decision
+   * Permission boundaries are checked again, as they may have changed while it waited
+   */
+  async approveExecution(id: string): Promise<AgentExecution> {
+    const execution = this.getAwaitingExecution(id);
+
+    if (!this.walletManager.isConnected()) {
+      throw new Error('Wallet not connected. Please connect your wallet to continue.');
+    }
+    if (this.paused) {
+      throw new Error('The agent is paused. Resume it to run approved executions.');
+    }
+
+    const approval = execution.approval as ApprovalRequest;
+    approval.resolution = 'approved';
+    approval.resolvedAt = new Date();
+    console.log(`👍 Execution ${id} approved:`, approval.reasons);
+
+    try {
+      if (execution.plan) {
+        const marketContext = await this.gatherMarketContext(execution.intent.tokenAddress);
+        const blockedCount = this.validatePlanSteps(execution.plan.steps, marketContext);
+        if (blockedCount > 0) {
+          execution.status = 'blocked';
+          execution.explanation = `Approved, but ${blockedCount} of ${execution.plan.steps.length} steps no longer fit their permissions, nothing was executed`;
+        } else {
+          const steps = execution.plan.steps;
+          await this.runAttempts(execution, attempt => this.executePlan(execution, steps, false, attempt));
+        }
+      } else {
+        const { intent } = execution;
+        const isWithinBounds = this.validateBoundAction(
+          intent.permissionId,
+          intent.tokenAddress,
+          intent.amount,
+          intent.contractAddress
+        );
+        if (!isWithinBounds) {
+          execution.status = 'blocked';
+          execution.explanation = 'Approved, but the action no longer fits the permission boundaries';
+        } else if (this.blockIfRateLimited(execution, intent.permissionId, intent.amount)) {
+          execution.explanation = `Approved, but ${execution.explanation.charAt(0).toLowerCase()}${execution.explanation.slice(1)}`;
+        } else {
+          await this.runAttempts(execution, attempt => this.executeTransaction(execution, attempt));
+        }
+      }
+    } catch (error) {
+      execution.status = 'failed';
+      execution.error = error instanceof Error ? error.message : 'Unknown error';
+      execution.explanation = `Execution failed after approval: ${execution.error}`;
+    }
+
+    this.settleExecution(execution);
+    return execution;
+  }
+
+  /**
+   * Reject a waiting execution; nothing is sent
+   */
+  rejectExecution(id: string): AgentExecution {
+    const execution = this.getAwaitingExecution(id);
+    const approval = execution.approval as ApprovalRequest;
+
+    approval.resolution = 'rejected';
+    approval.resolvedAt = new Date();
+    execution.status = 'blocked';
+    execution.explanation = `Rejected by the user (${approval.reasons.join('; ')})`;
+    console.log(`👎 Execution ${id} rejected`);
+
+    this.settleExecution(execution);
+    return execution;
+  }
+
   /**
    * Debug method to check current state
    */
@@ -219,7 +806,7 @@ export class AgentExecutor {
   /**
    * Get all active schedules (excluding those with revoked permissions)
    */
-  getActiveSchedules(): Array<{ id: string; intent: AgentIntent; nextExecution: Date }> {
+  getActiveSchedules(): Array<{ id: string; intent: AgentIntent; nextExecution: Date; isRunning: boolean }> {
     console.log('🔍 Getting active schedules...');
     console.log('🔍 scheduledIntents size:', this.scheduledIntents.size);
     console.log('🔍 activeSchedules size:', this.activeSchedules.size);
@@ -255,6 +842,7 @@ export class AgentExecutor {
           id,
           intent,
           nextExecution: intent.schedule?.nextExecution || new Date(),
+          isRunning: this.activeSchedules.has(id), // Loaded schedules wait for resumeSchedules
         };
       });
     
@@ -284,7 +872,7 @@ export class AgentExecutor {
       return {
         id,
         description: intent.description,
-        frequency: intent.schedule?.frequency || 'unknown',
+        frequency: intent.schedule ? describeSchedule(intent.schedule) : 'unknown',
         nextExecution: nextExecution.toLocaleString(),
         timeUntilNext: timeUntilNext > 0 ? `${Math.round(timeUntilNext / 1000)}s` : 'overdue',
         isActive: intent.schedule?.isActive || false,
@@ -346,9 +934,16 @@ export class AgentExecutor {
     this.activeSchedules.clear();
     this.scheduledIntents.clear();
     
+    // Stop and clear all triggers
+    this.triggerWatcher.stop();
+    Array.from(this.triggeredIntents.keys()).forEach(triggerId => this.triggerWatcher.unregister(triggerId));
+    this.triggeredIntents.clear();
+    
     // Clear persisted schedules
     if (typeof window !== 'undefined') {
-      localStorage.removeItem('metapilot_schedules');
+      localStorage.removeItem(this.storageKey('metapilot_schedules'));
+      localStorage.removeItem(this.storageKey('metapilot_triggers'));
+      localStorage.removeItem(OCCURRENCE_CLAIMS_KEY);
     }
     
     console.log('✅ All schedules stopped and cleared');
@@ -368,8 +963,10 @@ export class AgentExecutor {
     
     // Clear ALL localStorage related to agent
     if (typeof window !== 'undefined') {
-      localStorage.removeItem('metapilot_schedules');
-      localStorage.removeItem('metapilot_executions');
+      localStorage.removeItem(this.storageKey('metapilot_schedules'));
+      localStorage.removeItem(this.storageKey('metapilot_triggers'));
+      localStorage.removeItem(OCCURRENCE_CLAIMS_KEY);
+      localStorage.removeItem(this.storageKey('metapilot_executions'));
       localStorage.removeItem('metapilot_connection_state');
       console.log('🧹 Cleared all localStorage');
     }
@@ -410,6 +1007,77 @@ export class AgentExecutor {
     return this.processIntent(testIntent);
   }
 
+  /**
+   * Start loaded schedules that are not running in this tab yet
+   *
+   * Slots that passed while the app was closed follow each schedule's
+   * misfire policy. Safe to call repeatedly: running schedules are left alone.
+   */
+  resumeSchedules(): number {
+    if (this.paused) {
+      console.log('⏸️ Not resuming schedules: the agent is paused');
+      return 0;
+    }
+
+    let resumed = 0;
+
+    Array.from(this.scheduledIntents.entries()).forEach(([id, intent]) => {
+      if (!intent.schedule?.isActive || this.activeSchedules.has(id)) {
+        return;
+      }
+
+      const permission = this.permissionManager.getPermission(intent.permissionId);
+      if (!permission || permission.status !== 'active') {
+        console.log(`⏸️ Not resuming schedule ${id}: permission ${permission?.status || 'not found'}`);
+        return;
+      }
+
+      console.log(`🔄 Resuming schedule: "${intent.description}"`);
+      this.scheduleRecurringIntent(intent, id);
+      resumed++;
+    });
+
+    console.log(`🔄 Resumed ${resumed} schedules`);
+    return resumed;
+  }
+
+  /**
+   * Pacing of a schedule: the next run's amount and projected against actual spend
+   * Returns null for schedules without pacing
+   */
+  getSchedulePacing(scheduleId: string): SchedulePacingReport | null {
+    const intent = this.scheduledIntents.get(scheduleId);
+    const schedule = intent?.schedule;
+    const permission = intent ? this.permissionManager.getPermission(intent.permissionId) : null;
+    if (!intent || !schedule?.pacing || !permission) {
+      return null;
+    }
+
+    const now = new Date();
+    const tracking = this.permissionManager.getSpendTracking(permission.id);
+    const spent = parseFloat(tracking?.totalSpent || '0');
+    const input = {
+      mode: schedule.pacing,
+      remainingAllowance: parseFloat(tracking?.remainingAllowance ?? permission.maxSpendAmount),
+      maxPerRun: parseFloat(intent.amount),
+    };
+    const runs = schedule.nextExecution ? listRemainingRuns(schedule, schedule.nextExecution, permission.endTime) : [];
+
+    const actual: SpendPoint[] = [{ at: permission.startTime, cumulative: 0 }];
+    (tracking?.spendEntries || []).forEach(entry => {
+      actual.push({ at: entry.timestamp, cumulative: actual[actual.length - 1].cumulative + parseFloat(entry.amount) });
+    });
+
+    return {
+      mode: schedule.pacing,
+      nextAmount: formatPacedAmount(computePacedAmount({ ...input, remainingRuns: runs.length }), this.permissionManager.getTokenDecimals(permission.id)),
+      remainingRuns: runs.length,
+      allowance: parseFloat(permission.maxSpendAmount),
+      projected: projectSpend(runs, input, spent, now),
+      actual,
+    };
+  }
+
   /**
    * Stop a scheduled intent
    */
@@ -444,223 +1112,527 @@ export class AgentExecutor {
   }
 
   /**
-   * Parse natural language description to detect scheduling frequency
+   * Get all active condition triggers
    */
-  private parseScheduleFromDescription(description: string): AgentSchedule {
-    const lowerDesc = description.toLowerCase();
-    
-    // Check for minute-based patterns first
-    if (lowerDesc.includes('every minute') || lowerDesc.includes('per minute')) {
-      return {
-        type: 'recurring',
-        frequency: 'minutely',
-        interval: 1,
-        nextExecution: this.calculateNextExecution('minutely', 1),
-        isActive: true,
-      };
-    }
-    
-    // Check for recurring patterns
-    if (lowerDesc.includes('daily') || lowerDesc.includes('every day')) {
-      return {
-        type: 'recurring',
-        frequency: 'daily',
-        interval: 1,
-        nextExecution: this.calculateNextExecution('daily', 1),
-        isActive: true,
-      };
+  getActiveTriggers(): Array<{ id: string; intent: AgentIntent }> {
+    return Array.from(this.triggeredIntents.entries())
+      .filter(([, intent]) => intent.trigger?.isActive)
+      .map(([id, intent]) => ({ id, intent }));
+  }
+
+  /**
+   * Start evaluating registered triggers
+   */
+  startTriggerWatcher(): void {
+    if (this.triggeredIntents.size > 0 && !this.paused) {
+      this.triggerWatcher.start();
     }
-    
-    if (lowerDesc.includes('weekly') || lowerDesc.includes('every week')) {
-      return {
-        type: 'recurring',
-        frequency: 'weekly',
-        interval: 1,
-        nextExecution: this.calculateNextExecution('weekly', 1),
-        isActive: true,
-      };
+  }
+
+  /**
+   * Whether triggers are currently being evaluated
+   */
+  isTriggerWatcherRunning(): boolean {
+    return this.triggerWatcher.isRunning();
+  }
+
+  /**
+   * Stop a condition trigger
+   */
+  stopTrigger(triggerId: string): boolean {
+    const intent = this.triggeredIntents.get(triggerId);
+    if (!intent) {
+      console.log(`⚠️ Trigger not found: ${triggerId}`);
+      return false;
     }
-    
-    if (lowerDesc.includes('hourly') || lowerDesc.includes('every hour')) {
-      return {
-        type: 'recurring',
-        frequency: 'hourly',
-        interval: 1,
-        nextExecution: this.calculateNextExecution('hourly', 1),
-        isActive: true,
-      };
+
+    if (intent.trigger) {
+      intent.trigger.isActive = false;
     }
-    
-    if (lowerDesc.includes('monthly') || lowerDesc.includes('every month')) {
-      return {
-        type: 'recurring',
-        frequency: 'monthly',
-        interval: 1,
-        nextExecution: this.calculateNextExecution('monthly', 1),
-        isActive: true,
-      };
+    this.triggeredIntents.delete(triggerId);
+    this.triggerWatcher.unregister(triggerId);
+    this.persistTriggers();
+    console.log(`🛑 Stopped and removed trigger: ${triggerId}`);
+    return true;
+  }
+
+  /**
+   * Get this account's jobs on the server scheduler
+   */
+  async listServerJobs(): Promise<ScheduledJob[]> {
+    return this.walletManager.isConnected() ? this.schedulerClient.listJobs() : [];
+  }
+
+  async pauseServerJob(jobId: string): Promise<ScheduledJob> {
+    return this.schedulerClient.pauseJob(jobId);
+  }
+
+  async resumeServerJob(jobId: string): Promise<ScheduledJob> {
+    return this.schedulerClient.resumeJob(jobId);
+  }
+
+  async deleteServerJob(jobId: string): Promise<void> {
+    return this.schedulerClient.deleteJob(jobId);
+  }
+
+  /**
+   * Private: Pause this agent's active server jobs, or resume the ones paused with it
+   * Jobs the user paused on their own stay paused
+   */
+  private async setServerJobsPaused(paused: boolean): Promise<void> {
+    if (!this.walletManager.isConnected()) {
+      console.warn(`⚠️ Wallet not connected: server jobs of ${this.agent?.name || 'the agent'} were not ${paused ? 'paused' : 'resumed'}`);
+      return;
     }
-    
-    // Check for specific intervals (e.g., "every 2 hours", "every 3 days", "every 5 minutes")
-    const intervalMatch = lowerDesc.match(/every (\d+) (minute|hour|day|week|month)s?/);
-    if (intervalMatch) {
-      const interval = parseInt(intervalMatch[1]);
-      const unit = intervalMatch[2];
-      let frequency: AgentSchedule['frequency'];
-      
-      switch (unit) {
-        case 'minute':
-          frequency = 'minutely';
-          break;
-        case 'hour':
-          frequency = 'hourly';
-          break;
-        case 'day':
-          frequency = 'daily';
-          break;
-        case 'week':
-          frequency = 'weekly';
-          break;
-        case 'month':
-          frequency = 'monthly';
-          break;
-        default:
-          frequency = 'daily';
+
+    const agentId = this.agent?.id || AGENT_CONFIG.DEFAULT_AGENT_ID;
+    const jobs = (await this.schedulerClient.listJobs()).filter(job =>
+      (job.agentId || AGENT_CONFIG.DEFAULT_AGENT_ID) === agentId &&
+      (paused ? job.status === 'active' : job.status === 'paused' && job.pausedWithAgent)
+    );
+    for (const job of jobs) {
+      await (paused ? this.schedulerClient.pauseJob(job.id, true) : this.schedulerClient.resumeJob(job.id));
+    }
+    if (jobs.length > 0) {
+      console.log(`⏯️ ${paused ? 'Paused' : 'Resumed'} ${jobs.length} server jobs of ${this.agent?.name || 'the agent'}`);
+    }
+  }
+
+  /**
+   * Private: Hand a recurring intent to the server scheduler so it keeps running without this tab
+   */
+  private async scheduleOnServer(intent: AgentIntent, execution: AgentExecution): Promise<AgentExecution> {
+    const permission = this.permissionManager.getPermission(intent.permissionId);
+    const isWithinBounds = this.validateBoundAction(
+      intent.permissionId,
+      intent.tokenAddress,
+      intent.amount,
+      intent.contractAddress
+    );
+
+    if (!permission || !isWithinBounds) {
+      execution.status = 'blocked';
+      execution.explanation = 'Server job not created: Exceeds permission boundaries';
+      execution.decision.reasoning = 'The requested action would violate one or more permission constraints (spend limit, periodic allowance, time window, or contract restrictions)';
+    } else {
+      try {
+        const known = collectCounterparties(Array.from(this.executions.values()));
+        const job = await this.schedulerClient.createJob({
+          intent,
+          permission: {
+            id: permission.id,
+            tokenAddress: permission.tokenAddress,
+            maxSpendAmount: permission.maxSpendAmount,
+            decimals: permission.decimals,
+            startTime: permission.startTime,
+            endTime: permission.endTime,
+            allowedContracts: permission.allowedContracts,
+            policy: permission.policy,
+            rateLimit: permission.rateLimit,
+            period: permission.period,
+          },
+          catchUpPolicy: intent.schedule?.misfirePolicy,
+          agentId: this.agent?.id || AGENT_CONFIG.DEFAULT_AGENT_ID,
+          agent: {
+            name: this.agent?.name,
+            persona: this.agent?.persona,
+            llm: this.llmSettings,
+            permissionIds: this.agent?.permissionIds || null,
+          },
+          approvalPolicy: this.getApprovalPolicy(),
+          knownCounterparties: {
+            recipients: Array.from(known.recipients),
+            contracts: Array.from(known.contracts),
+          },
+          velocityCap: this.permissionManager.getVelocityCap(permission.tokenAddress) || undefined,
+          spentAmount: this.permissionManager.getSpendTracking(intent.permissionId)?.totalSpent || '0',
+          periodSpend: this.permissionManager.getSpendTracking(intent.permissionId)?.periodSpend,
+        });
+
+        execution.status = 'scheduled';
+        execution.explanation = `Scheduled on the server: ${intent.schedule ? describeSchedule(intent.schedule) : 'recurring'}. ` +
+          `First run at ${job.nextRunAt ? job.nextRunAt.toLocaleString() : 'the next scheduler tick'}. Job ${job.id} keeps running when this tab is closed.`;
+        console.log('✅ Created server scheduler job:', job.id);
+      } catch (error) {
+        execution.status = 'failed';
+        execution.error = error instanceof Error ? error.message : 'Unknown error';
+        execution.explanation = `Server job not created: ${execution.error}`;
       }
-      
-      return {
-        type: 'recurring',
-        frequency,
-        interval,
-        nextExecution: this.calculateNextExecution(frequency, interval),
-        isActive: true,
-      };
     }
-    
-    // Default to one-time execution
-    return {
-      type: 'once',
-      isActive: false,
-    };
+
+    this.settleExecution(execution);
+    return execution;
   }
 
   /**
-   * Calculate next execution time based on frequency and interval
+   * Private: Validate and register an intent that waits for its trigger conditions
    */
-  private calculateNextExecution(frequency: AgentSchedule['frequency'], interval: number): Date {
-    const now = new Date();
-    
-    switch (frequency) {
-      case 'minutely':
-        return new Date(now.getTime() + (interval * 60 * 1000));
-      case 'hourly':
-        return new Date(now.getTime() + (interval * 60 * 60 * 1000));
-      case 'daily':
-        return new Date(now.getTime() + (interval * 24 * 60 * 60 * 1000));
-      case 'weekly':
-        return new Date(now.getTime() + (interval * 7 * 24 * 60 * 60 * 1000));
-      case 'monthly':
-        const nextMonth = new Date(now);
-        nextMonth.setMonth(nextMonth.getMonth() + interval);
-        return nextMonth;
-      default:
-        return new Date(now.getTime() + (60 * 1000)); // Default to 1 minute
+  private registerTriggeredIntent(intent: AgentIntent, execution: AgentExecution): AgentExecution {
+    const trigger = intent.trigger;
+    const isWithinBounds = this.validateBoundAction(
+      intent.permissionId,
+      intent.tokenAddress,
+      intent.amount,
+      intent.contractAddress
+    );
+
+    if (!trigger || !isWithinBounds) {
+      execution.status = 'blocked';
+      execution.explanation = 'Trigger not created: Exceeds permission boundaries';
+      execution.decision.reasoning = 'The requested action would violate one or more permission constraints (spend limit, periodic allowance, time window, or contract restrictions)';
+    } else {
+      const triggerId = `trigger_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+      this.triggeredIntents.set(triggerId, intent);
+      this.triggerWatcher.register(triggerId, intent);
+      this.triggerWatcher.start();
+      this.persistTriggers();
+
+      execution.status = 'scheduled';
+      execution.triggerId = triggerId;
+      execution.explanation = `Waiting for trigger: ${trigger.conditions.map(describeTriggerCondition).join(' and ')} ` +
+        `(up to ${trigger.maxFires} run${trigger.maxFires === 1 ? '' : 's'}, ${Math.round(trigger.cooldownMs / 60000)} min cooldown)`;
+      console.log(`🎯 Registered trigger ${triggerId}: ${execution.explanation}`);
+    }
+
+    this.settleExecution(execution);
+    return execution;
+  }
+
+  /**
+   * Private: Run a fired trigger and retire it once it is used up or its permission is gone
+   */
+  private async handleTriggerFired(triggerId: string, intent: AgentIntent): Promise<void> {
+    const permission = this.permissionManager.getPermission(intent.permissionId);
+    if (!permission || permission.status !== 'active') {
+      console.log(`🛑 Trigger ${triggerId} stopped: permission ${permission?.status || 'not found'}`);
+      this.stopTrigger(triggerId);
+      return;
+    }
+
+    try {
+      await this.processIntent(intent, { triggerId });
+    } catch (error) {
+      console.error(`❌ Triggered execution failed for ${triggerId}:`, error);
+    }
+
+    if (intent.trigger && intent.trigger.fireCount >= intent.trigger.maxFires) {
+      console.log(`🏁 Trigger ${triggerId} reached its maximum of ${intent.trigger.maxFires} fires`);
+      this.stopTrigger(triggerId);
+    } else {
+      this.persistTriggers();
     }
   }
 
   /**
    * Set up recurring execution for an intent
+   *
+   * Restored schedules pass their existing id so a second restore replaces
+   * the timer instead of adding another one.
    */
-  private scheduleRecurringIntent(intent: AgentIntent): void {
-    if (!intent.schedule || intent.schedule.type !== 'recurring' || !intent.schedule.frequency) {
+  private scheduleRecurringIntent(intent: AgentIntent, scheduleId: string = this.generateScheduleId()): void {
+    if (!intent.schedule || intent.schedule.type !== 'recurring' || (!intent.schedule.frequency && !isCalendarSchedule(intent.schedule))) {
       console.log('❌ Cannot schedule intent - invalid schedule configuration:', intent.schedule);
       return;
     }
 
-    const scheduleId = `schedule_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-    
     // Store the intent for recurring execution
     this.scheduledIntents.set(scheduleId, intent);
     
     console.log(`⏰ Setting up recurring schedule for: "${intent.description}"`);
     console.log(`⏰ Schedule ID: ${scheduleId}`);
-    console.log(`⏰ Frequency: ${intent.schedule.frequency}, Interval: ${intent.schedule.interval}`);
+    console.log(`⏰ Schedule: ${describeSchedule(intent.schedule)}`);
     console.log(`⏰ Next execution: ${intent.schedule.nextExecution?.toLocaleString()}`);
     console.log(`⏰ Total scheduled intents now: ${this.scheduledIntents.size}`);
-    
-    const executeRecurring = async () => {
-      try {
-        console.log(`⏰ [${new Date().toLocaleString()}] Executing scheduled intent: ${intent.description}`);
-        
-        // Execute the intent directly without creating a new schedule
-        const execution = await this.executeIntentDirectly(intent);
-        
-        console.log(`📊 [${new Date().toLocaleString()}] Scheduled execution result: ${execution.status}`);
-        
-        // Schedule the next execution if still active
-        if (intent.schedule && intent.schedule.isActive && intent.schedule.frequency) {
-          const nextExecution = this.calculateNextExecution(intent.schedule.frequency, intent.schedule.interval || 1);
-          intent.schedule.nextExecution = nextExecution;
-          
-          const timeUntilNext = nextExecution.getTime() - Date.now();
-          
-          console.log(`⏰ [${new Date().toLocaleString()}] Scheduling next execution for: ${nextExecution.toLocaleString()}`);
-          console.log(`⏰ Time until next execution: ${Math.round(timeUntilNext / 1000)} seconds`);
-          
-          if (timeUntilNext > 0) {
-            const timeout = setTimeout(executeRecurring, timeUntilNext);
-            this.activeSchedules.set(scheduleId, timeout);
-            this.persistSchedules();
-            
-            console.log(`⏰ Next execution scheduled successfully`);
-          } else {
-            console.log(`⚠️ Next execution time is in the past, scheduling immediately`);
-            setTimeout(executeRecurring, 1000); // Execute in 1 second
-          }
-        } else {
-          console.log(`🛑 Schedule is no longer active, stopping recurring execution`);
-        }
-        
-      } catch (error) {
-        console.error('❌ Scheduled execution failed:', error);
-        
-        // Still schedule next execution even if this one failed
-        if (intent.schedule && intent.schedule.isActive && intent.schedule.frequency) {
-          const nextExecution = this.calculateNextExecution(intent.schedule.frequency, intent.schedule.interval || 1);
-          intent.schedule.nextExecution = nextExecution;
-          
-          const timeUntilNext = nextExecution.getTime() - Date.now();
-          
-          console.log(`⏰ Rescheduling after error for: ${nextExecution.toLocaleString()}`);
-          
-          if (timeUntilNext > 0) {
-            const timeout = setTimeout(executeRecurring, timeUntilNext);
-            this.activeSchedules.set(scheduleId, timeout);
-            this.persistSchedules();
-          }
+
+    // Runs every slot that is due, applying the misfire policy to slots that
+    // passed while the app was closed or the tab was asleep, then re-arms
+    const runDueOccurrences = async () => {
+      const schedule = intent.schedule;
+      if (!schedule || !schedule.isActive || !schedule.nextExecution) {
+        console.log(`🛑 Schedule is no longer active, stopping recurring execution`);
+        return;
+      }
+
+      const policy = schedule.misfirePolicy || SCHEDULER_CONFIG.DEFAULT_CATCH_UP_POLICY;
+      const plan = planDueOccurrences(
+        schedule,
+        schedule.nextExecution,
+        new Date(),
+        policy,
+        SCHEDULER_CONFIG.MISFIRE_GRACE_MS,
+        schedule.maxCatchUpRuns || SCHEDULER_CONFIG.MAX_CATCH_UP_RUNS
+      );
+
+      if (plan.skipped.length > 0) {
+        console.log(`⏭️ Schedule ${scheduleId} missed ${plan.skipped.length} run(s), ${policy} policy`);
+        this.recordMissedOccurrences(scheduleId, schedule, plan.skipped, policy);
+      }
+
+      for (const scheduledFor of plan.run) {
+        if (!schedule.isActive) {
+          break; // Stopped while earlier occurrences ran
         }
+        await this.runScheduledOccurrence(scheduleId, intent, scheduledFor);
       }
+
+      if (!schedule.isActive) {
+        return;
+      }
+
+      if (!plan.nextRunAt || hasScheduleEnded(schedule)) {
+        console.log(`🏁 Schedule "${intent.description}" reached its end condition`);
+        this.stopSchedule(scheduleId);
+        return;
+      }
+
+      schedule.nextExecution = plan.nextRunAt;
+      console.log(`⏰ [${new Date().toLocaleString()}] Scheduling next execution for: ${plan.nextRunAt.toLocaleString()}`);
+      this.armScheduleTimer(scheduleId, plan.nextRunAt, runDueOccurrences);
+      this.persistSchedules();
     };
     
-    // Calculate time until first execution
-    const timeUntilNext = intent.schedule.nextExecution 
-      ? intent.schedule.nextExecution.getTime() - Date.now()
-      : 0;
-    
-    console.log(`⏰ Time until first execution: ${Math.round(timeUntilNext / 1000)} seconds`);
-    
-    if (timeUntilNext > 0) {
-      const timeout = setTimeout(executeRecurring, timeUntilNext);
-      this.activeSchedules.set(scheduleId, timeout);
+    if (hasScheduleEnded(intent.schedule)) {
+      console.log(`🏁 Schedule "${intent.description}" has no runs left`);
+      this.stopSchedule(scheduleId);
+      return;
+    }
+
+    if (!intent.schedule.nextExecution) {
+      intent.schedule.nextExecution = computeNextExecution(intent.schedule) || undefined;
+    }
+
+    const firstExecution = intent.schedule.nextExecution;
+    if (!firstExecution) {
+      console.log(`🏁 Schedule "${intent.description}" has no upcoming run`);
+      this.stopSchedule(scheduleId);
+      return;
+    }
+
+    // Overdue slots are handled right away by the misfire policy
+    this.armScheduleTimer(scheduleId, firstExecution, runDueOccurrences);
+    this.persistSchedules();
+
+    console.log(`⏰ Scheduled intent "${intent.description}" to run ${describeSchedule(intent.schedule)}`);
+    console.log(`⏰ First execution: ${firstExecution.toLocaleString()}`);
+  }
+
+  /**
+   * Private: Run one schedule slot unless another tab or an earlier session already claimed it
+   */
+  private async runScheduledOccurrence(scheduleId: string, intent: AgentIntent, scheduledFor: Date): Promise<void> {
+    const schedule = intent.schedule;
+    if (!schedule) {
+      return;
+    }
+
+    const occurrenceId = getOccurrenceId(scheduleId, scheduledFor);
+    if (!(await this.claimOccurrence(occurrenceId))) {
+      console.log(`⏭️ Occurrence ${occurrenceId} already ran elsewhere, not running it again`);
+      return;
+    }
+
+    const occurrence: ScheduleOccurrence = { id: occurrenceId, scheduledFor, status: 'running', recordedAt: new Date() };
+    this.events.emit({ type: 'schedule_fired', scheduleId, occurrenceId, scheduledFor });
+
+    try {
+      // Paced before counting this run, so it is among the runs left
+      const runIntent = await this.paceScheduledIntent(intent, scheduledFor);
+      if (runIntent !== intent) {
+        occurrence.amount = runIntent.amount;
+      }
+
+      schedule.occurrenceCount = (schedule.occurrenceCount || 0) + 1;
+      this.recordOccurrence(schedule, occurrence);
       this.persistSchedules();
-      
-      console.log(`⏰ Scheduled intent "${intent.description}" to run ${intent.schedule.frequency}`);
-      console.log(`⏰ First execution: ${intent.schedule.nextExecution?.toLocaleString()}`);
-    } else {
-      // Execute immediately if time has passed
-      console.log(`⏰ Executing immediately (time has passed)`);
-      setTimeout(executeRecurring, 1000); // Small delay to avoid blocking
+
+      console.log(`⏰ [${new Date().toLocaleString()}] Executing scheduled intent: ${intent.description} (${occurrenceId})`);
+
+      // Execute the intent directly without creating a new schedule
+      const execution = await this.executeIntentDirectly(runIntent);
+      execution.occurrenceId = occurrenceId;
+      this.persistExecutions();
+
+      occurrence.executionId = execution.id;
+      occurrence.status = execution.status === 'executed' || execution.status === 'failed' ? execution.status : 'skipped';
+      occurrence.explanation = execution.explanation;
+      console.log(`📊 [${new Date().toLocaleString()}] Scheduled execution result: ${execution.status}`);
+    } catch (error) {
+      // Later slots still run even if this one failed
+      console.error('❌ Scheduled execution failed:', error);
+      occurrence.status = 'failed';
+      occurrence.explanation = error instanceof Error ? error.message : 'Unknown error';
+      this.recordOccurrence(schedule, occurrence);
+    }
+
+    occurrence.recordedAt = new Date();
+    this.persistSchedules();
+  }
+
+  /**
+   * Private: Intent with this run's paced amount, or the intent itself when
+   * the schedule is not paced
+   *
+   * Multi-step plans keep their own amounts.
+   */
+  private async paceScheduledIntent(intent: AgentIntent, scheduledFor: Date): Promise<AgentIntent> {
+    const schedule = intent.schedule;
+    const permission = this.permissionManager.getPermission(intent.permissionId);
+    if (!schedule?.pacing || !permission || intent.plan || isMultiStepIntent(intent.description)) {
+      return intent;
+    }
+
+    let tokenPrice: number | null = null;
+    if (schedule.pacing === 'price_adaptive') {
+      tokenPrice = (await this.getReferencePrice(intent.tokenAddress)) ?? null;
+      if (schedule.pacingReferencePrice === undefined && tokenPrice !== null) {
+        schedule.pacingReferencePrice = tokenPrice; // Price was unavailable when the schedule started
+      }
+    }
+
+    const tracking = this.permissionManager.getSpendTracking(permission.id);
+    const amount = computePacedAmount({
+      mode: schedule.pacing,
+      remainingAllowance: parseFloat(tracking?.remainingAllowance ?? permission.maxSpendAmount),
+      remainingRuns: listRemainingRuns(schedule, scheduledFor, permission.endTime).length,
+      maxPerRun: parseFloat(intent.amount),
+      tokenPrice,
+      referencePrice: schedule.pacingReferencePrice,
+    });
+
+    // Nothing left to pace: the full amount is then blocked by the spend limit
+    const paced = formatPacedAmount(amount, this.permissionManager.getTokenDecimals(permission.id));
+    if (paced === '0') {
+      return intent;
+    }
+
+    console.log(`📏 Paced run amount: ${paced} (${PACING_LABELS[schedule.pacing]}, at most ${intent.amount})`);
+    return { ...intent, amount: paced };
+  }
+
+  /**
+   * Private: Current token price, or undefined when market data is unavailable
+   */
+  private async getReferencePrice(tokenAddress: string): Promise<number | undefined> {
+    try {
+      const context = await this.gatherMarketContext(tokenAddress);
+      return context.tokenPrice !== null ? parseFloat(context.tokenPrice) : undefined;
+    } catch (error) {
+      console.warn('⚠️ No token price for pacing:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Private: Record slots the misfire policy decided not to run
+   */
+  private recordMissedOccurrences(scheduleId: string, schedule: AgentSchedule, missed: Date[], policy: CatchUpPolicy): void {
+    const claims = this.loadOccurrenceClaims();
+
+    // Older slots would fall out of the capped history anyway
+    missed.slice(-SCHEDULER_CONFIG.MAX_RUN_HISTORY).forEach(scheduledFor => {
+      const id = getOccurrenceId(scheduleId, scheduledFor);
+      if (claims[id]) {
+        return; // Another tab ran it
+      }
+      this.recordOccurrence(schedule, {
+        id,
+        scheduledFor,
+        status: 'missed',
+        explanation: `Missed while the app was closed; not run under the ${policy.replace('_', ' ')} policy`,
+        recordedAt: new Date(),
+      });
+    });
+  }
+
+  /**
+   * Private: Add an occurrence to a schedule's history, newest first
+   */
+  private recordOccurrence(schedule: AgentSchedule, occurrence: ScheduleOccurrence): void {
+    const history = (schedule.history || []).filter(existing => existing.id !== occurrence.id);
+    history.unshift(occurrence);
+    history.sort((a, b) => b.scheduledFor.getTime() - a.scheduledFor.getTime());
+    schedule.history = history.slice(0, SCHEDULER_CONFIG.MAX_RUN_HISTORY);
+  }
+
+  /**
+   * Private: Claim an occurrence before running it
+   *
+   * Claims live in localStorage, which every tab of the app shares, so a slot
+   * claimed by one tab or an earlier session is never run again. Claiming
+   * holds a Web Lock shared by all tabs, so two tabs firing the same slot
+   * cannot both read it as unclaimed. Returns false when the claim could not
+   * be saved, since another tab would not see it.
+   */
+  private async claimOccurrence(occurrenceId: string): Promise<boolean> {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      console.warn('⚠️ Web Locks unavailable, claiming occurrence without a cross-tab lock');
+      return this.writeOccurrenceClaim(occurrenceId);
+    }
+    return navigator.locks.request(OCCURRENCE_CLAIMS_KEY, () => this.writeOccurrenceClaim(occurrenceId));
+  }
+
+  /**
+   * Private: Record the claim unless the occurrence is already claimed; call under the claims lock
+   */
+  private writeOccurrenceClaim(occurrenceId: string): boolean {
+    const claims = this.loadOccurrenceClaims();
+    if (claims[occurrenceId]) {
+      return false;
+    }
+
+    // Old claims can no longer be replayed: schedules only move forward
+    const cutoff = Date.now() - AGENT_CONFIG.SCHEDULE_CLAIM_RETENTION_MS;
+    const kept: Record<string, string> = {};
+    Object.keys(claims).forEach(id => {
+      if (new Date(claims[id]).getTime() >= cutoff) {
+        kept[id] = claims[id];
+      }
+    });
+    kept[occurrenceId] = new Date().toISOString();
+
+    try {
+      localStorage.setItem(OCCURRENCE_CLAIMS_KEY, JSON.stringify(kept));
+    } catch (error) {
+      console.error('Failed to persist occurrence claim, not running it:', error);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Private: Claimed occurrence ids and when they were claimed
+   */
+  private loadOccurrenceClaims(): Record<string, string> {
+    try {
+      const stored = localStorage.getItem(OCCURRENCE_CLAIMS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Failed to load occurrence claims:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Private: Arm a timer that fires at the given time
+   *
+   * setTimeout overflows past ~24.8 days, so long waits are split into
+   * shorter hops that re-arm until the target time is reached.
+   */
+  private armScheduleTimer(scheduleId: string, runAt: Date, callback: () => void): void {
+    const existingTimeout = this.activeSchedules.get(scheduleId);
+    if (existingTimeout) {
+      clearTimeout(existingTimeout);
+    }
+
+    const delay = runAt.getTime() - Date.now();
+    if (delay > MAX_TIMEOUT_MS) {
+      const timeout = setTimeout(() => this.armScheduleTimer(scheduleId, runAt, callback), MAX_TIMEOUT_MS);
+      this.activeSchedules.set(scheduleId, timeout);
+      return;
     }
+
+    const timeout = setTimeout(callback, Math.max(delay, 0));
+    this.activeSchedules.set(scheduleId, timeout);
   }
 
   /**
@@ -679,8 +1651,8 @@ export class AgentExecutor {
         error: 'Wallet not connected'
       };
       
-      this.executions.set(execution.id, execution);
-      this.persistExecutions();
+      this.events.emit({ type: 'execution_created', execution });
+      this.settleExecution(execution);
       return execution;
     }
     
@@ -694,292 +1666,937 @@ export class AgentExecutor {
       timestamp: new Date(),
       explanation: '',
     };
+    this.events.emit({ type: 'execution_created', execution });
+
+    if (this.blockIfPaused(execution)) {
+      this.settleExecution(execution);
+      return execution;
+    }
 
     try {
       console.log('🤖 Executing scheduled intent:', intent.description);
       
+      // Multi-step intents are planned, checked step by step and submitted as one batch
+      if (intent.plan || isMultiStepIntent(intent.description)) {
+        await this.runAttempts(execution, attempt => this.executePlanIntent(execution, false, attempt));
+        this.settleExecution(execution);
+        return execution;
+      }
+
       // Step 1: Validate permission boundaries
-      const isWithinBounds = this.permissionManager.validateAction(
+      const isWithinBounds = this.validateBoundAction(
         intent.permissionId,
         intent.tokenAddress,
         intent.amount,
         intent.contractAddress
       );
 
-      console.log('🔍 Permission validation result:', isWithinBounds);
+      console.log('🔍 Permission validation result:', isWithinBounds);
+
+      if (!isWithinBounds) {
+        execution.status = 'blocked';
+        execution.explanation = 'Action blocked: Exceeds permission boundaries';
+        execution.decision.reasoning = 'The requested action would violate one or more permission constraints (spend limit, periodic allowance, time window, or contract restrictions)';
+        this.settleExecution(execution);
+        return execution;
+      }
+
+      if (this.blockIfRateLimited(execution, intent.permissionId, intent.amount)) {
+        this.settleExecution(execution);
+        return execution;
+      }
+
+      // Steps 2-4: Decide and execute, retrying transient failures
+      await this.runAttempts(execution, attempt => this.decideAndExecute(execution, attempt));
+
+    } catch (error) {
+      execution.status = 'failed';
+      execution.error = error instanceof Error ? error.message : 'Unknown error';
+      execution.explanation = `Execution failed: ${execution.error}`;
+    }
+
+    this.settleExecution(execution);
+    return execution;
+  }
+
+  /**
+   * Private: Throw unless a built action is still one validateAction allows
+   * Runs right before submission, after the LLM has answered, so nothing the
+   * model says can widen the permission's bounds
+   */
+  private assertActionAllowed(
+    permissionId: string,
+    checked: Pick<AgentIntent, 'tokenAddress' | 'amount' | 'contractAddress'>,
+    action: BuiltAction
+  ): void {
+    const decimals = this.permissionManager.getTokenDecimals(permissionId);
+    const allowed = this.validateBoundAction(permissionId, checked.tokenAddress, checked.amount, checked.contractAddress) &&
+      !TokenAmount.parse(action.spendAmount, decimals).gt(TokenAmount.parse(checked.amount, decimals));
+    if (!allowed) {
+      throw new Error(`Blocked at submission: the ${action.type} no longer fits the permission boundaries`);
+    }
+  }
+
+  /**
+   * Private: One attempt at a single-action intent: market context, gas ceiling,
+   * LLM decision, then submission unless the user has to approve first
+   */
+  private async decideAndExecute(execution: AgentExecution, attempt: AttemptContext): Promise<void> {
+    // Step 2: Gather market context; a timed-out attempt stops before changing the execution
+    const marketContext = await this.gatherMarketContext(execution.intent.tokenAddress);
+    throwIfAborted(attempt.signal);
+    execution.marketContext = marketContext;
+    if (this.blockIfGasTooHigh(execution, marketContext)) {
+      return;
+    }
+
+    // Step 3: Query the LLM for a decision
+    const decision = await this.queryLLM(execution, marketContext, attempt.signal);
+    throwIfAborted(attempt.signal);
+    execution.decision = decision;
+    this.events.emit({ type: 'decision_made', executionId: execution.id, decision });
+
+    // Step 4: Execute if approved, unless the user has to approve first
+    if (decision.shouldExecute) {
+      if (!this.requestApprovalIfNeeded(execution)) {
+        await this.executeTransaction(execution, attempt);
+      }
+    } else {
+      execution.status = 'blocked';
+      execution.explanation = `Agent declined to execute: ${decision.reasoning}`;
+    }
+  }
+
+  /**
+   * Private: Run attempts under the AGENT_CONFIG timeout, retrying retryable
+   * failures with exponential backoff. Every attempt is recorded on the execution;
+   * the last failure is rethrown
+   */
+  private async runAttempts(execution: AgentExecution, run: (attempt: AttemptContext) => Promise<void>): Promise<void> {
+    const attempts = execution.attempts || [];
+    execution.attempts = attempts;
+
+    for (let number = 1; number <= AGENT_CONFIG.MAX_RETRY_ATTEMPTS; number++) {
+      const controller = new AbortController();
+      const attempt: AttemptContext = { signal: controller.signal, phase: 'decision', transactionHashes: [] };
+      const record: ExecutionAttempt = { number, phase: 'decision', startedAt: new Date(), finishedAt: new Date(), outcome: 'completed' };
+      attempts.push(record);
+
+      const timer = setTimeout(
+        () => controller.abort(new Error(`Timed out after ${AGENT_CONFIG.EXECUTION_TIMEOUT_MS / 1000}s`)),
+        AGENT_CONFIG.EXECUTION_TIMEOUT_MS
+      );
+
+      const running = run(attempt);
+      try {
+        await abortable(running, controller.signal);
+        record.phase = attempt.phase;
+        record.finishedAt = new Date();
+        record.transactionHashes = attempt.transactionHashes.length > 0 ? attempt.transactionHashes : undefined;
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        record.phase = attempt.phase;
+        record.finishedAt = new Date();
+        record.outcome = controller.signal.aborted ? 'timed_out' : 'failed';
+        record.error = message;
+        record.transactionHashes = attempt.transactionHashes.length > 0 ? attempt.transactionHashes : undefined;
+        record.retryable = isRetryableError(message, attempt.phase, attempt.transactionHashes);
+        if (controller.signal.aborted) {
+          this.recordLateResult(record, attempt, running);
+        }
+
+        if (!record.retryable || number === AGENT_CONFIG.MAX_RETRY_ATTEMPTS) {
+          throw error;
+        }
+        const delay = getRetryDelay(number);
+        console.warn(`🔁 Attempt ${number} failed during ${attempt.phase} (${message}), retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  /**
+   * Private: Record how a timed-out attempt ends on its attempt record, once it does
+   */
+  private recordLateResult(record: ExecutionAttempt, attempt: AttemptContext, running: Promise<void>): void {
+    const settle = (error?: unknown) => {
+      record.lateResult = {
+        finishedAt: new Date(),
+        outcome: error === undefined ? 'completed' : 'failed',
+        error: error === undefined ? undefined : error instanceof Error ? error.message : 'Unknown error',
+        transactionHashes: attempt.transactionHashes.length > 0 ? attempt.transactionHashes.slice() : undefined,
+      };
+      if (record.lateResult.transactionHashes) {
+        console.warn(`⚠️ Attempt ${record.number} timed out but sent ${record.lateResult.transactionHashes.join(', ')}; spend was not recorded`);
+      }
+      this.persistExecutions();
+    };
+    running.then(() => settle(), settle);
+  }
+
+  /**
+   * Private: Block the execution when the agent is paused. Returns true when blocked
+   */
+  private blockIfPaused(execution: AgentExecution): boolean {
+    if (!this.paused) {
+      return false;
+    }
+
+    execution.status = 'blocked';
+    execution.explanation = `Action blocked: ${this.agent ? `agent "${this.agent.name}"` : 'the agent'} is paused`;
+    execution.decision.reasoning = 'Not sent to the agent; paused agents take no new work';
+    return true;
+  }
+
+  /**
+   * Private: validateAction, limited to the permissions this agent is bound to
+   */
+  private validateBoundAction(permissionId: string, tokenAddress: string, amount: string, contractAddress: string): boolean {
+    if (this.agent?.permissionIds && this.agent.permissionIds.indexOf(permissionId) === -1) {
+      console.log(`❌ Permission ${permissionId} is not bound to agent "${this.agent.name}"`);
+      return false;
+    }
+    return this.permissionManager.validateAction(permissionId, tokenAddress, amount, contractAddress);
+  }
+
+  /**
+   * Private: Active permissions this agent may act under
+   */
+  private getBoundPermissions(): ERC7715Permission[] {
+    const bound = this.agent?.permissionIds;
+    return this.permissionManager.getPermissions('active')
+      .filter(permission => !bound || bound.indexOf(permission.id) !== -1);
+  }
+
+  /**
+   * Private: Block the execution when the gas price is above AGENT_CONFIG.MAX_GAS_PRICE_GWEI
+   * Returns true when blocked
+   */
+  private blockIfGasTooHigh(execution: AgentExecution, context: MarketContext): boolean {
+    const violation = checkGasCeiling(context.gasPrice);
+    if (!violation) {
+      return false;
+    }
+
+    execution.status = 'blocked';
+    execution.explanation = `Action blocked: ${violation}`;
+    execution.decision.reasoning = 'Not sent to the agent; the gas ceiling applies whatever the permission policy allows';
+    return true;
+  }
+
+  /**
+   * Private: Block the execution when the permission's rate limits or the
+   * velocity cap of its token would be exceeded. Returns true when blocked
+   */
+  private blockIfRateLimited(execution: AgentExecution, permissionId: string, amount: string): boolean {
+    // Withdrawals still count as executions, but spend nothing
+    const spends = SPENDING_ACTIONS.indexOf(execution.intent.action?.type || 'transfer') !== -1;
+    const violation = this.permissionManager.checkRateLimits(permissionId, spends ? amount : '0');
+    if (!violation) {
+      return false;
+    }
+
+    execution.status = 'blocked';
+    execution.rateLimit = violation;
+    execution.explanation = `Rate limited: ${violation.message}`;
+    // Approved executions keep the reasoning they were approved with
+    if (!execution.decision.reasoning) {
+      execution.decision.reasoning = `Not sent to the agent; the next run is allowed at ${violation.retryAt.toLocaleString()}`;
+    }
+    return true;
+  }
+
+  /**
+   * Private: Ask the agent's LLM for a decision within the permission's policy,
+   * recording the permission and spend state it was made under. The decision
+   * keeps the execution's earlier prompts and replies ahead of its own
+   */
+  private async queryLLM(execution: AgentExecution, context: MarketContext, signal?: AbortSignal): Promise<AgentDecision> {
+    const { intent } = execution;
+    const permission = this.permissionManager.getPermission(intent.permissionId);
+    const spendTracking = this.permissionManager.getSpendTracking(intent.permissionId);
+
+    execution.provenance = {
+      decidedAt: new Date(),
+      permission: permission ? { ...permission, allowedContracts: permission.allowedContracts.slice() } : null,
+      spend: spendTracking
+        ? { totalSpent: spendTracking.totalSpent, remainingAllowance: spendTracking.remainingAllowance }
+        : null,
+    };
+
+    const decision = await this.decisionMaker.decide(intent, context, permission ? {
+      tokenAddress: permission.tokenAddress,
+      maxSpendAmount: permission.maxSpendAmount,
+      remainingAllowance: spendTracking?.remainingAllowance || '0',
+      startTime: permission.startTime,
+      endTime: permission.endTime,
+      allowedContracts: permission.allowedContracts,
+      policy: permission.policy,
+    } : undefined, signal);
+
+    const exchanges = this.getExchangeLog(execution).concat(decision.llmExchanges || []);
+    return { ...decision, llmExchanges: exchanges.length > 0 ? exchanges : undefined };
+  }
+
+  /**
+   * Private: The execution's list of LLM prompts and replies, created when missing
+   */
+  private getExchangeLog(execution: AgentExecution): LLMExchange[] {
+    if (!execution.decision.llmExchanges) {
+      execution.decision.llmExchanges = [];
+    }
+    return execution.decision.llmExchanges;
+  }
+
+  /**
+   * Private: Dry-run an intent: validation, market context, decision and a simulated transaction
+   */
+  private async simulateIntent(intent: AgentIntent, llmExchanges?: LLMExchange[]): Promise<AgentExecution> {
+    const execution: AgentExecution = {
+      id: this.generateExecutionId(),
+      intent,
+      decision: { shouldExecute: false, reasoning: '', confidence: 0, riskAssessment: '', llmExchanges: llmExchanges?.slice() },
+      status: 'pending',
+      timestamp: new Date(),
+      explanation: '',
+    };
+    this.events.emit({ type: 'execution_created', execution });
+
+    try {
+      console.log('🧪 Simulating agent intent:', intent.description);
+
+      if (intent.plan || isMultiStepIntent(intent.description)) {
+        await this.executePlanIntent(execution, true);
+      } else {
+        // Step 1: Validate permission boundaries
+        const isWithinBounds = this.validateBoundAction(
+          intent.permissionId,
+          intent.tokenAddress,
+          intent.amount,
+          intent.contractAddress
+        );
+
+        if (!isWithinBounds) {
+          execution.status = 'blocked';
+          execution.explanation = 'Action blocked: Exceeds permission boundaries';
+          execution.decision.reasoning = 'The requested action would violate one or more permission constraints (spend limit, periodic allowance, time window, or contract restrictions)';
+        } else if (!this.blockIfRateLimited(execution, intent.permissionId, intent.amount)) {
+          // Step 2: Gather market context
+          execution.marketContext = await this.gatherMarketContext(intent.tokenAddress);
+
+          if (!this.blockIfGasTooHigh(execution, execution.marketContext)) {
+            // Step 3: Query the LLM for a decision
+            execution.decision = await this.queryLLM(execution, execution.marketContext);
+            this.events.emit({ type: 'decision_made', executionId: execution.id, decision: execution.decision });
+
+            // Step 4: Simulate instead of executing
+            if (execution.decision.shouldExecute) {
+              const { action, account } = await this.prepareAction(intent);
+              await this.recordSimulation(execution, [{ permissionId: intent.permissionId, action }], account);
+            } else {
+              execution.status = 'blocked';
+              execution.explanation = `Agent declined to execute: ${execution.decision.reasoning}`;
+            }
+          }
+        }
+      }
+
+      // A blocked dry run is still a dry run: keep it out of the real blocked executions
+      if (execution.status === 'blocked') {
+        const permissionIds = execution.plan
+          ? execution.plan.steps.map(result => result.step.permissionId)
+          : [intent.permissionId];
+        execution.status = 'simulated';
+        execution.simulation = { outcome: 'would_block', allowances: this.describeAllowances(permissionIds, {}) };
+        execution.explanation = `Dry run: ${execution.explanation}`;
+      }
+    } catch (error) {
+      execution.status = 'failed';
+      execution.error = error instanceof Error ? error.message : 'Unknown error';
+      execution.explanation = `Simulation failed: ${execution.error}`;
+    }
+
+    this.settleExecution(execution);
+    return execution;
+  }
+
+  /**
+   * Private: Simulate built actions and store the predicted outcome (never records spend)
+   */
+  private async recordSimulation(
+    execution: AgentExecution,
+    actions: Array<{ permissionId: string; action: BuiltAction }>,
+    account: string
+  ): Promise<void> {
+    const result = await this.transactionSimulator.simulate(
+      account,
+      actions.map(({ action }) => action),
+      tokenAddress => this.actionRegistry.getDecimals(tokenAddress)
+    );
+
+    // A reverting run spends nothing
+    const spend: Record<string, TokenAmount> = {};
+    if (result.success) {
+      actions.forEach(({ permissionId, action }) => {
+        const decimals = this.permissionManager.getTokenDecimals(permissionId);
+        spend[permissionId] = (spend[permissionId] || TokenAmount.zero(decimals)).plus(TokenAmount.parse(action.spendAmount, decimals));
+      });
+    }
+
+    execution.status = 'simulated';
+    execution.simulation = {
+      outcome: result.success ? 'would_execute' : 'would_revert',
+      result,
+      allowances: this.describeAllowances(actions.map(({ permissionId }) => permissionId), spend),
+    };
+
+    const summaries = actions.map(({ action }) => action.summary).join('; ');
+    const revert = result.calls.find(call => !call.success);
+    execution.explanation = revert
+      ? `Dry run: ${summaries} would revert at ${revert.to}: ${revert.revertReason}`
+      : `Dry run: ${summaries} would succeed (nothing was broadcast)`;
+    console.log(`🧪 Simulation ${result.success ? 'succeeded' : 'reverted'} via ${result.method}`);
+  }
+
+  /**
+   * Private: Remaining allowance of each permission before and after spending `spend`
+   */
+  private describeAllowances(
+    permissionIds: string[],
+    spend: Record<string, TokenAmount>
+  ): ExecutionSimulation['allowances'] {
+    return permissionIds
+      .filter((permissionId, index) => permissionIds.indexOf(permissionId) === index)
+      .map(permissionId => {
+        const permission = this.permissionManager.getPermission(permissionId);
+        const tracking = this.permissionManager.getSpendTracking(permissionId);
+        const before = TokenAmount.parse(
+          tracking?.remainingAllowance ?? permission?.maxSpendAmount ?? '0',
+          this.permissionManager.getTokenDecimals(permissionId)
+        );
+        const spent = spend[permissionId];
+        return {
+          permissionId,
+          before: before.toString(),
+          after: (spent ? before.minus(spent) : before).atLeastZero().toString(),
+        };
+      });
+  }
+
+  /**
+   * Private: Build the intent's transaction requests, checked against its permission scope
+   */
+  private async prepareAction(
+    intent: AgentIntent
+  ): Promise<{ action: BuiltAction; account: string; smartAccountService: SmartAccountService }> {
+    console.log('🔍 Looking for permission:', intent.permissionId);
+    
+    // Get the permission to find the Smart Account permission ID
+    const permission = this.permissionManager.getPermission(intent.permissionId);
+    if (!permission) {
+      console.error('❌ Permission not found in PermissionManager:', intent.permissionId);
+      console.log('📊 Available permissions in PermissionManager:', this.permissionManager.getPermissions().map(p => p.id));
+      throw new Error(`Permission not found: ${intent.permissionId}`);
+    }
 
-      if (!isWithinBounds) {
-        execution.status = 'blocked';
-        execution.explanation = 'Action blocked: Exceeds permission boundaries';
-        execution.decision.reasoning = 'The requested action would violate one or more permission constraints (spend limit, time window, or contract restrictions)';
-        this.executions.set(executionId, execution);
-        this.persistExecutions();
-        return execution;
-      }
+    console.log('✅ Found permission in PermissionManager:', {
+      id: permission.id,
+      smartAccountPermissionId: permission.smartAccountPermissionId,
+      status: permission.status,
+    });
 
-      // Step 2: Gather market context
-      const marketContext = await this.gatherMarketContext();
+    // Get the Smart Account service from wallet manager
+    const smartAccountService = this.walletManager.getSmartAccountService();
+    
+    if (!smartAccountService.isInitialized()) {
+      throw new Error('Smart Account not initialized');
+    }
 
-      // Step 3: Query Gaia LLM for decision
-      const decision = await this.queryGaiaLLM(intent, marketContext);
-      execution.decision = decision;
+    // Debug: Check what permissions are available
+    smartAccountService.debugPermissions();
 
-      // Step 4: Execute if approved
-      if (decision.shouldExecute) {
-        await this.executeTransaction(execution);
-      } else {
-        execution.status = 'blocked';
-        execution.explanation = `Agent declined to execute: ${decision.reasoning}`;
-      }
+    // Use the permission ID that actually exists in SmartAccountService
+    const actualPermissionId = this.resolveSmartAccountPermissionId(permission, smartAccountService);
 
-    } catch (error) {
-      execution.status = 'failed';
-      execution.error = error instanceof Error ? error.message : 'Unknown error';
-      execution.explanation = `Execution failed: ${execution.error}`;
+    // Build the requests for the intent's action, checked against the permission scope
+    const account = smartAccountService.getAddress();
+    if (!account) {
+      throw new Error('Smart Account address unavailable');
     }
 
-    this.executions.set(executionId, execution);
-    this.persistExecutions();
-    return execution;
+    const spendTracking = this.permissionManager.getSpendTracking(intent.permissionId);
+    const action = await this.actionRegistry.build(
+      intent,
+      {
+        tokenAddress: permission.tokenAddress,
+        allowedContracts: permission.allowedContracts,
+        remainingAllowance: spendTracking?.remainingAllowance ?? permission.maxSpendAmount,
+        decimals: permission.decimals,
+      },
+      { account, permissionId: actualPermissionId }
+    );
+    console.log(`📋 ${action.summary} (${action.requests.length} request(s))`);
+
+    return { action, account, smartAccountService };
   }
 
   /**
-   * Private: Query Gaia LLM for decision making
+   * Private: Execute the actual transaction using Smart Account (gasless)
    */
-  private async queryGaiaLLM(intent: AgentIntent, context: MarketContext): Promise<AgentDecision> {
-    if (!this.gaiaEndpoint || !this.gaiaApiKey) {
-      // Fallback to rule-based decision for demo
-      return this.fallbackDecisionMaking(intent, context);
-    }
-
+  private async executeTransaction(execution: AgentExecution, attempt?: AttemptContext): Promise<void> {
     try {
-      const permission = this.permissionManager.getPermission(intent.permissionId);
-      const spendTracking = this.permissionManager.getSpendTracking(intent.permissionId);
-
-      const systemPrompt = `You are an AI agent managing cryptocurrency transactions within strict permission boundaries.
-
-PERMISSION CONSTRAINTS:
-- Token: ${permission?.tokenAddress}
-- Max Spend: ${permission?.maxSpendAmount}
-- Remaining: ${spendTracking?.remainingAllowance || '0'}
-- Time Window: ${permission?.startTime} to ${permission?.endTime}
-- Allowed Contracts: ${permission?.allowedContracts.join(', ')}
-
-CURRENT CONTEXT:
-- Gas Price: ${context.gasPrice} gwei
-- Token Price: $${context.tokenPrice}
-- Network Congestion: ${context.networkCongestion}
-
-You must NEVER exceed permission boundaries. Respond with JSON only:
-{
-  "shouldExecute": boolean,
-  "reasoning": "clear explanation of decision",
-  "confidence": number (0-100),
-  "riskAssessment": "low|medium|high with explanation"
-}`;
-
-      const userPrompt = `Should I execute this transaction?
-Intent: ${intent.description}
-Amount: ${intent.amount} tokens
-Contract: ${intent.contractAddress}`;
-
-      const response = await fetch(`${this.gaiaEndpoint}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.gaiaApiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gaia-agent',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.1,
-          max_tokens: 500,
-        }),
-      });
+      console.log('🚀 Executing gasless transaction via Smart Account...');
+      const { action, smartAccountService } = await this.prepareAction(execution.intent);
+      this.assertActionAllowed(execution.intent.permissionId, execution.intent, action);
 
-      if (!response.ok) {
-        throw new Error(`Gaia LLM request failed: ${response.statusText}`);
+      // Nothing is sent once the attempt has timed out
+      if (attempt) {
+        throwIfAborted(attempt.signal);
+        attempt.phase = 'submission';
       }
 
-      const data = await response.json();
-      const content = data.choices[0]?.message?.content;
-      
-      if (!content) {
-        throw new Error('No response from Gaia LLM');
+      // Create transaction service with Smart Account
+      const { createTransactionService } = await import('@/services/blockchain/TransactionService');
+      if (attempt) {
+        throwIfAborted(attempt.signal);
+      }
+      const transactionService = createTransactionService(smartAccountService);
+      this.events.emit({ type: 'execution_submitted', executionId: execution.id, requestCount: action.requests.length });
+
+      if (action.requests.length === 0) {
+        throw new Error(`Action ${action.type} produced no transactions`);
+      }
+      console.log('📋 Transaction requests:', action.requests);
+
+      // Approve + swap or deposit go in one batch, so the approval never lands without its use
+      const result = action.requests.length === 1
+        ? await transactionService.executeTransaction(action.requests[0])
+        : await transactionService.executeBatch(action.requests);
+      attempt?.transactionHashes.push(result.hash);
+
+      // A timed-out attempt leaves the execution and spend as the timeout set them
+      if (attempt?.signal.aborted) {
+        return;
+      }
+
+      execution.transactionHash = result.hash;
+      execution.status = 'executed';
+      execution.gasUsed = result.gasUsed || '0';
+      execution.explanation = `Successfully executed gasless ${action.type}: ${execution.decision.reasoning}`;
+      this.events.emit({ type: 'execution_confirmed', executionId: execution.id, transactionHash: result.hash });
+
+      console.log(`✅ Gasless transaction executed: ${result.hash}`);
+      console.log(`🔗 View on BaseScan: https://sepolia-explorer.base.org/tx/${result.hash}`);
+      console.log(`⛽ Gas used: ${result.gasUsed} (gasless: ${result.isGasless})`);
+
+      // Record the execution for rate limits, and what actually left the account
+      this.permissionManager.recordExecution(execution.intent.permissionId, result.hash);
+      if (parseFloat(action.spendAmount) > 0) {
+        this.permissionManager.recordSpend(
+          execution.intent.permissionId,
+          action.spendAmount,
+          result.hash
+        );
       }
 
-      return JSON.parse(content);
     } catch (error) {
-      console.error('Gaia LLM query failed:', error);
-      // Fallback to rule-based decision
-      return this.fallbackDecisionMaking(intent, context);
+      if (attempt?.signal.aborted) {
+        throw error;
+      }
+      execution.status = 'failed';
+      execution.error = error instanceof Error ? error.message : 'Transaction failed';
+      execution.explanation = `Gasless transaction failed: ${execution.error}`;
+      console.error('❌ Gasless transaction failed:', error);
+      throw error;
     }
   }
 
   /**
-   * Private: Fallback rule-based decision making
+   * Private: Plan a multi-step intent, check every step and submit the plan as one batch
    */
-  private fallbackDecisionMaking(intent: AgentIntent, context: MarketContext): AgentDecision {
-    // Simple rule-based logic for demo
-    const gasPrice = parseFloat(context.gasPrice);
-    const amount = parseFloat(intent.amount);
+  private async executePlanIntent(execution: AgentExecution, simulate = false, attempt?: AttemptContext): Promise<void> {
+    const { intent } = execution;
+
+    // Rate limits are checked before planning, which may ask the LLM
+    if (this.blockIfRateLimited(execution, intent.permissionId, intent.amount)) {
+      return;
+    }
+
+    // Step 1: Gather market context
+    const marketContext = await this.gatherMarketContext(intent.tokenAddress);
+    execution.marketContext = marketContext;
+    if (this.blockIfGasTooHigh(execution, marketContext)) {
+      return;
+    }
+
+    // Step 2: Plan the steps (prebuilt, LLM, or rule template)
+    const plan = intent.plan || await this.createPlan(intent, marketContext, this.getExchangeLog(execution), attempt?.signal);
+    if (attempt) {
+      throwIfAborted(attempt.signal);
+    }
+    if (plan.steps.length === 0) {
+      throw new Error('No steps could be planned from the intent');
+    }
+    const stepResults: PlanStepResult[] = plan.steps.map(step => ({ step, status: 'pending', explanation: '' }));
+    execution.plan = { source: plan.source, steps: stepResults };
+    console.log(`🧭 Planned ${plan.steps.length} steps (${plan.source}):`, plan.steps.map(step => step.description));
+
+    // Step 3: Validate every step before anything runs
+    const blockedCount = this.validatePlanSteps(stepResults, marketContext);
+    if (blockedCount > 0) {
+      execution.status = 'blocked';
+      execution.explanation = `Plan blocked: ${blockedCount} of ${stepResults.length} steps exceed permission boundaries or policy, nothing was executed`;
+      execution.decision.reasoning = 'Every step of a plan must stay within its permission (spend limit, periodic allowance, time window, token and contract restrictions)';
+      return;
+    }
 
-    let shouldExecute = true;
-    let reasoning = 'Conditions are favorable for execution';
-    let confidence = 80;
-    let riskAssessment = 'low';
+    // Step 4: Query the LLM for a decision on the whole plan
+    const decision = await this.queryLLM(execution, marketContext, attempt?.signal);
+    if (attempt) {
+      throwIfAborted(attempt.signal);
+    }
+    execution.decision = decision;
+    this.events.emit({ type: 'decision_made', executionId: execution.id, decision });
 
-    // Check gas price
-    if (gasPrice > 50) {
-      shouldExecute = false;
-      reasoning = 'Gas price too high for efficient execution';
-      confidence = 90;
-      riskAssessment = 'high - expensive gas fees';
+    if (!decision.shouldExecute) {
+      stepResults.forEach(result => {
+        result.status = 'blocked';
+        result.explanation = 'Not executed: the agent declined the plan';
+      });
+      execution.status = 'blocked';
+      execution.explanation = `Agent declined to execute: ${decision.reasoning}`;
+      return;
     }
 
-    // Check amount size
-    if (amount > 100) {
-      confidence = Math.max(confidence - 20, 50);
-      riskAssessment = 'medium - large transaction amount';
+    // Step 5: Hold the plan for the user when the approval policy asks for it
+    if (!simulate && this.requestApprovalIfNeeded(execution)) {
+      return;
     }
 
-    // Check network congestion
-    if (context.networkCongestion === 'high') {
-      shouldExecute = false;
-      reasoning = 'Network congestion too high, transaction may fail or be expensive';
-      confidence = 85;
-      riskAssessment = 'high - network congestion';
+    // Step 6: Submit all steps in one batched Smart Account execution
+    await this.executePlan(execution, stepResults, simulate, attempt);
+  }
+
+  /**
+   * Private: Ask the LLM for a plan, falling back to the rule template
+   * Prompts and replies are added to `exchanges`
+   */
+  private async createPlan(intent: AgentIntent, context: MarketContext, exchanges: LLMExchange[], signal?: AbortSignal): Promise<AgentPlan> {
+    const permissions = this.getBoundPermissions();
+
+    const steps = await this.decisionMaker.plan(intent, context, permissions.map(permission => ({
+      id: permission.id,
+      tokenAddress: permission.tokenAddress,
+      maxSpendAmount: permission.maxSpendAmount,
+      remainingAllowance: this.permissionManager.getSpendTracking(permission.id)?.remainingAllowance ?? permission.maxSpendAmount,
+      startTime: permission.startTime,
+      endTime: permission.endTime,
+      allowedContracts: permission.allowedContracts,
+      policy: permission.policy,
+    })), exchanges, signal);
+    if (steps) {
+      return { steps, source: 'llm' };
     }
 
-    return {
-      shouldExecute,
-      reasoning,
-      confidence,
-      riskAssessment,
+    // Prefer the intent's own permission, then any active permission for the step's token
+    const resolvePermission = (tokenAddress: string) => {
+      const candidates = [
+        this.permissionManager.getPermission(intent.permissionId),
+        ...permissions,
+      ];
+      const match = candidates.find(permission =>
+        permission && permission.status === 'active' && permission.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()
+      );
+      return match ? match.id : intent.permissionId;
     };
+
+    return { steps: buildPlanFromTemplate(intent, resolvePermission), source: 'template' };
   }
 
   /**
-   * Private: Execute the actual transaction using Smart Account (gasless)
+   * Private: Check each step with PermissionManager, counting earlier spending
+   * steps under the same permission, and against its permission's policy.
+   * Returns the number of blocked steps
    */
-  private async executeTransaction(execution: AgentExecution): Promise<void> {
-    try {
-      console.log('🚀 Executing gasless transaction via Smart Account...');
-      console.log('🔍 Looking for permission:', execution.intent.permissionId);
-      
-      // Get the permission to find the Smart Account permission ID
-      const permission = this.permissionManager.getPermission(execution.intent.permissionId);
-      if (!permission) {
-        console.error('❌ Permission not found in PermissionManager:', execution.intent.permissionId);
-        console.log('📊 Available permissions in PermissionManager:', this.permissionManager.getPermissions().map(p => p.id));
-        throw new Error(`Permission not found: ${execution.intent.permissionId}`);
+  private validatePlanSteps(stepResults: PlanStepResult[], marketContext: MarketContext): number {
+    const steps = stepResults.map(result => result.step);
+    const plannedSpend: Map<string, TokenAmount> = new Map();
+    const plannedTokenSpend: Map<string, TokenAmount> = new Map(); // By token, for velocity caps
+    let blockedCount = 0;
+
+    stepResults.forEach((result, index) => {
+      const { step } = result;
+      const spends = SPENDING_ACTIONS.indexOf(step.action.type) !== -1 && !isApprovalReplaced(steps, index);
+      const decimals = this.permissionManager.getTokenDecimals(step.permissionId);
+      let stepAmount: TokenAmount;
+      try {
+        stepAmount = TokenAmount.parse(step.amount, decimals);
+      } catch (error) {
+        result.status = 'blocked';
+        result.explanation = `Blocked: ${error instanceof Error ? error.message : 'invalid amount'}`;
+        blockedCount++;
+        return;
       }
+      const earlierSpend = plannedSpend.get(step.permissionId) || TokenAmount.zero(decimals);
+      const checkedAmount = spends ? earlierSpend.plus(stepAmount) : stepAmount;
+
+      const isWithinBounds = this.validateBoundAction(
+        step.permissionId,
+        step.tokenAddress,
+        checkedAmount.toString(),
+        step.contractAddress
+      );
+      console.log(`🔍 Plan step ${index + 1} validation result:`, isWithinBounds);
 
-      console.log('✅ Found permission in PermissionManager:', {
-        id: permission.id,
-        smartAccountPermissionId: permission.smartAccountPermissionId,
-        status: permission.status,
-      });
+      if (!isWithinBounds) {
+        result.status = 'blocked';
+        result.explanation = spends && !earlierSpend.isZero()
+          ? `Blocked: together with earlier steps this spends ${checkedAmount}, beyond the permission's limits`
+          : 'Blocked: exceeds permission boundaries (spend limit, periodic allowance, time window, token or contract restrictions)';
+        blockedCount++;
+        return;
+      }
 
-      // Get the Smart Account service from wallet manager
-      const smartAccountService = this.walletManager.getSmartAccountService();
-      
-      if (!smartAccountService.isInitialized()) {
-        throw new Error('Smart Account not initialized');
+      // Velocity caps count the spend of every step in the plan in the same token
+      const tokenKey = step.tokenAddress.toLowerCase();
+      const earlierTokenSpend = plannedTokenSpend.get(tokenKey) || TokenAmount.zero(decimals);
+      const rateViolation = this.permissionManager.checkRateLimits(
+        step.permissionId,
+        (spends ? earlierTokenSpend.plus(stepAmount) : TokenAmount.zero(decimals)).toString()
+      );
+      if (rateViolation) {
+        result.status = 'blocked';
+        result.explanation = `Blocked by rate limit: ${rateViolation.message}`;
+        blockedCount++;
+        return;
       }
 
-      // Debug: Check what permissions are available
-      smartAccountService.debugPermissions();
+      // Permissions without rules get the default policy, as in decide()
+      const policy = this.permissionManager.getPermission(step.permissionId)?.policy;
+      const rules = policy && policy.length > 0 ? policy : DEFAULT_POLICY;
+      const evaluation = evaluatePolicy(rules, { intent: step, market: marketContext });
+      if (!evaluation.allowed) {
+        result.status = 'blocked';
+        result.explanation = `Blocked by policy: ${describeVerdicts(evaluation.verdicts)}`;
+        blockedCount++;
+        return;
+      }
 
-      // CRITICAL: Use the original permission ID, not the smartAccountPermissionId
-      // The SmartAccountService should have stored the permission with the same ID
-      const smartAccountPermissionId = permission.smartAccountPermissionId || permission.id;
-      
-      console.log('🔍 Looking for Smart Account permission with ID:', smartAccountPermissionId);
-      console.log('📊 Available permissions in SmartAccountService:', smartAccountService.getPermissions().map(p => p.id));
+      if (spends) {
+        plannedSpend.set(step.permissionId, checkedAmount);
+        plannedTokenSpend.set(tokenKey, earlierTokenSpend.plus(stepAmount));
+      }
+      result.explanation = 'Within permission boundaries';
+    });
 
-      // Verify the permission exists in Smart Account service
-      let actualSmartAccountPermission = smartAccountService.getPermission(smartAccountPermissionId);
-      let actualPermissionId = smartAccountPermissionId;
-      
-      if (!actualSmartAccountPermission) {
-        console.error('❌ Permission not found in SmartAccountService:', smartAccountPermissionId);
-        console.log('🔄 Attempting to find by original permission ID:', permission.id);
-        
-        // Try to find by original permission ID as fallback
-        actualSmartAccountPermission = smartAccountService.getPermission(permission.id);
-        if (actualSmartAccountPermission) {
-          console.log('✅ Found permission using original ID:', permission.id);
-          actualPermissionId = permission.id;
-        } else {
-          console.error('❌ Permission not found with either ID');
-          console.log('📊 Available SmartAccount permissions:', smartAccountService.getPermissions().map(p => ({ id: p.id, spender: p.spender })));
-          throw new Error(`Smart Account permission not found: ${smartAccountPermissionId}`);
+    return blockedCount;
+  }
+
+  /**
+   * Private: Build every step and submit them as one all-or-nothing batch
+   */
+  private async executePlan(
+    execution: AgentExecution,
+    stepResults: PlanStepResult[],
+    simulate: boolean,
+    attempt?: AttemptContext
+  ): Promise<void> {
+    console.log(`🚀 ${simulate ? 'Simulating' : 'Executing'} plan as one gasless Smart Account batch...`);
+
+    const smartAccountService = this.walletManager.getSmartAccountService();
+    if (!smartAccountService.isInitialized()) {
+      throw new Error('Smart Account not initialized');
+    }
+
+    const account = smartAccountService.getAddress();
+    if (!account) {
+      throw new Error('Smart Account address unavailable');
+    }
+
+    // Build each step's requests against what is left after the steps before it
+    const actions: BuiltAction[] = [];
+    const plannedSpend: Map<string, TokenAmount> = new Map();
+    for (let index = 0; index < stepResults.length; index++) {
+      const result = stepResults[index];
+      const { step } = result;
+      try {
+        const permission = this.permissionManager.getPermission(step.permissionId);
+        if (!permission) {
+          throw new Error(`Permission not found: ${step.permissionId}`);
         }
+
+        const spendTracking = this.permissionManager.getSpendTracking(step.permissionId);
+        const decimals = this.permissionManager.getTokenDecimals(step.permissionId);
+        const earlierSpend = plannedSpend.get(step.permissionId) || TokenAmount.zero(decimals);
+        const remaining = TokenAmount.parse(spendTracking?.remainingAllowance ?? permission.maxSpendAmount, decimals)
+          .minus(earlierSpend);
+
+        const action = await this.actionRegistry.build(
+          {
+            description: step.description,
+            tokenAddress: step.tokenAddress,
+            amount: step.amount,
+            contractAddress: step.contractAddress,
+            permissionId: step.permissionId,
+            action: step.action,
+          },
+          {
+            tokenAddress: permission.tokenAddress,
+            allowedContracts: permission.allowedContracts,
+            remainingAllowance: remaining.atLeastZero().toString(),
+            decimals,
+          },
+          { account, permissionId: this.resolveSmartAccountPermissionId(permission, smartAccountService) }
+        );
+
+        // A later approval of the same spender in the batch overwrites this one
+        const counted = isApprovalReplaced(stepResults.map(stepResult => stepResult.step), index) ? { ...action, spendAmount: '0' } : action;
+        plannedSpend.set(step.permissionId, earlierSpend.plus(TokenAmount.parse(counted.spendAmount, decimals)));
+        actions.push(counted);
+        result.explanation = action.summary;
+      } catch (error) {
+        result.status = 'blocked';
+        result.explanation = `Blocked: ${error instanceof Error ? error.message : 'Could not build step'}`;
       }
+    }
 
-      console.log('✅ Found Smart Account permission:', {
-        id: actualSmartAccountPermission.id,
-        spender: actualSmartAccountPermission.spender,
-        token: actualSmartAccountPermission.token,
+    const blockedCount = stepResults.filter(result => result.status === 'blocked').length;
+    if (blockedCount > 0) {
+      stepResults.forEach(result => {
+        if (result.status !== 'blocked') {
+          result.explanation = `Not executed: another step was blocked (${result.explanation})`;
+        }
       });
+      execution.status = 'blocked';
+      execution.explanation = `Plan blocked: ${blockedCount} of ${stepResults.length} steps could not be built, nothing was executed`;
+      return;
+    }
 
-      // Create transaction service with Smart Account
-      const { createTransactionService } = await import('@/services/blockchain/TransactionService');
-      const transactionService = createTransactionService(smartAccountService);
-      
-      // Use the permission ID that actually exists in SmartAccountService
-      
-      // Create a gasless ETH transfer transaction using the Smart Account permission ID
-      const txRequest = transactionService.createETHTransfer(
-        execution.intent.contractAddress,
-        "0.001", // Small amount for demo (0.001 ETH)
-        actualPermissionId // Use the actual permission ID that exists
+    if (simulate) {
+      await this.recordSimulation(
+        execution,
+        actions.map((action, index) => ({ permissionId: stepResults[index].step.permissionId, action })),
+        account
       );
-      
-      console.log('📋 Transaction request:', txRequest);
-      
-      const result = await transactionService.executeTransaction(txRequest);
-      
-      execution.transactionHash = result.hash;
-      execution.status = 'executed';
-      execution.gasUsed = result.gasUsed || '0';
-      execution.explanation = `Successfully executed gasless transaction: ${execution.decision.reasoning}`;
+      return;
+    }
 
-      console.log(`✅ Gasless transaction executed: ${result.hash}`);
-      console.log(`🔗 View on BaseScan: https://sepolia-explorer.base.org/tx/${result.hash}`);
-      console.log(`⛽ Gas used: ${result.gasUsed} (gasless: ${result.isGasless})`);
+    const { createTransactionService } = await import('@/services/blockchain/TransactionService');
+    const transactionService = createTransactionService(smartAccountService);
+    const requests = actions.reduce((all, action) => all.concat(action.requests), [] as BuiltAction['requests']);
+    actions.forEach((action, index) => this.assertActionAllowed(stepResults[index].step.permissionId, stepResults[index].step, action));
 
-      // Record the spend
-      this.permissionManager.recordSpend(
-        execution.intent.permissionId,
-        execution.intent.amount,
-        result.hash
-      );
+    // Nothing is sent once the attempt has timed out
+    if (attempt) {
+      throwIfAborted(attempt.signal);
+      attempt.phase = 'submission';
+    }
 
+    this.events.emit({ type: 'execution_submitted', executionId: execution.id, requestCount: requests.length });
+    let result: TransactionResult;
+    try {
+      result = await transactionService.executeBatch(requests);
+      attempt?.transactionHashes.push(result.hash);
     } catch (error) {
+      if (attempt?.signal.aborted) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : 'Batch failed';
+      stepResults.forEach(stepResult => {
+        stepResult.status = 'failed';
+        stepResult.explanation = `Not applied: the batch failed (${stepResult.explanation})`;
+      });
       execution.status = 'failed';
-      execution.error = error instanceof Error ? error.message : 'Transaction failed';
-      execution.explanation = `Gasless transaction failed: ${execution.error}`;
-      console.error('❌ Gasless transaction failed:', error);
+      execution.error = message;
+      execution.explanation = `Plan failed, no step was applied: ${message}`;
+      console.error('❌ Gasless batch failed:', error);
       throw error;
     }
+
+    // A timed-out attempt leaves the execution and spend as the timeout set them
+    if (attempt?.signal.aborted) {
+      return;
+    }
+    stepResults.forEach(stepResult => {
+      stepResult.status = 'executed';
+    });
+    execution.transactionHash = result.hash;
+    execution.status = 'executed';
+    execution.gasUsed = result.gasUsed || '0';
+    execution.explanation = `Successfully executed ${stepResults.length}-step plan in one gasless batch: ${execution.decision.reasoning}`;
+    console.log(`✅ Plan executed in one batch: ${result.hash} (${requests.length} calls)`);
+    this.events.emit({ type: 'execution_confirmed', executionId: execution.id, transactionHash: result.hash });
+
+    // Record the execution for rate limits, and what actually left the account, per step
+    actions.forEach((action, index) => {
+      this.permissionManager.recordExecution(stepResults[index].step.permissionId, result.hash);
+      if (parseFloat(action.spendAmount) > 0) {
+        this.permissionManager.recordSpend(stepResults[index].step.permissionId, action.spendAmount, result.hash);
+      }
+    });
   }
 
   /**
-   * Private: Gather current market context
+   * Private: Find the ID a permission is stored under in SmartAccountService
    */
-  private async gatherMarketContext(): Promise<MarketContext> {
-    // In a real implementation, this would fetch from price APIs, gas trackers, etc.
-    return {
-      gasPrice: (20 + Math.random() * 80).toFixed(1), // 20-100 gwei
-      tokenPrice: (1800 + Math.random() * 400).toFixed(2), // $1800-2200
-      networkCongestion: ['low', 'medium', 'high'][Math.floor(Math.random() * 3)] as any,
-      timestamp: new Date(),
-    };
+  private resolveSmartAccountPermissionId(permission: ERC7715Permission, smartAccountService: SmartAccountService): string {
+    // CRITICAL: Use the original permission ID, not the smartAccountPermissionId
+    // The SmartAccountService should have stored the permission with the same ID
+    const smartAccountPermissionId = permission.smartAccountPermissionId || permission.id;
+    
+    console.log('🔍 Looking for Smart Account permission with ID:', smartAccountPermissionId);
+    console.log('📊 Available permissions in SmartAccountService:', smartAccountService.getPermissions().map(p => p.id));
+
+    // Verify the permission exists in Smart Account service
+    let actualSmartAccountPermission = smartAccountService.getPermission(smartAccountPermissionId);
+    let actualPermissionId = smartAccountPermissionId;
+    
+    if (!actualSmartAccountPermission) {
+      console.error('❌ Permission not found in SmartAccountService:', smartAccountPermissionId);
+      console.log('🔄 Attempting to find by original permission ID:', permission.id);
+      
+      // Try to find by original permission ID as fallback
+      actualSmartAccountPermission = smartAccountService.getPermission(permission.id);
+      if (actualSmartAccountPermission) {
+        console.log('✅ Found permission using original ID:', permission.id);
+        actualPermissionId = permission.id;
+      } else {
+        console.error('❌ Permission not found with either ID');
+        console.log('📊 Available SmartAccount permissions:', smartAccountService.getPermissions().map(p => ({ id: p.id, spender: p.spender })));
+        throw new Error(`Smart Account permission not found: ${smartAccountPermissionId}`);
+      }
+    }
+
+    console.log('✅ Found Smart Account permission:', {
+      id: actualSmartAccountPermission.id,
+      spender: actualSmartAccountPermission.spender,
+      token: actualSmartAccountPermission.token,
+    });
+
+    return actualPermissionId;
+  }
+
+  /**
+   * Replace the market data provider (e.g. with a fixture provider in tests)
+   */
+  setMarketDataProvider(provider: MarketDataProvider): void {
+    this.marketDataProvider = provider;
+    this.triggerWatcher.setMarketDataProvider(provider);
+  }
+
+  /**
+   * Private: Gather current market context from the configured provider
+   */
+  private async gatherMarketContext(tokenAddress?: string): Promise<MarketContext> {
+    try {
+      return await this.marketDataProvider.getMarketContext(tokenAddress);
+    } catch (error) {
+      console.error(`❌ Market data provider "${this.marketDataProvider.name}" failed:`, error);
+      throw new Error(`Market data unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
   /**
@@ -989,18 +2606,154 @@ Contract: ${intent.contractAddress}`;
     return `exec_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
+  /**
+   * Private: Generate unique schedule ID
+   */
+  private generateScheduleId(): string {
+    return `schedule_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  /**
+   * Private: Hold an approved decision for the user when the approval policy matches
+   * Returns true when the execution now waits for approval
+   */
+  private requestApprovalIfNeeded(execution: AgentExecution): boolean {
+    const actions = execution.plan ? execution.plan.steps.map(result => result.step) : [execution.intent];
+    const known = collectCounterparties(Array.from(this.executions.values()));
+    const reasons = getApprovalReasons(this.approvalPolicy, execution.decision, actions, known);
+
+    if (reasons.length === 0) {
+      return false;
+    }
+
+    const requestedAt = new Date();
+    execution.status = 'awaiting_approval';
+    execution.approval = {
+      reasons,
+      requestedAt,
+      expiresAt: new Date(requestedAt.getTime() + this.approvalPolicy.expiresAfterMs),
+    };
+    execution.explanation = `Awaiting your approval: ${reasons.join('; ')}`;
+    console.log('✋ Execution needs approval:', reasons);
+    return true;
+  }
+
+  /**
+   * Private: Find an execution that is still waiting for approval
+   */
+  private getAwaitingExecution(id: string): AgentExecution {
+    this.expireApprovals();
+
+    const execution = this.executions.get(id);
+    if (!execution) {
+      throw new Error('Execution not found');
+    }
+    if (execution.status !== 'awaiting_approval' || !execution.approval) {
+      throw new Error(execution.approval?.resolution === 'expired'
+        ? 'Approval request has expired'
+        : 'Execution is not awaiting approval');
+    }
+    return execution;
+  }
+
+  /**
+   * Private: Reject approval requests that were not answered in time
+   */
+  private expireApprovals(now: Date = new Date()): void {
+    let expiredCount = 0;
+
+    this.executions.forEach(execution => {
+      if (execution.status !== 'awaiting_approval' || !execution.approval) {
+        return;
+      }
+      if (execution.approval.expiresAt.getTime() > now.getTime()) {
+        return;
+      }
+
+      execution.approval.resolution = 'expired';
+      execution.approval.resolvedAt = now;
+      execution.status = 'blocked';
+      execution.explanation = `Approval expired at ${execution.approval.expiresAt.toLocaleString()}, nothing was executed`;
+      this.events.emit({ type: 'execution_updated', executionId: execution.id, status: execution.status });
+      expiredCount++;
+    });
+
+    if (expiredCount > 0) {
+      console.log(`⌛ Expired ${expiredCount} approval requests`);
+      this.persistExecutions();
+    }
+  }
+
+  /**
+   * Private: Load the user's approval policy from localStorage
+   */
+  private loadApprovalPolicy(): ApprovalPolicy | null {
+    try {
+      const stored = localStorage.getItem(this.storageKey('metapilot_approval_policy'));
+      return stored ? { ...DEFAULT_APPROVAL_POLICY, ...JSON.parse(stored) } : null;
+    } catch (error) {
+      console.error('Failed to load approval policy:', error);
+      return null;
+    }
+  }
+
   /**
    * Private: Load executions from localStorage
    */
   private loadPersistedExecutions(): void {
     try {
-      const stored = localStorage.getItem('metapilot_executions');
+      const stored = localStorage.getItem(this.storageKey('metapilot_executions'));
       if (stored) {
         const data = JSON.parse(stored);
         for (const [id, execData] of Object.entries(data as Record<string, any>)) {
           const execution: AgentExecution = {
             ...execData,
             timestamp: new Date(execData.timestamp),
+            marketContext: execData.marketContext
+              ? this.reviveMarketContext(execData.marketContext)
+              : undefined,
+            simulation: execData.simulation?.result
+              ? {
+                  ...execData.simulation,
+                  result: { ...execData.simulation.result, simulatedAt: new Date(execData.simulation.result.simulatedAt) },
+                }
+              : execData.simulation,
+            decision: {
+              ...execData.decision,
+              llmExchanges: execData.decision.llmExchanges?.map((exchange: any) => ({
+                ...exchange,
+                requestedAt: new Date(exchange.requestedAt),
+              })),
+            },
+            approval: execData.approval
+              ? {
+                  ...execData.approval,
+                  requestedAt: new Date(execData.approval.requestedAt),
+                  expiresAt: new Date(execData.approval.expiresAt),
+                  resolvedAt: execData.approval.resolvedAt ? new Date(execData.approval.resolvedAt) : undefined,
+                }
+              : undefined,
+            provenance: execData.provenance
+              ? {
+                  ...execData.provenance,
+                  decidedAt: new Date(execData.provenance.decidedAt),
+                  permission: execData.provenance.permission && {
+                    ...execData.provenance.permission,
+                    startTime: new Date(execData.provenance.permission.startTime),
+                    endTime: new Date(execData.provenance.permission.endTime),
+                    grantedAt: new Date(execData.provenance.permission.grantedAt),
+                  },
+                }
+              : undefined,
+            rateLimit: execData.rateLimit
+              ? { ...execData.rateLimit, retryAt: new Date(execData.rateLimit.retryAt) }
+              : undefined,
+            attempts: execData.attempts?.map((attempt: any) => ({
+              ...attempt,
+              startedAt: new Date(attempt.startedAt),
+              finishedAt: new Date(attempt.finishedAt),
+              lateResult: attempt.lateResult && { ...attempt.lateResult, finishedAt: new Date(attempt.lateResult.finishedAt) },
+            })),
           };
           this.executions.set(id, execution);
         }
@@ -1010,24 +2763,92 @@ Contract: ${intent.contractAddress}`;
     }
   }
 
+  /**
+   * Private: Restore Date fields of a persisted market context
+   */
+  private reviveMarketContext(data: any): MarketContext {
+    const sources = Object.fromEntries(
+      Object.entries((data.sources || {}) as Record<string, any>).map(([field, source]) => [
+        field,
+        { ...source, observedAt: new Date(source.observedAt) },
+      ])
+    ) as MarketContext['sources'];
+
+    return {
+      ...data,
+      timestamp: new Date(data.timestamp),
+      sources,
+    };
+  }
+
+  /**
+   * Private: Store and persist an execution that has reached its status for now,
+   * and announce it: execution_failed, or execution_updated with the status
+   */
+  private settleExecution(execution: AgentExecution): void {
+    this.executions.set(execution.id, execution);
+    this.persistExecutions();
+
+    if (execution.status === 'failed') {
+      this.events.emit({ type: 'execution_failed', executionId: execution.id, error: execution.error || execution.explanation });
+    } else {
+      this.events.emit({ type: 'execution_updated', executionId: execution.id, status: execution.status });
+    }
+  }
+
+  /**
+   * Private: localStorage key for this agent; the default agent keeps the original keys
+   */
+  private storageKey(key: string): string {
+    return !this.agent || this.agent.id === AGENT_CONFIG.DEFAULT_AGENT_ID ? key : `${key}_${this.agent.id}`;
+  }
+
   /**
    * Private: Persist executions to localStorage
+   * Only the newest executions keep their latest LLM prompts and replies; when
+   * the storage quota is still exceeded, executions are stored without any
    */
   private persistExecutions(): void {
+    const key = this.storageKey('metapilot_executions');
     try {
-      const data = Object.fromEntries(this.executions);
-      localStorage.setItem('metapilot_executions', JSON.stringify(data));
+      localStorage.setItem(key, JSON.stringify(this.toStoredExecutions(AGENT_CONFIG.STORED_EXCHANGE_EXECUTIONS)));
     } catch (error) {
-      console.error('Failed to persist executions:', error);
+      try {
+        localStorage.setItem(key, JSON.stringify(this.toStoredExecutions(0)));
+        console.warn('⚠️ Execution storage is full, stored executions without their LLM prompts and replies:', error);
+      } catch (retryError) {
+        console.error('Failed to persist executions:', retryError);
+      }
     }
   }
 
+  /**
+   * Private: Executions to store, where only the newest `exchangeExecutions` keep LLM exchanges
+   */
+  private toStoredExecutions(exchangeExecutions: number): Record<string, AgentExecution> {
+    const withExchanges = Array.from(this.executions.values())
+      .filter(execution => execution.decision.llmExchanges && execution.decision.llmExchanges.length > 0)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, exchangeExecutions)
+      .map(execution => execution.id);
+
+    const stored: Record<string, AgentExecution> = {};
+    this.executions.forEach((execution, id) => {
+      const exchanges = execution.decision.llmExchanges;
+      const kept = exchanges && withExchanges.indexOf(id) !== -1
+        ? exchanges.slice(-AGENT_CONFIG.STORED_EXCHANGES_PER_EXECUTION)
+        : undefined;
+      stored[id] = exchanges ? { ...execution, decision: { ...execution.decision, llmExchanges: kept } } : execution;
+    });
+    return stored;
+  }
+
   /**
    * Private: Load schedules from localStorage WITHOUT starting them
    */
   private loadPersistedSchedulesWithoutStarting(): void {
     try {
-      const stored = localStorage.getItem('metapilot_schedules');
+      const stored = localStorage.getItem(this.storageKey('metapilot_schedules'));
       if (stored) {
         const data = JSON.parse(stored);
         console.log(`📋 Loading ${Object.keys(data).length} persisted schedules (without starting)...`);
@@ -1037,7 +2858,13 @@ Contract: ${intent.contractAddress}`;
             ...intentData,
             schedule: {
               ...intentData.schedule,
-              nextExecution: new Date(intentData.schedule?.nextExecution),
+              nextExecution: intentData.schedule?.nextExecution ? new Date(intentData.schedule.nextExecution) : undefined,
+              endDate: intentData.schedule?.endDate ? new Date(intentData.schedule.endDate) : undefined,
+              history: intentData.schedule?.history?.map((occurrence: any) => ({
+                ...occurrence,
+                scheduledFor: new Date(occurrence.scheduledFor),
+                recordedAt: new Date(occurrence.recordedAt),
+              })),
             },
           };
           
@@ -1055,48 +2882,47 @@ Contract: ${intent.contractAddress}`;
   }
 
   /**
-   * Private: Load schedules from localStorage
+   * Private: Load condition triggers from localStorage and register them with the watcher
    */
-  private loadPersistedSchedules(): void {
+  private loadPersistedTriggers(): void {
     try {
-      const stored = localStorage.getItem('metapilot_schedules');
+      const stored = localStorage.getItem(this.storageKey('metapilot_triggers'));
       if (stored) {
         const data = JSON.parse(stored);
-        console.log(`🔄 Loading ${Object.keys(data).length} persisted schedules...`);
-        
         for (const [id, intentData] of Object.entries(data as Record<string, any>)) {
+          const trigger = intentData.trigger;
           const intent: AgentIntent = {
             ...intentData,
-            schedule: {
-              ...intentData.schedule,
-              nextExecution: new Date(intentData.schedule?.nextExecution),
+            trigger: {
+              ...trigger,
+              lastFiredAt: trigger.lastFiredAt ? new Date(trigger.lastFiredAt) : undefined,
+              lastEvaluation: trigger.lastEvaluation
+                ? { ...trigger.lastEvaluation, evaluatedAt: new Date(trigger.lastEvaluation.evaluatedAt) }
+                : undefined,
             },
           };
-          
-          // Only restore active schedules
-          if (intent.schedule?.isActive) {
-            console.log(`🔄 Restoring schedule: "${intent.description}" (${intent.schedule.frequency})`);
-            this.scheduledIntents.set(id, intent);
-            
-            // Restart the schedule - but don't create duplicate schedules
-            // Clear any existing timeout first
-            const existingTimeout = this.activeSchedules.get(id);
-            if (existingTimeout) {
-              clearTimeout(existingTimeout);
-            }
-            
-            // Restart the schedule
-            this.scheduleRecurringIntent(intent);
-          } else {
-            console.log(`⏸️ Skipping inactive schedule: "${intent.description}"`);
+
+          if (intent.trigger?.isActive) {
+            this.triggeredIntents.set(id, intent);
+            this.triggerWatcher.register(id, intent);
           }
         }
-        console.log(`🔄 Restored ${this.scheduledIntents.size} active schedules`);
-      } else {
-        console.log(`🔄 No persisted schedules found`);
+        console.log(`📋 Loaded ${this.triggeredIntents.size} triggers (watcher not started)`);
       }
     } catch (error) {
-      console.error('Failed to load persisted schedules:', error);
+      console.error('Failed to load persisted triggers:', error);
+    }
+  }
+
+  /**
+   * Private: Persist condition triggers to localStorage
+   */
+  private persistTriggers(): void {
+    try {
+      const data = Object.fromEntries(this.triggeredIntents);
+      localStorage.setItem(this.storageKey('metapilot_triggers'), JSON.stringify(data));
+    } catch (error) {
+      console.error('Failed to persist triggers:', error);
     }
   }
 
@@ -1106,7 +2932,7 @@ Contract: ${intent.contractAddress}`;
   private persistSchedules(): void {
     try {
       const data = Object.fromEntries(this.scheduledIntents);
-      localStorage.setItem('metapilot_schedules', JSON.stringify(data));
+      localStorage.setItem(this.storageKey('metapilot_schedules'), JSON.stringify(data));
     } catch (error) {
       console.error('Failed to persist schedules:', error);
     }
@@ -0,0 +1,192 @@
+/**
+ * Agent Registry
+ * Named agents side by side, e.g. a DCA bot, a bill payer and a treasury sweeper
+ *
+ * Each agent is its own AgentExecutor: persona, approval thresholds,
+ * permission bindings, history, schedules and triggers are kept apart, and
+ * one agent can be paused without touching the others. The default agent
+ * keeps the original storage keys and may use every permission, so what
+ * existed before named agents stays with it.
+ */
+
+import { PermissionManager } from '@/services/permissions/PermissionManager';
+import { WalletManager } from '@/services/wallet/WalletManager';
+import { AGENT_CONFIG } from '@/lib/constants';
+import { agentProfileSchema } from '@/lib/validation';
+import { AgentExecutor, AgentExecutorOptions } from './AgentExecutor';
+import type { ApprovalPolicy } from './ApprovalPolicy';
+import type { AgentLLMSettings } from './LLMProvider';
+
+export interface AgentProfile {
+  id: string;
+  name: string;
+  persona?: string; // Added to the agent's decision and planning prompts
+  permissionIds: string[] | null; // Permissions the agent may act under; null for all
+  approvalPolicy?: ApprovalPolicy; // Used until the user saves one for this agent
+  llm?: AgentLLMSettings;
+  paused: boolean;
+  createdAt: Date;
+}
+
+export type AgentProfileInput = Pick<AgentProfile, 'name' | 'persona' | 'permissionIds' | 'approvalPolicy' | 'llm'>;
+
+const DEFAULT_AGENT: AgentProfile = {
+  id: AGENT_CONFIG.DEFAULT_AGENT_ID,
+  name: 'Default agent',
+  permissionIds: null,
+  paused: false,
+  createdAt: new Date(0),
+};
+
+export class AgentRegistry {
+  private profiles: Map<string, AgentProfile> = new Map();
+  private executors: Map<string, AgentExecutor> = new Map();
+  private permissionManager: PermissionManager;
+  private walletManager: WalletManager;
+  private options: AgentExecutorOptions;
+
+  /**
+   * `options` are shared by every agent (market data, scheduler, LLM provider...)
+   */
+  constructor(permissionManager: PermissionManager, walletManager: WalletManager, options: AgentExecutorOptions = {}) {
+    this.permissionManager = permissionManager;
+    this.walletManager = walletManager;
+    this.options = options;
+    this.loadProfiles();
+  }
+
+  /**
+   * All agents, the default one first
+   */
+  listAgents(): AgentProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * Get an agent's profile by ID
+   */
+  getAgent(id: string): AgentProfile | null {
+    return this.profiles.get(id) || null;
+  }
+
+  /**
+   * The executor running an agent, created on first use
+   */
+  getExecutor(id: string = AGENT_CONFIG.DEFAULT_AGENT_ID): AgentExecutor {
+    const existing = this.executors.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const profile = this.profiles.get(id);
+    if (!profile) {
+      throw new Error('Agent not found');
+    }
+
+    const executor = new AgentExecutor(this.permissionManager, this.walletManager, undefined, undefined, {
+      ...this.options,
+      approvalPolicy: profile.approvalPolicy || this.options.approvalPolicy,
+      llm: profile.llm || this.options.llm,
+      agent: profile,
+    });
+    this.executors.set(id, executor);
+    return executor;
+  }
+
+  /**
+   * Add a named agent; it starts running when its executor is first used
+   */
+  createAgent(input: AgentProfileInput): AgentProfile {
+    const result = agentProfileSchema.safeParse(input);
+    if (!result.success) {
+      throw new Error(`Invalid agent: ${result.error.issues.map(issue => issue.message).join(', ')}`);
+    }
+
+    const name = result.data.name;
+    if (this.listAgents().some(agent => agent.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`An agent named "${name}" already exists`);
+    }
+    (result.data.permissionIds || []).forEach(permissionId => {
+      if (!this.permissionManager.getPermission(permissionId)) {
+        throw new Error(`Permission ${permissionId} not found`);
+      }
+    });
+
+    const profile: AgentProfile = {
+      ...input,
+      id: `agent_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      name,
+      persona: result.data.persona?.trim() || undefined,
+      paused: false,
+      createdAt: new Date(),
+    };
+    this.profiles.set(profile.id, profile);
+    this.persistProfiles();
+    console.log(`🤖 Created agent "${profile.name}" (${profile.id})`);
+    return profile;
+  }
+
+  /**
+   * Stop an agent's schedules, triggers and server jobs and refuse its new work; other agents keep running
+   */
+  async pauseAgent(id: string): Promise<AgentProfile> {
+    return this.setPaused(id, true);
+  }
+
+  /**
+   * Let a paused agent run again; its schedules resume under their misfire policies
+   */
+  async resumeAgent(id: string): Promise<AgentProfile> {
+    return this.setPaused(id, false);
+  }
+
+  /**
+   * Private: Pause or resume an agent and remember it across sessions
+   * The agent's state is saved before its server jobs are updated, which may throw
+   */
+  private async setPaused(id: string, paused: boolean): Promise<AgentProfile> {
+    const profile = this.profiles.get(id);
+    if (!profile) {
+      throw new Error('Agent not found');
+    }
+
+    profile.paused = paused;
+    this.persistProfiles();
+    const executor = this.getExecutor(id);
+    if (paused) {
+      await executor.pause();
+    } else {
+      await executor.resume();
+    }
+    return profile;
+  }
+
+  /**
+   * Private: Load agent profiles from localStorage, always including the default agent
+   */
+  private loadProfiles(): void {
+    this.profiles.set(AGENT_CONFIG.DEFAULT_AGENT_ID, { ...DEFAULT_AGENT });
+
+    try {
+      const stored = localStorage.getItem('metapilot_agents');
+      if (stored) {
+        (JSON.parse(stored) as any[]).forEach(data => {
+          this.profiles.set(data.id, { ...data, createdAt: new Date(data.createdAt) });
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load agents:', error);
+    }
+  }
+
+  /**
+   * Private: Persist agent profiles to localStorage
+   */
+  private persistProfiles(): void {
+    try {
+      localStorage.setItem('metapilot_agents', JSON.stringify(this.listAgents()));
+    } catch (error) {
+      console.error('Failed to persist agents:', error);
+    }
+  }
+}
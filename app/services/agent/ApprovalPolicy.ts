@@ -0,0 +1,102 @@
+/**
+ * Approval Policy
+ * Decides which agent decisions wait for the user before executing
+ */
+
+import { AGENT_CONFIG } from '@/lib/constants';
+import type { AgentDecision, AgentExecution, AgentIntent } from './AgentExecutor';
+
+export interface ApprovalPolicy {
+  enabled: boolean;
+  minConfidence: number | null; // Ask when the decision is less confident than this
+  maxAmount: string | null; // Ask when the amount is larger than this
+  newRecipients: boolean; // Ask before the first transfer to an address
+  newContracts: boolean; // Ask before the first call to a contract (swaps, stakes, approvals)
+  expiresAfterMs: number; // Unanswered requests are rejected after this
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  enabled: true,
+  minConfidence: AGENT_CONFIG.APPROVAL_MIN_CONFIDENCE,
+  maxAmount: AGENT_CONFIG.APPROVAL_MAX_AMOUNT,
+  newRecipients: true,
+  newContracts: false,
+  expiresAfterMs: AGENT_CONFIG.APPROVAL_EXPIRY_MS,
+};
+
+/**
+ * Addresses the agent has already sent to or called in executed runs
+ */
+export interface KnownCounterparties {
+  recipients: Set<string>; // Lowercase
+  contracts: Set<string>; // Lowercase
+}
+
+/**
+ * Collect counterparties from executed runs, including the steps of executed plans
+ */
+export function collectCounterparties(executions: AgentExecution[]): KnownCounterparties {
+  const known: KnownCounterparties = { recipients: new Set(), contracts: new Set() };
+
+  const add = (action: string | undefined, address: string) => {
+    if (!action || action === 'transfer') {
+      known.recipients.add(address.toLowerCase());
+    } else {
+      known.contracts.add(address.toLowerCase());
+    }
+  };
+
+  executions
+    .filter(execution => execution.status === 'executed')
+    .forEach(execution => {
+      if (execution.plan) {
+        execution.plan.steps.forEach(result => add(result.step.action.type, result.step.contractAddress));
+      } else {
+        add(execution.intent.action?.type, execution.intent.contractAddress);
+      }
+    });
+
+  return known;
+}
+
+/**
+ * Why an action needs the user's approval; empty when it can run unattended
+ *
+ * `actions` are the on-chain actions of the run: the intent itself, or each
+ * step of a plan. Amounts are checked against their sum.
+ */
+export function getApprovalReasons(
+  policy: ApprovalPolicy,
+  decision: AgentDecision,
+  actions: Array<Pick<AgentIntent, 'amount' | 'contractAddress' | 'action'>>,
+  known: KnownCounterparties
+): string[] {
+  if (!policy.enabled) {
+    return [];
+  }
+
+  const reasons: string[] = [];
+
+  if (policy.minConfidence !== null && decision.confidence < policy.minConfidence) {
+    reasons.push(`Confidence ${decision.confidence}% is below ${policy.minConfidence}%`);
+  }
+
+  const total = actions.reduce((sum, action) => sum + parseFloat(action.amount), 0);
+  if (policy.maxAmount !== null && total > parseFloat(policy.maxAmount)) {
+    reasons.push(`Amount ${total} is above ${policy.maxAmount}`);
+  }
+
+  actions.forEach(action => {
+    const address = action.contractAddress.toLowerCase();
+    const isTransfer = !action.action || action.action.type === 'transfer';
+    if (isTransfer && policy.newRecipients && !known.recipients.has(address)) {
+      reasons.push(`First transfer to ${action.contractAddress}`);
+    }
+    if (!isTransfer && policy.newContracts && !known.contracts.has(address)) {
+      reasons.push(`First ${action.action?.type} with contract ${action.contractAddress}`);
+    }
+  });
+
+  // Plans can repeat an address across steps
+  return reasons.filter((reason, index) => reasons.indexOf(reason) === index);
+}
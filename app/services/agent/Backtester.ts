@@ -0,0 +1,376 @@
+/**
+ * Backtester
+ * Replays an agent strategy against historical market data before it is enabled
+ *
+ * The intent's schedule (or trigger) is walked over a series of market
+ * samples, and every run goes through the same steps as a live one: budget
+ * pacing, the permission's bounds and rate limits, the gas ceiling and the
+ * policy-gated decision. Spending moves a virtual balance and the permission's
+ * spent amount; nothing is signed or sent. Without a decision maker the
+ * policy decides alone, so a backtest runs fully offline; pass one built on a
+ * ScriptedProvider to replay LLM answers.
+ */
+
+import { ethers } from 'ethers';
+import { marketSeriesSchema } from '@/lib/validation';
+import { TokenAmount, getAmountDecimals } from '@/lib/tokenAmount';
+import { addPeriodSpend } from '@/services/permissions/PeriodicAllowance';
+import { checkPermissionSnapshot, getRemainingAllowance, paceJob } from '@/services/scheduler/AgentJobRunner';
+import type { JobPermissionSnapshot, ScheduledJob } from '@/types/scheduler';
+import type { AgentDecision, AgentIntent, MarketContext } from './AgentExecutor';
+import { LLMDecisionMaker } from './DecisionMaker';
+import type { PacingMode } from './BudgetPacer';
+import type { MarketDataFixture } from './MarketDataProvider';
+import { classifyCongestion } from './MarketDataProvider';
+import { checkGasCeiling } from './RetryPolicy';
+import { computeNextExecution, parseScheduleFromDescription } from './ScheduleCalculator';
+import { canTriggerFire, evaluateTriggerConditions, parseTriggerFromDescription } from './TriggerWatcher';
+
+// Upper bound on runs replayed at once (e.g. a minutely schedule over a year of data)
+const MAX_BACKTEST_RUNS = 2000;
+
+export type MarketSample = MarketDataFixture & { timestamp: Date };
+
+export type BacktestStage = 'permission' | 'balance' | 'gas_ceiling' | 'decision';
+
+export interface BacktestConfig {
+  intent: AgentIntent; // The schedule and trigger are read from its description unless set
+  permission: JobPermissionSnapshot;
+  series: MarketSample[];
+  startingBalance: string; // Virtual balance of the intent's token
+  spentAmount?: string; // Already spent against the permission
+  from?: Date; // Defaults to the first sample
+  until?: Date; // Defaults to the last sample
+  pacing?: PacingMode; // Budget pacing for a recurring schedule
+  decisionMaker?: LLMDecisionMaker; // The policy decides alone when omitted
+}
+
+export interface BacktestRun {
+  at: Date;
+  status: 'executed' | 'blocked';
+  blockedAt?: BacktestStage;
+  amount: string;
+  explanation: string;
+  market: MarketContext;
+  decision?: AgentDecision;
+  balanceAfter: string;
+  spentAfter: string;
+}
+
+export interface BacktestReport {
+  from: Date;
+  until: Date;
+  mode: 'schedule' | 'trigger' | 'once';
+  runs: BacktestRun[];
+  executed: number;
+  blocked: number;
+  blockedBy: Record<BacktestStage, number>;
+  totalSpent: string; // During the backtest
+  remainingAllowance: string;
+  endingBalance: string;
+  allowanceExhaustedAt: Date | null; // First run the remaining allowance could not cover
+  truncated: boolean; // Stopped at the run limit before `until`
+}
+
+/**
+ * Read a market series from a JSON array or a CSV file with a header row
+ * Columns: timestamp (ISO or unix seconds), gasPrice (gwei), tokenPrice (USD, optional),
+ * networkCongestion (low, medium or high; defaults to low). Samples are sorted by time.
+ */
+export function parseMarketSeries(text: string): MarketSample[] {
+  const trimmed = text.trim();
+  let rows: unknown;
+
+  if (trimmed.startsWith('[')) {
+    try {
+      rows = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`Invalid market series JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const header = (lines[0] || '').split(',').map(cell => cell.trim());
+    rows = lines.slice(1).map(line => {
+      const cells = line.split(',').map(cell => cell.trim());
+      const row: Record<string, string | number> = {};
+      header.forEach((column, index) => {
+        const cell = cells[index] || '';
+        row[column] = column === 'timestamp' && /^\d+$/.test(cell) ? parseInt(cell) : cell;
+      });
+      return row;
+    });
+  }
+
+  const result = marketSeriesSchema.safeParse(rows);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid market series at row ${issue.path.map(String).join('.')}: ${issue.message}`);
+  }
+
+  return result.data
+    .map(sample => ({ ...sample }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Read a gas and congestion series from the chain's fee history, one sample
+ * every `blocksPerSample` blocks going back from the latest block. Prices are not
+ * on chain here, so tokenPrice is null; merge a price file for price conditions.
+ */
+export async function fetchChainMarketSeries(
+  rpcUrl: string,
+  samples: number = 48,
+  blocksPerSample: number = 1800
+): Promise<MarketSample[]> {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const latest = await provider.getBlockNumber();
+  const series: MarketSample[] = [];
+
+  for (let index = 0; index < samples; index++) {
+    const blockNumber = latest - index * blocksPerSample;
+    if (blockNumber < 10) {
+      break;
+    }
+
+    const [feeHistory, block] = await Promise.all([
+      provider.send('eth_feeHistory', [ethers.toQuantity(10), ethers.toQuantity(blockNumber), [50]]) as Promise<{
+        baseFeePerGas: string[];
+        gasUsedRatio: number[];
+        reward?: string[][];
+      }>,
+      provider.getBlock(blockNumber),
+    ]);
+    if (!block || !feeHistory.baseFeePerGas?.length) {
+      continue;
+    }
+
+    const ratios = feeHistory.gasUsedRatio || [];
+    const averageRatio = ratios.length > 0 ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length : 0;
+    const baseFee = BigInt(feeHistory.baseFeePerGas[feeHistory.baseFeePerGas.length - 1]);
+    const tip = BigInt((feeHistory.reward || [])[0]?.[0] || '0x0');
+
+    series.push({
+      timestamp: new Date(block.timestamp * 1000),
+      gasPrice: ethers.formatUnits(baseFee + tip, 'gwei'),
+      tokenPrice: null,
+      networkCongestion: classifyCongestion(averageRatio),
+    });
+  }
+
+  if (series.length === 0) {
+    throw new Error('The chain returned no fee history');
+  }
+  return series.reverse();
+}
+
+/**
+ * A permission granted at `from` for as long as the original one runs
+ * Live permissions usually start after the historical data ends
+ */
+export function alignPermissionWindow(permission: JobPermissionSnapshot, from: Date): JobPermissionSnapshot {
+  const duration = permission.endTime.getTime() - permission.startTime.getTime();
+  return { ...permission, startTime: from, endTime: new Date(from.getTime() + duration) };
+}
+
+/**
+ * Replay an intent over a market series and report what it would have done
+ */
+export async function runBacktest(config: BacktestConfig): Promise<BacktestReport> {
+  const { intent, permission, series } = config;
+  if (series.length === 0) {
+    throw new Error('The market series has no samples');
+  }
+
+  const from = config.from || series[0].timestamp;
+  const until = config.until || series[series.length - 1].timestamp;
+  const schedule = intent.schedule
+    ? { ...intent.schedule, occurrenceCount: 0 }
+    : parseScheduleFromDescription(intent.description, from);
+  const trigger = intent.trigger
+    ? { ...intent.trigger, fireCount: 0, lastFiredAt: undefined }
+    : parseTriggerFromDescription(intent.description, schedule);
+  if (config.pacing && schedule.type === 'recurring') {
+    schedule.pacing = config.pacing;
+  }
+  if (schedule.pacing === 'price_adaptive' && schedule.pacingReferencePrice === undefined && series[0].tokenPrice !== null) {
+    schedule.pacingReferencePrice = parseFloat(series[0].tokenPrice);
+  }
+
+  const decisionMaker = config.decisionMaker || new LLMDecisionMaker(null);
+  const job: ScheduledJob = {
+    id: 'backtest',
+    intent: { ...intent, schedule, trigger: trigger || undefined },
+    permission,
+    ownerAddress: ethers.ZeroAddress,
+    status: 'active',
+    catchUpPolicy: 'skip',
+    nextRunAt: null,
+    spentAmount: config.spentAmount || '0',
+    runs: [],
+    createdAt: from,
+    updatedAt: from,
+  };
+  const decimals = getAmountDecimals(permission);
+  const startingSpent = TokenAmount.parse(job.spentAmount, decimals);
+  let balance = TokenAmount.parse(config.startingBalance, decimals);
+  let allowanceExhaustedAt: Date | null = null;
+  const runs: BacktestRun[] = [];
+
+  const runAt = async (at: Date, context: MarketContext): Promise<void> => {
+    const paced = paceJob(job, at, context);
+    const run: BacktestRun = {
+      at,
+      status: 'blocked',
+      amount: paced.intent.amount,
+      explanation: '',
+      market: context,
+      balanceAfter: '',
+      spentAfter: '',
+    };
+
+    // The amount parses once the permission check has passed
+    const violation = checkPermissionSnapshot(paced, at);
+    const amount = violation ? null : TokenAmount.parse(paced.intent.amount, decimals);
+    const gasViolation = checkGasCeiling(context.gasPrice);
+    if (violation || !amount) {
+      run.blockedAt = 'permission';
+      run.explanation = `Action blocked: ${violation}`;
+      if (violation === 'Spend limit would be exceeded' && !allowanceExhaustedAt) {
+        allowanceExhaustedAt = at;
+      }
+    } else if (amount.gt(balance)) {
+      run.blockedAt = 'balance';
+      run.explanation = `Action blocked: balance ${balance} is below ${paced.intent.amount}`;
+    } else if (gasViolation) {
+      run.blockedAt = 'gas_ceiling';
+      run.explanation = `Action blocked: ${gasViolation}`;
+    } else {
+      run.decision = await decisionMaker.decide(paced.intent, context, {
+        tokenAddress: permission.tokenAddress,
+        maxSpendAmount: permission.maxSpendAmount,
+        remainingAllowance: getRemainingAllowance(job).toString(),
+        startTime: permission.startTime,
+        endTime: permission.endTime,
+        allowedContracts: permission.allowedContracts,
+        policy: permission.policy,
+      });
+      if (run.decision.shouldExecute) {
+        run.status = 'executed';
+        run.explanation = `Would execute: ${run.decision.reasoning}`;
+        balance = balance.minus(amount);
+        job.spentAmount = TokenAmount.parse(job.spentAmount, decimals).plus(amount).toString();
+        job.periodSpend = addPeriodSpend(permission, job.periodSpend, amount, at);
+        job.runs.unshift({ scheduledFor: at, startedAt: at, finishedAt: at, status: 'executed', explanation: run.explanation });
+        if (getRemainingAllowance(job).isZero() && !allowanceExhaustedAt) {
+          allowanceExhaustedAt = at;
+        }
+      } else {
+        run.blockedAt = 'decision';
+        run.explanation = `Agent declined to execute: ${run.decision.reasoning}`;
+      }
+    }
+
+    run.balanceAfter = balance.toString();
+    run.spentAfter = job.spentAmount;
+    runs.push(run);
+  };
+
+  let mode: BacktestReport['mode'];
+  let truncated = false;
+  if (trigger) {
+    // Conditions are checked at every sample, as the watcher polls them live
+    mode = 'trigger';
+    const history: Array<{ timestamp: number; price: number }> = [];
+    for (let index = 0; index < series.length; index++) {
+      const sample = series[index];
+      const at = sample.timestamp;
+      if (sample.tokenPrice !== null) {
+        history.push({ timestamp: at.getTime(), price: parseFloat(sample.tokenPrice) });
+      }
+      if (at.getTime() < from.getTime() || at.getTime() > until.getTime() || !canTriggerFire(trigger, at)) {
+        continue;
+      }
+      if (runs.length >= MAX_BACKTEST_RUNS) {
+        truncated = true;
+        break;
+      }
+
+      const context = buildContext(sample, at);
+      const evaluation = evaluateTriggerConditions(trigger.conditions, context, history, balance.toString());
+      if (evaluation.allMet) {
+        trigger.fireCount++;
+        trigger.lastFiredAt = at;
+        await runAt(at, context);
+      }
+    }
+  } else if (schedule.type === 'recurring') {
+    mode = 'schedule';
+    // A parsed schedule starts where a live one would: its first run after `from`
+    let next = intent.schedule ? computeNextExecution(schedule, from) : schedule.nextExecution || null;
+    while (next && next.getTime() <= until.getTime()) {
+      if (runs.length >= MAX_BACKTEST_RUNS) {
+        truncated = true;
+        break;
+      }
+      await runAt(next, buildContext(sampleAt(series, next), next));
+      schedule.occurrenceCount = (schedule.occurrenceCount || 0) + 1;
+      next = computeNextExecution(schedule, next);
+    }
+  } else {
+    mode = 'once';
+    await runAt(from, buildContext(sampleAt(series, from), from));
+  }
+
+  const blockedBy: Record<BacktestStage, number> = { permission: 0, balance: 0, gas_ceiling: 0, decision: 0 };
+  runs.forEach(run => {
+    if (run.blockedAt) {
+      blockedBy[run.blockedAt]++;
+    }
+  });
+  const executed = runs.filter(run => run.status === 'executed').length;
+
+  console.log(`📈 Backtest: ${executed} of ${runs.length} runs would execute between ${from.toISOString()} and ${until.toISOString()}`);
+  return {
+    from,
+    until,
+    mode,
+    runs,
+    executed,
+    blocked: runs.length - executed,
+    blockedBy,
+    totalSpent: TokenAmount.parse(job.spentAmount, decimals).minus(startingSpent).toString(),
+    remainingAllowance: getRemainingAllowance(job).toString(),
+    endingBalance: balance.toString(),
+    allowanceExhaustedAt,
+    truncated,
+  };
+}
+
+/**
+ * Private: The latest sample at or before `at`, or the first one
+ */
+function sampleAt(series: MarketSample[], at: Date): MarketSample {
+  let found = series[0];
+  for (let index = 0; index < series.length && series[index].timestamp.getTime() <= at.getTime(); index++) {
+    found = series[index];
+  }
+  return found;
+}
+
+/**
+ * Private: Market context of a sample as seen at `at`
+ */
+function buildContext(sample: MarketSample, at: Date): MarketContext {
+  const source = {
+    provider: 'backtest',
+    observedAt: sample.timestamp,
+    ageMs: Math.max(0, at.getTime() - sample.timestamp.getTime()),
+  };
+  return {
+    gasPrice: sample.gasPrice,
+    tokenPrice: sample.tokenPrice,
+    networkCongestion: sample.networkCongestion,
+    timestamp: at,
+    sources: { gasPrice: source, tokenPrice: source, networkCongestion: source },
+  };
+}
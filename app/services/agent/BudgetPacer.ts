@@ -0,0 +1,137 @@
+/**
+ * Budget Pacer
+ * Spreads a permission's allowance over the remaining runs of a recurring schedule
+ *
+ * Each run's amount comes from the remaining allowance, the runs left before
+ * the permission ends and the pacing mode. The command's own amount is the
+ * most a single run spends.
+ */
+
+import { TokenAmount } from '@/lib/tokenAmount';
+import { computeNextExecution } from './ScheduleCalculator';
+import type { AgentSchedule } from './AgentExecutor';
+
+export type PacingMode = 'even' | 'front_loaded' | 'price_adaptive';
+
+export interface PacingInput {
+  mode: PacingMode;
+  remainingAllowance: number;
+  remainingRuns: number; // Including the run being paced
+  maxPerRun: number; // The command's amount
+  tokenPrice?: number | null; // price_adaptive only
+  referencePrice?: number; // price_adaptive: price when the schedule started
+}
+
+/**
+ * Cumulative spend at an instant
+ */
+export interface SpendPoint {
+  at: Date;
+  cumulative: number;
+}
+
+/**
+ * Pacing state of a schedule for the dashboard
+ */
+export interface SchedulePacingReport {
+  mode: PacingMode;
+  nextAmount: string; // Before any price adjustment
+  remainingRuns: number;
+  allowance: number; // The permission's maxSpendAmount
+  projected: SpendPoint[]; // From now to the permission's end, if every run spends its paced amount
+  actual: SpendPoint[]; // Recorded spend under the permission
+}
+
+export const PACING_LABELS: Record<PacingMode, string> = {
+  even: 'Even spread',
+  front_loaded: 'Front-loaded',
+  price_adaptive: 'Adapt to price',
+};
+
+// Upper bound on future runs counted (e.g. a minutely schedule over a year);
+// counting fewer runs than there are only makes each run spend less
+const MAX_PACED_RUNS = 5000;
+
+// price_adaptive spends between half and double the even amount
+const MIN_PRICE_FACTOR = 0.5;
+const MAX_PRICE_FACTOR = 2;
+
+/**
+ * Runs of a schedule from `first` up to `until`, respecting its end conditions
+ */
+export function listRemainingRuns(schedule: AgentSchedule, first: Date, until: Date): Date[] {
+  const limit = schedule.maxOccurrences !== undefined
+    ? Math.min(MAX_PACED_RUNS, Math.max(0, schedule.maxOccurrences - (schedule.occurrenceCount || 0)))
+    : MAX_PACED_RUNS;
+
+  // Walk the timing only; the occurrence limit is applied above
+  const timing = { ...schedule, maxOccurrences: undefined };
+  const runs: Date[] = [];
+  let next: Date | null = first;
+  while (next && next.getTime() <= until.getTime() && runs.length < limit) {
+    runs.push(next);
+    next = computeNextExecution(timing, next);
+  }
+  return runs;
+}
+
+/**
+ * Amount for the next run
+ *
+ * - even: the same share for every remaining run
+ * - front_loaded: shares shrink linearly, so the next run gets 2 / (runs + 1)
+ * - price_adaptive: the even share, scaled up when the price is below where
+ *   the schedule started and down when it is above
+ */
+export function computePacedAmount(input: PacingInput): number {
+  const { remainingAllowance, remainingRuns, maxPerRun } = input;
+  if (remainingAllowance <= 0 || remainingRuns <= 0) {
+    return 0;
+  }
+
+  const even = remainingAllowance / remainingRuns;
+  let amount: number;
+
+  if (input.mode === 'front_loaded') {
+    amount = remainingAllowance * 2 / (remainingRuns + 1);
+  } else if (input.mode === 'price_adaptive' && input.tokenPrice && input.referencePrice) {
+    const factor = Math.min(MAX_PRICE_FACTOR, Math.max(MIN_PRICE_FACTOR, input.referencePrice / input.tokenPrice));
+    amount = even * factor;
+  } else {
+    amount = even;
+  }
+
+  return Math.min(amount, maxPerRun, remainingAllowance);
+}
+
+/**
+ * Paced amount in token units, rounded down to the token's decimals so a run
+ * never spends more than its share; "0" when less than one base unit
+ */
+export function formatPacedAmount(amount: number, decimals: number): string {
+  return TokenAmount.floor(Math.max(0, amount), decimals).toString();
+}
+
+/**
+ * Cumulative spend if every remaining run spends its paced amount
+ * Prices are assumed to stay where they are, so price_adaptive projects as even
+ */
+export function projectSpend(
+  runs: Date[],
+  input: Omit<PacingInput, 'remainingRuns' | 'tokenPrice' | 'referencePrice'>,
+  alreadySpent: number,
+  now: Date
+): SpendPoint[] {
+  const points: SpendPoint[] = [{ at: now, cumulative: alreadySpent }];
+  let remaining = input.remainingAllowance;
+  let cumulative = alreadySpent;
+
+  runs.forEach((at, index) => {
+    const amount = computePacedAmount({ ...input, remainingAllowance: remaining, remainingRuns: runs.length - index });
+    remaining -= amount;
+    cumulative += amount;
+    points.push({ at, cumulative });
+  });
+
+  return points;
+}
@@ -0,0 +1,370 @@
+/**
+ * Agent Decision Maker
+ * Asks the agent's LLM whether an intent should execute, within the permission's policy
+ *
+ * Shared by the in-browser AgentExecutor and the server-side scheduler.
+ */
+
+import {
+  parseAgentDecision,
+  parseAgentPlan,
+  parseIntentExtraction,
+  buildRepairPrompt,
+  DECISION_REPLY_FORMAT,
+  INTENT_EXTRACTION_REPLY_FORMAT,
+  PLAN_REPLY_FORMAT,
+} from './DecisionParser';
+import { AGENT_CONFIG, LLM_CONFIG } from '@/lib/constants';
+import { ChatMessage } from '@/types/agent';
+import { AgentLLMSettings, CompletionResult, LLMExchange, LLMProvider, LLMUsage } from './LLMProvider';
+import type { PolicyRule } from '@/types/policy';
+import { DEFAULT_POLICY, describeVerdicts, evaluatePolicy, policyDecision } from '@/services/permissions/PolicyEngine';
+import type { AgentDecision, AgentIntent, AgentPlanStep, MarketContext } from './AgentExecutor';
+import type { ExtractedIntent } from './IntentParser';
+import { KNOWN_TOKENS } from './PlanBuilder';
+import { UNTRUSTED_INPUT_RULES, buildUntrustedBlock, describeFindings, scanForInjection, scanModelOutput } from './PromptGuard';
+
+/**
+ * Permission boundaries shown to the model
+ */
+export interface PermissionSummary {
+  tokenAddress: string;
+  maxSpendAmount: string;
+  remainingAllowance: string;
+  startTime: Date;
+  endTime: Date;
+  allowedContracts: string[];
+  policy?: PolicyRule[]; // DEFAULT_POLICY when omitted
+}
+
+type RepairableParse<T> = { success: true; value: T } | { success: false; errors: string[] };
+
+export class LLMDecisionMaker {
+  private provider: LLMProvider | null;
+  private settings: AgentLLMSettings;
+  private persona?: string;
+  private usageTotals: Map<string, LLMUsage> = new Map();
+
+  /**
+   * @param provider null leaves decisions to the policy and plans to the rule template
+   * @param persona Who the agent is, added to its decision and planning prompts
+   */
+  constructor(provider: LLMProvider | null, settings: AgentLLMSettings = {}, persona?: string) {
+    this.provider = provider;
+    this.settings = settings;
+    this.persona = persona;
+  }
+
+  /**
+   * Tokens used so far, per provider and model
+   */
+  getUsage(): LLMUsage[] {
+    return Array.from(this.usageTotals.values());
+  }
+
+  /**
+   * Decide whether to execute an intent in the given market context
+   *
+   * The permission's policy is checked first; the LLM is only asked when no
+   * rule blocks the action, and decides alone when it is unavailable. Rules
+   * that need the LLM's confidence are checked against its answer. Intents
+   * that look like prompt injection are refused. An aborted `signal` fails
+   * the decision instead of falling back to the policy. Time-of-day rules
+   * use the context's timestamp, so historical contexts replay correctly.
+   */
+  async decide(
+    intent: AgentIntent,
+    context: MarketContext,
+    permission?: PermissionSummary,
+    signal?: AbortSignal
+  ): Promise<AgentDecision> {
+    const rules = permission?.policy && permission.policy.length > 0 ? permission.policy : DEFAULT_POLICY;
+    const gate = evaluatePolicy(rules, { intent, market: context, now: context.timestamp });
+    const exchanges: LLMExchange[] = [];
+
+    if (!gate.allowed) {
+      return policyDecision(gate);
+    }
+
+    // Flagged intents never execute, and are not sent to the model
+    const findings = scanForInjection({ description: intent.description });
+    if (findings.length > 0) {
+      console.warn('🛡️ Possible prompt injection in intent:', findings);
+      return {
+        shouldExecute: false,
+        reasoning: `Refused without asking the LLM: the intent contains text that looks like instructions to the agent. ${describeFindings(findings)}`,
+        confidence: 100,
+        riskAssessment: 'high - possible prompt injection',
+        source: 'prompt_guard',
+        injectionFindings: findings,
+      };
+    }
+
+    if (!this.provider) {
+      return policyDecision(gate);
+    }
+
+    try {
+      const systemPrompt = `You are an AI agent managing cryptocurrency transactions within strict permission boundaries.
+${this.describePersona()}
+PERMISSION CONSTRAINTS:
+- Token: ${permission?.tokenAddress}
+- Max Spend: ${permission?.maxSpendAmount}
+- Remaining: ${permission?.remainingAllowance || '0'}
+- Time Window: ${permission?.startTime} to ${permission?.endTime}
+- Allowed Contracts: ${permission?.allowedContracts.join(', ')}
+
+CURRENT CONTEXT:
+- Gas Price: ${context.gasPrice} gwei
+- Token Price: ${context.tokenPrice !== null ? `$${context.tokenPrice}` : 'unavailable'}
+- Network Congestion: ${context.networkCongestion}
+
+You must NEVER exceed permission boundaries. ${UNTRUSTED_INPUT_RULES}
+Respond with JSON only:
+${DECISION_REPLY_FORMAT}`;
+
+      const userPrompt = `Should I execute this transaction?
+${buildUntrustedBlock({ intent: intent.description, amount: intent.amount, contract: intent.contractAddress })}`;
+
+      const { value, attempts, usage } = await this.completeWithRepair<AgentDecision>(
+        [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        content => {
+          const result = parseAgentDecision(content);
+          return result.success ? { success: true, value: result.decision } : result;
+        },
+        DECISION_REPLY_FORMAT,
+        exchanges,
+        signal
+      );
+
+      const decision: AgentDecision = {
+        ...value,
+        source: attempts === 0 ? 'llm' : 'llm_repaired',
+        repairAttempts: attempts,
+        llmUsage: usage,
+        llmExchanges: exchanges,
+      };
+      const review = evaluatePolicy(rules, { intent, market: context, decision, now: context.timestamp });
+
+      // A reply that follows instructions from the input is not trusted to approve
+      const outputFindings = scanModelOutput({ reasoning: decision.reasoning, riskAssessment: decision.riskAssessment });
+      const overruled = !review.allowed ? ' Overruled by policy.'
+        : outputFindings.length > 0 ? ` Overruled: the reply looks like it followed instructions from the input (${describeFindings(outputFindings)}).`
+        : '';
+
+      return {
+        ...decision,
+        shouldExecute: decision.shouldExecute && review.allowed && outputFindings.length === 0,
+        reasoning: `${decision.reasoning}${overruled} ${describeVerdicts(review.verdicts)}`,
+        policyVerdicts: review.verdicts,
+        injectionFindings: outputFindings.length > 0 ? outputFindings : undefined,
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.error('LLM query failed:', error);
+      return {
+        ...policyDecision(gate),
+        llmExchanges: exchanges.length > 0 ? exchanges : undefined,
+        llmError: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Ask the model to break a multi-step intent into an ordered plan
+   * Returns null when no LLM is configured or it cannot produce a valid plan;
+   * every prompt and reply is added to `exchanges`
+   */
+  async plan(
+    intent: AgentIntent,
+    context: MarketContext,
+    permissions: Array<PermissionSummary & { id: string }>,
+    exchanges: LLMExchange[] = [],
+    signal?: AbortSignal
+  ): Promise<AgentPlanStep[] | null> {
+    if (!this.provider) {
+      return null;
+    }
+
+    // Flagged requests get the rule template, and are blocked when decided
+    const findings = scanForInjection({ description: intent.description });
+    if (findings.length > 0) {
+      console.warn('🛡️ Possible prompt injection in plan request:', findings);
+      return null;
+    }
+
+    const systemPrompt = `You are an AI agent that turns a user's request into an ordered list of on-chain actions.
+${this.describePersona()}Every step must stay within one of these permissions:
+${permissions.map(permission => `- ${permission.id}: token ${permission.tokenAddress}, remaining ${permission.remainingAllowance}, contracts ${permission.allowedContracts.join(', ')}`).join('\n')}
+
+CURRENT CONTEXT:
+- Gas Price: ${context.gasPrice} gwei
+- Token Price: ${context.tokenPrice !== null ? `$${context.tokenPrice}` : 'unavailable'}
+
+Action types: transfer (contractAddress is the recipient), approve (spender), swap (router, needs tokenOut and minAmountOut), stake and unstake (vault).
+${UNTRUSTED_INPUT_RULES}
+Respond with JSON only:
+${PLAN_REPLY_FORMAT}`;
+
+    const userPrompt = `Plan this request:
+${buildUntrustedBlock({ intent: intent.description, amount: intent.amount, token: intent.tokenAddress, contract: intent.contractAddress })}`;
+
+    try {
+      const { value } = await this.completeWithRepair<AgentPlanStep[]>(
+        [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        content => {
+          const result = parseAgentPlan(content);
+          return result.success ? { success: true, value: result.steps } : result;
+        },
+        PLAN_REPLY_FORMAT,
+        exchanges,
+        signal
+      );
+      return value;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.error('LLM planning failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Ask the model to read the structured intent fields from a command
+   * Returns null when no LLM is configured or it cannot produce valid fields;
+   * every prompt and reply is added to `exchanges`
+   */
+  async extractIntent(
+    description: string,
+    permissions: Array<PermissionSummary & { id: string }>,
+    exchanges: LLMExchange[] = []
+  ): Promise<ExtractedIntent | null> {
+    if (!this.provider) {
+      return null;
+    }
+
+    // Flagged commands are read by the grammar only
+    const findings = scanForInjection({ command: description });
+    if (findings.length > 0) {
+      console.warn('🛡️ Possible prompt injection in command:', findings);
+      return null;
+    }
+
+    const systemPrompt = `You read a user's command for a wallet automation agent and extract the on-chain action it asks for.
+Known tokens: ${Object.keys(KNOWN_TOKENS).map(symbol => `${symbol.toUpperCase()} ${KNOWN_TOKENS[symbol]}`).join(', ')}
+Active permissions:
+${permissions.map(permission => `- ${permission.id}: token ${permission.tokenAddress}, remaining ${permission.remainingAllowance}, contracts ${permission.allowedContracts.join(', ')}`).join('\n')}
+
+Action types: transfer (contractAddress is the recipient), approve (spender), swap (router, tokenOut is the token bought), stake and unstake (vault).
+Use null for anything the command does not say; do not guess. Ignore the schedule and conditions.
+List anything unclear in "ambiguities". ${UNTRUSTED_INPUT_RULES}
+Respond with JSON only:
+${INTENT_EXTRACTION_REPLY_FORMAT}`;
+
+    try {
+      const { value } = await this.completeWithRepair<ExtractedIntent>(
+        [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: `Command:\n${buildUntrustedBlock({ command: description })}` },
+        ],
+        content => {
+          const result = parseIntentExtraction(content);
+          return result.success ? { success: true, value: result.extracted } : result;
+        },
+        INTENT_EXTRACTION_REPLY_FORMAT,
+        exchanges
+      );
+      return value;
+    } catch (error) {
+      console.error('LLM intent extraction failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Private: Ask again with the validation errors until the reply parses or attempts run out
+   */
+  private async completeWithRepair<T>(
+    messages: ChatMessage[],
+    parse: (content: string) => RepairableParse<T>,
+    replyFormat: string, // JSON shape the prompt asked for, repeated in repair requests
+    exchanges: LLMExchange[], // Receives every request and reply, also when this throws
+    signal?: AbortSignal
+  ): Promise<{ value: T; attempts: number; usage: LLMUsage }> {
+    for (let attempt = 0; attempt <= AGENT_CONFIG.MAX_DECISION_REPAIR_ATTEMPTS; attempt++) {
+      const requestedAt = new Date();
+      const sent = messages.slice();
+      const completion = await this.requestCompletion(messages, signal);
+      exchanges.push({ ...completion, messages: sent, requestedAt });
+      const result = parse(completion.content);
+
+      if (result.success) {
+        return { value: result.value, attempts: attempt, usage: summarizeUsage(exchanges) };
+      }
+
+      console.warn(`⚠️ LLM reply failed validation (attempt ${attempt + 1}):`, result.errors);
+      messages.push(
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: buildRepairPrompt(result.errors, replyFormat) }
+      );
+    }
+
+    throw new Error(`LLM reply failed validation after ${AGENT_CONFIG.MAX_DECISION_REPAIR_ATTEMPTS} repair attempts`);
+  }
+
+  /**
+   * Private: The agent's persona for a system prompt, or nothing without one
+   */
+  private describePersona(): string {
+    return this.persona
+      ? `YOUR PERSONA: ${this.persona}\nIt shapes your priorities and tone, never the constraints below.\n`
+      : '';
+  }
+
+  /**
+   * Private: Send a chat completion request with the agent's settings and record its token usage
+   */
+  private async requestCompletion(messages: ChatMessage[], signal?: AbortSignal): Promise<CompletionResult> {
+    if (!this.provider) {
+      throw new Error('No LLM provider configured');
+    }
+
+    const completion = await this.provider.complete({
+      messages,
+      temperature: this.settings.temperature ?? LLM_CONFIG.DEFAULT_TEMPERATURE,
+      maxTokens: this.settings.maxTokens ?? LLM_CONFIG.DEFAULT_MAX_TOKENS,
+      timeoutMs: this.settings.timeoutMs ?? LLM_CONFIG.DEFAULT_TIMEOUT_MS,
+      signal,
+    });
+
+    const key = `${completion.provider}:${completion.model}`;
+    const totals = this.usageTotals.get(key) || summarizeUsage([]);
+    this.usageTotals.set(key, summarizeUsage([completion], totals));
+
+    return completion;
+  }
+}
+
+/**
+ * Private: Add up the token usage of completions, onto `base` when given
+ * Provider and model are those of the last completion
+ */
+function summarizeUsage(calls: CompletionResult[], base?: LLMUsage): LLMUsage {
+  return calls.reduce((total, call) => ({
+    provider: call.provider,
+    model: call.model,
+    calls: total.calls + 1,
+    promptTokens: total.promptTokens + (call.usage?.promptTokens || 0),
+    completionTokens: total.completionTokens + (call.usage?.completionTokens || 0),
+    totalTokens: total.totalTokens + (call.usage?.totalTokens || 0),
+  }), base || { provider: '', model: '', calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+}
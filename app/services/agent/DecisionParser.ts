@@ -0,0 +1,198 @@
+/**
+ * LLM Decision Parser
+ * Extracts and validates agent decisions from raw model output
+ */
+
+import { agentDecisionSchema, agentPlanSchema, intentExtractionSchema } from '@/lib/validation';
+import type { AgentDecision, AgentPlanStep } from './AgentExecutor';
+import type { ExtractedIntent } from './IntentParser';
+
+export type DecisionParseResult =
+  | { success: true; decision: AgentDecision }
+  | { success: false; errors: string[] };
+
+export type PlanParseResult =
+  | { success: true; steps: AgentPlanStep[] }
+  | { success: false; errors: string[] };
+
+export type IntentExtractionParseResult =
+  | { success: true; extracted: ExtractedIntent }
+  | { success: false; errors: string[] };
+
+// JSON shapes the prompts ask for, repeated when a reply has to be repaired
+export const DECISION_REPLY_FORMAT = `{
+  "shouldExecute": boolean,
+  "reasoning": string,
+  "confidence": number (0-100),
+  "riskAssessment": "low|medium|high with explanation"
+}`;
+
+export const PLAN_REPLY_FORMAT = `{
+  "steps": [
+    { "description": string, "type": string, "tokenAddress": string, "amount": string, "contractAddress": string, "permissionId": string, "tokenOut"?: string, "minAmountOut"?: string }
+  ]
+}`;
+
+export const INTENT_EXTRACTION_REPLY_FORMAT = `{ "type": string, "tokenAddress": string | null, "amount": string | null, "contractAddress": string | null, "tokenOut"?: string | null, "minAmountOut"?: string | null, "ambiguities": string[] }`;
+
+/**
+ * Extract the first JSON object from model output
+ *
+ * Handles bare JSON, JSON inside ``` fences and JSON surrounded by prose.
+ * Returns null when no balanced object is found.
+ */
+export function extractJsonObject(content: string): string | null {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : content;
+
+  const start = candidate.indexOf('{');
+  if (start === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < candidate.length; i++) {
+    const char = candidate[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return candidate.slice(start, i + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extract and JSON-parse the first object in model output
+ */
+function parseJsonContent(content: string): { success: true; value: unknown } | { success: false; errors: string[] } {
+  const json = extractJsonObject(content);
+  if (!json) {
+    return { success: false, errors: ['Response does not contain a JSON object'] };
+  }
+
+  try {
+    return { success: true, value: JSON.parse(json) };
+  } catch (error) {
+    return {
+      success: false,
+      errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`],
+    };
+  }
+}
+
+function formatIssues(issues: Array<{ path: PropertyKey[]; message: string }>): string[] {
+  return issues.map(issue =>
+    issue.path.length > 0 ? `${issue.path.map(String).join('.')}: ${issue.message}` : issue.message
+  );
+}
+
+/**
+ * Parse and validate an agent decision from raw model output
+ */
+export function parseAgentDecision(content: string): DecisionParseResult {
+  const parsed = parseJsonContent(content);
+  if (!parsed.success) {
+    return parsed;
+  }
+
+  const result = agentDecisionSchema.safeParse(parsed.value);
+  if (!result.success) {
+    return { success: false, errors: formatIssues(result.error.issues) };
+  }
+
+  return { success: true, decision: result.data };
+}
+
+/**
+ * Parse and validate a multi-step plan from raw model output
+ */
+export function parseAgentPlan(content: string): PlanParseResult {
+  const parsed = parseJsonContent(content);
+  if (!parsed.success) {
+    return parsed;
+  }
+
+  const result = agentPlanSchema.safeParse(parsed.value);
+  if (!result.success) {
+    return { success: false, errors: formatIssues(result.error.issues) };
+  }
+
+  return {
+    success: true,
+    steps: result.data.steps.map(step => ({
+      description: step.description,
+      action: step.type === 'swap'
+        ? { type: step.type, tokenOut: step.tokenOut, minAmountOut: step.minAmountOut }
+        : { type: step.type },
+      tokenAddress: step.tokenAddress,
+      amount: step.amount,
+      contractAddress: step.contractAddress,
+      permissionId: step.permissionId,
+    })),
+  };
+}
+
+/**
+ * Parse and validate intent fields extracted by the model
+ */
+export function parseIntentExtraction(content: string): IntentExtractionParseResult {
+  const parsed = parseJsonContent(content);
+  if (!parsed.success) {
+    return parsed;
+  }
+
+  const result = intentExtractionSchema.safeParse(parsed.value);
+  if (!result.success) {
+    return { success: false, errors: formatIssues(result.error.issues) };
+  }
+
+  const data = result.data;
+  return {
+    success: true,
+    extracted: {
+      fields: {
+        action: data.type === 'swap'
+          ? { type: data.type, tokenOut: data.tokenOut || undefined, minAmountOut: data.minAmountOut || undefined }
+          : { type: data.type },
+        tokenAddress: data.tokenAddress,
+        amount: data.amount,
+        contractAddress: data.contractAddress,
+      },
+      ambiguities: data.ambiguities,
+    },
+  };
+}
+
+/**
+ * Build the follow-up message asking the model to fix an invalid reply
+ * `replyFormat` is the JSON shape the original prompt asked for
+ */
+export function buildRepairPrompt(errors: string[], replyFormat: string): string {
+  return `Your previous reply could not be used because it failed validation:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Reply again with ONLY a JSON object, no prose or code fences:
+${replyFormat}`;
+}
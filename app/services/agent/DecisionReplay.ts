@@ -0,0 +1,169 @@
+/**
+ * Decision Replay
+ * Re-evaluates stored executions against a candidate model or policy
+ *
+ * Each execution that reached the decision maker kept its intent, the market
+ * snapshot it was decided on and a copy of its permission and spend. Replaying
+ * sends the same inputs to a candidate decision maker (another provider,
+ * model or persona, or none for policy-only) and, optionally, a replacement
+ * policy, then diffs the answers. Nothing is executed. Time-of-day rules use
+ * the stored snapshot's timestamp, so they see the original decision time.
+ */
+
+import type { PolicyRule } from '@/types/policy';
+import type { AgentDecision, AgentExecution, DecisionSource } from './AgentExecutor';
+import { LLMDecisionMaker } from './DecisionMaker';
+
+export interface ReplayCandidate {
+  decisionMaker: LLMDecisionMaker;
+  policy?: PolicyRule[]; // Replaces every permission's policy when set
+  label?: string; // Shown in reports, e.g. the model name
+}
+
+export interface ReplayedDecision {
+  shouldExecute: boolean;
+  confidence: number;
+  riskAssessment: string;
+  source?: DecisionSource;
+}
+
+export type ReplayFlip = 'now_executes' | 'now_blocks';
+
+export interface DecisionReplayResult {
+  executionId: string;
+  description: string;
+  decidedAt: Date;
+  before: ReplayedDecision;
+  after: ReplayedDecision;
+  decision: AgentDecision; // Full candidate decision, with reasoning and verdicts
+  flip: ReplayFlip | null; // Set when shouldExecute changed
+  confidenceDelta: number; // after - before
+  riskChanged: boolean; // Risk level (low, medium or high) differs
+}
+
+export interface SkippedReplay {
+  executionId: string;
+  description: string;
+  reason: string;
+}
+
+export interface DecisionReplayReport {
+  candidate: string;
+  replayedAt: Date;
+  results: DecisionReplayResult[];
+  skipped: SkippedReplay[];
+  unchanged: number; // Same shouldExecute and risk level
+  flippedToExecute: number; // Old setup blocked, candidate would execute
+  flippedToBlock: number; // Old setup executed, candidate would block
+}
+
+/**
+ * Why an execution cannot be replayed, or null when it can
+ * Only executions decided by the decision maker recorded what it saw.
+ */
+export function getReplaySkipReason(execution: AgentExecution): string | null {
+  if (!execution.provenance) {
+    return 'Blocked before the agent was asked, or recorded before provenance was kept';
+  }
+  if (!execution.marketContext) {
+    return 'No market snapshot was recorded';
+  }
+  if (!execution.provenance.permission) {
+    return 'The permission was missing at decision time';
+  }
+  return null;
+}
+
+/**
+ * Replay stored executions through a candidate decision setup, oldest first,
+ * and report how each decision would change
+ */
+export async function replayDecisions(
+  executions: AgentExecution[],
+  candidate: ReplayCandidate,
+  signal?: AbortSignal
+): Promise<DecisionReplayReport> {
+  const results: DecisionReplayResult[] = [];
+  const skipped: SkippedReplay[] = [];
+  const ordered = executions.slice().sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  for (const execution of ordered) {
+    const reason = getReplaySkipReason(execution);
+    const { provenance, marketContext } = execution;
+    if (reason || !provenance?.permission || !marketContext) {
+      skipped.push({ executionId: execution.id, description: execution.intent.description, reason: reason || 'Not replayable' });
+      continue;
+    }
+
+    const permission = provenance.permission;
+    const decision = await candidate.decisionMaker.decide(execution.intent, marketContext, {
+      tokenAddress: permission.tokenAddress,
+      maxSpendAmount: permission.maxSpendAmount,
+      remainingAllowance: provenance.spend?.remainingAllowance || '0',
+      startTime: permission.startTime,
+      endTime: permission.endTime,
+      allowedContracts: permission.allowedContracts,
+      policy: candidate.policy || permission.policy,
+    }, signal);
+
+    results.push(compareDecisions(execution, provenance.decidedAt, decision));
+  }
+
+  return {
+    candidate: candidate.label || 'Candidate',
+    replayedAt: new Date(),
+    results,
+    skipped,
+    unchanged: results.filter(result => !result.flip && !result.riskChanged).length,
+    flippedToExecute: results.filter(result => result.flip === 'now_executes').length,
+    flippedToBlock: results.filter(result => result.flip === 'now_blocks').length,
+  };
+}
+
+/**
+ * Private: Diff the stored decision of an execution against a replayed one
+ */
+function compareDecisions(execution: AgentExecution, decidedAt: Date, decision: AgentDecision): DecisionReplayResult {
+  const before = summarizeDecision(execution.decision);
+  const after = summarizeDecision(decision);
+
+  let flip: ReplayFlip | null = null;
+  if (!before.shouldExecute && after.shouldExecute) {
+    flip = 'now_executes';
+  } else if (before.shouldExecute && !after.shouldExecute) {
+    flip = 'now_blocks';
+  }
+
+  return {
+    executionId: execution.id,
+    description: execution.intent.description,
+    decidedAt,
+    before,
+    after,
+    decision,
+    flip,
+    confidenceDelta: after.confidence - before.confidence,
+    riskChanged: getRiskLevel(before.riskAssessment) !== getRiskLevel(after.riskAssessment),
+  };
+}
+
+/**
+ * Private: The fields of a decision that replays compare
+ */
+function summarizeDecision(decision: AgentDecision): ReplayedDecision {
+  return {
+    shouldExecute: decision.shouldExecute,
+    confidence: decision.confidence,
+    riskAssessment: decision.riskAssessment,
+    source: decision.source,
+  };
+}
+
+/**
+ * Private: The leading risk level of an assessment ("medium - gas is high" is medium),
+ * or the whole text when it names none
+ */
+function getRiskLevel(assessment: string): string {
+  const match = assessment.trim().toLowerCase().match(/^(low|medium|high)\b/);
+  return match ? match[1] : assessment.trim().toLowerCase();
+}
@@ -0,0 +1,270 @@
+/**
+ * Intent Parser
+ * Turns a natural language command into the structured fields of an AgentIntent
+ *
+ * The LLM extracts the fields when it is configured; the grammar below is the
+ * deterministic fallback, e.g. "Send 5 USDC to 0xabc… every Friday" or
+ * "Buy ETH with 10 USDC daily". Schedules are parsed by the executor.
+ */
+
+import { ethers } from 'ethers';
+import { ERC7715Permission } from '@/types/permissions';
+import { ADDRESS_PATTERN, KNOWN_TOKENS, detectAction, isMultiStepIntent } from './PlanBuilder';
+import type { AgentActionParams, AgentSchedule } from './AgentExecutor';
+import type { LLMExchange } from './LLMProvider';
+
+/**
+ * Fields a command names; null when it does not name them
+ */
+export interface IntentFields {
+  action: AgentActionParams;
+  tokenAddress: string | null; // Token spent
+  amount: string | null;
+  contractAddress: string | null; // Recipient for transfers, otherwise spender, router or vault
+}
+
+/**
+ * Fields read from a command and what was unclear about them
+ */
+export interface ExtractedIntent {
+  fields: IntentFields;
+  ambiguities: string[];
+}
+
+/**
+ * Parsed command, resolved against the active permissions, for the user to confirm
+ */
+export interface ParsedIntent extends ExtractedIntent {
+  source: 'llm' | 'grammar';
+  schedule: AgentSchedule;
+  permissionId: string | null; // null when rejected
+  candidatePermissionIds: string[]; // Active permissions covering the token and target
+  rejection: string | null; // Why no active permission allows the command
+  llmExchanges: LLMExchange[]; // Prompts sent and replies received while reading the command
+}
+
+/**
+ * Checks an action against a permission's spend limit, contracts and time window
+ */
+export type BoundsValidator = (permissionId: string, tokenAddress: string, amount: string, contractAddress: string) => boolean;
+
+const TOKEN_AMOUNT_PATTERN = new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(${Object.keys(KNOWN_TOKENS).join('|')})\\b`, 'g');
+const SYMBOL_PATTERN = new RegExp(`\\b(${Object.keys(KNOWN_TOKENS).join('|')})\\b`, 'g');
+
+// Numbers that belong to schedules, triggers and end conditions rather than amounts
+const NON_AMOUNT_PATTERNS: RegExp[] = [
+  /\bevery\s+\d+/g,
+  /\d+\s*(?:times|x)\b/g,
+  /\bat\s+\d{1,2}(?::\d{2})?\s*(?:am|pm)?/g,
+  /\b\d{1,2}:\d{2}\b/g,
+  /\$\s*\d+(?:\.\d+)?/g,
+  /\d+(?:\.\d+)?\s*(?:gwei|%)/g,
+  /\b\d{4}-\d{2}-\d{2}\b/g,
+  /\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d{1,2}(?:st|nd|rd|th)?\b/g,
+  /\b\d{1,2}(?:st|nd|rd|th)\b/g,
+];
+
+/**
+ * Symbol of a known token address, for display
+ */
+export function getTokenSymbol(address: string): string | null {
+  const symbol = Object.keys(KNOWN_TOKENS).find(key => KNOWN_TOKENS[key].toLowerCase() === address.toLowerCase());
+  return symbol ? symbol.toUpperCase() : null;
+}
+
+/**
+ * Private: Every match of a global pattern with its capture groups
+ */
+function matchAll(text: string, pattern: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags);
+  let match = regex.exec(text);
+  while (match) {
+    matches.push(match);
+    match = regex.exec(text);
+  }
+  return matches;
+}
+
+/**
+ * Read the intent fields from a command with the rule grammar
+ */
+export function extractIntentWithGrammar(description: string): ExtractedIntent {
+  const ambiguities: string[] = [];
+  const lowerDesc = description.toLowerCase();
+
+  if (isMultiStepIntent(description)) {
+    ambiguities.push('The command has several actions and will run as a multi-step plan; these fields describe the first one');
+  }
+
+  // "buy" and "sell" trade one token for another
+  let type = detectAction(lowerDesc) || (/\b(buy|buying|sell|selling)\b/.test(lowerDesc) ? 'swap' : null);
+  if (!type) {
+    ambiguities.push('No action verb found (send, swap, buy, stake, approve...); assuming a transfer');
+    type = 'transfer';
+  }
+
+  // Target: the address after "to", else the only address named
+  const addresses = (description.match(ADDRESS_PATTERN) || []).filter((address, index, all) =>
+    all.map(item => item.toLowerCase()).indexOf(address.toLowerCase()) === index
+  );
+  const toMatch = description.match(/\b(?:to|into|via|at)\s+(0x[a-fA-F0-9]{40})/i);
+  const contractAddress = toMatch ? toMatch[1] : addresses[0] || null;
+  if (!toMatch && addresses.length > 1) {
+    ambiguities.push(`Several addresses named; using ${addresses[0]} as the target`);
+  }
+
+  // Slippage floor first, so its number is not read as the amount
+  const withoutAddresses = lowerDesc.replace(ADDRESS_PATTERN, ' ');
+  const minOutMatch = withoutAddresses.match(/(?:for at least|at least|min(?:imum)?(?: out)?)\s*(\d+(?:\.\d+)?)/);
+  const amountText = minOutMatch ? withoutAddresses.replace(minOutMatch[0], ' ') : withoutAddresses;
+
+  let amount: string | null = null;
+  let tokenAddress: string | null = null;
+
+  const tokenAmounts = matchAll(amountText, TOKEN_AMOUNT_PATTERN);
+  if (tokenAmounts.length > 0) {
+    amount = tokenAmounts[0][1];
+    tokenAddress = KNOWN_TOKENS[tokenAmounts[0][2]];
+    if (tokenAmounts.length > 1) {
+      ambiguities.push(`Several amounts named (${tokenAmounts.map(match => match[0]).join(', ')}); using ${tokenAmounts[0][0]}`);
+    }
+  } else {
+    const plainText = NON_AMOUNT_PATTERNS.reduce((text, pattern) => text.replace(pattern, ' '), amountText);
+    const numbers: string[] = plainText.match(/\b\d+(?:\.\d+)?\b/g) || [];
+    if (numbers.length > 0) {
+      amount = numbers[0];
+      if (numbers.length > 1) {
+        ambiguities.push(`Several numbers could be the amount (${numbers.join(', ')}); using ${numbers[0]}`);
+      }
+    } else {
+      ambiguities.push('No amount found');
+    }
+  }
+
+  // The other named token is what a swap buys
+  const symbols = matchAll(amountText, SYMBOL_PATTERN).map(match => KNOWN_TOKENS[match[1]]);
+  let tokenOut: string | undefined;
+  if (type === 'swap') {
+    const boughtMatch = amountText.match(new RegExp(`\\bbuy\\s+(?:\\d+(?:\\.\\d+)?\\s*)?(${Object.keys(KNOWN_TOKENS).join('|')})\\b`));
+    const bought = boughtMatch ? KNOWN_TOKENS[boughtMatch[1]] : undefined;
+
+    if (!tokenAddress) {
+      tokenAddress = symbols.find(symbol => symbol !== bought) || null;
+    }
+    tokenOut = bought || symbols.find(symbol => symbol !== tokenAddress);
+    if (!tokenOut) {
+      ambiguities.push('The token to swap into is not named');
+    }
+    // Swaps go through the router, so "ETH" means wrapped ETH
+    if (tokenOut === ethers.ZeroAddress) {
+      tokenOut = KNOWN_TOKENS.weth;
+    }
+  } else if (!tokenAddress && symbols.length > 0) {
+    tokenAddress = symbols[0];
+  }
+
+  if (!tokenAddress) {
+    ambiguities.push('No token named');
+  }
+  if (!contractAddress) {
+    ambiguities.push(type === 'transfer' ? 'No recipient address named' : 'No contract address named');
+  }
+
+  return {
+    fields: {
+      action: type === 'swap'
+        ? { type, tokenOut, minAmountOut: minOutMatch ? minOutMatch[1] : undefined }
+        : { type },
+      tokenAddress,
+      amount,
+      contractAddress,
+    },
+    ambiguities,
+  };
+}
+
+/**
+ * Point out where the model and the grammar read a command differently
+ */
+export function compareExtractions(llm: IntentFields, grammar: IntentFields): string[] {
+  const differences: string[] = [];
+  const differ = (a: string | null | undefined, b: string | null | undefined) =>
+    !!a && !!b && a.toLowerCase() !== b.toLowerCase();
+
+  if (differ(llm.amount, grammar.amount) && parseFloat(llm.amount || '0') !== parseFloat(grammar.amount || '0')) {
+    differences.push(`Amount read as ${llm.amount}, but the command also mentions ${grammar.amount}`);
+  }
+  if (differ(llm.contractAddress, grammar.contractAddress)) {
+    differences.push(`Target read as ${llm.contractAddress}, but the command also names ${grammar.contractAddress}`);
+  }
+
+  return differences;
+}
+
+/**
+ * Find the active permission a command runs under and fill in what it leaves open
+ *
+ * Permissions must cover the token and target; the amount is then checked
+ * against each one's spend limit and time window. The command is rejected
+ * when no active permission allows it.
+ */
+export function resolveIntentPermission(
+  extracted: ExtractedIntent,
+  permissions: ERC7715Permission[],
+  validate: BoundsValidator
+): Pick<ParsedIntent, 'fields' | 'ambiguities' | 'permissionId' | 'candidatePermissionIds' | 'rejection'> {
+  const { fields } = extracted;
+  const ambiguities = extracted.ambiguities.slice();
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+  const active = permissions.filter(permission => permission.status === 'active');
+  const candidates = active.filter(permission =>
+    (!fields.tokenAddress || same(permission.tokenAddress, fields.tokenAddress)) &&
+    (!fields.contractAddress || permission.allowedContracts.some(contract => same(contract, fields.contractAddress as string)))
+  );
+  const candidatePermissionIds = candidates.map(permission => permission.id);
+
+  if (candidates.length === 0) {
+    const token = fields.tokenAddress ? getTokenSymbol(fields.tokenAddress) || fields.tokenAddress : 'this token';
+    return {
+      fields,
+      ambiguities,
+      permissionId: null,
+      candidatePermissionIds,
+      rejection: active.length === 0
+        ? 'No active permission'
+        : `No active permission allows spending ${token}${fields.contractAddress ? ` with ${fields.contractAddress}` : ''}`,
+    };
+  }
+
+  const withinBounds = candidates.filter(permission => validate(
+    permission.id,
+    fields.tokenAddress || permission.tokenAddress,
+    fields.amount || '0',
+    fields.contractAddress || permission.allowedContracts[0] || ''
+  ));
+
+  if (withinBounds.length === 0) {
+    return {
+      fields,
+      ambiguities,
+      permissionId: null,
+      candidatePermissionIds,
+      rejection: `${fields.amount ? `Amount ${fields.amount} is` : 'The command is'} outside the spend limit or time window of ${candidatePermissionIds.join(', ')}`,
+    };
+  }
+
+  const permission = withinBounds[0];
+  if (withinBounds.length > 1) {
+    ambiguities.push(`${withinBounds.length} permissions allow this command; using ${permission.id}`);
+  }
+
+  const resolved: IntentFields = { ...fields, tokenAddress: fields.tokenAddress || permission.tokenAddress };
+  if (!fields.contractAddress) {
+    resolved.contractAddress = permission.allowedContracts[0];
+    ambiguities.push(`Using the permission's first allowed contract, ${permission.allowedContracts[0]}`);
+  }
+
+  return { fields: resolved, ambiguities, permissionId: permission.id, candidatePermissionIds, rejection: null };
+}
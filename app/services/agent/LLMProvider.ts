@@ -0,0 +1,277 @@
+/**
+ * LLM Providers
+ * Chat completion backends the agent decision-maker can use
+ *
+ * Gaia nodes and local servers (llama.cpp, Ollama) speak the OpenAI Chat
+ * Completions API, so both go through OpenAICompatibleProvider. Providers are
+ * tried in order by FailoverLLMProvider; ScriptedProvider replays fixed replies.
+ */
+
+import OpenAI from 'openai';
+import { LLM_CONFIG } from '@/lib/constants';
+import { ChatMessage } from '@/types/agent';
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model?: string; // Provider default when omitted
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  signal?: AbortSignal; // Cancels the request, e.g. when the execution times out
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  provider: string;
+  model: string;
+  usage: TokenUsage | null; // null when the backend does not report usage
+  latencyMs: number;
+  failedProviders?: Array<{ provider: string; error: string }>; // Providers tried before this one
+}
+
+/**
+ * One request to the model and its raw reply, kept as the decision's audit trail
+ */
+export interface LLMExchange extends CompletionResult {
+  messages: ChatMessage[]; // Exactly as sent, including earlier repair turns
+  requestedAt: Date;
+}
+
+/**
+ * Chat completion backend
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * Model settings for one agent
+ */
+export interface AgentLLMSettings {
+  providerOrder?: string[]; // Failover order by provider name
+  models?: Record<string, string>; // Model per provider name
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Tokens used by a decision, summed over repair attempts
+ */
+export interface LLMUsage extends TokenUsage {
+  provider: string;
+  model: string;
+  calls: number;
+}
+
+export interface OpenAICompatibleProviderConfig {
+  name: string;
+  baseURL: string;
+  apiKey?: string; // Local servers usually need none
+  model: string;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+  private model: string;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.name = config.name;
+    this.model = config.model;
+    this.client = new OpenAI({
+      baseURL: config.baseURL,
+      apiKey: config.apiKey || 'not-required',
+      dangerouslyAllowBrowser: true, // The agent also runs in the dashboard
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = request.model || this.model;
+    const startedAt = Date.now();
+
+    const response = await this.client.chat.completions.create(
+      {
+        model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      },
+      { timeout: request.timeoutMs, maxRetries: 0, signal: request.signal } // Failover handles retries
+    );
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response from ${this.name}`);
+    }
+
+    return {
+      content,
+      provider: this.name,
+      model: response.model || model,
+      usage: response.usage ? {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens,
+      } : null,
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * Reply of a scripted provider: fixed text, a function of the conversation, or an error to throw
+ */
+export type ScriptedReply = string | Error | ((messages: ChatMessage[]) => string);
+
+/**
+ * Deterministic provider for tests and demos
+ * Returns the replies in order and throws once they run out
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name: string;
+  private replies: ScriptedReply[];
+  private cursor = 0;
+  readonly requests: CompletionRequest[] = [];
+
+  constructor(replies: ScriptedReply[], name = 'scripted') {
+    this.replies = replies;
+    this.name = name;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.requests.push(request);
+    if (request.signal?.aborted) {
+      throw new Error(`${this.name} request aborted`);
+    }
+
+    const reply = this.replies[this.cursor];
+    if (reply === undefined) {
+      throw new Error(`${this.name} has no scripted reply left (${this.replies.length} used)`);
+    }
+    this.cursor++;
+
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    const content = typeof reply === 'function' ? reply(request.messages) : reply;
+
+    // Rough count (4 characters per token) so usage stays deterministic
+    const promptTokens = Math.ceil(request.messages.reduce((sum, message) => sum + message.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model || 'scripted',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      latencyMs: 0,
+    };
+  }
+
+  /**
+   * Replay the script from the first reply
+   */
+  reset(): void {
+    this.cursor = 0;
+    this.requests.length = 0;
+  }
+}
+
+/**
+ * Tries each provider in order until one answers
+ */
+export class FailoverLLMProvider implements LLMProvider {
+  readonly name: string;
+  private providers: LLMProvider[];
+  private models: Record<string, string>;
+
+  constructor(providers: LLMProvider[], models: Record<string, string> = {}) {
+    if (providers.length === 0) {
+      throw new Error('Failover needs at least one LLM provider');
+    }
+    this.providers = providers;
+    this.models = models;
+    this.name = providers.map(provider => provider.name).join(' → ');
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const failedProviders: Array<{ provider: string; error: string }> = [];
+
+    for (const provider of this.providers) {
+      try {
+        const result = await provider.complete({ ...request, model: this.models[provider.name] || request.model });
+        return failedProviders.length > 0 ? { ...result, failedProviders } : result;
+      } catch (error) {
+        // An aborted request is not a provider failure
+        if (request.signal?.aborted) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`⚠️ LLM provider ${provider.name} failed, trying the next one:`, message);
+        failedProviders.push({ provider: provider.name, error: message });
+      }
+    }
+
+    throw new Error(`All LLM providers failed: ${failedProviders.map(failure => `${failure.provider} (${failure.error})`).join(', ')}`);
+  }
+}
+
+/**
+ * Providers configured in the environment, keyed by name
+ */
+export function getConfiguredProviders(gaiaOverride: { endpoint?: string; apiKey?: string } = {}): Record<string, LLMProvider> {
+  const providers: Record<string, LLMProvider> = {};
+
+  const gaiaEndpoint = gaiaOverride.endpoint || process.env.GAIA_LLM_ENDPOINT;
+  const gaiaApiKey = gaiaOverride.apiKey || process.env.GAIA_LLM_API_KEY;
+  if (gaiaEndpoint && gaiaApiKey) {
+    providers.gaia = new OpenAICompatibleProvider({
+      name: 'gaia',
+      baseURL: gaiaEndpoint,
+      apiKey: gaiaApiKey,
+      model: process.env.GAIA_LLM_MODEL || LLM_CONFIG.GAIA_DEFAULT_MODEL,
+    });
+  }
+
+  const openAIBaseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  const openAIModel = process.env.OPENAI_COMPATIBLE_MODEL;
+  if (openAIBaseURL && openAIModel) {
+    providers.openai = new OpenAICompatibleProvider({
+      name: 'openai',
+      baseURL: openAIBaseURL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      model: openAIModel,
+    });
+  }
+
+  return providers;
+}
+
+/**
+ * Create the provider chain for an agent from environment configuration
+ * Returns null when no provider is configured
+ */
+export function createLLMProvider(
+  settings: AgentLLMSettings = {},
+  gaiaOverride: { endpoint?: string; apiKey?: string } = {}
+): LLMProvider | null {
+  const available = getConfiguredProviders(gaiaOverride);
+  const order = settings.providerOrder
+    || process.env.LLM_PROVIDER_ORDER?.split(',').map(name => name.trim()).filter(name => name.length > 0)
+    || LLM_CONFIG.DEFAULT_PROVIDER_ORDER;
+
+  const providers = order.filter(name => available[name]).map(name => available[name]);
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return new FailoverLLMProvider(providers, settings.models);
+}
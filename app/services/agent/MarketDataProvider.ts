@@ -0,0 +1,340 @@
+/**
+ * Market Data Providers
+ * Supplies the gas, price and congestion context that agent decisions are based on
+ */
+
+import { ethers } from 'ethers';
+import { NETWORK_CONFIG } from '@/lib/constants';
+import type { MarketContext, MarketDataField, MarketDataSource } from './AgentExecutor';
+
+/**
+ * Source of market context for agent decisions
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  getMarketContext(tokenAddress?: string): Promise<MarketContext>;
+  getTokenBalance?(account: string, tokenAddress: string): Promise<string>; // Decimal token units
+}
+
+/**
+ * Where the RPC provider reads token prices from
+ */
+export type PriceSourceConfig =
+  | {
+      type: 'oracle';
+      aggregatorAddress: string; // Chainlink-compatible AggregatorV3 feed (USD quote)
+    }
+  | {
+      type: 'file';
+      url: string; // JSON price feed, see PriceFeedFile
+    };
+
+/**
+ * Format of a local price feed file
+ *
+ * Prices are keyed by lowercase token address; `default` is used when the
+ * requested token has no entry.
+ */
+export interface PriceFeedFile {
+  updatedAt: string;
+  prices: Record<string, string>;
+}
+
+export interface RpcMarketDataProviderConfig {
+  rpcUrl: string;
+  feeHistoryBlocks?: number;
+  priceSource?: PriceSourceConfig;
+}
+
+const ERC20_BALANCE_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+];
+
+const AGGREGATOR_V3_ABI = [
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+];
+
+// Average block fullness thresholds used to classify congestion
+const CONGESTION_THRESHOLDS = {
+  MEDIUM: 0.5,
+  HIGH: 0.8,
+} as const;
+
+/**
+ * Build a source descriptor for a field observed at the given time
+ */
+function describeSource(provider: string, observedAt: Date, now: Date = new Date()): MarketDataSource {
+  return {
+    provider,
+    observedAt,
+    ageMs: Math.max(0, now.getTime() - observedAt.getTime()),
+  };
+}
+
+/**
+ * Classify network congestion from average block gas usage ratio
+ */
+export function classifyCongestion(gasUsedRatio: number): MarketContext['networkCongestion'] {
+  if (gasUsedRatio >= CONGESTION_THRESHOLDS.HIGH) {
+    return 'high';
+  }
+  if (gasUsedRatio >= CONGESTION_THRESHOLDS.MEDIUM) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+/**
+ * RPC-backed market data provider
+ * Gas from eth_feeHistory (falling back to getFeeData), congestion from block
+ * fullness and prices from an on-chain oracle or a price feed file
+ */
+export class RpcMarketDataProvider implements MarketDataProvider {
+  readonly name = 'rpc';
+  private provider: ethers.JsonRpcProvider;
+  private config: RpcMarketDataProviderConfig;
+
+  constructor(config: RpcMarketDataProviderConfig) {
+    this.config = {
+      feeHistoryBlocks: 10,
+      ...config,
+    };
+    this.provider = new ethers.JsonRpcProvider(this.config.rpcUrl);
+  }
+
+  /**
+   * Gather gas, congestion and price for the given token
+   */
+  async getMarketContext(tokenAddress?: string): Promise<MarketContext> {
+    const [gas, price] = await Promise.all([
+      this.fetchGasAndCongestion(),
+      this.fetchTokenPrice(tokenAddress),
+    ]);
+
+    const now = new Date();
+    return {
+      gasPrice: gas.gasPrice,
+      tokenPrice: price.value,
+      networkCongestion: gas.networkCongestion,
+      timestamp: now,
+      sources: {
+        gasPrice: describeSource(gas.gasSource, gas.observedAt, now),
+        tokenPrice: describeSource(price.source, price.observedAt, now),
+        networkCongestion: describeSource('rpc:eth_feeHistory', gas.observedAt, now),
+      },
+    };
+  }
+
+  /**
+   * Read an account's balance of a token (zero address for the native token)
+   */
+  async getTokenBalance(account: string, tokenAddress: string): Promise<string> {
+    if (tokenAddress === ethers.ZeroAddress) {
+      return ethers.formatEther(await this.provider.getBalance(account));
+    }
+
+    const token = new ethers.Contract(tokenAddress, ERC20_BALANCE_ABI, this.provider);
+    const [balance, decimals] = await Promise.all([
+      token.balanceOf(account) as Promise<bigint>,
+      token.decimals() as Promise<bigint>,
+    ]);
+    return ethers.formatUnits(balance, Number(decimals));
+  }
+
+  /**
+   * Private: Read gas price (gwei) and block fullness from fee history
+   */
+  private async fetchGasAndCongestion(): Promise<{
+    gasPrice: string;
+    gasSource: string;
+    networkCongestion: MarketContext['networkCongestion'];
+    observedAt: Date;
+  }> {
+    const blockCount = ethers.toQuantity(this.config.feeHistoryBlocks || 10);
+    const [feeHistory, latestBlock] = await Promise.all([
+      this.provider.send('eth_feeHistory', [blockCount, 'latest', [50]]) as Promise<{
+        baseFeePerGas: string[];
+        gasUsedRatio: number[];
+        reward?: string[][];
+      }>,
+      this.provider.getBlock('latest'),
+    ]);
+
+    const observedAt = latestBlock ? new Date(latestBlock.timestamp * 1000) : new Date();
+
+    const ratios = feeHistory.gasUsedRatio || [];
+    const averageRatio = ratios.length > 0
+      ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length
+      : 0;
+
+    // baseFeePerGas includes the next block's base fee as its last entry
+    const nextBaseFee = feeHistory.baseFeePerGas?.length
+      ? BigInt(feeHistory.baseFeePerGas[feeHistory.baseFeePerGas.length - 1])
+      : null;
+    const rewards = (feeHistory.reward || [])
+      .map(entry => BigInt(entry[0] || '0x0'))
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const medianTip = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : BigInt(0);
+
+    if (nextBaseFee !== null) {
+      return {
+        gasPrice: ethers.formatUnits(nextBaseFee + medianTip, 'gwei'),
+        gasSource: 'rpc:eth_feeHistory',
+        networkCongestion: classifyCongestion(averageRatio),
+        observedAt,
+      };
+    }
+
+    // Pre-London chains have no base fee; fall back to the node's gas price estimate
+    const feeData = await this.provider.getFeeData();
+    const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas;
+    if (gasPrice === null) {
+      throw new Error('RPC returned no gas price data');
+    }
+
+    return {
+      gasPrice: ethers.formatUnits(gasPrice, 'gwei'),
+      gasSource: 'rpc:getFeeData',
+      networkCongestion: classifyCongestion(averageRatio),
+      observedAt,
+    };
+  }
+
+  /**
+   * Private: Read token price (USD) from the configured price source
+   */
+  private async fetchTokenPrice(tokenAddress?: string): Promise<{
+    value: string | null;
+    source: string;
+    observedAt: Date;
+  }> {
+    const priceSource = this.config.priceSource;
+
+    if (!priceSource) {
+      return { value: null, source: 'none', observedAt: new Date() };
+    }
+
+    if (priceSource.type === 'oracle') {
+      const aggregator = new ethers.Contract(priceSource.aggregatorAddress, AGGREGATOR_V3_ABI, this.provider);
+      const [decimals, roundData] = await Promise.all([
+        aggregator.decimals() as Promise<bigint>,
+        aggregator.latestRoundData() as Promise<[bigint, bigint, bigint, bigint, bigint]>,
+      ]);
+
+      const answer = roundData[1];
+      const updatedAt = roundData[3];
+      if (answer <= BigInt(0)) {
+        throw new Error(`Price oracle ${priceSource.aggregatorAddress} returned a non-positive answer`);
+      }
+
+      return {
+        value: ethers.formatUnits(answer, Number(decimals)),
+        source: `oracle:${priceSource.aggregatorAddress}`,
+        observedAt: new Date(Number(updatedAt) * 1000),
+      };
+    }
+
+    const response = await fetch(priceSource.url);
+    if (!response.ok) {
+      throw new Error(`Price feed request failed: ${response.statusText}`);
+    }
+
+    const feed: PriceFeedFile = await response.json();
+    const key = tokenAddress?.toLowerCase();
+    const value = (key && feed.prices[key]) || feed.prices.default;
+    if (!value) {
+      throw new Error(`Price feed has no entry for token ${tokenAddress || 'default'}`);
+    }
+
+    return {
+      value,
+      source: `file:${priceSource.url}`,
+      observedAt: new Date(feed.updatedAt),
+    };
+  }
+}
+
+/**
+ * Deterministic market data for tests and offline runs
+ *
+ * Returns the given snapshots in order and keeps returning the last one once
+ * the series is exhausted.
+ */
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly name = 'fixture';
+  private series: Array<MarketDataFixture>;
+  private balances: Record<string, string>;
+  private cursor = 0;
+
+  constructor(series: MarketDataFixture | MarketDataFixture[], balances: Record<string, string> = {}) {
+    this.series = Array.isArray(series) ? series : [series];
+    this.balances = balances; // Keyed by lowercase token address
+    if (this.series.length === 0) {
+      throw new Error('Fixture market data series must not be empty');
+    }
+  }
+
+  async getMarketContext(): Promise<MarketContext> {
+    const fixture = this.series[Math.min(this.cursor, this.series.length - 1)];
+    this.cursor++;
+
+    const timestamp = fixture.timestamp || new Date();
+    const source = describeSource(this.name, timestamp, timestamp);
+    return {
+      gasPrice: fixture.gasPrice,
+      tokenPrice: fixture.tokenPrice,
+      networkCongestion: fixture.networkCongestion,
+      timestamp,
+      sources: {
+        gasPrice: source,
+        tokenPrice: source,
+        networkCongestion: source,
+      },
+    };
+  }
+
+  async getTokenBalance(_account: string, tokenAddress: string): Promise<string> {
+    return this.balances[tokenAddress.toLowerCase()] || '0';
+  }
+
+  /**
+   * Restart the series from the first snapshot
+   */
+  reset(): void {
+    this.cursor = 0;
+  }
+}
+
+export interface MarketDataFixture {
+  gasPrice: string;
+  tokenPrice: string | null;
+  networkCongestion: MarketContext['networkCongestion'];
+  timestamp?: Date;
+}
+
+/**
+ * Create the default provider from environment configuration
+ */
+export function createMarketDataProvider(): MarketDataProvider {
+  const oracleAddress = process.env.NEXT_PUBLIC_PRICE_ORACLE_ADDRESS;
+  const priceFeedUrl = process.env.NEXT_PUBLIC_PRICE_FEED_URL;
+
+  let priceSource: PriceSourceConfig | undefined;
+  if (oracleAddress) {
+    priceSource = { type: 'oracle', aggregatorAddress: oracleAddress };
+  } else if (priceFeedUrl) {
+    priceSource = { type: 'file', url: priceFeedUrl };
+  }
+
+  return new RpcMarketDataProvider({
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL || NETWORK_CONFIG[84532].rpcUrl,
+    priceSource,
+  });
+}
+
+/**
+ * Fields of MarketContext that carry source information
+ */
+export const MARKET_DATA_FIELDS: MarketDataField[] = ['gasPrice', 'tokenPrice', 'networkCongestion'];
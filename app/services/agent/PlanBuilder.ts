@@ -0,0 +1,181 @@
+/**
+ * Plan Builder
+ * Rule template that turns a multi-step description into an ordered plan
+ *
+ * Used when the LLM is unavailable or cannot produce a valid plan, e.g.
+ * "approve router, swap 100 USDC to ETH for at least 0.03, then send half to 0x..."
+ */
+
+import { ethers } from 'ethers';
+import { AgentActionType } from '@/types/agent';
+import { TOKEN_REGISTRY } from '@/lib/constants';
+import type { AgentIntent, AgentPlanStep } from './AgentExecutor';
+
+/**
+ * Picks the permission a step spending `tokenAddress` runs under
+ */
+export type PermissionResolver = (tokenAddress: string) => string;
+
+// Base Sepolia tokens the template recognizes by symbol, from the token registry
+export const KNOWN_TOKENS: Record<string, string> = TOKEN_REGISTRY.reduce(
+  (tokens, token) => ({ ...tokens, [token.symbol]: token.address }),
+  {} as Record<string, string>
+);
+
+// Checked in order: "unstake" and "withdraw" before "stake"
+const ACTION_VERBS: Array<{ pattern: RegExp; type: AgentActionType }> = [
+  { pattern: /\b(unstake|withdraw)\b/, type: 'unstake' },
+  { pattern: /\b(stake|deposit)\b/, type: 'stake' },
+  { pattern: /\b(swap|exchange|convert|trade)\b/, type: 'swap' },
+  { pattern: /\bapprove\b/, type: 'approve' },
+  { pattern: /\b(send|transfer|pay)\b/, type: 'transfer' },
+];
+
+export const ADDRESS_PATTERN = /0x[a-fA-F0-9]{40}/g;
+const SYMBOL_PATTERN = new RegExp(`\\b(${Object.keys(KNOWN_TOKENS).join('|')})\\b`, 'g');
+
+/**
+ * Action type named by a clause's verb
+ */
+export function detectAction(clause: string): AgentActionType | null {
+  const lowerClause = clause.toLowerCase();
+  const match = ACTION_VERBS.find(verb => verb.pattern.test(lowerClause));
+  return match ? match.type : null;
+}
+
+/**
+ * Split a description into action clauses
+ * Fragments without an action verb stay attached to the clause before them
+ */
+export function splitPlanClauses(description: string): string[] {
+  const fragments = description
+    .split(/\s*(?:;|,|\band then\b|\bthen\b|\band\b)\s*/i)
+    .map(fragment => fragment.trim())
+    .filter(fragment => fragment.length > 0);
+
+  const clauses: string[] = [];
+  fragments.forEach(fragment => {
+    if (detectAction(fragment) || clauses.length === 0) {
+      clauses.push(fragment);
+    } else {
+      clauses[clauses.length - 1] = `${clauses[clauses.length - 1]}, ${fragment}`;
+    }
+  });
+
+  return clauses.filter(clause => detectAction(clause) !== null);
+}
+
+/**
+ * Whether a description asks for more than one on-chain action
+ */
+export function isMultiStepIntent(description: string): boolean {
+  return splitPlanClauses(description).length >= 2;
+}
+
+// Keep template amounts within what parseUnits accepts for 6-decimal tokens
+function formatAmount(value: number): string {
+  return parseFloat(value.toFixed(6)).toString();
+}
+
+function symbolsIn(clause: string): string[] {
+  return (clause.toLowerCase().match(SYMBOL_PATTERN) || []).map(symbol => KNOWN_TOKENS[symbol]);
+}
+
+// Actions that approve their target contract for the step amount
+const APPROVING_ACTIONS: AgentActionType[] = ['approve', 'swap', 'stake'];
+
+/**
+ * Whether an approve step is overwritten by a later step of the plan approving
+ * the same spender for the same token, so its amount is never exposed
+ */
+export function isApprovalReplaced(steps: AgentPlanStep[], index: number): boolean {
+  const step = steps[index];
+  if (step.action.type !== 'approve') {
+    return false;
+  }
+  return steps.slice(index + 1).some(later =>
+    APPROVING_ACTIONS.indexOf(later.action.type) !== -1 &&
+    later.permissionId === step.permissionId &&
+    later.tokenAddress.toLowerCase() === step.tokenAddress.toLowerCase() &&
+    later.contractAddress.toLowerCase() === step.contractAddress.toLowerCase()
+  );
+}
+
+/**
+ * Build an ordered plan from the intent's description
+ *
+ * Amounts can be explicit ("100 USDC") or relative to the previous step's
+ * output ("half", "all", "25%"); after a swap the output is its minimum
+ * amount out. Targets are the 0x address in the clause, or the intent's contract.
+ */
+export function buildPlanFromTemplate(intent: AgentIntent, resolvePermission: PermissionResolver): AgentPlanStep[] {
+  const steps: AgentPlanStep[] = [];
+  let previous: { tokenAddress: string; amount: string } | null = null;
+
+  splitPlanClauses(intent.description).forEach(clause => {
+    const type = detectAction(clause);
+    if (!type) {
+      return;
+    }
+
+    const lowerClause = clause.toLowerCase();
+    const addresses = clause.match(ADDRESS_PATTERN) || [];
+    const withoutAddresses = lowerClause.replace(ADDRESS_PATTERN, ' ');
+
+    // Slippage floor first, so its number is not read as the step amount
+    const minOutMatch = withoutAddresses.match(/(?:for at least|at least|min(?:imum)?(?: out)?)\s*(\d+(?:\.\d+)?)/);
+    const amountText = minOutMatch ? withoutAddresses.replace(minOutMatch[0], ' ') : withoutAddresses;
+
+    const symbols = symbolsIn(amountText);
+    let tokenAddress = symbols[0] || previous?.tokenAddress || intent.tokenAddress;
+
+    const explicitAmount = amountText.match(/\b(\d+(?:\.\d+)?)\b(?!\s*%)/);
+    const percentMatch = amountText.match(/(\d+(?:\.\d+)?)\s*%/);
+    const isHalf = /\bhalf\b/.test(amountText);
+    const isAll = /\b(all|everything)\b/.test(amountText);
+
+    let amount: string;
+    if (percentMatch || isHalf || isAll) {
+      if (!previous) {
+        throw new Error(`"${clause}" is relative to the previous step's output, which is unknown (give swaps a minimum amount out, e.g. "for at least 0.03")`);
+      }
+      const fraction = percentMatch ? parseFloat(percentMatch[1]) / 100 : isHalf ? 0.5 : 1;
+      amount = formatAmount(parseFloat(previous.amount) * fraction);
+      tokenAddress = symbols[0] || previous.tokenAddress;
+    } else if (explicitAmount) {
+      amount = explicitAmount[1];
+    } else {
+      amount = previous?.amount || intent.amount;
+    }
+
+    const step: AgentPlanStep = {
+      description: clause,
+      action: { type },
+      tokenAddress,
+      amount,
+      contractAddress: addresses[0] || intent.contractAddress,
+      permissionId: resolvePermission(tokenAddress),
+    };
+
+    if (type === 'swap') {
+      // Swaps go through the router, so "ETH" means wrapped ETH
+      const tokenOut = symbols.length > 1 ? symbols[1] : intent.action?.tokenOut;
+      step.action = {
+        type,
+        adapter: intent.action?.adapter,
+        tokenOut: tokenOut === ethers.ZeroAddress ? KNOWN_TOKENS.weth : tokenOut,
+        minAmountOut: minOutMatch ? minOutMatch[1] : intent.action?.minAmountOut,
+        fee: intent.action?.fee,
+      };
+      previous = step.action.tokenOut && step.action.minAmountOut
+        ? { tokenAddress: step.action.tokenOut, amount: step.action.minAmountOut }
+        : null;
+    } else {
+      previous = { tokenAddress, amount };
+    }
+
+    steps.push(step);
+  });
+
+  return steps;
+}
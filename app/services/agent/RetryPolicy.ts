@@ -0,0 +1,115 @@
+/**
+ * Retry Policy
+ * Which failed execution attempts are tried again, and the guards every attempt runs under
+ *
+ * An attempt gathers market data, asks the LLM and submits. Failures before
+ * submission are retried when they look transient. Once submission starts,
+ * a network error, a 5xx or a timeout may hide a transaction that was sent,
+ * so only errors proving the request was turned away before broadcast are
+ * retried, and never after any request of the attempt returned a hash.
+ */
+
+import { AGENT_CONFIG } from '@/lib/constants';
+
+export type AttemptPhase = 'decision' | 'submission';
+
+/**
+ * State of the running attempt, shared with the steps it runs
+ */
+export interface AttemptContext {
+  signal: AbortSignal; // Aborted when the attempt times out
+  phase: AttemptPhase; // Set to 'submission' right before anything is sent
+  transactionHashes: string[]; // Of the requests this attempt sent, in order
+}
+
+// Network, RPC and provider hiccups that usually pass, while nothing has been sent
+const TRANSIENT_ERROR_PATTERNS: RegExp[] = [
+  /network|fetch failed|socket hang up/i,
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN/,
+  /\b429\b|rate limit|too many requests/i,
+  /\b50[234]\b|bad gateway|service unavailable|gateway timeout/i,
+];
+
+// Submission errors that prove the request was refused before it was broadcast
+const REJECTED_BEFORE_BROADCAST_PATTERNS: RegExp[] = [
+  /\b429\b|rate limit|too many requests/i,
+  /max fee per gas less than block base fee|fee cap less than block base fee|intrinsic gas too low/i,
+  /\bAA(?:1\d|2[0-46-9]|3\d)\b/, // Bundler validation; AA25 (nonce) may mean an earlier operation landed
+];
+
+// Retrying these cannot succeed
+const PERMANENT_ERROR_PATTERNS: RegExp[] = [
+  /user (?:rejected|denied)|\b4001\b/i,
+  /insufficient funds|exceeds balance/i,
+  /revert/i,
+  /not connected|not initialized/i,
+];
+
+const TIMEOUT_PATTERN = /timed? ?out|aborted/i;
+
+/**
+ * Whether a failed attempt may be tried again
+ * Attempts that got a hash for any request are never retried, whatever the error
+ */
+export function isRetryableError(message: string, phase: AttemptPhase, transactionHashes: string[] = []): boolean {
+  if (transactionHashes.length > 0 || PERMANENT_ERROR_PATTERNS.some(pattern => pattern.test(message))) {
+    return false;
+  }
+  if (phase === 'submission') {
+    return REJECTED_BEFORE_BROADCAST_PATTERNS.some(pattern => pattern.test(message));
+  }
+  return TIMEOUT_PATTERN.test(message) || TRANSIENT_ERROR_PATTERNS.some(pattern => pattern.test(message));
+}
+
+/**
+ * Wait before the attempt after `attempt`: RETRY_DELAY_MS, doubling each time
+ */
+export function getRetryDelay(attempt: number): number {
+  return AGENT_CONFIG.RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+}
+
+/**
+ * Why the gas price is too high to act, or null when it is within the ceiling
+ * Applies on top of permission policies, whatever they allow
+ */
+export function checkGasCeiling(gasPriceGwei: string, maxGwei: number = AGENT_CONFIG.MAX_GAS_PRICE_GWEI): string | null {
+  const gasPrice = parseFloat(gasPriceGwei);
+  if (isNaN(gasPrice) || gasPrice <= maxGwei) {
+    return null;
+  }
+  return `Gas price ${gasPrice} gwei is above the ceiling of ${maxGwei} gwei`;
+}
+
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  const abortError = () => signal.reason instanceof Error ? signal.reason : new Error('Aborted');
+  if (signal.aborted) {
+    return Promise.reject(abortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort);
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Throw the abort reason when the attempt has already timed out
+ */
+export function throwIfAborted(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw signal.reason instanceof Error ? signal.reason : new Error('Aborted');
+  }
+}
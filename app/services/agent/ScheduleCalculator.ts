@@ -0,0 +1,726 @@
+/**
+ * Schedule Calculator
+ * Cron expressions, calendar rules and timezone-aware next-run computation for agent schedules
+ */
+
+import type { AgentSchedule, CalendarRule } from './AgentExecutor';
+import type { CatchUpPolicy } from '@/types/scheduler';
+
+// Time of day used when a calendar phrase does not name one
+const DEFAULT_TIME = { hour: 9, minute: 0 } as const;
+
+// How far ahead to search for the next matching occurrence
+const MAX_SEARCH_DAYS = 366 * 5;
+
+// Upper bound on missed occurrences walked through at once (e.g. a minutely schedule after a week offline)
+const MAX_DUE_SCAN = 1000;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const FULL_DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const FREQUENCY_UNITS: Record<NonNullable<AgentSchedule['frequency']>, string> = {
+  minutely: 'minutes',
+  hourly: 'hours',
+  daily: 'days',
+  weekly: 'weeks',
+  monthly: 'months',
+};
+
+/**
+ * Parsed 5-field cron expression (minute hour day-of-month month day-of-week)
+ */
+export interface CronExpression {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday = 0
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0-6, Sunday = 0
+}
+
+/**
+ * Resolve the runtime's default IANA timezone
+ */
+export function getDefaultTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Check that a string is a timezone the runtime understands
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a single cron field into the sorted list of matching values
+ */
+function parseCronField(field: string, min: number, max: number, names?: string[]): number[] {
+  const values = new Set<number>();
+
+  const toNumber = (token: string): number => {
+    const lower = token.toLowerCase();
+    if (names) {
+      const index = names.indexOf(lower.slice(0, 3));
+      if (index !== -1 && /^[a-z]+$/.test(lower)) {
+        return index + min;
+      }
+    }
+    const value = parseInt(token, 10);
+    if (isNaN(value) || String(value) !== token.replace(/^0+(?=\d)/, '')) {
+      throw new Error(`Invalid cron value: ${token}`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepToken] = part.split('/');
+    const step = stepToken !== undefined ? parseInt(stepToken, 10) : 1;
+    if (isNaN(step) || step < 1) {
+      throw new Error(`Invalid cron step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = toNumber(to);
+    } else {
+      start = toNumber(range);
+      end = stepToken !== undefined ? max : start;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field out of range: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Parse a 5-field cron expression
+ */
+export function parseCronExpression(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}: "${expression}"`);
+  }
+
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+
+  // Day-of-week accepts 7 as an alias for Sunday
+  const daysOfWeek = parseCronField(dowField, 0, 7, DAY_NAMES).map(day => day % 7);
+
+  return {
+    minutes: parseCronField(minuteField, 0, 59),
+    hours: parseCronField(hourField, 0, 23),
+    daysOfMonth: new Set(parseCronField(domField, 1, 31)),
+    months: new Set(parseCronField(monthField, 1, 12, MONTH_NAMES)),
+    daysOfWeek: new Set(daysOfWeek),
+    dayOfMonthRestricted: domField !== '*',
+    dayOfWeekRestricted: dowField !== '*',
+  };
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock parts of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  });
+
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase().slice(0, 3)),
+  };
+}
+
+/**
+ * Private: Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const truncated = Math.floor(date.getTime() / 60000) * 60000;
+  return asUtc - truncated;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an instant
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const firstOffset = getTimezoneOffset(new Date(guess), timezone);
+  const candidate = guess - firstOffset;
+
+  // Re-check across DST transitions where the offset differs at the target instant
+  const secondOffset = getTimezoneOffset(new Date(candidate), timezone);
+  return new Date(guess - secondOffset);
+}
+
+/**
+ * Private: Number of days in a month (month is 1-12)
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Private: Day of week for a calendar date (month is 1-12)
+ */
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Private: Check whether a calendar date matches a cron expression's day fields
+ */
+function cronMatchesDay(cron: CronExpression, year: number, month: number, day: number): boolean {
+  if (!cron.months.has(month)) {
+    return false;
+  }
+
+  const domMatch = cron.daysOfMonth.has(day);
+  const dowMatch = cron.daysOfWeek.has(weekdayOf(year, month, day));
+
+  // Standard cron semantics: when both day fields are restricted, either may match
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  if (cron.dayOfMonthRestricted) {
+    return domMatch;
+  }
+  if (cron.dayOfWeekRestricted) {
+    return dowMatch;
+  }
+  return true;
+}
+
+/**
+ * Private: Day of month a calendar rule falls on
+ */
+function calendarRuleDay(rule: CalendarRule['rule'], year: number, month: number): number {
+  const lastDay = daysInMonth(year, month);
+
+  switch (rule) {
+    case 'first_business_day_of_month': {
+      let day = 1;
+      while (weekdayOf(year, month, day) === 0 || weekdayOf(year, month, day) === 6) {
+        day++;
+      }
+      return day;
+    }
+    case 'last_business_day_of_month': {
+      let day = lastDay;
+      while (weekdayOf(year, month, day) === 0 || weekdayOf(year, month, day) === 6) {
+        day--;
+      }
+      return day;
+    }
+    case 'last_day_of_month':
+      return lastDay;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Private: Walk calendar days in the schedule's timezone and return the first
+ * matching slot strictly after `after`
+ */
+function findNextSlot(
+  after: Date,
+  timezone: string,
+  matchTimes: (year: number, month: number, day: number) => Array<{ hour: number; minute: number }>
+): Date | null {
+  const start = getZonedParts(after, timezone);
+  let year = start.year;
+  let month = start.month;
+  let day = start.day;
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    for (const time of matchTimes(year, month, day)) {
+      const candidate = zonedTimeToDate(year, month, day, time.hour, time.minute, timezone);
+      if (candidate.getTime() > after.getTime()) {
+        return candidate;
+      }
+    }
+
+    day++;
+    if (day > daysInMonth(year, month)) {
+      day = 1;
+      month++;
+      if (month > 12) {
+        month = 1;
+        year++;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Next occurrence of a cron expression after the given instant
+ */
+export function getNextCronOccurrence(expression: string, after: Date, timezone: string = 'UTC'): Date | null {
+  const cron = parseCronExpression(expression);
+  const times: Array<{ hour: number; minute: number }> = [];
+  cron.hours.forEach(hour => cron.minutes.forEach(minute => times.push({ hour, minute })));
+
+  return findNextSlot(after, timezone, (year, month, day) =>
+    cronMatchesDay(cron, year, month, day) ? times : []
+  );
+}
+
+/**
+ * Next occurrence of a calendar rule after the given instant
+ */
+export function getNextCalendarOccurrence(calendar: CalendarRule, after: Date, timezone: string = 'UTC'): Date | null {
+  return findNextSlot(after, timezone, (year, month, day) =>
+    calendarRuleDay(calendar.rule, year, month) === day
+      ? [{ hour: calendar.hour, minute: calendar.minute }]
+      : []
+  );
+}
+
+/**
+ * Next run after a fixed interval
+ */
+export function getNextIntervalOccurrence(
+  frequency: AgentSchedule['frequency'],
+  interval: number,
+  after: Date
+): Date {
+  switch (frequency) {
+    case 'minutely':
+      return new Date(after.getTime() + (interval * 60 * 1000));
+    case 'hourly':
+      return new Date(after.getTime() + (interval * 60 * 60 * 1000));
+    case 'daily':
+      return new Date(after.getTime() + (interval * 24 * 60 * 60 * 1000));
+    case 'weekly':
+      return new Date(after.getTime() + (interval * 7 * 24 * 60 * 60 * 1000));
+    case 'monthly': {
+      const nextMonth = new Date(after);
+      nextMonth.setMonth(nextMonth.getMonth() + interval);
+      return nextMonth;
+    }
+    default:
+      return new Date(after.getTime() + (60 * 1000)); // Default to 1 minute
+  }
+}
+
+/**
+ * Whether a schedule runs at exact calendar times rather than fixed intervals
+ */
+export function isCalendarSchedule(schedule: AgentSchedule): boolean {
+  return !!(schedule.cron || schedule.calendar);
+}
+
+/**
+ * Compute the next run of a schedule after the given instant
+ *
+ * Returns null when the schedule has no further runs (end date passed or
+ * occurrence limit reached).
+ */
+export function computeNextExecution(schedule: AgentSchedule, after: Date = new Date()): Date | null {
+  if (hasScheduleEnded(schedule, after)) {
+    return null;
+  }
+
+  const timezone = schedule.timezone || 'UTC';
+  let next: Date | null;
+
+  if (schedule.cron) {
+    next = getNextCronOccurrence(schedule.cron, after, timezone);
+  } else if (schedule.calendar) {
+    next = getNextCalendarOccurrence(schedule.calendar, after, timezone);
+  } else {
+    next = getNextIntervalOccurrence(schedule.frequency, schedule.interval || 1, after);
+  }
+
+  if (next && schedule.endDate && next.getTime() > schedule.endDate.getTime()) {
+    return null;
+  }
+
+  return next;
+}
+
+/**
+ * Which due occurrences to run, which to skip and when the schedule runs next
+ */
+export interface OccurrencePlan {
+  run: Date[];
+  skipped: Date[];
+  nextRunAt: Date | null;
+}
+
+/**
+ * Work out what to do with the occurrences due at `now`, starting from `from`
+ *
+ * An occurrence more than `misfireGraceMs` late counts as missed:
+ * - skip: run only occurrences that are still on time
+ * - run_once: run the latest due occurrence once for everything that was missed
+ * - run_all: run every due occurrence, up to `maxCatchUpRuns` of the most recent
+ */
+export function planDueOccurrences(
+  schedule: AgentSchedule,
+  from: Date,
+  now: Date,
+  policy: CatchUpPolicy,
+  misfireGraceMs: number,
+  maxCatchUpRuns: number
+): OccurrencePlan {
+  // Walk the timing only; the occurrence limit applies to runs below
+  const timing = { ...schedule, maxOccurrences: undefined };
+  const due: Date[] = [];
+  let next: Date | null = from;
+  while (next && next.getTime() <= now.getTime() && due.length < MAX_DUE_SCAN) {
+    due.push(next);
+    next = computeNextExecution(timing, next);
+  }
+  if (next && next.getTime() <= now.getTime()) {
+    next = computeNextExecution(timing, now);
+  }
+
+  let run: Date[];
+  if (policy === 'skip') {
+    const onTime = due.filter(occurrence => now.getTime() - occurrence.getTime() <= misfireGraceMs);
+    run = onTime.slice(-1);
+  } else if (policy === 'run_all') {
+    run = due.slice(-maxCatchUpRuns);
+  } else {
+    run = due.slice(-1);
+  }
+
+  if (schedule.maxOccurrences !== undefined) {
+    const remaining = Math.max(0, schedule.maxOccurrences - (schedule.occurrenceCount || 0));
+    run = run.slice(0, remaining);
+  }
+
+  return {
+    run,
+    skipped: due.filter(occurrence => run.indexOf(occurrence) === -1),
+    nextRunAt: next,
+  };
+}
+
+/**
+ * Stable id of one occurrence of a schedule, the same in every tab and after restarts
+ */
+export function getOccurrenceId(scheduleId: string, scheduledFor: Date): string {
+  return `${scheduleId}@${scheduledFor.toISOString()}`;
+}
+
+/**
+ * Whether a schedule's end conditions have been reached
+ */
+export function hasScheduleEnded(schedule: AgentSchedule, now: Date = new Date()): boolean {
+  if (schedule.maxOccurrences !== undefined && (schedule.occurrenceCount || 0) >= schedule.maxOccurrences) {
+    return true;
+  }
+  if (schedule.endDate && now.getTime() > schedule.endDate.getTime()) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Parse a time of day such as "9:00", "9am", "5:30 pm" or "17:30"
+ */
+export function parseTimeOfDay(text: string): { hour: number; minute: number } | null {
+  const match = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/i);
+  if (!match || (!match[2] && !match[3])) {
+    return null;
+  }
+
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase();
+
+  if (meridiem === 'pm' && hour < 12) hour += 12;
+  if (meridiem === 'am' && hour === 12) hour = 0;
+
+  if (hour > 23 || minute > 59) {
+    return null;
+  }
+  return { hour, minute };
+}
+
+/**
+ * Private: Time named after "at" in a description, or the default time
+ */
+function parseAtTime(description: string): { hour: number; minute: number } {
+  const atMatch = description.match(/\bat\s+(\d{1,2}(?::\d{2})?\s*(?:am|pm)?)/i);
+  return (atMatch && parseTimeOfDay(atMatch[1])) || { ...DEFAULT_TIME };
+}
+
+/**
+ * Parse cron and calendar phrases from a natural language description
+ *
+ * Recognises explicit cron expressions (`cron "0 9 * * 1"`), weekday phrases
+ * ("every Monday at 9:00", "every weekday at 8am", "every day at 17:30") and
+ * month rules ("first business day of the month").
+ */
+export function parseCalendarSchedule(description: string): Pick<AgentSchedule, 'cron' | 'calendar'> | null {
+  const lowerDesc = description.toLowerCase();
+
+  const cronMatch = description.match(/\bcron\s*[:(]?\s*["'`]?((?:\S+\s+){4}[^\s"'`)]+)/i);
+  if (cronMatch && isValidCronExpression(cronMatch[1])) {
+    return { cron: cronMatch[1].trim() };
+  }
+
+  const monthRuleMatch = lowerDesc.match(/\b(first|last) (business|working) day of (?:the|each|every) month\b|\blast day of (?:the|each|every) month\b/);
+  if (monthRuleMatch) {
+    const { hour, minute } = parseAtTime(description);
+    let rule: CalendarRule['rule'] = 'last_day_of_month';
+    if (monthRuleMatch[1] === 'first') rule = 'first_business_day_of_month';
+    if (monthRuleMatch[1] === 'last') rule = 'last_business_day_of_month';
+    return { calendar: { rule, hour, minute } };
+  }
+
+  const dayMatch = lowerDesc.match(/\bevery (sunday|monday|tuesday|wednesday|thursday|friday|saturday|weekday|day)s?\b/);
+  const dailyAtMatch = lowerDesc.match(/\bdaily at\b/);
+  if (dayMatch || dailyAtMatch) {
+    const hasTime = /\bat\s+\d/.test(lowerDesc);
+    const dayName = dayMatch?.[1] || 'day';
+
+    // "every day" without a time stays a plain 24h interval
+    if (dayName === 'day' && !hasTime) {
+      return null;
+    }
+
+    const { hour, minute } = parseAtTime(description);
+    let dayOfWeek = '*';
+    if (dayName === 'weekday') {
+      dayOfWeek = '1-5';
+    } else if (dayName !== 'day') {
+      dayOfWeek = String(FULL_DAY_NAMES.indexOf(dayName));
+    }
+    return { cron: `${minute} ${hour} * * ${dayOfWeek}` };
+  }
+
+  return null;
+}
+
+/**
+ * Parse an IANA timezone ("in Europe/Berlin", "UTC") from a description
+ */
+export function parseTimezone(description: string): string | null {
+  const zoneMatch = description.match(/\b([A-Z][A-Za-z_]+\/[A-Za-z_]+(?:\/[A-Za-z_]+)?)\b/);
+  if (zoneMatch && isValidTimezone(zoneMatch[1])) {
+    return zoneMatch[1];
+  }
+  if (/\bUTC\b/.test(description)) {
+    return 'UTC';
+  }
+  return null;
+}
+
+/**
+ * Parse end conditions ("until Dec 31", "until 2026-12-31", "10 times")
+ */
+export function parseEndConditions(
+  description: string,
+  timezone: string,
+  now: Date = new Date()
+): Pick<AgentSchedule, 'endDate' | 'maxOccurrences'> {
+  const result: Pick<AgentSchedule, 'endDate' | 'maxOccurrences'> = {};
+  const lowerDesc = description.toLowerCase();
+
+  const timesMatch = lowerDesc.match(/\b(\d+) times\b/);
+  if (timesMatch) {
+    result.maxOccurrences = parseInt(timesMatch[1], 10);
+  }
+
+  const isoMatch = lowerDesc.match(/\buntil (\d{4})-(\d{2})-(\d{2})\b/);
+  if (isoMatch) {
+    result.endDate = zonedTimeToDate(
+      parseInt(isoMatch[1], 10), parseInt(isoMatch[2], 10), parseInt(isoMatch[3], 10), 23, 59, timezone
+    );
+    return result;
+  }
+
+  const namedMatch = lowerDesc.match(/\buntil (jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?/);
+  if (namedMatch) {
+    const month = MONTH_NAMES.indexOf(namedMatch[1]) + 1;
+    const day = parseInt(namedMatch[2], 10);
+    let year = namedMatch[3] ? parseInt(namedMatch[3], 10) : getZonedParts(now, timezone).year;
+
+    let endDate = zonedTimeToDate(year, month, day, 23, 59, timezone);
+    // Without a year, "until Dec 31" means the next such date
+    if (!namedMatch[3] && endDate.getTime() < now.getTime()) {
+      year++;
+      endDate = zonedTimeToDate(year, month, day, 23, 59, timezone);
+    }
+    result.endDate = endDate;
+  }
+
+  return result;
+}
+
+// Interval phrases, checked in order before "every N <unit>"
+const INTERVAL_PHRASES: Array<{ phrases: string[]; frequency: NonNullable<AgentSchedule['frequency']> }> = [
+  { phrases: ['every minute', 'per minute'], frequency: 'minutely' },
+  { phrases: ['daily', 'every day'], frequency: 'daily' },
+  { phrases: ['weekly', 'every week'], frequency: 'weekly' },
+  { phrases: ['hourly', 'every hour'], frequency: 'hourly' },
+  { phrases: ['monthly', 'every month'], frequency: 'monthly' },
+];
+
+const INTERVAL_UNITS: Record<string, NonNullable<AgentSchedule['frequency']>> = {
+  minute: 'minutely',
+  hour: 'hourly',
+  day: 'daily',
+  week: 'weekly',
+  month: 'monthly',
+};
+
+/**
+ * Parse a natural language description into a schedule, including timezone and end conditions
+ * Descriptions without a recurring phrase run once. `now` anchors the first run and relative end dates
+ */
+export function parseScheduleFromDescription(description: string, now: Date = new Date()): AgentSchedule {
+  const timezone = parseTimezone(description) || getDefaultTimezone();
+  const calendarSchedule = parseCalendarSchedule(description);
+
+  const schedule: AgentSchedule = calendarSchedule
+    ? { type: 'recurring', ...calendarSchedule, isActive: true }
+    : parseIntervalSchedule(description, now);
+
+  if (schedule.type !== 'recurring') {
+    return schedule;
+  }
+
+  Object.assign(schedule, { timezone, occurrenceCount: 0 }, parseEndConditions(description, timezone, now));
+  schedule.nextExecution = computeNextExecution(schedule, now) || undefined;
+
+  return schedule;
+}
+
+/**
+ * Private: Detect a fixed-interval frequency ("daily", "every 3 days"), or a one-time run
+ */
+function parseIntervalSchedule(description: string, now: Date): AgentSchedule {
+  const lowerDesc = description.toLowerCase();
+
+  const phrase = INTERVAL_PHRASES.find(entry => entry.phrases.some(text => lowerDesc.includes(text)));
+  const intervalMatch = lowerDesc.match(/every (\d+) (minute|hour|day|week|month)s?/);
+
+  let frequency: NonNullable<AgentSchedule['frequency']>;
+  let interval: number;
+  if (phrase) {
+    frequency = phrase.frequency;
+    interval = 1;
+  } else if (intervalMatch) {
+    frequency = INTERVAL_UNITS[intervalMatch[2]];
+    interval = parseInt(intervalMatch[1]);
+  } else {
+    return { type: 'once', isActive: false };
+  }
+
+  return {
+    type: 'recurring',
+    frequency,
+    interval,
+    nextExecution: getNextIntervalOccurrence(frequency, interval, now),
+    isActive: true,
+  };
+}
+
+/**
+ * Human-readable summary of when a schedule runs
+ */
+export function describeSchedule(schedule: AgentSchedule): string {
+  const pad = (value: number): string => value.toString().padStart(2, '0');
+  let description: string;
+
+  if (schedule.cron) {
+    description = `cron "${schedule.cron}"`;
+  } else if (schedule.calendar) {
+    const ruleLabels: Record<CalendarRule['rule'], string> = {
+      first_business_day_of_month: 'First business day of the month',
+      last_business_day_of_month: 'Last business day of the month',
+      last_day_of_month: 'Last day of the month',
+    };
+    description = `${ruleLabels[schedule.calendar.rule]} at ${pad(schedule.calendar.hour)}:${pad(schedule.calendar.minute)}`;
+  } else if (schedule.interval && schedule.interval > 1 && schedule.frequency) {
+    description = `Every ${schedule.interval} ${FREQUENCY_UNITS[schedule.frequency]}`;
+  } else {
+    description = schedule.frequency || 'once';
+  }
+
+  if (schedule.timezone && isCalendarSchedule(schedule)) {
+    description += ` (${schedule.timezone})`;
+  }
+  if (schedule.maxOccurrences !== undefined) {
+    description += ` • ${schedule.occurrenceCount || 0}/${schedule.maxOccurrences} runs`;
+  }
+  if (schedule.endDate) {
+    description += ` • until ${schedule.endDate.toLocaleDateString()}`;
+  }
+
+  return description;
+}
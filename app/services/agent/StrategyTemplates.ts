@@ -0,0 +1,400 @@
+/**
+ * Strategy Templates
+ * Ready-made strategies (DCA, recurring payment, savings sweep, rebalance)
+ *
+ * A template is a command with typed `{{parameters}}`, the permission it
+ * needs (token, cap, duration, allowed contracts), a schedule and policy
+ * defaults. Applying it with parameter values gives a draft that fills the
+ * permission form and the agent command in one go. Templates are shared as
+ * JSON files; imported ones are kept next to the built-ins.
+ */
+
+import { ethers } from 'ethers';
+import { strategyTemplateFileSchema } from '@/lib/validation';
+import { parsePolicyText } from '@/services/permissions/PolicyEngine';
+import type { PermissionRateLimit } from '@/types/permissions';
+import type { CatchUpPolicy } from '@/types/scheduler';
+import type { PacingMode } from './BudgetPacer';
+import { KNOWN_TOKENS } from './PlanBuilder';
+
+export type TemplateParameterType = 'token' | 'address' | 'amount' | 'number' | 'text' | 'choice';
+
+export interface TemplateParameter {
+  key: string; // Referenced as {{key}}
+  label: string;
+  type: TemplateParameterType;
+  default?: string;
+  options?: string[]; // Allowed values of a choice
+  hint?: string;
+}
+
+export interface StrategyTemplate {
+  id: string;
+  name: string;
+  description: string;
+  parameters: TemplateParameter[];
+  command: string; // What the agent should do, without the schedule
+  schedule?: string; // Appended to the command, e.g. "every Monday at 9:00"
+  permission: {
+    token: string; // Symbol or address
+    maxSpendAmount: string;
+    durationDays: string;
+    allowedContracts: string[];
+  };
+  policy: string[]; // Policy expressions, one per rule
+  rateLimit?: PermissionRateLimit;
+  misfirePolicy?: CatchUpPolicy;
+  pacing?: PacingMode;
+}
+
+/**
+ * A template filled in with parameter values, ready for the permission form and the command input
+ */
+export interface StrategyDraft {
+  templateId: string;
+  templateName: string;
+  command: string;
+  permission: {
+    tokenAddress: string;
+    maxSpendAmount: string;
+    durationDays: number;
+    allowedContracts: string[];
+    policyText: string;
+    rateLimit?: PermissionRateLimit;
+  };
+  misfirePolicy?: CatchUpPolicy;
+  pacing?: PacingMode;
+}
+
+export interface StrategyTemplateFile {
+  format: 'metapilot-strategy-templates';
+  version: 1;
+  exportedAt: string;
+  templates: StrategyTemplate[];
+}
+
+const SAMPLE_DEX = '0x4752ba5dbc23f44d87826276bf6fd6b1c372ad24';
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const BUILT_IN_TEMPLATES: StrategyTemplate[] = [
+  {
+    id: 'dca',
+    name: 'Dollar-cost averaging',
+    description: 'Buy a fixed amount of a token every week, skipping runs when gas is expensive.',
+    parameters: [
+      { key: 'amount', label: 'Amount per buy', type: 'amount', default: '10' },
+      { key: 'spendToken', label: 'Spend', type: 'token', default: 'usdc' },
+      { key: 'buyToken', label: 'Buy', type: 'token', default: 'weth' },
+      { key: 'weekday', label: 'Day', type: 'choice', default: 'monday', options: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] },
+      { key: 'router', label: 'Swap router', type: 'address', default: SAMPLE_DEX },
+      { key: 'budget', label: 'Total budget', type: 'amount', default: '120' },
+      { key: 'days', label: 'Runs for (days)', type: 'number', default: '84' },
+      { key: 'maxGas', label: 'Max gas (gwei)', type: 'number', default: '30' },
+    ],
+    command: 'Swap {{amount}} {{spendToken}} for {{buyToken}}',
+    schedule: 'every {{weekday}} at 9:00',
+    permission: { token: '{{spendToken}}', maxSpendAmount: '{{budget}}', durationDays: '{{days}}', allowedContracts: ['{{router}}'] },
+    policy: ['gasPrice < {{maxGas}}', 'amount <= {{amount}}'],
+    rateLimit: { minSpacingMs: 6 * DAY_MS },
+    misfirePolicy: 'skip',
+  },
+  {
+    id: 'recurring-payment',
+    name: 'Recurring payment',
+    description: 'Pay a fixed amount to one recipient on the first business day of every month.',
+    parameters: [
+      { key: 'amount', label: 'Amount', type: 'amount', default: '50' },
+      { key: 'token', label: 'Token', type: 'token', default: 'usdc' },
+      { key: 'recipient', label: 'Recipient', type: 'address', hint: 'Only this address can be paid' },
+      { key: 'time', label: 'Time (UTC)', type: 'text', default: '9:00' },
+      { key: 'budget', label: 'Total budget', type: 'amount', default: '600' },
+      { key: 'days', label: 'Runs for (days)', type: 'number', default: '365' },
+    ],
+    command: 'Pay {{amount}} {{token}} to {{recipient}}',
+    schedule: 'on the first business day of the month at {{time}}',
+    permission: { token: '{{token}}', maxSpendAmount: '{{budget}}', durationDays: '{{days}}', allowedContracts: ['{{recipient}}'] },
+    policy: ["action == 'transfer'", 'amount <= {{amount}}'],
+    rateLimit: { maxExecutions: 1, windowMs: 20 * DAY_MS },
+    misfirePolicy: 'run_once',
+  },
+  {
+    id: 'savings-sweep',
+    name: 'Savings sweep',
+    description: 'Move a fixed amount to a savings address each week while the balance stays above a floor.',
+    parameters: [
+      { key: 'amount', label: 'Amount to sweep', type: 'amount', default: '100' },
+      { key: 'token', label: 'Token', type: 'token', default: 'usdc' },
+      { key: 'savings', label: 'Savings address', type: 'address' },
+      { key: 'floor', label: 'Keep at least', type: 'amount', default: '500', hint: 'Sweeps only while the balance is above this' },
+      { key: 'budget', label: 'Total budget', type: 'amount', default: '1000' },
+      { key: 'days', label: 'Runs for (days)', type: 'number', default: '90' },
+    ],
+    command: 'Transfer {{amount}} {{token}} to {{savings}} when balance is above {{floor}}',
+    schedule: 'every friday at 17:00',
+    permission: { token: '{{token}}', maxSpendAmount: '{{budget}}', durationDays: '{{days}}', allowedContracts: ['{{savings}}'] },
+    policy: ["action == 'transfer'", 'amount <= {{amount}}'],
+    rateLimit: { minSpacingMs: 6 * DAY_MS },
+    misfirePolicy: 'skip',
+  },
+  {
+    id: 'rebalance',
+    name: 'Take-profit rebalance',
+    description: 'Sell part of a position into a stable token after the price has risen.',
+    parameters: [
+      { key: 'amount', label: 'Amount to sell', type: 'amount', default: '0.05' },
+      { key: 'sellToken', label: 'Sell', type: 'token', default: 'weth' },
+      { key: 'buyToken', label: 'Buy', type: 'token', default: 'usdc' },
+      { key: 'percent', label: 'Price rise (%)', type: 'number', default: '10' },
+      { key: 'cooldownDays', label: 'At most every (days)', type: 'number', default: '3' },
+      { key: 'router', label: 'Swap router', type: 'address', default: SAMPLE_DEX },
+      { key: 'budget', label: 'Total to sell', type: 'amount', default: '0.5' },
+      { key: 'days', label: 'Runs for (days)', type: 'number', default: '30' },
+    ],
+    command: 'Swap {{amount}} {{sellToken}} for {{buyToken}} when price rises {{percent}}% in 7 days',
+    schedule: 'every {{cooldownDays}} days',
+    permission: { token: '{{sellToken}}', maxSpendAmount: '{{budget}}', durationDays: '{{days}}', allowedContracts: ['{{router}}'] },
+    policy: ["action == 'swap'", 'amount <= {{amount}}', "congestion != 'high'"],
+    rateLimit: { maxExecutions: 1, windowMs: DAY_MS },
+  },
+];
+
+/**
+ * Parameter values a template starts with
+ */
+export function defaultTemplateValues(template: StrategyTemplate): Record<string, string> {
+  const values: Record<string, string> = {};
+  template.parameters.forEach(parameter => {
+    values[parameter.key] = parameter.default || '';
+  });
+  return values;
+}
+
+/**
+ * Problem with a parameter value, or null when it fits the parameter's type
+ */
+export function validateTemplateValue(parameter: TemplateParameter, value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return `${parameter.label} is required`;
+  }
+
+  switch (parameter.type) {
+    case 'token':
+      return trimmed.toLowerCase() in KNOWN_TOKENS || ethers.isAddress(trimmed)
+        ? null
+        : `${parameter.label} must be ${Object.keys(KNOWN_TOKENS).join(', ')} or a token address`;
+    case 'address':
+      return ethers.isAddress(trimmed) ? null : `${parameter.label} must be an address`;
+    case 'amount':
+      return /^\d+(\.\d+)?$/.test(trimmed) && parseFloat(trimmed) > 0 ? null : `${parameter.label} must be a positive amount`;
+    case 'number':
+      return /^\d+$/.test(trimmed) && parseInt(trimmed) > 0 ? null : `${parameter.label} must be a positive whole number`;
+    case 'choice':
+      return (parameter.options || []).indexOf(trimmed) !== -1
+        ? null
+        : `${parameter.label} must be one of ${(parameter.options || []).join(', ')}`;
+    case 'text':
+      return /\{\{|\}\}|\n/.test(trimmed) ? `${parameter.label} cannot contain braces or line breaks` : null;
+  }
+}
+
+/**
+ * Fill a template with parameter values
+ * Throws listing every invalid value, or when the filled policy does not parse
+ */
+export function applyTemplate(template: StrategyTemplate, values: Record<string, string>): StrategyDraft {
+  const problems = template.parameters
+    .map(parameter => validateTemplateValue(parameter, values[parameter.key] || ''))
+    .filter((problem): problem is string => problem !== null);
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  const fill = (text: string) => text.replace(PLACEHOLDER_PATTERN, (_, key: string) => values[key].trim());
+  const command = template.schedule ? `${fill(template.command)} ${fill(template.schedule)}` : fill(template.command);
+  const policyText = template.policy.map(fill).join('\n');
+  parsePolicyText(policyText);
+
+  const token = fill(template.permission.token);
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    command,
+    permission: {
+      tokenAddress: KNOWN_TOKENS[token.toLowerCase()] || token,
+      maxSpendAmount: fill(template.permission.maxSpendAmount),
+      durationDays: parseInt(fill(template.permission.durationDays)),
+      allowedContracts: template.permission.allowedContracts.map(fill),
+      policyText,
+      rateLimit: template.rateLimit,
+    },
+    misfirePolicy: template.misfirePolicy,
+    pacing: template.pacing,
+  };
+}
+
+/**
+ * Serialize templates for sharing
+ */
+export function exportTemplates(templates: StrategyTemplate[]): string {
+  const data: StrategyTemplateFile = {
+    format: 'metapilot-strategy-templates',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    templates,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Read a shared template file
+ * Throws when the file is malformed or a template uses an undeclared {{parameter}}
+ */
+export function parseTemplateFile(json: string): StrategyTemplate[] {
+  let candidate: unknown;
+  try {
+    candidate = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid template file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const result = strategyTemplateFileSchema.safeParse(candidate);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid template file at ${issue.path.map(String).join('.')}: ${issue.message}`);
+  }
+
+  const templates: StrategyTemplate[] = result.data.templates;
+  templates.forEach(template => {
+    const declared = template.parameters.map(parameter => parameter.key);
+    const undeclared = listPlaceholders(template).filter(key => declared.indexOf(key) === -1);
+    if (undeclared.length > 0) {
+      throw new Error(`Template "${template.id}" uses undeclared parameters: ${undeclared.join(', ')}`);
+    }
+  });
+  return templates;
+}
+
+/**
+ * Private: Every {{parameter}} a template refers to
+ */
+function listPlaceholders(template: StrategyTemplate): string[] {
+  const texts = [
+    template.command,
+    template.schedule || '',
+    template.permission.token,
+    template.permission.maxSpendAmount,
+    template.permission.durationDays,
+    ...template.permission.allowedContracts,
+    ...template.policy,
+  ];
+
+  const keys: string[] = [];
+  texts.forEach(text => {
+    text.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+      if (keys.indexOf(key) === -1) {
+        keys.push(key);
+      }
+      return match;
+    });
+  });
+  return keys;
+}
+
+/**
+ * Built-in templates plus the ones imported from files
+ */
+export class StrategyTemplateLibrary {
+  private imported: Map<string, StrategyTemplate> = new Map();
+
+  constructor() {
+    this.loadImported();
+  }
+
+  /**
+   * All templates, built-ins first
+   */
+  listTemplates(): StrategyTemplate[] {
+    return BUILT_IN_TEMPLATES.concat(Array.from(this.imported.values()));
+  }
+
+  /**
+   * Get a template by ID
+   */
+  getTemplate(id: string): StrategyTemplate | null {
+    return this.listTemplates().find(template => template.id === id) || null;
+  }
+
+  /**
+   * Whether a template came from a file and can be removed
+   */
+  isImported(id: string): boolean {
+    return this.imported.has(id);
+  }
+
+  /**
+   * Add the templates of a shared file; a template with the ID of an imported one replaces it
+   */
+  importFile(json: string): StrategyTemplate[] {
+    const templates = parseTemplateFile(json);
+    templates.forEach(template => {
+      if (BUILT_IN_TEMPLATES.some(builtIn => builtIn.id === template.id)) {
+        throw new Error(`Template "${template.id}" would replace a built-in template`);
+      }
+    });
+
+    templates.forEach(template => this.imported.set(template.id, template));
+    this.persistImported();
+    console.log(`📥 Imported ${templates.length} strategy template${templates.length === 1 ? '' : 's'}`);
+    return templates;
+  }
+
+  /**
+   * Remove an imported template
+   */
+  removeTemplate(id: string): void {
+    if (!this.imported.delete(id)) {
+      throw new Error('Only imported templates can be removed');
+    }
+    this.persistImported();
+  }
+
+  /**
+   * Serialize the given templates, or all of them
+   */
+  exportFile(ids?: string[]): string {
+    const templates = ids
+      ? ids.map(id => this.getTemplate(id)).filter((template): template is StrategyTemplate => template !== null)
+      : this.listTemplates();
+    return exportTemplates(templates);
+  }
+
+  /**
+   * Private: Load imported templates from localStorage
+   */
+  private loadImported(): void {
+    try {
+      const stored = localStorage.getItem('metapilot_strategy_templates');
+      if (stored) {
+        (JSON.parse(stored) as StrategyTemplate[]).forEach(template => {
+          this.imported.set(template.id, template);
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load strategy templates:', error);
+    }
+  }
+
+  /**
+   * Private: Persist imported templates to localStorage
+   */
+  private persistImported(): void {
+    try {
+      localStorage.setItem('metapilot_strategy_templates', JSON.stringify(Array.from(this.imported.values())));
+    } catch (error) {
+      console.error('Failed to persist strategy templates:', error);
+    }
+  }
+}
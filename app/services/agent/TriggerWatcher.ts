@@ -0,0 +1,384 @@
+/**
+ * Trigger Watcher
+ * Evaluates condition-based intents ("when gas < X", "when price drops 5%") against market data
+ */
+
+import { AGENT_CONFIG } from '@/lib/constants';
+import type { MarketDataProvider } from './MarketDataProvider';
+import type {
+  AgentIntent,
+  AgentSchedule,
+  AgentTrigger,
+  MarketContext,
+  TriggerCondition,
+  TriggerEvaluation,
+} from './AgentExecutor';
+
+interface PriceSample {
+  timestamp: number;
+  price: number;
+}
+
+// Price samples older than this are discarded
+const MAX_PRICE_HISTORY_MS = 7 * 24 * 60 * 60 * 1000;
+
+const CONGESTION_ORDER: Array<MarketContext['networkCongestion']> = ['low', 'medium', 'high'];
+
+const UNIT_MS: Record<string, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Private: Map comparison words to an operator
+ */
+function toOperator(word: string): 'below' | 'above' {
+  return /below|under|less|</.test(word) ? 'below' : 'above';
+}
+
+/**
+ * Private: Interval length of a fixed-interval schedule in milliseconds
+ */
+function scheduleIntervalMs(schedule?: AgentSchedule): number | null {
+  if (!schedule || schedule.type !== 'recurring' || !schedule.frequency || schedule.cron || schedule.calendar) {
+    return null;
+  }
+  const unit = {
+    minutely: UNIT_MS.minute,
+    hourly: UNIT_MS.hour,
+    daily: UNIT_MS.day,
+    weekly: UNIT_MS.week,
+    monthly: 30 * UNIT_MS.day,
+  }[schedule.frequency];
+  return unit * (schedule.interval || 1);
+}
+
+/**
+ * Parse trigger conditions from a natural language description
+ *
+ * Only descriptions with a "when"/"if" clause produce a trigger. A recurring
+ * schedule in the same description turns into the trigger's cooldown.
+ */
+export function parseTriggerFromDescription(description: string, schedule?: AgentSchedule): AgentTrigger | null {
+  const lowerDesc = description.toLowerCase();
+  if (!/\b(when|if|once)\b/.test(lowerDesc)) {
+    return null;
+  }
+
+  const conditions: TriggerCondition[] = [];
+  const comparison = '(below|under|less than|<|above|over|greater than|>)';
+
+  const gasMatch = lowerDesc.match(new RegExp(`gas(?: price)?(?: is| goes| drops| falls| rises)?\\s*${comparison}\\s*(\\d+(?:\\.\\d+)?)`));
+  if (gasMatch) {
+    conditions.push({ type: 'gas_price', operator: toOperator(gasMatch[1]), gwei: parseFloat(gasMatch[2]) });
+  } else if (/gas(?: price)? is low/.test(lowerDesc)) {
+    conditions.push({ type: 'gas_price', operator: 'below', gwei: AGENT_CONFIG.TRIGGER_LOW_GAS_GWEI });
+  }
+
+  const changeMatch = lowerDesc.match(/price (drops|falls|goes down|rises|increases|goes up|jumps) (?:by )?(\d+(?:\.\d+)?)\s*%(?: (?:in|within|over) (?:the (?:last|past) )?(\d+)?\s*(minute|hour|day|week)s?)?/);
+  if (changeMatch) {
+    const windowMs = changeMatch[4]
+      ? (changeMatch[3] ? parseInt(changeMatch[3], 10) : 1) * UNIT_MS[changeMatch[4]]
+      : AGENT_CONFIG.TRIGGER_PRICE_CHANGE_WINDOW_MS;
+    conditions.push({
+      type: 'price_change',
+      direction: /drops|falls|down/.test(changeMatch[1]) ? 'drop' : 'rise',
+      percent: parseFloat(changeMatch[2]),
+      windowMs,
+    });
+  }
+
+  const priceMatch = lowerDesc.match(new RegExp(`price(?: is| goes| drops| falls| rises)?\\s*${comparison}\\s*\\$?(\\d[\\d,]*(?:\\.\\d+)?)`));
+  if (priceMatch) {
+    conditions.push({ type: 'token_price', operator: toOperator(priceMatch[1]), usd: parseFloat(priceMatch[2].replace(/,/g, '')) });
+  }
+
+  const balanceMatch = lowerDesc.match(new RegExp(`balance(?: is| goes| drops| falls| rises)?\\s*${comparison}\\s*(\\d+(?:\\.\\d+)?)`));
+  if (balanceMatch) {
+    conditions.push({ type: 'balance', operator: toOperator(balanceMatch[1]), amount: balanceMatch[2] });
+  }
+
+  const congestionMatch = lowerDesc.match(/congestion is (low|medium)/);
+  if (congestionMatch) {
+    conditions.push({ type: 'congestion', maxLevel: congestionMatch[1] as 'low' | 'medium' });
+  }
+
+  if (conditions.length === 0) {
+    return null;
+  }
+
+  const intervalMs = scheduleIntervalMs(schedule);
+  const isRepeating = schedule?.type === 'recurring';
+  const requestedFires = schedule?.maxOccurrences;
+
+  return {
+    conditions,
+    cooldownMs: intervalMs ?? AGENT_CONFIG.TRIGGER_DEFAULT_COOLDOWN_MS,
+    maxFires: Math.min(
+      requestedFires ?? (isRepeating ? AGENT_CONFIG.TRIGGER_DEFAULT_RECURRING_MAX_FIRES : AGENT_CONFIG.TRIGGER_DEFAULT_MAX_FIRES),
+      AGENT_CONFIG.TRIGGER_MAX_FIRES_LIMIT
+    ),
+    fireCount: 0,
+    isActive: true,
+  };
+}
+
+/**
+ * Human-readable description of a trigger condition
+ */
+export function describeTriggerCondition(condition: TriggerCondition): string {
+  switch (condition.type) {
+    case 'gas_price':
+      return `gas ${condition.operator} ${condition.gwei} gwei`;
+    case 'token_price':
+      return `price ${condition.operator} $${condition.usd}`;
+    case 'price_change':
+      return `price ${condition.direction === 'drop' ? 'drops' : 'rises'} ${condition.percent}% within ${Math.round(condition.windowMs / UNIT_MS.hour)}h`;
+    case 'balance':
+      return `balance ${condition.operator} ${condition.amount}`;
+    case 'congestion':
+      return `congestion at most ${condition.maxLevel}`;
+  }
+}
+
+/**
+ * Private: Compare a value against a threshold
+ */
+function compare(value: number, operator: 'below' | 'above', threshold: number): boolean {
+  return operator === 'below' ? value < threshold : value > threshold;
+}
+
+/**
+ * Evaluate trigger conditions against a market snapshot
+ *
+ * `priceHistory` holds earlier price samples for percent-change conditions and
+ * `balance` the account balance for balance conditions (null when unknown).
+ */
+export function evaluateTriggerConditions(
+  conditions: TriggerCondition[],
+  context: MarketContext,
+  priceHistory: PriceSample[],
+  balance: string | null
+): TriggerEvaluation {
+  const now = context.timestamp.getTime();
+  const price = context.tokenPrice !== null ? parseFloat(context.tokenPrice) : null;
+
+  const results = conditions.map(condition => {
+    switch (condition.type) {
+      case 'gas_price': {
+        const gas = parseFloat(context.gasPrice);
+        return { condition, met: compare(gas, condition.operator, condition.gwei), detail: `gas is ${gas} gwei` };
+      }
+      case 'token_price': {
+        if (price === null) {
+          return { condition, met: false, detail: 'price unavailable' };
+        }
+        return { condition, met: compare(price, condition.operator, condition.usd), detail: `price is $${price}` };
+      }
+      case 'price_change': {
+        if (price === null) {
+          return { condition, met: false, detail: 'price unavailable' };
+        }
+        const reference = priceHistory.find(sample => sample.timestamp >= now - condition.windowMs);
+        if (!reference || reference.timestamp >= now) {
+          return { condition, met: false, detail: 'not enough price history yet' };
+        }
+        const change = ((price - reference.price) / reference.price) * 100;
+        const met = condition.direction === 'drop' ? change <= -condition.percent : change >= condition.percent;
+        return { condition, met, detail: `price changed ${change.toFixed(2)}% from $${reference.price}` };
+      }
+      case 'balance': {
+        if (balance === null) {
+          return { condition, met: false, detail: 'balance unavailable' };
+        }
+        const value = parseFloat(balance);
+        return { condition, met: compare(value, condition.operator, parseFloat(condition.amount)), detail: `balance is ${value}` };
+      }
+      case 'congestion': {
+        const met = CONGESTION_ORDER.indexOf(context.networkCongestion) <= CONGESTION_ORDER.indexOf(condition.maxLevel);
+        return { condition, met, detail: `congestion is ${context.networkCongestion}` };
+      }
+    }
+  });
+
+  return {
+    evaluatedAt: context.timestamp,
+    allMet: results.every(result => result.met),
+    results,
+  };
+}
+
+/**
+ * Whether a trigger may fire now (active, under its fire cap and out of cooldown)
+ */
+export function canTriggerFire(trigger: AgentTrigger, now: Date = new Date()): boolean {
+  if (!trigger.isActive || trigger.fireCount >= trigger.maxFires) {
+    return false;
+  }
+  if (trigger.lastFiredAt && now.getTime() - trigger.lastFiredAt.getTime() < trigger.cooldownMs) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Polls market data and fires registered intents when their conditions are met
+ */
+export class TriggerWatcher {
+  private marketDataProvider: MarketDataProvider;
+  private getAccountAddress: () => string | null;
+  private onFire: (triggerId: string, intent: AgentIntent) => Promise<void>;
+  private triggers: Map<string, AgentIntent> = new Map();
+  private priceHistory: Map<string, PriceSample[]> = new Map();
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private isEvaluating = false;
+
+  constructor(
+    marketDataProvider: MarketDataProvider,
+    getAccountAddress: () => string | null,
+    onFire: (triggerId: string, intent: AgentIntent) => Promise<void>
+  ) {
+    this.marketDataProvider = marketDataProvider;
+    this.getAccountAddress = getAccountAddress;
+    this.onFire = onFire;
+  }
+
+  /**
+   * Watch an intent with a trigger
+   */
+  register(triggerId: string, intent: AgentIntent): void {
+    this.triggers.set(triggerId, intent);
+  }
+
+  /**
+   * Stop watching an intent
+   */
+  unregister(triggerId: string): void {
+    this.triggers.delete(triggerId);
+    if (this.triggers.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Start polling
+   */
+  start(intervalMs: number = AGENT_CONFIG.TRIGGER_POLL_INTERVAL_MS): void {
+    if (this.interval) {
+      return;
+    }
+    console.log(`👀 Trigger watcher started (every ${Math.round(intervalMs / 1000)}s)`);
+    this.interval = setInterval(() => {
+      this.evaluateAll().catch(error => console.error('❌ Trigger evaluation failed:', error));
+    }, intervalMs);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      console.log('🛑 Trigger watcher stopped');
+    }
+  }
+
+  isRunning(): boolean {
+    return this.interval !== null;
+  }
+
+  /**
+   * Replace the market data source (e.g. after the executor's provider changes)
+   */
+  setMarketDataProvider(provider: MarketDataProvider): void {
+    this.marketDataProvider = provider;
+    this.priceHistory.clear();
+  }
+
+  /**
+   * Evaluate every registered trigger once and fire those whose conditions hold
+   */
+  async evaluateAll(): Promise<void> {
+    if (this.isEvaluating) {
+      return;
+    }
+    this.isEvaluating = true;
+
+    try {
+      const contexts = new Map<string, MarketContext>();
+
+      for (const [triggerId, intent] of Array.from(this.triggers.entries())) {
+        const trigger = intent.trigger;
+        if (!trigger || !canTriggerFire(trigger)) {
+          continue;
+        }
+
+        const tokenKey = intent.tokenAddress.toLowerCase();
+        let context = contexts.get(tokenKey);
+        if (!context) {
+          context = await this.marketDataProvider.getMarketContext(intent.tokenAddress);
+          contexts.set(tokenKey, context);
+          this.recordPrice(tokenKey, context);
+        }
+
+        const balance = trigger.conditions.some(condition => condition.type === 'balance')
+          ? await this.readBalance(trigger, intent)
+          : null;
+
+        const evaluation = evaluateTriggerConditions(
+          trigger.conditions,
+          context,
+          this.priceHistory.get(tokenKey) || [],
+          balance
+        );
+        trigger.lastEvaluation = evaluation;
+
+        if (evaluation.allMet) {
+          trigger.fireCount++;
+          trigger.lastFiredAt = new Date();
+          console.log(`🎯 Trigger ${triggerId} fired (${trigger.fireCount}/${trigger.maxFires}):`,
+            evaluation.results.map(result => result.detail).join(', '));
+          await this.onFire(triggerId, intent);
+        }
+      }
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  /**
+   * Private: Keep a rolling window of prices for percent-change conditions
+   */
+  private recordPrice(tokenKey: string, context: MarketContext): void {
+    if (context.tokenPrice === null) {
+      return;
+    }
+    const now = context.timestamp.getTime();
+    const samples = (this.priceHistory.get(tokenKey) || [])
+      .filter(sample => sample.timestamp >= now - MAX_PRICE_HISTORY_MS);
+    samples.push({ timestamp: now, price: parseFloat(context.tokenPrice) });
+    this.priceHistory.set(tokenKey, samples);
+  }
+
+  /**
+   * Private: Read the account balance a balance condition refers to
+   */
+  private async readBalance(trigger: AgentTrigger, intent: AgentIntent): Promise<string | null> {
+    const account = this.getAccountAddress();
+    if (!account || !this.marketDataProvider.getTokenBalance) {
+      return null;
+    }
+
+    const condition = trigger.conditions.find(c => c.type === 'balance');
+    const tokenAddress = (condition?.type === 'balance' && condition.tokenAddress) || intent.tokenAddress;
+    try {
+      return await this.marketDataProvider.getTokenBalance(account, tokenAddress);
+    } catch (error) {
+      console.error('❌ Failed to read balance for trigger:', error);
+      return null;
+    }
+  }
+}
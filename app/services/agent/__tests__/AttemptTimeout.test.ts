@@ -0,0 +1,121 @@
+/**
+ * Attempt timeouts: a submission that finishes after its attempt timed out is
+ * recorded on the attempt only, never as an execution or spend
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AgentExecutor } from '@/services/agent/AgentExecutor';
+import { DEFAULT_APPROVAL_POLICY } from '@/services/agent/ApprovalPolicy';
+import { PermissionManager } from '@/services/permissions/PermissionManager';
+import { createActionRegistry } from '@/services/blockchain/ActionRegistry';
+import { AGENT_CONFIG } from '@/lib/constants';
+import type { MarketDataProvider } from '@/services/agent/MarketDataProvider';
+import type { WalletManager } from '@/services/wallet/WalletManager';
+
+const ACCOUNT = '0x1111111111111111111111111111111111111111';
+const TOKEN = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+
+const marketDataProvider: MarketDataProvider = {
+  name: 'fixture',
+  getMarketContext: async () => ({
+    gasPrice: '1',
+    tokenPrice: '1',
+    networkCongestion: 'low',
+    timestamp: new Date(),
+    sources: {
+      gasPrice: { provider: 'fixture', observedAt: new Date(), ageMs: 0 },
+      tokenPrice: { provider: 'fixture', observedAt: new Date(), ageMs: 0 },
+      networkCongestion: { provider: 'fixture', observedAt: new Date(), ageMs: 0 },
+    },
+  }),
+};
+
+// Smart account whose submission only settles when the test says so
+function createWallet() {
+  let settle: (txHash: string) => void = () => undefined;
+  const executeWithPermission = jest.fn(() => new Promise(resolve => {
+    settle = txHash => resolve({ success: true, txHash });
+  }));
+  const smartAccountService = {
+    isInitialized: () => true,
+    getAddress: () => ACCOUNT,
+    createPermission: async () => ({ success: true, permissionId: 'perm_smart' }),
+    getPermission: (id: string) => ({ id, spender: RECIPIENT }),
+    getPermissions: () => [],
+    debugPermissions: () => undefined,
+    executeWithPermission,
+  };
+  const walletManager = {
+    isConnected: () => true,
+    getSigner: () => null,
+    getSmartAccountService: () => smartAccountService,
+  } as unknown as WalletManager;
+  return { walletManager, executeWithPermission, settle: (txHash: string) => settle(txHash) };
+}
+
+// Let pending promise callbacks run without moving the fake clock
+async function flush(): Promise<void> {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('AgentExecutor attempt timeouts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('keeps the execution failed and the spend unchanged when the submission lands after the timeout', async () => {
+    const { walletManager, executeWithPermission, settle } = createWallet();
+    const permissionManager = new PermissionManager(walletManager);
+    const permission = await permissionManager.createPermission({
+      tokenAddress: TOKEN,
+      maxSpendAmount: '100',
+      startTime: new Date(Date.now() - 60 * 1000),
+      endTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      allowedContracts: [RECIPIENT],
+    });
+    const actionRegistry = createActionRegistry();
+    jest.spyOn(actionRegistry, 'getDecimals').mockResolvedValue(6);
+    const recordSpend = jest.spyOn(permissionManager, 'recordSpend');
+    const executor = new AgentExecutor(permissionManager, walletManager, undefined, undefined, {
+      marketDataProvider,
+      actionRegistry,
+      llmProvider: null,
+      approvalPolicy: { ...DEFAULT_APPROVAL_POLICY, enabled: false },
+    });
+
+    const processing = executor.processIntent({
+      description: `Send 5 USDC to ${RECIPIENT}`,
+      tokenAddress: TOKEN,
+      amount: '5',
+      contractAddress: RECIPIENT,
+      permissionId: permission.id,
+    });
+    while (executeWithPermission.mock.calls.length === 0) {
+      await jest.advanceTimersByTimeAsync(0);
+    }
+    await jest.advanceTimersByTimeAsync(AGENT_CONFIG.EXECUTION_TIMEOUT_MS);
+    const execution = await processing;
+
+    expect(execution.status).toBe('failed');
+    expect(execution.attempts).toHaveLength(1);
+    expect(execution.attempts?.[0].outcome).toBe('timed_out');
+    expect(execution.attempts?.[0].phase).toBe('submission');
+
+    settle('0xlate');
+    await flush();
+
+    expect(execution.status).toBe('failed');
+    expect(execution.transactionHash).toBeUndefined();
+    expect(execution.attempts?.[0].lateResult).toMatchObject({ outcome: 'completed', transactionHashes: ['0xlate'] });
+    expect(recordSpend).not.toHaveBeenCalled();
+    expect(permissionManager.getSpendTracking(permission.id)?.totalSpent).toBe('0');
+  });
+});
@@ -3,4 +3,46 @@
  */
 
 export { AgentExecutor } from './AgentExecutor';
-export type { AgentIntent, AgentDecision, AgentExecution, MarketContext } from './AgentExecutor';
\ No newline at end of file
+export { AgentRegistry } from './AgentRegistry';
+export type { AgentProfile, AgentProfileInput } from './AgentRegistry';
+export type { AgentIntent, AgentSchedule, CalendarRule, AgentDecision, DecisionSource, AgentExecution, MarketContext, MarketDataSource, AgentExecutorOptions } from './AgentExecutor';
+export { RpcMarketDataProvider, FixtureMarketDataProvider, createMarketDataProvider } from './MarketDataProvider';
+export type { MarketDataProvider, PriceSourceConfig, PriceFeedFile, MarketDataFixture } from './MarketDataProvider';
+export { parseAgentDecision, parseAgentPlan, extractJsonObject } from './DecisionParser';
+export { buildPlanFromTemplate, isMultiStepIntent, splitPlanClauses, KNOWN_TOKENS } from './PlanBuilder';
+export type { PermissionResolver } from './PlanBuilder';
+export { LLMDecisionMaker } from './DecisionMaker';
+export { OpenAICompatibleProvider, ScriptedProvider, FailoverLLMProvider, createLLMProvider, getConfiguredProviders } from './LLMProvider';
+export type { LLMProvider, AgentLLMSettings, CompletionRequest, CompletionResult, TokenUsage, LLMUsage, LLMExchange, ScriptedReply } from './LLMProvider';
+export type { PermissionSummary } from './DecisionMaker';
+export {
+  computeNextExecution,
+  describeSchedule,
+  getNextCronOccurrence,
+  getNextCalendarOccurrence,
+  parseCronExpression,
+  parseCalendarSchedule,
+  planDueOccurrences,
+  getOccurrenceId,
+  parseScheduleFromDescription,
+} from './ScheduleCalculator';
+export type { OccurrencePlan } from './ScheduleCalculator';
+export { TriggerWatcher, parseTriggerFromDescription, evaluateTriggerConditions, describeTriggerCondition } from './TriggerWatcher';
+export type { AgentTrigger, TriggerCondition, TriggerEvaluation, ProcessIntentOptions, ScheduleOccurrence } from './AgentExecutor';
+export type { AgentActionParams, AgentPlan, AgentPlanStep, PlanStepResult, ExecutionSimulation, DecisionProvenance, ExecutionExport, ApprovalRequest, ExecutionAttempt } from './AgentExecutor';
+export { extractIntentWithGrammar, resolveIntentPermission, compareExtractions, getTokenSymbol } from './IntentParser';
+export type { IntentFields, ExtractedIntent, ParsedIntent, BoundsValidator } from './IntentParser';
+export { PACING_LABELS, computePacedAmount, listRemainingRuns, projectSpend } from './BudgetPacer';
+export type { PacingMode, PacingInput, SpendPoint, SchedulePacingReport } from './BudgetPacer';
+export { DEFAULT_APPROVAL_POLICY, getApprovalReasons, collectCounterparties } from './ApprovalPolicy';
+export type { ApprovalPolicy, KnownCounterparties } from './ApprovalPolicy';
+export { isRetryableError, getRetryDelay, checkGasCeiling, abortable } from './RetryPolicy';
+export type { AttemptPhase, AttemptContext } from './RetryPolicy';
+export { scanForInjection, scanModelOutput, buildUntrustedBlock, describeFindings, UNTRUSTED_INPUT_RULES } from './PromptGuard';
+export type { InjectionFinding, InjectionRule } from './PromptGuard';
+export { StrategyTemplateLibrary, BUILT_IN_TEMPLATES, applyTemplate, defaultTemplateValues, validateTemplateValue, exportTemplates, parseTemplateFile } from './StrategyTemplates';
+export type { StrategyTemplate, StrategyDraft, StrategyTemplateFile, TemplateParameter, TemplateParameterType } from './StrategyTemplates';
+export { runBacktest, parseMarketSeries, fetchChainMarketSeries, alignPermissionWindow } from './Backtester';
+export type { BacktestConfig, BacktestReport, BacktestRun, BacktestStage, MarketSample } from './Backtester';
+export { replayDecisions, getReplaySkipReason } from './DecisionReplay';
+export type { ReplayCandidate, ReplayedDecision, ReplayFlip, DecisionReplayResult, SkippedReplay, DecisionReplayReport } from './DecisionReplay';
@@ -0,0 +1,374 @@
+/**
+ * Agent Action Registry
+ * Turns an agent intent into transaction requests, one builder per action type
+ */
+
+import { ethers } from 'ethers';
+import { NETWORK_CONFIG } from '@/lib/constants';
+import { TokenAmount, getAmountDecimals, registerTokenDecimals } from '@/lib/tokenAmount';
+import { AgentActionType } from '@/types/agent';
+import type { AgentIntent } from '@/services/agent/AgentExecutor';
+import type { TransactionRequest } from './TransactionService';
+import {
+  Erc4626StakeAdapter,
+  StakeAdapter,
+  SwapAdapter,
+  UniswapV3SwapAdapter,
+} from './ProtocolAdapters';
+
+/**
+ * What the permission allows an action to touch
+ */
+export interface ActionScope {
+  tokenAddress: string;
+  allowedContracts: string[];
+  remainingAllowance: string; // Decimal token units
+  decimals?: number; // Of the permitted token; from the token registry when unset
+}
+
+export interface ActionBuildContext {
+  intent: AgentIntent;
+  scope: ActionScope;
+  account: string; // Account the action runs from (receives swap output and vault shares)
+  permissionId: string; // Attached to every request for gasless execution
+  amount: bigint; // intent.amount in token base units
+  swapAdapter?: SwapAdapter;
+  stakeAdapter?: StakeAdapter;
+  getDecimals(tokenAddress: string): Promise<number>;
+}
+
+export interface BuiltAction {
+  type: AgentActionType;
+  requests: TransactionRequest[]; // Executed in order
+  spendAmount: string; // Decimal token units that leave the account
+  balanceDeltas: TokenDelta[]; // Expected effect on the account's balances
+  summary: string;
+}
+
+/**
+ * Expected change of one token balance, in decimal token units
+ */
+export interface TokenDelta {
+  tokenAddress: string;
+  amount: string; // Negative when tokens leave the account
+  isMinimum?: boolean; // At least this much, e.g. swap output bounded by slippage
+}
+
+export interface ActionBuilder {
+  readonly type: AgentActionType;
+  build(context: ActionBuildContext): Promise<BuiltAction>;
+}
+
+const ERC20_ABI = [
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function decimals() view returns (uint8)',
+];
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+const DEFAULT_SWAP_ADAPTER = 'uniswap-v3';
+const DEFAULT_STAKE_ADAPTER = 'erc4626';
+
+function isNativeToken(tokenAddress: string): boolean {
+  return tokenAddress.toLowerCase() === ethers.ZeroAddress;
+}
+
+/**
+ * Check that an action stays inside the permission scope
+ * Throws with the violated constraint
+ */
+export function assertWithinScope(
+  intent: AgentIntent,
+  scope: ActionScope,
+  options: { target: string; checkAllowance: boolean }
+): void {
+  if (scope.tokenAddress.toLowerCase() !== intent.tokenAddress.toLowerCase()) {
+    throw new Error(`Action outside permission scope: token ${intent.tokenAddress} is not the permitted token`);
+  }
+
+  if (!scope.allowedContracts.some(addr => addr.toLowerCase() === options.target.toLowerCase())) {
+    throw new Error(`Action outside permission scope: ${options.target} is not an allowed contract`);
+  }
+
+  const decimals = getAmountDecimals(scope);
+  let amount: TokenAmount;
+  try {
+    amount = TokenAmount.parse(intent.amount, decimals);
+  } catch {
+    throw new Error(`Invalid amount: ${intent.amount}`);
+  }
+  if (amount.isZero()) {
+    throw new Error(`Invalid amount: ${intent.amount}`);
+  }
+
+  if (options.checkAllowance && amount.gt(TokenAmount.parse(scope.remainingAllowance, decimals))) {
+    throw new Error(`Action outside permission scope: ${intent.amount} exceeds the remaining allowance of ${scope.remainingAllowance}`);
+  }
+}
+
+function approveRequest(token: string, spender: string, amount: bigint, permissionId: string): TransactionRequest {
+  return {
+    to: token,
+    data: erc20Interface.encodeFunctionData('approve', [spender, amount]),
+    permissionId,
+  };
+}
+
+/**
+ * Native or ERC-20 transfer to the intent's target address
+ */
+export const transferBuilder: ActionBuilder = {
+  type: 'transfer',
+  async build({ intent, scope, amount, permissionId }) {
+    const recipient = intent.contractAddress;
+    assertWithinScope(intent, scope, { target: recipient, checkAllowance: true });
+
+    const request: TransactionRequest = isNativeToken(intent.tokenAddress)
+      ? { to: recipient, value: `0x${amount.toString(16)}`, permissionId }
+      : {
+          to: intent.tokenAddress,
+          data: erc20Interface.encodeFunctionData('transfer', [recipient, amount]),
+          permissionId,
+        };
+
+    return {
+      type: 'transfer',
+      requests: [request],
+      spendAmount: intent.amount,
+      balanceDeltas: [{ tokenAddress: intent.tokenAddress, amount: `-${intent.amount}` }],
+      summary: `Transfer ${intent.amount} to ${recipient}`,
+    };
+  },
+};
+
+/**
+ * ERC-20 approval for the intent's target contract
+ */
+export const approveBuilder: ActionBuilder = {
+  type: 'approve',
+  async build({ intent, scope, amount, permissionId }) {
+    const spender = intent.contractAddress;
+    assertWithinScope(intent, scope, { target: spender, checkAllowance: true });
+
+    if (isNativeToken(intent.tokenAddress)) {
+      throw new Error('The native token cannot be approved');
+    }
+
+    return {
+      type: 'approve',
+      requests: [approveRequest(intent.tokenAddress, spender, amount, permissionId)],
+      spendAmount: intent.amount, // The spender may take it at any time, so it counts as spent
+      balanceDeltas: [],
+      summary: `Approve ${spender} to spend ${intent.amount}`,
+    };
+  },
+};
+
+/**
+ * Swap through the intent's target router: approve the router, then swap
+ */
+export const swapBuilder: ActionBuilder = {
+  type: 'swap',
+  async build({ intent, scope, amount, account, permissionId, swapAdapter, getDecimals }) {
+    const router = intent.contractAddress;
+    assertWithinScope(intent, scope, { target: router, checkAllowance: true });
+
+    const action = intent.action;
+    if (!swapAdapter) {
+      throw new Error(`Unknown swap adapter: ${action?.adapter}`);
+    }
+    if (!action?.tokenOut) {
+      throw new Error('Swap needs an output token');
+    }
+    if (!action.minAmountOut) {
+      throw new Error('Swap needs a minimum output amount to bound slippage');
+    }
+    if (isNativeToken(intent.tokenAddress)) {
+      throw new Error('Swaps from the native token are not supported; wrap it first');
+    }
+
+    const minAmountOut = ethers.parseUnits(action.minAmountOut, await getDecimals(action.tokenOut));
+    const swap = swapAdapter.encodeSwap({
+      router,
+      tokenIn: intent.tokenAddress,
+      tokenOut: action.tokenOut,
+      amountIn: amount,
+      minAmountOut,
+      recipient: account,
+      fee: action.fee,
+    });
+
+    return {
+      type: 'swap',
+      requests: [
+        approveRequest(intent.tokenAddress, router, amount, permissionId),
+        { to: swap.to, data: swap.data, permissionId },
+      ],
+      spendAmount: intent.amount,
+      balanceDeltas: [
+        { tokenAddress: intent.tokenAddress, amount: `-${intent.amount}` },
+        { tokenAddress: action.tokenOut, amount: action.minAmountOut, isMinimum: true },
+      ],
+      summary: `Swap ${intent.amount} for at least ${action.minAmountOut} of ${action.tokenOut} via ${swapAdapter.name}`,
+    };
+  },
+};
+
+/**
+ * Deposit into the intent's target vault: approve the vault, then deposit
+ */
+export const stakeBuilder: ActionBuilder = {
+  type: 'stake',
+  async build({ intent, scope, amount, account, permissionId, stakeAdapter }) {
+    const vault = intent.contractAddress;
+    assertWithinScope(intent, scope, { target: vault, checkAllowance: true });
+
+    if (!stakeAdapter) {
+      throw new Error(`Unknown stake adapter: ${intent.action?.adapter}`);
+    }
+    if (isNativeToken(intent.tokenAddress)) {
+      throw new Error('Staking the native token is not supported; wrap it first');
+    }
+
+    const deposit = stakeAdapter.encodeStake({ vault, amount, account });
+    return {
+      type: 'stake',
+      requests: [
+        approveRequest(intent.tokenAddress, vault, amount, permissionId),
+        { to: deposit.to, data: deposit.data, permissionId },
+      ],
+      spendAmount: intent.amount,
+      balanceDeltas: [{ tokenAddress: intent.tokenAddress, amount: `-${intent.amount}` }],
+      summary: `Stake ${intent.amount} in ${vault} via ${stakeAdapter.name}`,
+    };
+  },
+};
+
+/**
+ * Withdraw from the intent's target vault back to the account
+ */
+export const unstakeBuilder: ActionBuilder = {
+  type: 'unstake',
+  async build({ intent, scope, amount, account, permissionId, stakeAdapter }) {
+    const vault = intent.contractAddress;
+    // Withdrawals return tokens, so they do not use up the allowance
+    assertWithinScope(intent, scope, { target: vault, checkAllowance: false });
+
+    if (!stakeAdapter) {
+      throw new Error(`Unknown stake adapter: ${intent.action?.adapter}`);
+    }
+
+    const withdrawal = stakeAdapter.encodeUnstake({ vault, amount, account });
+    return {
+      type: 'unstake',
+      requests: [{ to: withdrawal.to, data: withdrawal.data, permissionId }],
+      spendAmount: '0',
+      balanceDeltas: [{ tokenAddress: intent.tokenAddress, amount: intent.amount }],
+      summary: `Unstake ${intent.amount} from ${vault} via ${stakeAdapter.name}`,
+    };
+  },
+};
+
+/**
+ * Registry of action builders and the protocol adapters they use
+ */
+export class ActionRegistry {
+  private builders: Map<AgentActionType, ActionBuilder> = new Map();
+  private swapAdapters: Map<string, SwapAdapter> = new Map();
+  private stakeAdapters: Map<string, StakeAdapter> = new Map();
+  private decimals: Map<string, number> = new Map();
+  private rpcUrl: string;
+  private provider: ethers.JsonRpcProvider | null = null;
+
+  constructor(rpcUrl?: string) {
+    this.rpcUrl = rpcUrl || process.env.NEXT_PUBLIC_RPC_URL || NETWORK_CONFIG[84532].rpcUrl;
+  }
+
+  register(builder: ActionBuilder): void {
+    this.builders.set(builder.type, builder);
+  }
+
+  registerSwapAdapter(adapter: SwapAdapter): void {
+    this.swapAdapters.set(adapter.id, adapter);
+  }
+
+  registerStakeAdapter(adapter: StakeAdapter): void {
+    this.stakeAdapters.set(adapter.id, adapter);
+  }
+
+  getSupportedActions(): AgentActionType[] {
+    return Array.from(this.builders.keys());
+  }
+
+  /**
+   * Build the transaction requests for an intent (plain transfer when it has no action)
+   */
+  async build(
+    intent: AgentIntent,
+    scope: ActionScope,
+    options: { account: string; permissionId: string }
+  ): Promise<BuiltAction> {
+    const type = intent.action?.type || 'transfer';
+    const builder = this.builders.get(type);
+    if (!builder) {
+      throw new Error(`Unsupported action type: ${type}`);
+    }
+
+    // Amounts are accounted at the permission's decimals, so they must be the token's
+    const decimals = await this.getDecimals(intent.tokenAddress);
+    if (scope.decimals !== undefined && scope.decimals !== decimals) {
+      throw new Error(
+        `The permission records ${scope.decimals} decimals for ${intent.tokenAddress}, but the token has ${decimals}; ` +
+        'revoke it and grant a new permission'
+      );
+    }
+    return builder.build({
+      intent,
+      scope,
+      account: options.account,
+      permissionId: options.permissionId,
+      amount: ethers.parseUnits(intent.amount, decimals),
+      swapAdapter: this.swapAdapters.get(intent.action?.adapter || DEFAULT_SWAP_ADAPTER),
+      stakeAdapter: this.stakeAdapters.get(intent.action?.adapter || DEFAULT_STAKE_ADAPTER),
+      getDecimals: tokenAddress => this.getDecimals(tokenAddress),
+    });
+  }
+
+  /**
+   * Read a token's decimals (18 for the native token), cached per address
+   */
+  async getDecimals(tokenAddress: string): Promise<number> {
+    if (isNativeToken(tokenAddress)) {
+      return 18;
+    }
+
+    const key = tokenAddress.toLowerCase();
+    const cached = this.decimals.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    if (!this.provider) {
+      this.provider = new ethers.JsonRpcProvider(this.rpcUrl);
+    }
+    const token = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
+    const decimals = Number(await token.decimals());
+    this.decimals.set(key, decimals);
+    registerTokenDecimals(tokenAddress, decimals); // So allowance accounting uses them too
+    return decimals;
+  }
+}
+
+/**
+ * Registry with the built-in builders and adapters
+ */
+export function createActionRegistry(rpcUrl?: string): ActionRegistry {
+  const registry = new ActionRegistry(rpcUrl);
+  [transferBuilder, approveBuilder, swapBuilder, stakeBuilder, unstakeBuilder].forEach(builder =>
+    registry.register(builder)
+  );
+  registry.registerSwapAdapter(new UniswapV3SwapAdapter());
+  registry.registerStakeAdapter(new Erc4626StakeAdapter());
+  return registry;
+}
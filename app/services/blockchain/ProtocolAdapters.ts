@@ -0,0 +1,97 @@
+/**
+ * Protocol Adapters
+ * Encode swap and stake calls for the protocols agent actions can use
+ */
+
+import { ethers } from 'ethers';
+
+export interface EncodedCall {
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+export interface SwapParams {
+  router: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  minAmountOut: bigint;
+  recipient: string;
+  fee?: number; // Pool fee tier in hundredths of a bip
+}
+
+export interface SwapAdapter {
+  readonly id: string;
+  readonly name: string;
+  encodeSwap(params: SwapParams): EncodedCall;
+}
+
+export interface StakeParams {
+  vault: string;
+  amount: bigint;
+  account: string; // Receiver of shares on stake, owner and receiver on unstake
+}
+
+export interface StakeAdapter {
+  readonly id: string;
+  readonly name: string;
+  encodeStake(params: StakeParams): EncodedCall;
+  encodeUnstake(params: StakeParams): EncodedCall;
+}
+
+const UNISWAP_V3_ROUTER_ABI = [
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)',
+];
+
+const ERC4626_ABI = [
+  'function deposit(uint256 assets, address receiver) returns (uint256 shares)',
+  'function withdraw(uint256 assets, address receiver, address owner) returns (uint256 shares)',
+];
+
+/**
+ * Uniswap V3 SwapRouter02 single-pool exact input swaps
+ */
+export class UniswapV3SwapAdapter implements SwapAdapter {
+  readonly id = 'uniswap-v3';
+  readonly name = 'Uniswap V3';
+  private routerInterface = new ethers.Interface(UNISWAP_V3_ROUTER_ABI);
+
+  encodeSwap(params: SwapParams): EncodedCall {
+    return {
+      to: params.router,
+      data: this.routerInterface.encodeFunctionData('exactInputSingle', [{
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        fee: params.fee ?? 3000,
+        recipient: params.recipient,
+        amountIn: params.amountIn,
+        amountOutMinimum: params.minAmountOut,
+        sqrtPriceLimitX96: 0,
+      }]),
+    };
+  }
+}
+
+/**
+ * ERC-4626 tokenized vault deposits and withdrawals
+ */
+export class Erc4626StakeAdapter implements StakeAdapter {
+  readonly id = 'erc4626';
+  readonly name = 'ERC-4626 Vault';
+  private vaultInterface = new ethers.Interface(ERC4626_ABI);
+
+  encodeStake(params: StakeParams): EncodedCall {
+    return {
+      to: params.vault,
+      data: this.vaultInterface.encodeFunctionData('deposit', [params.amount, params.account]),
+    };
+  }
+
+  encodeUnstake(params: StakeParams): EncodedCall {
+    return {
+      to: params.vault,
+      data: this.vaultInterface.encodeFunctionData('withdraw', [params.amount, params.account, params.account]),
+    };
+  }
+}
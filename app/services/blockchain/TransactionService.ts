@@ -4,6 +4,8 @@
  */
 
 import { SmartAccountService } from '@/services/wallet/SmartAccountService';
+import { getAmountDecimals, toBaseUnits } from '@/lib/tokenAmount';
+import type { ERC7715Permission } from '@/types/permissions';
 
 export interface TransactionRequest {
   to: string;
@@ -73,6 +75,46 @@ export class TransactionService {
     }
   }
 
+  /**
+   * Execute several requests as one all-or-nothing Smart Account batch
+   */
+  async executeBatch(requests: TransactionRequest[]): Promise<TransactionResult> {
+    if (!this.smartAccountService.isInitialized()) {
+      throw new Error('Smart Account not initialized');
+    }
+
+    try {
+      console.log(`🚀 Executing gasless batch of ${requests.length} requests via Smart Account...`);
+
+      const result = await this.smartAccountService.executeBatchWithPermission(
+        requests.map(request => ({
+          to: request.to as any,
+          value: request.value ? this.parseValueToWei(request.value) : undefined,
+          data: request.data as any,
+          permissionId: request.permissionId,
+        }))
+      );
+
+      if (!result.success || !result.txHash) {
+        throw new Error(result.error || 'Gasless batch failed');
+      }
+
+      console.log('✅ Gasless batch executed:', result.txHash);
+      console.log(`🔗 View on BaseScan: https://sepolia-explorer.base.org/tx/${result.txHash}`);
+
+      return {
+        hash: result.txHash,
+        status: 'confirmed',
+        gasUsed: '0', // Gasless transaction
+        isGasless: true,
+      };
+
+    } catch (error) {
+      console.error('❌ Gasless batch failed:', error);
+      throw new Error(`Gasless batch failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Create a simple ETH transfer transaction
    */
@@ -87,34 +129,39 @@ export class TransactionService {
   }
 
   /**
-   * Create an ERC-20 token transfer transaction
+   * Create an ERC-20 transfer of the permission's token
+   * `amount` is in decimal token units, converted with the decimals recorded on the permission
    */
-  createTokenTransfer(tokenAddress: string, to: string, amount: string, permissionId: string): TransactionRequest {
+  createTokenTransfer(
+    permission: Pick<ERC7715Permission, 'id' | 'tokenAddress' | 'decimals'>,
+    to: string,
+    amount: string
+  ): TransactionRequest {
     // ERC-20 transfer function signature: transfer(address,uint256)
     const functionSignature = '0xa9059cbb';
     
     // Encode parameters (simplified - in production use a proper ABI encoder)
     const toAddress = to.slice(2).padStart(64, '0'); // Remove 0x and pad to 32 bytes
-    const amountHex = parseInt(amount).toString(16).padStart(64, '0'); // Convert to hex and pad
+    const amountHex = toBaseUnits(amount, getAmountDecimals(permission)).toString(16).padStart(64, '0'); // Convert to hex and pad
     
     const data = functionSignature + toAddress + amountHex;
     
     return {
-      to: tokenAddress,
+      to: permission.tokenAddress,
       data,
-      permissionId,
+      permissionId: permission.id,
     };
   }
 
   /**
-   * Convert ETH to Wei safely
+   * Convert ETH to Wei exactly
    */
   private ethToWei(eth: string): bigint {
-    const ethAmount = parseFloat(eth);
-    if (isNaN(ethAmount) || ethAmount < 0) {
+    try {
+      return toBaseUnits(eth, 18);
+    } catch {
       throw new Error(`Invalid ETH amount: ${eth}`);
     }
-    return BigInt(Math.floor(ethAmount * 1e18));
   }
 
   /**
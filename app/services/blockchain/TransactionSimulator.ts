@@ -0,0 +1,263 @@
+/**
+ * Transaction Simulator
+ * Dry-runs built agent actions against the current chain state without broadcasting
+ *
+ * Uses eth_simulateV1 so later calls see the effects of earlier ones (approve,
+ * then swap), and reads balances inside the same simulated block. Nodes without
+ * eth_simulateV1 fall back to one eth_call per request with predicted balances.
+ */
+
+import { ethers } from 'ethers';
+import { NETWORK_CONFIG } from '@/lib/constants';
+import type { BuiltAction } from './ActionRegistry';
+
+export interface CallSimulation {
+  to: string;
+  success: boolean;
+  revertReason?: string;
+  gasUsed?: string;
+}
+
+export interface BalanceChange {
+  tokenAddress: string;
+  before: string; // Decimal token units
+  after: string;
+  delta: string;
+  isMinimum?: boolean; // Delta is a lower bound (swap output)
+  source: 'simulated' | 'predicted'; // Read from the simulated state, or before + expected delta
+}
+
+export interface SimulationResult {
+  success: boolean; // Every call succeeds
+  method: 'eth_simulateV1' | 'eth_call';
+  calls: CallSimulation[];
+  balanceChanges: BalanceChange[];
+  simulatedAt: Date;
+  note?: string; // Caveats about how the result was obtained
+}
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address account) view returns (uint256)'];
+const erc20Interface = new ethers.Interface(ERC20_BALANCE_ABI);
+
+const ERROR_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+/**
+ * Turn revert data into a readable reason
+ */
+export function decodeRevertReason(data?: string | null): string {
+  if (!data || data === '0x') {
+    return 'Reverted without a reason';
+  }
+
+  try {
+    if (data.startsWith(ERROR_SELECTOR)) {
+      return ethers.AbiCoder.defaultAbiCoder().decode(['string'], `0x${data.slice(10)}`)[0];
+    }
+    if (data.startsWith(PANIC_SELECTOR)) {
+      const code = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], `0x${data.slice(10)}`)[0];
+      return `Panic (code 0x${code.toString(16)})`;
+    }
+  } catch {
+    // Fall through to the raw data
+  }
+
+  return `Reverted with custom error ${data.slice(0, 10)}`;
+}
+
+function isNativeToken(tokenAddress: string): boolean {
+  return tokenAddress.toLowerCase() === ethers.ZeroAddress;
+}
+
+export class TransactionSimulator {
+  private provider: ethers.JsonRpcProvider;
+
+  constructor(rpcUrl?: string) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl || process.env.NEXT_PUBLIC_RPC_URL || NETWORK_CONFIG[84532].rpcUrl);
+  }
+
+  /**
+   * Simulate the actions' requests in order from `account`
+   */
+  async simulate(
+    account: string,
+    actions: BuiltAction[],
+    getDecimals: (tokenAddress: string) => Promise<number>
+  ): Promise<SimulationResult> {
+    const requests = actions.reduce((all, action) => all.concat(action.requests), [] as BuiltAction['requests']);
+    const expected = this.sumDeltas(actions);
+    const tokens = Object.keys(expected);
+
+    const decimals: Record<string, number> = {};
+    for (const token of tokens) {
+      decimals[token] = await getDecimals(token);
+    }
+    const before = await this.readBalances(account, tokens);
+
+    try {
+      return await this.simulateBlock(account, requests, tokens, before, expected, decimals);
+    } catch (error) {
+      console.warn('⚠️ eth_simulateV1 unavailable, falling back to eth_call:', error instanceof Error ? error.message : error);
+    }
+
+    const calls: CallSimulation[] = [];
+    for (const request of requests) {
+      try {
+        await this.provider.call({ from: account, to: request.to, data: request.data, value: request.value });
+        calls.push({ to: request.to, success: true });
+      } catch (error) {
+        calls.push({ to: request.to, success: false, revertReason: this.extractRevertReason(error) });
+      }
+    }
+
+    return {
+      success: calls.every(call => call.success),
+      method: 'eth_call',
+      calls,
+      balanceChanges: tokens.map(token => this.predictChange(token, before[token], expected[token], decimals[token])),
+      simulatedAt: new Date(),
+      note: requests.length > 1
+        ? 'Each call was simulated on its own, so calls that rely on earlier ones (e.g. a swap after its approval) may show reverts that would not happen in sequence'
+        : undefined,
+    };
+  }
+
+  /**
+   * Private: Run every request plus balance reads in one simulated block
+   */
+  private async simulateBlock(
+    account: string,
+    requests: BuiltAction['requests'],
+    tokens: string[],
+    before: Record<string, bigint>,
+    expected: Record<string, { amount: number; isMinimum: boolean }>,
+    decimals: Record<string, number>
+  ): Promise<SimulationResult> {
+    // Native balances cannot be read with a call, so those stay predicted
+    const erc20Tokens = tokens.filter(token => !isNativeToken(token));
+    const balanceCalls = erc20Tokens.map(token => ({
+      from: account,
+      to: token,
+      data: erc20Interface.encodeFunctionData('balanceOf', [account]),
+    }));
+
+    const blocks = await this.provider.send('eth_simulateV1', [{
+      blockStateCalls: [{
+        calls: [
+          ...requests.map(request => ({ from: account, to: request.to, data: request.data, value: request.value })),
+          ...balanceCalls,
+        ],
+      }],
+      validation: false,
+    }, 'latest']);
+
+    const results: Array<{ status: string; returnData: string; gasUsed: string; error?: { message?: string; data?: string } }> = blocks[0].calls;
+    const calls: CallSimulation[] = requests.map((request, index) => {
+      const result = results[index];
+      const success = result.status === '0x1';
+
+      let revertReason: string | undefined;
+      if (!success) {
+        const revertData = result.error?.data || result.returnData;
+        revertReason = revertData && revertData !== '0x'
+          ? decodeRevertReason(revertData)
+          : result.error?.message || decodeRevertReason(revertData);
+      }
+
+      return {
+        to: request.to,
+        success,
+        revertReason,
+        gasUsed: BigInt(result.gasUsed).toString(),
+      };
+    });
+
+    const balanceChanges = tokens.map(token => {
+      const index = erc20Tokens.indexOf(token);
+      const read = index === -1 ? null : results[requests.length + index];
+      if (!read || read.status !== '0x1') {
+        return this.predictChange(token, before[token], expected[token], decimals[token]);
+      }
+
+      const after = BigInt(erc20Interface.decodeFunctionResult('balanceOf', read.returnData)[0]);
+      return {
+        tokenAddress: token,
+        before: ethers.formatUnits(before[token], decimals[token]),
+        after: ethers.formatUnits(after, decimals[token]),
+        delta: ethers.formatUnits(after - before[token], decimals[token]),
+        source: 'simulated' as const,
+      };
+    });
+
+    return {
+      success: calls.every(call => call.success),
+      method: 'eth_simulateV1',
+      calls,
+      balanceChanges,
+      simulatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Private: Expected balance change per token across all actions
+   */
+  private sumDeltas(actions: BuiltAction[]): Record<string, { amount: number; isMinimum: boolean }> {
+    const totals: Record<string, { amount: number; isMinimum: boolean }> = {};
+    actions.forEach(action => {
+      action.balanceDeltas.forEach(delta => {
+        const key = delta.tokenAddress.toLowerCase();
+        const total = totals[key] || { amount: 0, isMinimum: false };
+        total.amount += parseFloat(delta.amount);
+        total.isMinimum = total.isMinimum || Boolean(delta.isMinimum);
+        totals[key] = total;
+      });
+    });
+    return totals;
+  }
+
+  /**
+   * Private: Before balance plus the expected delta
+   */
+  private predictChange(
+    token: string,
+    before: bigint,
+    expected: { amount: number; isMinimum: boolean },
+    decimals: number
+  ): BalanceChange {
+    const delta = ethers.parseUnits(expected.amount.toFixed(Math.min(decimals, 6)), decimals);
+    return {
+      tokenAddress: token,
+      before: ethers.formatUnits(before, decimals),
+      after: ethers.formatUnits(before + delta, decimals),
+      delta: ethers.formatUnits(delta, decimals),
+      isMinimum: expected.isMinimum || undefined,
+      source: 'predicted',
+    };
+  }
+
+  /**
+   * Private: Current balances of the account
+   */
+  private async readBalances(account: string, tokens: string[]): Promise<Record<string, bigint>> {
+    const balances: Record<string, bigint> = {};
+    for (const token of tokens) {
+      if (isNativeToken(token)) {
+        balances[token] = await this.provider.getBalance(account);
+      } else {
+        const contract = new ethers.Contract(token, ERC20_BALANCE_ABI, this.provider);
+        balances[token] = BigInt(await contract.balanceOf(account));
+      }
+    }
+    return balances;
+  }
+
+  /**
+   * Private: Revert reason from an eth_call error
+   */
+  private extractRevertReason(error: unknown): string {
+    if (ethers.isError(error, 'CALL_EXCEPTION')) {
+      return error.reason || decodeRevertReason(error.data);
+    }
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Agent Event Bus
+ * Typed stream of agent and permission lifecycle events
+ *
+ * PermissionManager and AgentExecutor emit here as things happen, so the
+ * dashboard and other listeners subscribe instead of polling the getters.
+ * Events carry ids and the changed values; read the rest from the services.
+ */
+
+import { Observable, Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import type { AgentDecision, AgentExecution } from '@/services/agent/AgentExecutor';
+import type { ERC7715Permission } from '@/types/permissions';
+
+export type AgentEventPayload =
+  | { type: 'execution_created'; execution: AgentExecution }
+  | { type: 'decision_made'; executionId: string; decision: AgentDecision }
+  | { type: 'execution_submitted'; executionId: string; requestCount: number }
+  | { type: 'execution_confirmed'; executionId: string; transactionHash: string }
+  | { type: 'execution_failed'; executionId: string; error: string }
+  | { type: 'execution_updated'; executionId: string; status: AgentExecution['status'] } // Settled with any status but failed
+  | { type: 'schedule_fired'; scheduleId: string; occurrenceId: string; scheduledFor: Date }
+  | { type: 'permission_created'; permission: ERC7715Permission }
+  | { type: 'permission_revoked'; permissionId: string }
+  | { type: 'permission_expired'; permissionId: string }
+  | { type: 'allowance_low'; permissionId: string; remainingAllowance: string; maxSpendAmount: string };
+
+export type AgentEvent = AgentEventPayload & { at: Date };
+
+export type AgentEventType = AgentEvent['type'];
+
+export const AGENT_EVENT_LABELS: Record<AgentEventType, string> = {
+  execution_created: '🆕 Execution created',
+  decision_made: '🧠 Decision made',
+  execution_submitted: '📤 Submitted',
+  execution_confirmed: '✅ Confirmed',
+  execution_failed: '❌ Failed',
+  execution_updated: '🔄 Execution updated',
+  schedule_fired: '⏰ Schedule fired',
+  permission_created: '🔐 Permission created',
+  permission_revoked: '🚫 Permission revoked',
+  permission_expired: '⌛ Permission expired',
+  allowance_low: '🪫 Allowance low',
+};
+
+export class AgentEventBus {
+  private readonly subject = new Subject<AgentEvent>();
+
+  /**
+   * Every event, from the time of subscription
+   */
+  readonly events$: Observable<AgentEvent> = this.subject.asObservable();
+
+  /**
+   * Publish an event, stamped with the current time
+   */
+  emit(event: AgentEventPayload): void {
+    this.subject.next({ ...event, at: new Date() });
+  }
+
+  /**
+   * Events of one type
+   */
+  on<T extends AgentEventType>(type: T): Observable<Extract<AgentEvent, { type: T }>> {
+    return this.events$.pipe(
+      filter((event): event is Extract<AgentEvent, { type: T }> => event.type === type)
+    );
+  }
+}
+
+// Shared by the services of the page unless they are given their own
+export const agentEvents = new AgentEventBus();
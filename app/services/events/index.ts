@@ -0,0 +1,6 @@
+/**
+ * Event services exports
+ */
+
+export { AgentEventBus, agentEvents, AGENT_EVENT_LABELS } from './AgentEventBus';
+export type { AgentEvent, AgentEventPayload, AgentEventType } from './AgentEventBus';
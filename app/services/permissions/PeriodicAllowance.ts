@@ -0,0 +1,120 @@
+/**
+ * Periodic Allowance
+ * Per-period spend limits on a permission, like ERC-7715 periodic token permissions
+ *
+ * Periods follow each other from the permission's start time, so "50 USDC per
+ * day" resets every 24 hours after the grant starts, not at midnight. Spend is
+ * counted for the current period only and starts over at each boundary.
+ */
+
+import type { PeriodSpend, PermissionPeriod } from '@/types/permissions';
+import { TokenAmount, getAmountDecimals } from '@/lib/tokenAmount';
+import { formatDuration } from './RateLimiter';
+
+// What the helpers need from a permission or a job's permission snapshot
+interface PeriodicPermission {
+  tokenAddress: string;
+  decimals?: number;
+  startTime: Date;
+  endTime: Date;
+  period?: PermissionPeriod;
+}
+
+export interface PeriodStatus {
+  index: number;
+  startsAt: Date;
+  resetsAt: Date | null; // null when the permission ends before the next period
+  amount: string;
+  spent: string;
+  remaining: string;
+}
+
+/**
+ * Human-readable period, e.g. "50 per day", "10 per 2 weeks"
+ */
+export function describePeriod(period: PermissionPeriod): string {
+  const length = formatDuration(period.durationMs);
+  return `${period.amount} per ${length.indexOf('1 ') === 0 ? length.slice(2) : length}`;
+}
+
+/**
+ * Index of the period containing `now`; 0 before the permission starts
+ */
+export function getPeriodIndex(period: PermissionPeriod, startTime: Date, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - startTime.getTime()) / period.durationMs));
+}
+
+/**
+ * Budget of the period containing `now`, or null when the permission has no period
+ * `spend` is the last recorded period spend, which counts only while its period lasts
+ */
+export function getPeriodStatus(
+  permission: PeriodicPermission,
+  spend: PeriodSpend | undefined,
+  now: Date = new Date()
+): PeriodStatus | null {
+  const { period } = permission;
+  if (!period) {
+    return null;
+  }
+
+  const decimals = getAmountDecimals(permission);
+  const index = getPeriodIndex(period, permission.startTime, now);
+  const startsAt = new Date(permission.startTime.getTime() + index * period.durationMs);
+  const nextStart = startsAt.getTime() + period.durationMs;
+  const amount = TokenAmount.parse(period.amount, decimals);
+  const spent = getSpentInPeriod(spend, index, decimals);
+
+  return {
+    index,
+    startsAt,
+    resetsAt: nextStart < permission.endTime.getTime() ? new Date(nextStart) : null,
+    amount: amount.toString(),
+    spent: spent.toString(),
+    remaining: amount.minus(spent).atLeastZero().toString(),
+  };
+}
+
+/**
+ * Check an amount against the current period's budget
+ * Returns why it does not fit, or null when it fits or the permission has no period
+ */
+export function checkPeriodAllowance(
+  permission: PeriodicPermission,
+  spend: PeriodSpend | undefined,
+  amount: TokenAmount,
+  now: Date = new Date()
+): string | null {
+  const status = getPeriodStatus(permission, spend, now);
+  if (!status || !permission.period || !amount.gt(TokenAmount.parse(status.remaining, amount.decimals))) {
+    return null;
+  }
+
+  const until = status.resetsAt ? `it resets at ${status.resetsAt.toLocaleString()}` : 'the permission ends';
+  return `${amount} is over the periodic allowance of ${describePeriod(permission.period)}; ${status.remaining} is left until ${until}`;
+}
+
+/**
+ * Period spend after spending `amount` at `now`, starting over when a new period has begun
+ * Unchanged when the permission has no period
+ */
+export function addPeriodSpend(
+  permission: PeriodicPermission,
+  spend: PeriodSpend | undefined,
+  amount: TokenAmount,
+  now: Date = new Date()
+): PeriodSpend | undefined {
+  if (!permission.period) {
+    return spend;
+  }
+
+  const index = getPeriodIndex(permission.period, permission.startTime, now);
+  return { index, spent: getSpentInPeriod(spend, index, amount.decimals).plus(amount).toString() };
+}
+
+/**
+ * Private: Spend recorded for period `index`; zero once that period has passed
+ */
+function getSpentInPeriod(spend: PeriodSpend | undefined, index: number, decimals: number): TokenAmount {
+  return spend && spend.index === index ? TokenAmount.parse(spend.spent, decimals) : TokenAmount.zero(decimals);
+}
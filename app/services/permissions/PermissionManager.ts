@@ -3,17 +3,39 @@
  * Handles creation, validation, and lifecycle management of agent permissions
  */
 
-import { ERC7715Permission, PermissionRequest, PermissionStatus, SpendTracking } from '@/types/permissions';
+import { ERC7715Permission, PermissionPeriod, PermissionRateLimit, PermissionRequest, PermissionStatus, RateLimitViolation, SpendTracking, VelocityCap } from '@/types/permissions';
+import { PolicyRule } from '@/types/policy';
 import { WalletManager } from '@/services/wallet/WalletManager';
+import { permissionPeriodSchema, permissionRateLimitSchema, policyRulesSchema, velocityCapListSchema, velocityCapSchema } from '@/lib/validation';
+import { DEFAULT_TOKEN_DECIMALS, PERMISSION_LIMITS, TOKEN_REGISTRY } from '@/lib/constants';
+import { TokenAmount, getAmountDecimals } from '@/lib/tokenAmount';
+import { AgentEventBus, agentEvents } from '@/services/events/AgentEventBus';
+import { SchedulerClient } from '@/services/scheduler/SchedulerClient';
+import { ActionRegistry } from '@/services/blockchain/ActionRegistry';
+import { checkExecutionRate, checkSpendVelocity, listExecutionTimes } from './RateLimiter';
+import { PeriodStatus, addPeriodSpend, checkPeriodAllowance, getPeriodStatus } from './PeriodicAllowance';
 
 export class PermissionManager {
   private permissions: Map<string, ERC7715Permission> = new Map();
   private spendTracking: Map<string, SpendTracking> = new Map();
+  private velocityCaps: VelocityCap[] = [];
   private walletManager: WalletManager;
-
-  constructor(walletManager: WalletManager) {
+  private events: AgentEventBus;
+  private schedulerClient: SchedulerClient;
+  private actionRegistry: ActionRegistry; // Reads the decimals of tokens outside the token registry
+
+  constructor(
+    walletManager: WalletManager,
+    events: AgentEventBus = agentEvents,
+    schedulerClient?: SchedulerClient,
+    actionRegistry?: ActionRegistry
+  ) {
     this.walletManager = walletManager;
+    this.events = events;
+    this.schedulerClient = schedulerClient || new SchedulerClient('', () => walletManager.getSigner());
+    this.actionRegistry = actionRegistry || new ActionRegistry();
     this.loadPersistedPermissions();
+    this.loadVelocityCaps();
   }
 
   /**
@@ -32,8 +54,9 @@ export class PermissionManager {
     // Validate wallet connection first
     this.validateWalletConnection();
     
-    // Validate the permission request
-    this.validatePermissionRequest(request);
+    // Validate the permission request at the token's actual decimals
+    const decimals = await this.resolveTokenDecimals(request);
+    const maxSpend = this.validatePermissionRequest({ ...request, decimals });
 
     // Generate unique permission ID
     const permissionId = this.generatePermissionId();
@@ -42,6 +65,12 @@ export class PermissionManager {
     const permission: ERC7715Permission = {
       id: permissionId,
       ...request,
+      maxSpendAmount: maxSpend.toString(),
+      decimals: maxSpend.decimals,
+      period: request.period && {
+        durationMs: request.period.durationMs,
+        amount: TokenAmount.parse(request.period.amount, maxSpend.decimals).toString(),
+      },
       status: 'pending',
       grantedAt: new Date(),
     };
@@ -60,13 +89,16 @@ export class PermissionManager {
       // Initialize spend tracking
       this.spendTracking.set(permissionId, {
         permissionId,
+        decimals: maxSpend.decimals,
         totalSpent: '0',
-        remainingAllowance: request.maxSpendAmount,
+        remainingAllowance: maxSpend.toString(),
         spendEntries: [],
+        executions: [],
       });
 
       // Persist to storage
       this.persistPermissions();
+      this.events.emit({ type: 'permission_created', permission });
 
       return permission;
     } catch (error) {
@@ -93,6 +125,13 @@ export class PermissionManager {
     return allPermissions;
   }
 
+  /**
+   * Bus this manager publishes permission events on
+   */
+  getEventBus(): AgentEventBus {
+    return this.events;
+  }
+
   /**
    * Get a specific permission by ID
    */
@@ -116,6 +155,11 @@ export class PermissionManager {
       throw new Error('Permission not found');
     }
 
+    // A revoked permission can be revoked again when the server was not reached
+    if (permission.status === 'revoked') {
+      await this.revokeServerGrant(id);
+      return;
+    }
     if (permission.status !== 'active') {
       throw new Error('Can only revoke active permissions');
     }
@@ -130,10 +174,126 @@ export class PermissionManager {
       
       // Persist changes
       this.persistPermissions();
+      this.events.emit({ type: 'permission_revoked', permissionId: id });
     } catch (error) {
       console.error('Failed to revoke permission:', error);
       throw new Error(`Permission revocation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    await this.revokeServerGrant(id);
+  }
+
+  /**
+   * Client for the server scheduler, shared so one sign-in serves every caller
+   */
+  getSchedulerClient(): SchedulerClient {
+    return this.schedulerClient;
+  }
+
+  /**
+   * Private: Revoke the permission's grant on the server scheduler, so its jobs stop
+   */
+  private async revokeServerGrant(id: string): Promise<void> {
+    try {
+      const result = await this.schedulerClient.revokePermission(id);
+      console.log(`🚫 Revoked permission ${id} on the server scheduler, completed ${result.completedJobIds.length} job(s)`);
+    } catch (error) {
+      console.error('Failed to revoke permission on the server scheduler:', error);
+      throw new Error(
+        `Permission revoked in this browser, but the server scheduler was not told: ${error instanceof Error ? error.message : 'Unknown error'}. ` +
+        'Its server jobs may keep running; use "Revoke on Server" to retry'
+      );
+    }
+  }
+
+  /**
+   * Replace the policy rules of a permission
+   * Policies are enforced by the agent, so no on-chain update is needed
+   */
+  updatePolicy(id: string, rules: PolicyRule[]): ERC7715Permission {
+    const permission = this.permissions.get(id);
+    if (!permission) {
+      throw new Error('Permission not found');
+    }
+
+    this.validatePolicy(rules);
+    permission.policy = rules.length > 0 ? rules : undefined;
+    this.persistPermissions();
+
+    return permission;
+  }
+
+  /**
+   * Get the account-wide spend velocity caps, one per capped token
+   */
+  getVelocityCaps(): VelocityCap[] {
+    return this.velocityCaps.map(cap => ({ ...cap }));
+  }
+
+  /**
+   * Get the velocity cap of a token, or null when its spend is not capped
+   */
+  getVelocityCap(tokenAddress: string): VelocityCap | null {
+    const cap = this.velocityCaps.find(candidate => candidate.tokenAddress.toLowerCase() === tokenAddress.toLowerCase());
+    return cap ? { ...cap } : null;
+  }
+
+  /**
+   * Replace the velocity cap of the cap's token; a cap without limits removes it
+   */
+  setVelocityCap(cap: VelocityCap): void {
+    const result = velocityCapSchema.safeParse(cap);
+    if (!result.success) {
+      throw new Error(`Invalid velocity cap: ${result.error.issues[0].message}`);
+    }
+
+    const others = this.velocityCaps.filter(existing => existing.tokenAddress.toLowerCase() !== cap.tokenAddress.toLowerCase());
+    this.velocityCaps = cap.dailyLimit === null && cap.weeklyLimit === null ? others : others.concat({ ...cap });
+    try {
+      localStorage.setItem('metapilot_velocity_caps', JSON.stringify(this.velocityCaps));
+    } catch (error) {
+      console.error('Failed to persist velocity caps:', error);
+    }
+  }
+
+  /**
+   * Check a permission's rate limits and the velocity cap of its token
+   * `amount` is what the action adds to the token's account-wide spend, in its units.
+   * Returns the tripped limit, or null when the action may run now
+   */
+  checkRateLimits(permissionId: string, amount: string, now: Date = new Date()): RateLimitViolation | null {
+    const permission = this.permissions.get(permissionId);
+    const tracking = this.spendTracking.get(permissionId);
+
+    const rateViolation = checkExecutionRate(
+      permission?.rateLimit,
+      listExecutionTimes(tracking ? tracking.executions : []),
+      now
+    );
+    if (rateViolation) {
+      console.log('❌ Rate limit reached:', rateViolation.message);
+      return rateViolation;
+    }
+
+    const cap = permission ? this.getVelocityCap(permission.tokenAddress) : null;
+    if (!permission || !cap) {
+      return null;
+    }
+
+    // Spend of every permission for the same token
+    const tokenSpends = Array.from(this.spendTracking.values())
+      .filter(item => this.permissions.get(item.permissionId)?.tokenAddress.toLowerCase() === permission.tokenAddress.toLowerCase())
+      .reduce((entries, item) => entries.concat(item.spendEntries), [] as SpendTracking['spendEntries']);
+    const velocityViolation = checkSpendVelocity(
+      cap,
+      tokenSpends,
+      TokenAmount.fromLegacy(amount || '0', getAmountDecimals(permission)).atLeastZero(),
+      now
+    );
+    if (velocityViolation) {
+      console.log('❌ Velocity cap reached:', velocityViolation.message);
+    }
+    return velocityViolation;
   }
 
   /**
@@ -176,18 +336,27 @@ export class PermissionManager {
       return false;
     }
 
-    // Check spend limit
+    // Check spend limit, exactly in the token's base units
+    const decimals = getAmountDecimals(permission);
+    let requested: TokenAmount;
+    try {
+      requested = TokenAmount.parse(amount, decimals);
+    } catch (error) {
+      console.log('❌ Invalid amount:', error instanceof Error ? error.message : amount);
+      return false;
+    }
+
     const tracking = this.spendTracking.get(permissionId);
     if (tracking) {
-      const totalAfterSpend = parseFloat(tracking.totalSpent) + parseFloat(amount);
+      const totalAfterSpend = TokenAmount.parse(tracking.totalSpent, decimals).plus(requested);
       console.log('💰 Spend check:', { 
         currentSpent: tracking.totalSpent, 
         requestedAmount: amount, 
-        totalAfterSpend, 
+        totalAfterSpend: totalAfterSpend.toString(), 
         maxAllowed: permission.maxSpendAmount 
       });
       
-      if (totalAfterSpend > parseFloat(permission.maxSpendAmount)) {
+      if (totalAfterSpend.gt(TokenAmount.parse(permission.maxSpendAmount, decimals))) {
         console.log('❌ Spend limit exceeded');
         return false;
       }
@@ -204,6 +373,13 @@ export class PermissionManager {
       return false;
     }
 
+    // Check the current period's allowance
+    const periodViolation = checkPeriodAllowance(permission, tracking?.periodSpend, requested, now);
+    if (periodViolation) {
+      console.log('❌ Periodic allowance exceeded:', periodViolation);
+      return false;
+    }
+
     console.log('✅ All validation checks passed');
     return true;
   }
@@ -217,20 +393,78 @@ export class PermissionManager {
       throw new Error('Spend tracking not found for permission');
     }
 
-    const newTotalSpent = (parseFloat(tracking.totalSpent) + parseFloat(amount)).toString();
-    const newRemainingAllowance = (parseFloat(tracking.remainingAllowance) - parseFloat(amount)).toString();
+    const permission = this.permissions.get(permissionId);
+    const spent = TokenAmount.parse(amount, tracking.decimals);
+    const remainingBefore = TokenAmount.parse(tracking.remainingAllowance, tracking.decimals);
+    const newRemainingAllowance = remainingBefore.minus(spent).toString();
+    const now = new Date();
 
-    tracking.totalSpent = newTotalSpent;
+    tracking.totalSpent = TokenAmount.parse(tracking.totalSpent, tracking.decimals).plus(spent).toString();
     tracking.remainingAllowance = newRemainingAllowance;
     tracking.spendEntries.push({
-      timestamp: new Date(),
-      amount,
+      timestamp: now,
+      amount: spent.toString(),
       transactionHash,
       remainingAfter: newRemainingAllowance,
     });
+    if (permission?.period) {
+      tracking.periodSpend = addPeriodSpend(permission, tracking.periodSpend, spent, now);
+    }
 
     this.spendTracking.set(permissionId, tracking);
     this.persistPermissions();
+
+    // Announced once, when this spend takes the allowance below the threshold
+    if (permission) {
+      const threshold = TokenAmount.parse(permission.maxSpendAmount, tracking.decimals).scale(PERMISSION_LIMITS.LOW_ALLOWANCE_FRACTION);
+      if (!remainingBefore.lt(threshold) && remainingBefore.minus(spent).lt(threshold)) {
+        this.events.emit({
+          type: 'allowance_low',
+          permissionId,
+          remainingAllowance: newRemainingAllowance,
+          maxSpendAmount: permission.maxSpendAmount,
+        });
+      }
+    }
+  }
+
+  /**
+   * Record a transaction sent under a permission, spending or not, for its rate limits
+   * The steps of one batch share a hash and count once
+   */
+  recordExecution(permissionId: string, transactionHash: string): void {
+    const tracking = this.spendTracking.get(permissionId);
+    if (!tracking) {
+      throw new Error('Spend tracking not found for permission');
+    }
+    if (tracking.executions.some(execution => execution.transactionHash === transactionHash)) {
+      return;
+    }
+
+    // Only the executions a rate limit can still see are kept, and always the latest
+    const now = new Date();
+    const limit = this.permissions.get(permissionId)?.rateLimit;
+    const keepMs = Math.max(limit?.windowMs || 0, limit?.minSpacingMs || 0);
+    tracking.executions = tracking.executions
+      .filter(execution => now.getTime() - execution.timestamp.getTime() < keepMs)
+      .concat({ timestamp: now, transactionHash });
+    this.persistPermissions();
+  }
+
+  /**
+   * Decimals of a permission's token, for exact arithmetic on its amounts
+   */
+  getTokenDecimals(permissionId: string): number {
+    const permission = this.permissions.get(permissionId);
+    return permission ? getAmountDecimals(permission) : DEFAULT_TOKEN_DECIMALS;
+  }
+
+  /**
+   * Budget of a permission's current period, or null when it has no periodic allowance
+   */
+  getPeriodStatus(permissionId: string, now: Date = new Date()): PeriodStatus | null {
+    const permission = this.permissions.get(permissionId);
+    return permission ? getPeriodStatus(permission, this.spendTracking.get(permissionId)?.periodSpend, now) : null;
   }
 
   /**
@@ -240,18 +474,49 @@ export class PermissionManager {
     return this.spendTracking.get(permissionId) || null;
   }
 
+  /**
+   * Private: Decimals of the requested token, read from its contract when the
+   * token registry does not list it; amounts would otherwise assume 18
+   */
+  private async resolveTokenDecimals(request: PermissionRequest): Promise<number> {
+    if (!request.tokenAddress || !this.isValidAddress(request.tokenAddress)) {
+      throw new Error('Invalid token address');
+    }
+    const address = request.tokenAddress.toLowerCase();
+    if (TOKEN_REGISTRY.some(token => token.address.toLowerCase() === address)) {
+      return getAmountDecimals(request);
+    }
+
+    let decimals: number;
+    try {
+      decimals = await this.actionRegistry.getDecimals(request.tokenAddress);
+    } catch (error) {
+      throw new Error(`Could not read the token's decimals: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (request.decimals !== undefined && request.decimals !== decimals) {
+      throw new Error(`The token has ${decimals} decimals, not ${request.decimals}`);
+    }
+    return decimals;
+  }
+
   /**
    * Private: Validate permission request parameters
+   * Returns the spend amount at the token's decimals
    */
-  private validatePermissionRequest(request: PermissionRequest): void {
+  private validatePermissionRequest(request: PermissionRequest): TokenAmount {
     // Validate token address
     if (!request.tokenAddress || !this.isValidAddress(request.tokenAddress)) {
       throw new Error('Invalid token address');
     }
 
-    // Validate spend amount
-    const amount = parseFloat(request.maxSpendAmount);
-    if (isNaN(amount) || amount <= 0) {
+    // Validate spend amount, which must fit the token's decimals
+    let amount: TokenAmount;
+    try {
+      amount = TokenAmount.parse(request.maxSpendAmount, getAmountDecimals(request));
+    } catch (error) {
+      throw new Error(`Invalid spend amount: ${error instanceof Error ? error.message : request.maxSpendAmount}`);
+    }
+    if (amount.isZero()) {
       throw new Error('Invalid spend amount');
     }
 
@@ -270,6 +535,64 @@ export class PermissionManager {
         throw new Error(`Invalid contract address: ${address}`);
       }
     }
+
+    if (request.policy) {
+      this.validatePolicy(request.policy);
+    }
+
+    if (request.rateLimit) {
+      this.validateRateLimit(request.rateLimit);
+    }
+
+    if (request.period) {
+      this.validatePeriod(request.period, amount);
+    }
+
+    return amount;
+  }
+
+  /**
+   * Private: Validate execution rate limits
+   */
+  private validateRateLimit(rateLimit: PermissionRateLimit): void {
+    const result = permissionRateLimitSchema.safeParse(rateLimit);
+    if (!result.success) {
+      throw new Error(`Invalid rate limit: ${result.error.issues[0].message}`);
+    }
+  }
+
+  /**
+   * Private: Validate a periodic allowance against the permission's spend amount
+   */
+  private validatePeriod(period: PermissionPeriod, maxSpend: TokenAmount): void {
+    const result = permissionPeriodSchema.safeParse(period);
+    if (!result.success) {
+      throw new Error(`Invalid period: ${result.error.issues[0].message}`);
+    }
+
+    let amount: TokenAmount;
+    try {
+      amount = TokenAmount.parse(period.amount, maxSpend.decimals);
+    } catch (error) {
+      throw new Error(`Invalid period: ${error instanceof Error ? error.message : period.amount}`);
+    }
+    if (amount.isZero()) {
+      throw new Error('Invalid period: the amount per period must be above zero');
+    }
+    if (amount.gt(maxSpend)) {
+      throw new Error('Invalid period: the amount per period cannot exceed the maximum spend');
+    }
+  }
+
+  /**
+   * Private: Validate policy rules, including expression syntax
+   */
+  private validatePolicy(rules: PolicyRule[]): void {
+    const result = policyRulesSchema.safeParse(rules);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`Invalid policy rule ${issue.path.map(String).join('.')}: ${issue.message}`);
+    }
   }
 
   /**
@@ -295,6 +618,7 @@ export class PermissionManager {
       spender: permission.allowedContracts[0] as any, // Use first contract as spender
       token: permission.tokenAddress as any,
       allowance: permission.maxSpendAmount,
+      decimals: permission.decimals,
       startTime: permission.startTime,
       endTime: permission.endTime,
       permissionManagerId: permission.id, // Pass our permission ID to SmartAccountService
@@ -359,9 +683,11 @@ export class PermissionManager {
     }
 
     const now = new Date();
-    if (now > permission.endTime) {
+    if (now > permission.endTime && permission.status !== 'expired') {
       permission.status = 'expired';
       this.permissions.set(permission.id, permission);
+      this.persistPermissions(); // So the expiry is announced once
+      this.events.emit({ type: 'permission_expired', permissionId: permission.id });
     }
   }
 
@@ -374,12 +700,14 @@ export class PermissionManager {
 
   /**
    * Private: Load permissions from localStorage
+   * Amounts stored before they were exact (no `decimals`) are migrated once
    */
   private loadPersistedPermissions(): void {
     try {
       const stored = localStorage.getItem('metapilot_permissions');
       if (stored) {
         const data = JSON.parse(stored);
+        let migrated = false;
         
         // Restore permissions
         if (data.permissions) {
@@ -390,6 +718,11 @@ export class PermissionManager {
               endTime: new Date(permData.endTime),
               grantedAt: new Date(permData.grantedAt),
             };
+            if (permission.decimals === undefined) {
+              permission.decimals = getAmountDecimals(permission);
+              permission.maxSpendAmount = TokenAmount.fromLegacy(permission.maxSpendAmount, permission.decimals).toString();
+              migrated = true;
+            }
             this.permissions.set(id, permission);
           }
         }
@@ -397,22 +730,85 @@ export class PermissionManager {
         // Restore spend tracking
         if (data.spendTracking) {
           for (const [id, trackingData] of Object.entries(data.spendTracking as Record<string, any>)) {
-            const tracking: SpendTracking = {
+            const spendEntries = trackingData.spendEntries.map((entry: any) => ({
+              ...entry,
+              timestamp: new Date(entry.timestamp),
+            }));
+            let tracking: SpendTracking = {
               ...trackingData,
-              spendEntries: trackingData.spendEntries.map((entry: any) => ({
-                ...entry,
+              spendEntries,
+              // Tracking stored before executions were kept separately only knows spending ones
+              executions: (trackingData.executions || spendEntries).map((entry: any) => ({
                 timestamp: new Date(entry.timestamp),
+                transactionHash: entry.transactionHash,
               })),
             };
+            if (tracking.decimals === undefined) {
+              tracking = this.migrateSpendTracking(tracking);
+              migrated = true;
+            }
             this.spendTracking.set(id, tracking);
           }
         }
+
+        if (migrated) {
+          console.log('🔁 Migrated stored permission amounts to exact token units');
+          this.persistPermissions();
+        }
       }
     } catch (error) {
       console.error('Failed to load persisted permissions:', error);
     }
   }
 
+  /**
+   * Private: Round float-computed spend amounts to the token's decimals and
+   * recompute the remaining allowance from the permission's maximum
+   */
+  private migrateSpendTracking(tracking: SpendTracking): SpendTracking {
+    const permission = this.permissions.get(tracking.permissionId);
+    const decimals = permission ? getAmountDecimals(permission) : DEFAULT_TOKEN_DECIMALS;
+    const totalSpent = TokenAmount.fromLegacy(tracking.totalSpent, decimals).atLeastZero();
+    const remainingAllowance = permission
+      ? TokenAmount.parse(permission.maxSpendAmount, decimals).minus(totalSpent).atLeastZero()
+      : TokenAmount.fromLegacy(tracking.remainingAllowance, decimals).atLeastZero();
+
+    return {
+      ...tracking,
+      decimals,
+      totalSpent: totalSpent.toString(),
+      remainingAllowance: remainingAllowance.toString(),
+      spendEntries: tracking.spendEntries.map(entry => ({
+        ...entry,
+        amount: TokenAmount.fromLegacy(entry.amount, decimals).toString(),
+        remainingAfter: TokenAmount.fromLegacy(entry.remainingAfter, decimals).atLeastZero().toString(),
+      })),
+    };
+  }
+
+  /**
+   * Private: Load the velocity caps from localStorage
+   * A cap stored before caps had a token added up different tokens, so it is dropped
+   */
+  private loadVelocityCaps(): void {
+    try {
+      if (localStorage.getItem('metapilot_velocity_cap')) {
+        console.warn('⚠️ Dropped the old account spend cap: caps are now set per token');
+        localStorage.removeItem('metapilot_velocity_cap');
+      }
+
+      const stored = localStorage.getItem('metapilot_velocity_caps');
+      if (stored) {
+        const result = velocityCapListSchema.safeParse(JSON.parse(stored));
+        if (result.success) {
+          this.velocityCaps = result.data;
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load velocity caps:', error);
+    }
+  }
+
   /**
    * Private: Persist permissions to localStorage
    */
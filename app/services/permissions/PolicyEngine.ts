@@ -0,0 +1,265 @@
+/**
+ * Permission Policy Engine
+ * Evaluates the rules stored with a permission against an agent action
+ *
+ * Runs as a gate before the LLM is asked, as the decision-maker when no LLM
+ * is available, and after the LLM answers for rules that need its confidence.
+ */
+
+import { ethers } from 'ethers';
+import { policyRulesSchema } from '@/lib/validation';
+import { getZonedParts } from '@/services/agent/ScheduleCalculator';
+import type { AgentDecision, AgentIntent, MarketContext } from '@/services/agent/AgentExecutor';
+import type { PolicyEvaluation, PolicyRule, RuleVerdict } from '@/types/policy';
+import {
+  PolicyValue,
+  evaluatePolicyExpression,
+  parsePolicyExpression,
+  referencedVariables,
+} from './PolicyExpression';
+
+export interface PolicyInput {
+  intent: AgentIntent;
+  market: MarketContext;
+  now?: Date;
+  decision?: AgentDecision; // Set once the LLM has answered
+}
+
+/**
+ * Applied to permissions without their own rules (the former rule-based fallback)
+ */
+export const DEFAULT_POLICY: PolicyRule[] = [
+  { id: 'default-gas-ceiling', type: 'gas_ceiling', maxGwei: 50 },
+  { id: 'default-congestion', type: 'max_congestion', level: 'medium' },
+  { id: 'default-large-amount', type: 'max_amount', amount: '100', severity: 'warn' },
+];
+
+const CONGESTION_LEVELS = ['low', 'medium', 'high'];
+
+export function getRuleId(rule: PolicyRule, index: number): string {
+  return rule.id || `${rule.type}-${index + 1}`;
+}
+
+/**
+ * Whether a rule can only be judged once the LLM has answered
+ */
+export function needsDecision(rule: PolicyRule): boolean {
+  if (rule.type === 'min_confidence') {
+    return true;
+  }
+  if (rule.type === 'expression') {
+    try {
+      return referencedVariables(parsePolicyExpression(rule.expression)).indexOf('confidence') !== -1;
+    } catch {
+      return false; // Reported as a failure when evaluated
+    }
+  }
+  return false;
+}
+
+/**
+ * Private: Judge one rule; returns whether it holds and why
+ */
+function checkRule(rule: PolicyRule, input: PolicyInput, now: Date): { passed: boolean; detail: string } | null {
+  const { intent, market, decision } = input;
+  const gasPrice = parseFloat(market.gasPrice);
+  const amount = parseFloat(intent.amount);
+
+  switch (rule.type) {
+    case 'gas_ceiling':
+      return {
+        passed: gasPrice <= rule.maxGwei,
+        detail: `gas price ${gasPrice.toFixed(2)} gwei ${gasPrice <= rule.maxGwei ? 'is within' : 'is above'} the ${rule.maxGwei} gwei ceiling`,
+      };
+
+    case 'max_congestion': {
+      const passed = CONGESTION_LEVELS.indexOf(market.networkCongestion) <= CONGESTION_LEVELS.indexOf(rule.level);
+      return { passed, detail: `network congestion is ${market.networkCongestion} (limit ${rule.level})` };
+    }
+
+    case 'max_amount': {
+      const passed = amount <= parseFloat(rule.amount);
+      return { passed, detail: `amount ${intent.amount} ${passed ? 'is within' : 'exceeds'} the per-transaction cap of ${rule.amount}` };
+    }
+
+    case 'time_window': {
+      const timezone = rule.timezone || 'UTC';
+      const parts = getZonedParts(now, timezone);
+      const inHours = rule.startHour <= rule.endHour
+        ? parts.hour >= rule.startHour && parts.hour < rule.endHour
+        : parts.hour >= rule.startHour || parts.hour < rule.endHour; // Wraps past midnight
+      const onDay = !rule.days || rule.days.indexOf(parts.weekday) !== -1;
+      const time = `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')} ${timezone}`;
+      return {
+        passed: inHours && onDay,
+        detail: inHours && onDay
+          ? `${time} is inside the ${rule.startHour}:00-${rule.endHour}:00 window`
+          : `${time} is outside the ${rule.startHour}:00-${rule.endHour}:00 window${rule.days ? ` on days ${rule.days.join(',')}` : ''}`,
+      };
+    }
+
+    case 'recipient': {
+      if (intent.action && intent.action.type !== 'transfer') {
+        return null; // Only transfers have a third-party recipient
+      }
+      const recipient = intent.contractAddress.toLowerCase();
+      if (rule.deny && rule.deny.some(address => address.toLowerCase() === recipient)) {
+        return { passed: false, detail: `recipient ${intent.contractAddress} is on the deny list` };
+      }
+      if (rule.allow && !rule.allow.some(address => address.toLowerCase() === recipient)) {
+        return { passed: false, detail: `recipient ${intent.contractAddress} is not on the allow list` };
+      }
+      return { passed: true, detail: `recipient ${intent.contractAddress} is permitted` };
+    }
+
+    case 'min_confidence':
+      if (!decision) {
+        return null;
+      }
+      return {
+        passed: decision.confidence >= rule.confidence,
+        detail: `LLM confidence ${decision.confidence}% ${decision.confidence >= rule.confidence ? 'meets' : 'is below'} the ${rule.confidence}% floor`,
+      };
+
+    case 'expression': {
+      const variables: Record<string, PolicyValue> = {
+        gasPrice,
+        tokenPrice: market.tokenPrice !== null ? parseFloat(market.tokenPrice) : null,
+        congestion: market.networkCongestion,
+        amount,
+        action: intent.action?.type || 'transfer',
+        token: intent.tokenAddress,
+        contract: intent.contractAddress,
+        hour: now.getUTCHours(),
+        minute: now.getUTCMinutes(),
+        weekday: now.getUTCDay(),
+      };
+      if (decision) {
+        variables.confidence = decision.confidence;
+      }
+      const passed = Boolean(evaluatePolicyExpression(parsePolicyExpression(rule.expression), variables));
+      return { passed, detail: `"${rule.expression}" is ${passed}` };
+    }
+  }
+}
+
+/**
+ * Evaluate rules against an action
+ *
+ * Without `input.decision`, rules that need the LLM's confidence are skipped;
+ * evaluate them again with the decision once it is known. A rule that cannot
+ * be evaluated counts as failed.
+ */
+export function evaluatePolicy(rules: PolicyRule[], input: PolicyInput): PolicyEvaluation {
+  const now = input.now || new Date();
+
+  const verdicts: RuleVerdict[] = rules.map((rule, index) => {
+    const ruleId = getRuleId(rule, index);
+
+    if (!input.decision && needsDecision(rule)) {
+      return { ruleId, type: rule.type, outcome: 'skip', detail: 'checked after the LLM decision' };
+    }
+
+    let result: { passed: boolean; detail: string } | null;
+    try {
+      result = checkRule(rule, input, now);
+    } catch (error) {
+      result = { passed: false, detail: `could not be evaluated: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+
+    if (!result) {
+      return { ruleId, type: rule.type, outcome: 'skip', detail: 'does not apply to this action' };
+    }
+    if (result.passed) {
+      return { ruleId, type: rule.type, outcome: 'pass', detail: result.detail };
+    }
+    return { ruleId, type: rule.type, outcome: rule.severity === 'warn' ? 'warn' : 'fail', detail: result.detail };
+  });
+
+  return {
+    allowed: verdicts.every(verdict => verdict.outcome !== 'fail'),
+    verdicts,
+  };
+}
+
+/**
+ * List which rules blocked, warned about and allowed an action
+ */
+export function describeVerdicts(verdicts: RuleVerdict[]): string {
+  const group = (outcome: RuleVerdict['outcome']) => verdicts
+    .filter(verdict => verdict.outcome === outcome)
+    .map(verdict => `${verdict.ruleId} (${verdict.detail})`)
+    .join('; ');
+
+  const sections = [
+    ['Blocked by', group('fail')],
+    ['Warnings from', group('warn')],
+    ['Allowed by', group('pass')],
+  ].filter(([, text]) => text.length > 0);
+
+  return sections.length > 0
+    ? sections.map(([label, text]) => `${label}: ${text}.`).join(' ')
+    : 'No policy rules apply.';
+}
+
+/**
+ * Decision made by the policy alone, used when the LLM is unavailable
+ */
+export function policyDecision(evaluation: PolicyEvaluation): AgentDecision {
+  const failed = evaluation.verdicts.filter(verdict => verdict.outcome === 'fail');
+  const warnings = evaluation.verdicts.filter(verdict => verdict.outcome === 'warn');
+
+  let riskAssessment = 'low';
+  if (failed.length > 0) {
+    riskAssessment = `high - ${failed[0].detail}`;
+  } else if (warnings.length > 0) {
+    riskAssessment = `medium - ${warnings[0].detail}`;
+  }
+
+  return {
+    shouldExecute: evaluation.allowed,
+    reasoning: `${evaluation.allowed ? 'Policy allows execution' : 'Policy blocks execution'}. ${describeVerdicts(evaluation.verdicts)}`,
+    confidence: evaluation.allowed ? Math.max(50, 80 - warnings.length * 20) : 90,
+    riskAssessment,
+    source: 'policy',
+    policyVerdicts: evaluation.verdicts,
+  };
+}
+
+/**
+ * Parse policy text: a JSON array of rules, or one expression per line
+ * Throws with the first invalid rule
+ */
+export function parsePolicyText(text: string): PolicyRule[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  let candidate: unknown;
+  if (trimmed.startsWith('[')) {
+    try {
+      candidate = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`Invalid policy JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  } else {
+    candidate = trimmed
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'))
+      .map((expression, index) => ({ id: `rule-${index + 1}`, type: 'expression', expression }));
+  }
+
+  const result = policyRulesSchema.safeParse(candidate);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid policy rule ${issue.path.map(String).join('.')}: ${issue.message}`);
+  }
+
+  return result.data.map(rule => (
+    rule.type === 'recipient'
+      ? { ...rule, allow: rule.allow?.map(ethers.getAddress), deny: rule.deny?.map(ethers.getAddress) }
+      : rule
+  ));
+}
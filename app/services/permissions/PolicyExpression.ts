@@ -0,0 +1,250 @@
+/**
+ * Policy Expression Language
+ * Parses and evaluates small boolean expressions over an action's context
+ *
+ * Supports numbers, 'strings', true/false/null, the comparisons
+ * == != < <= > >=, the operators && || ! and parentheses, e.g.
+ *   gasPrice < 30 && (hour >= 9 && hour < 17) && action != 'swap'
+ * String comparisons ignore case so addresses can be compared as written.
+ */
+
+export type PolicyValue = number | string | boolean | null;
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: PolicyValue }
+  | { kind: 'variable'; name: string }
+  | { kind: 'not'; operand: ExpressionNode }
+  | { kind: 'logical'; operator: '&&' | '||'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'compare'; operator: ComparisonOperator; left: ExpressionNode; right: ExpressionNode };
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string };
+
+// Variables an expression can read
+export const POLICY_VARIABLES: Record<string, string> = {
+  gasPrice: 'Gas price in gwei',
+  tokenPrice: 'Token price in USD (null when unavailable)',
+  congestion: "Network congestion: 'low', 'medium' or 'high'",
+  amount: 'Amount of the action',
+  action: "Action type, e.g. 'transfer' or 'swap'",
+  token: 'Token address',
+  contract: 'Target contract or recipient address',
+  hour: 'Hour of day (0-23, UTC)',
+  minute: 'Minute of the hour',
+  weekday: 'Day of the week (0 = Sunday, UTC)',
+  confidence: 'LLM decision confidence (0-100), only known after the LLM answers',
+};
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const numberMatch = source.slice(index).match(/^\d+(\.\d+)?/);
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: parseFloat(numberMatch[0]) });
+      index += numberMatch[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const end = source.indexOf(char, index + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated string at position ${index + 1}`);
+      }
+      tokens.push({ type: 'string', value: source.slice(index + 1, end) });
+      index = end + 1;
+      continue;
+    }
+
+    const identifierMatch = source.slice(index).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (identifierMatch) {
+      tokens.push({ type: 'identifier', value: identifierMatch[0] });
+      index += identifierMatch[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator });
+      index += operator.length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${char}" at position ${index + 1}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an expression, checking that it only reads known variables
+ * Throws with the position of the first problem
+ */
+export function parsePolicyExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isOperator = (value: string): boolean => {
+    const token = peek();
+    return token !== undefined && token.type === 'operator' && token.value === value;
+  };
+
+  const parseOr = (): ExpressionNode => {
+    let left = parseAnd();
+    while (isOperator('||')) {
+      position++;
+      left = { kind: 'logical', operator: '||', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    let left = parseNot();
+    while (isOperator('&&')) {
+      position++;
+      left = { kind: 'logical', operator: '&&', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): ExpressionNode => {
+    if (isOperator('!')) {
+      position++;
+      return { kind: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ExpressionNode => {
+    const left = parsePrimary();
+    const token = peek();
+    if (token && token.type === 'operator' && ['==', '!=', '<', '<=', '>', '>='].indexOf(token.value) !== -1) {
+      position++;
+      return { kind: 'compare', operator: token.value as ComparisonOperator, left, right: parsePrimary() };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    if (!token) {
+      throw new Error('Unexpected end of expression');
+    }
+    position++;
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') {
+        return { kind: 'literal', value: token.value === 'true' };
+      }
+      if (token.value === 'null') {
+        return { kind: 'literal', value: null };
+      }
+      if (!(token.value in POLICY_VARIABLES)) {
+        throw new Error(`Unknown variable "${token.value}" (known: ${Object.keys(POLICY_VARIABLES).join(', ')})`);
+      }
+      return { kind: 'variable', name: token.value };
+    }
+
+    if (token.value === '(') {
+      const inner = parseOr();
+      if (!isOperator(')')) {
+        throw new Error('Missing closing parenthesis');
+      }
+      position++;
+      return inner;
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const expression = parseOr();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new Error(`Unexpected "${token.value}" after the end of the expression`);
+  }
+  return expression;
+}
+
+/**
+ * Variables an expression reads
+ */
+export function referencedVariables(node: ExpressionNode): string[] {
+  switch (node.kind) {
+    case 'literal':
+      return [];
+    case 'variable':
+      return [node.name];
+    case 'not':
+      return referencedVariables(node.operand);
+    default:
+      return referencedVariables(node.left).concat(referencedVariables(node.right));
+  }
+}
+
+function compare(operator: ComparisonOperator, left: PolicyValue, right: PolicyValue): boolean {
+  const normalize = (value: PolicyValue) => (typeof value === 'string' ? value.toLowerCase() : value);
+  const a = normalize(left);
+  const b = normalize(right);
+
+  if (operator === '==') return a === b;
+  if (operator === '!=') return a !== b;
+
+  if (typeof a !== 'number' || typeof b !== 'number') {
+    throw new Error(`Cannot compare ${JSON.stringify(left)} ${operator} ${JSON.stringify(right)}`);
+  }
+  if (operator === '<') return a < b;
+  if (operator === '<=') return a <= b;
+  if (operator === '>') return a > b;
+  return a >= b;
+}
+
+/**
+ * Evaluate a parsed expression against the given variables
+ * Throws when it reads a variable that was not provided
+ */
+export function evaluatePolicyExpression(node: ExpressionNode, variables: Record<string, PolicyValue>): PolicyValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'variable':
+      if (!(node.name in variables)) {
+        throw new Error(`${node.name} is not available`);
+      }
+      return variables[node.name];
+    case 'not':
+      return !evaluatePolicyExpression(node.operand, variables);
+    case 'logical': {
+      const left = Boolean(evaluatePolicyExpression(node.left, variables));
+      if (node.operator === '&&' ? !left : left) {
+        return left;
+      }
+      return Boolean(evaluatePolicyExpression(node.right, variables));
+    }
+    default:
+      return compare(
+        node.operator,
+        evaluatePolicyExpression(node.left, variables),
+        evaluatePolicyExpression(node.right, variables)
+      );
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Rate Limiter
+ * Checks how often and how fast the agent spends, before it is asked to decide
+ *
+ * Executions are the distinct transactions sent under a permission, spending
+ * or not (approvals and withdrawals count too), so the steps of a batched plan
+ * count once. Velocity caps are per token: they add up that token's spend
+ * across every permission of the account.
+ */
+
+import { TokenAmount } from '@/lib/tokenAmount';
+import { ExecutionRecord, PermissionRateLimit, RateLimitKind, RateLimitViolation, SpendEntry, VelocityCap } from '@/types/permissions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Spend older than this no longer counts against any velocity cap
+export const VELOCITY_WINDOW_MS = WEEK_MS;
+
+export const RATE_LIMIT_LABELS: Record<RateLimitKind, string> = {
+  max_executions: 'Executions per window',
+  min_spacing: 'Minimum spacing',
+  daily_velocity: 'Daily spend cap',
+  weekly_velocity: 'Weekly spend cap',
+};
+
+/**
+ * Human-readable duration, e.g. "90 seconds", "2 hours"
+ */
+export function formatDuration(ms: number): string {
+  const units: Array<[string, number]> = [['day', DAY_MS], ['hour', 60 * 60 * 1000], ['minute', 60 * 1000], ['second', 1000]];
+  const unit = units.find(([, size]) => ms >= size && ms % size === 0) || units[units.length - 1];
+  const count = Math.round(ms / unit[1]);
+  return `${count} ${unit[0]}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Execution times, one per transaction, oldest first
+ */
+export function listExecutionTimes(executions: ExecutionRecord[]): Date[] {
+  const seen: Record<string, boolean> = {};
+  return executions
+    .filter(entry => {
+      const key = entry.transactionHash || entry.timestamp.toISOString();
+      if (seen[key]) {
+        return false;
+      }
+      seen[key] = true;
+      return true;
+    })
+    .map(entry => entry.timestamp)
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Check a permission's execution count and spacing limits
+ * Returns the tripped limit, or null when another execution is allowed now
+ */
+export function checkExecutionRate(
+  limit: PermissionRateLimit | undefined,
+  executions: Date[],
+  now: Date = new Date()
+): RateLimitViolation | null {
+  if (!limit || executions.length === 0) {
+    return null;
+  }
+
+  const last = executions[executions.length - 1];
+  if (limit.minSpacingMs && now.getTime() - last.getTime() < limit.minSpacingMs) {
+    return {
+      limit: 'min_spacing',
+      message: `Executions must be at least ${formatDuration(limit.minSpacingMs)} apart; the last one was at ${last.toLocaleString()}`,
+      retryAt: new Date(last.getTime() + limit.minSpacingMs),
+    };
+  }
+
+  if (limit.maxExecutions && limit.windowMs) {
+    const windowStart = now.getTime() - limit.windowMs;
+    const inWindow = executions.filter(at => at.getTime() > windowStart);
+    if (inWindow.length >= limit.maxExecutions) {
+      // Another execution fits once enough of these have left the window
+      const leaving = inWindow[inWindow.length - limit.maxExecutions];
+      return {
+        limit: 'max_executions',
+        message: `${inWindow.length} executions in the last ${formatDuration(limit.windowMs)} (limit ${limit.maxExecutions})`,
+        retryAt: new Date(leaving.getTime() + limit.windowMs),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check an amount of the cap's token against its daily and weekly spend caps
+ * `spends` are the spend entries of every permission for that token
+ */
+export function checkSpendVelocity(
+  cap: VelocityCap,
+  spends: Array<Pick<SpendEntry, 'timestamp' | 'amount'>>,
+  amount: TokenAmount,
+  now: Date = new Date()
+): RateLimitViolation | null {
+  const windows: Array<[RateLimitKind, string | null, number, string]> = [
+    ['daily_velocity', cap.dailyLimit, DAY_MS, 'daily'],
+    ['weekly_velocity', cap.weeklyLimit, WEEK_MS, 'weekly'],
+  ];
+
+  for (const [kind, limitText, windowMs, name] of windows) {
+    if (limitText === null) {
+      continue;
+    }
+    const limit = TokenAmount.fromLegacy(limitText, amount.decimals);
+    const recent = spends
+      .filter(entry => entry.timestamp.getTime() > now.getTime() - windowMs)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const spent = recent.reduce(
+      (sum, entry) => sum.plus(TokenAmount.fromLegacy(entry.amount, amount.decimals)),
+      TokenAmount.zero(amount.decimals)
+    );
+
+    if (!spent.plus(amount).gt(limit)) {
+      continue;
+    }
+
+    if (amount.gt(limit)) {
+      return {
+        limit: kind,
+        message: `Amount ${amount} alone is above the ${name} spend cap of ${limitText}`,
+        retryAt: new Date(now.getTime() + windowMs),
+      };
+    }
+
+    // The amount fits once enough of the recent spend has left the window
+    let released = TokenAmount.zero(amount.decimals);
+    const freed = recent.find(entry => {
+      released = released.plus(TokenAmount.fromLegacy(entry.amount, amount.decimals));
+      return !spent.minus(released).plus(amount).gt(limit);
+    });
+    return {
+      limit: kind,
+      message: `${spent} of this token spent across all permissions in the last ${formatDuration(windowMs)}; ${amount} more would pass the ${name} cap of ${limitText}`,
+      retryAt: new Date((freed ? freed.timestamp.getTime() : now.getTime()) + windowMs),
+    };
+  }
+
+  return null;
+}
@@ -2,4 +2,11 @@
  * Permission services exports
  */
 
-export { PermissionManager } from './PermissionManager';
\ No newline at end of file
+export { PermissionManager } from './PermissionManager';
+export { evaluatePolicy, policyDecision, describeVerdicts, parsePolicyText, DEFAULT_POLICY } from './PolicyEngine';
+export type { PolicyInput } from './PolicyEngine';
+export { parsePolicyExpression, evaluatePolicyExpression, referencedVariables, POLICY_VARIABLES } from './PolicyExpression';
+export type { PolicyValue, ExpressionNode } from './PolicyExpression';
+export { checkExecutionRate, checkSpendVelocity, listExecutionTimes, formatDuration, RATE_LIMIT_LABELS, VELOCITY_WINDOW_MS } from './RateLimiter';
+export { checkPeriodAllowance, addPeriodSpend, getPeriodStatus, getPeriodIndex, describePeriod } from './PeriodicAllowance';
+export type { PeriodStatus } from './PeriodicAllowance';
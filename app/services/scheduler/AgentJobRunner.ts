@@ -0,0 +1,275 @@
+/**
+ * Agent Job Runner
+ * Runs a scheduled agent intent on the server: permission check, market context,
+ * LLM decision and submission with the agent's session key
+ */
+
+import { ethers } from 'ethers';
+import { MarketDataProvider, createMarketDataProvider } from '@/services/agent/MarketDataProvider';
+import { LLMDecisionMaker } from '@/services/agent/DecisionMaker';
+import { AgentLLMSettings, LLMProvider, createLLMProvider } from '@/services/agent/LLMProvider';
+import { ActionRegistry, createActionRegistry } from '@/services/blockchain/ActionRegistry';
+import { computePacedAmount, formatPacedAmount, listRemainingRuns } from '@/services/agent/BudgetPacer';
+import { checkExecutionRate, checkSpendVelocity } from '@/services/permissions/RateLimiter';
+import { checkPeriodAllowance } from '@/services/permissions/PeriodicAllowance';
+import { DEFAULT_APPROVAL_POLICY, KnownCounterparties, getApprovalReasons } from '@/services/agent/ApprovalPolicy';
+import type { MarketContext } from '@/services/agent/AgentExecutor';
+import { NETWORK_CONFIG } from '@/lib/constants';
+import { TokenAmount, getAmountDecimals } from '@/lib/tokenAmount';
+import type { ScheduledJob } from '@/types/scheduler';
+import type { JobRunner, JobRunOutcome } from './SchedulerWorker';
+
+export interface AgentJobRunnerOptions {
+  marketDataProvider?: MarketDataProvider;
+  decisionMaker?: LLMDecisionMaker; // Used for every job instead of one built from the job's agent
+  llmProvider?: LLMProvider | null; // Used for every job instead of the providers its agent's settings pick
+  llm?: AgentLLMSettings; // For jobs whose agent has no model settings
+  signer?: ethers.Signer | null; // null disables submission
+  actionRegistry?: ActionRegistry;
+}
+
+/**
+ * Check an intent against the job's permission snapshot
+ * Returns the violated constraint, or null when the action is allowed
+ */
+export function checkPermissionSnapshot(job: ScheduledJob, now: Date = new Date()): string | null {
+  const { intent, permission } = job;
+
+  if (job.permissionRevokedAt) {
+    return `Permission was revoked at ${job.permissionRevokedAt.toISOString()}`;
+  }
+  if (job.agent?.permissionIds && job.agent.permissionIds.indexOf(permission.id) === -1) {
+    return `Permission is not bound to ${job.agent.name ? `agent "${job.agent.name}"` : 'the job\'s agent'}`;
+  }
+  if (now.getTime() < permission.startTime.getTime() || now.getTime() > permission.endTime.getTime()) {
+    return 'Permission is outside its time window';
+  }
+  if (permission.tokenAddress.toLowerCase() !== intent.tokenAddress.toLowerCase()) {
+    return 'Token does not match the permission';
+  }
+  if (!permission.allowedContracts.some(addr => addr.toLowerCase() === intent.contractAddress.toLowerCase())) {
+    return 'Contract is not in the permission\'s allowed list';
+  }
+  let amount: TokenAmount;
+  try {
+    amount = TokenAmount.parse(intent.amount, getAmountDecimals(permission));
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid amount';
+  }
+  if (amount.gt(getRemainingAllowance(job))) {
+    return 'Spend limit would be exceeded';
+  }
+  const periodViolation = checkPeriodAllowance(permission, job.periodSpend, amount, now);
+  if (periodViolation) {
+    return periodViolation;
+  }
+
+  // Runs that failed after a transaction landed still executed it
+  const executions = job.runs
+    .filter(run => run.status === 'executed' || !!run.transactionHash)
+    .map(run => run.finishedAt)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const rateViolation = checkExecutionRate(permission.rateLimit, executions, now);
+  if (rateViolation) {
+    return rateViolation.message;
+  }
+
+  const velocityViolation = job.velocityCap ? checkSpendVelocity(job.velocityCap, job.tokenSpend || [], amount, now) : null;
+  if (velocityViolation) {
+    return velocityViolation.message;
+  }
+  return null;
+}
+
+/**
+ * Job with this run's paced amount, or the job itself when its schedule is not paced
+ * See BudgetPacer; the permission snapshot's spent amount is what has been used
+ */
+export function paceJob(job: ScheduledJob, scheduledFor: Date, context: MarketContext): ScheduledJob {
+  const schedule = job.intent.schedule;
+  if (!schedule?.pacing || job.intent.plan) {
+    return job;
+  }
+
+  const amount = computePacedAmount({
+    mode: schedule.pacing,
+    remainingAllowance: getRemainingAllowance(job).toNumber(),
+    remainingRuns: listRemainingRuns(schedule, scheduledFor, job.permission.endTime).length,
+    maxPerRun: parseFloat(job.intent.amount),
+    tokenPrice: context.tokenPrice !== null ? parseFloat(context.tokenPrice) : null,
+    referencePrice: schedule.pacingReferencePrice,
+  });
+  const paced = formatPacedAmount(amount, getAmountDecimals(job.permission));
+  if (paced === '0') {
+    return job;
+  }
+
+  return { ...job, intent: { ...job.intent, amount: paced } };
+}
+
+/**
+ * Counterparties the job's approval policy treats as known: those the agent
+ * knew when the job was created, and the job's target once a run executed
+ */
+export function getJobCounterparties(job: ScheduledJob): KnownCounterparties {
+  const known: KnownCounterparties = { recipients: new Set(), contracts: new Set() };
+  (job.knownCounterparties?.recipients || []).forEach(address => known.recipients.add(address.toLowerCase()));
+  (job.knownCounterparties?.contracts || []).forEach(address => known.contracts.add(address.toLowerCase()));
+
+  if (job.runs.some(run => run.status === 'executed')) {
+    const isTransfer = !job.intent.action || job.intent.action.type === 'transfer';
+    (isTransfer ? known.recipients : known.contracts).add(job.intent.contractAddress.toLowerCase());
+  }
+  return known;
+}
+
+/**
+ * What is left of the job's permission, exactly in token units
+ * Jobs stored before amounts were exact may carry float noise, so amounts are
+ * rounded to the token's decimals as they are read
+ */
+export function getRemainingAllowance(job: ScheduledJob): TokenAmount {
+  const decimals = getAmountDecimals(job.permission);
+  return TokenAmount.fromLegacy(job.permission.maxSpendAmount, decimals)
+    .minus(TokenAmount.fromLegacy(job.spentAmount, decimals))
+    .atLeastZero();
+}
+
+/**
+ * Signer for the agent's session account, configured from SCHEDULER_SIGNER_PRIVATE_KEY
+ */
+export function createServerSigner(): ethers.Signer | null {
+  const privateKey = process.env.SCHEDULER_SIGNER_PRIVATE_KEY;
+  if (!privateKey) {
+    return null;
+  }
+
+  const provider = new ethers.JsonRpcProvider(process.env.NEXT_PUBLIC_RPC_URL || NETWORK_CONFIG[84532].rpcUrl);
+  return new ethers.Wallet(privateKey, provider);
+}
+
+export class AgentJobRunner implements JobRunner {
+  private marketDataProvider: MarketDataProvider;
+  private decisionMaker: LLMDecisionMaker | null;
+  private llmProvider: LLMProvider | null | undefined;
+  private llm: AgentLLMSettings | undefined;
+  private signer: ethers.Signer | null;
+  private actionRegistry: ActionRegistry;
+
+  constructor(options: AgentJobRunnerOptions = {}) {
+    this.marketDataProvider = options.marketDataProvider || createMarketDataProvider();
+    this.decisionMaker = options.decisionMaker || null;
+    this.llmProvider = options.llmProvider;
+    this.llm = options.llm;
+    this.signer = options.signer !== undefined ? options.signer : createServerSigner();
+    this.actionRegistry = options.actionRegistry || createActionRegistry();
+  }
+
+  async run(scheduledJob: ScheduledJob, scheduledFor: Date = new Date()): Promise<JobRunOutcome> {
+    // Step 1: Gather market context
+    const context = await this.marketDataProvider.getMarketContext(scheduledJob.intent.tokenAddress);
+
+    // Step 2: Pace this run's amount and validate permission boundaries
+    const job = paceJob(scheduledJob, scheduledFor, context);
+    const { intent, permission } = job;
+    const violation = checkPermissionSnapshot(job);
+    if (violation) {
+      return { status: 'blocked', explanation: `Action blocked: ${violation}` };
+    }
+
+    // Step 3: Ask the LLM for a decision
+    const decision = await this.getDecisionMaker(job).decide(intent, context, {
+      tokenAddress: permission.tokenAddress,
+      maxSpendAmount: permission.maxSpendAmount,
+      remainingAllowance: getRemainingAllowance(job).toString(),
+      startTime: permission.startTime,
+      endTime: permission.endTime,
+      allowedContracts: permission.allowedContracts,
+      policy: permission.policy,
+    });
+
+    if (!decision.shouldExecute) {
+      return { status: 'blocked', explanation: `Agent declined to execute: ${decision.reasoning}`, decision };
+    }
+
+    // Nobody can answer an approval request on the server, so such runs are held
+    const approvalReasons = getApprovalReasons(job.approvalPolicy || DEFAULT_APPROVAL_POLICY, decision, [intent], getJobCounterparties(job));
+    if (approvalReasons.length > 0) {
+      return {
+        status: 'blocked',
+        explanation: `Held for approval, nothing was sent: ${approvalReasons.join('; ')}. ` +
+          'Server runs cannot wait for an answer; run the command in the app or change the approval policy',
+        decision,
+      };
+    }
+
+    // Step 4: Submit with the session key the permission was granted to
+    if (!this.signer) {
+      return {
+        status: 'failed',
+        explanation: 'No server-side signer configured: set SCHEDULER_SIGNER_PRIVATE_KEY',
+        decision,
+      };
+    }
+
+    const action = await this.actionRegistry.build(
+      intent,
+      {
+        tokenAddress: permission.tokenAddress,
+        allowedContracts: permission.allowedContracts,
+        remainingAllowance: getRemainingAllowance(job).toString(),
+        decimals: permission.decimals,
+      },
+      { account: await this.signer.getAddress(), permissionId: permission.id }
+    );
+
+    // The server signer is an EOA, so approve + swap or deposit are sent one after the other
+    let transactionHash = '';
+    try {
+      for (const request of action.requests) {
+        const tx = await this.signer.sendTransaction({
+          to: request.to,
+          data: request.data,
+          value: request.value ? BigInt(request.value) : undefined,
+        });
+        await tx.wait();
+        transactionHash = tx.hash;
+      }
+    } catch (error) {
+      if (!transactionHash) {
+        throw error;
+      }
+      // The approval landed without its use; the spender can still take the amount
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        status: 'failed',
+        explanation: `Execution failed after the approval ${transactionHash} landed: ${message}. The approved amount counts as spent`,
+        transactionHash,
+        decision,
+        amountSpent: action.spendAmount,
+      };
+    }
+    console.log(`✅ Scheduled job ${job.id} submitted: ${transactionHash}`);
+
+    return {
+      status: 'executed',
+      explanation: `Executed ${action.type} on schedule: ${decision.reasoning}`,
+      transactionHash,
+      decision,
+      amountSpent: action.spendAmount,
+    };
+  }
+
+  /**
+   * Private: Decision maker with the persona and model settings of the job's agent
+   */
+  private getDecisionMaker(job: ScheduledJob): LLMDecisionMaker {
+    if (this.decisionMaker) {
+      return this.decisionMaker;
+    }
+
+    const settings = job.agent?.llm || this.llm;
+    const provider = this.llmProvider !== undefined ? this.llmProvider : createLLMProvider(settings);
+    return new LLMDecisionMaker(provider, settings, job.agent?.persona);
+  }
+}
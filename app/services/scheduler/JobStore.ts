@@ -0,0 +1,266 @@
+/**
+ * Scheduler Job Store
+ * Durable storage for server-side agent jobs with lease-based locking
+ *
+ * Server only: uses the filesystem.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { PermissionGrant, ScheduledJob } from '@/types/scheduler';
+import { hasActiveLease, reviveGrant, reviveJob } from './ScheduledJobs';
+
+export interface JobStore {
+  list(): Promise<ScheduledJob[]>;
+  get(id: string): Promise<ScheduledJob | null>;
+  create(job: ScheduledJob): Promise<ScheduledJob>;
+  update(id: string, mutate: (job: ScheduledJob) => void): Promise<ScheduledJob | null>;
+  delete(id: string): Promise<boolean>;
+  acquireLease(id: string, owner: string, durationMs: number, now?: Date): Promise<ScheduledJob | null>;
+  releaseLease(id: string, owner: string): Promise<void>;
+  getGrant(ownerAddress: string, permissionId: string): Promise<PermissionGrant | null>;
+  listGrants(ownerAddress: string): Promise<PermissionGrant[]>;
+  recordGrant(grant: PermissionGrant): Promise<PermissionGrant>; // Returns the existing grant when there is one
+  updateGrant(ownerAddress: string, permissionId: string, mutate: (grant: PermissionGrant) => void): Promise<PermissionGrant | null>;
+}
+
+// Lock file handling for writers in other processes
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 10000;
+const STALE_LOCK_MS = 30000;
+
+/**
+ * JSON file job store
+ *
+ * Every read-modify-write happens under a lock file so several worker
+ * processes and the Next.js server can share one store. Permission grants
+ * are kept in a second file next to the jobs, under the same lock.
+ */
+export class FileJobStore implements JobStore {
+  private filePath: string;
+  private grantsPath: string;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, grantsPath: string = filePath.replace(/\.json$/, '') + '-grants.json') {
+    this.filePath = filePath;
+    this.grantsPath = grantsPath;
+  }
+
+  async list(): Promise<ScheduledJob[]> {
+    return this.readJobs();
+  }
+
+  async get(id: string): Promise<ScheduledJob | null> {
+    const jobs = await this.readJobs();
+    return jobs.find(job => job.id === id) || null;
+  }
+
+  async create(job: ScheduledJob): Promise<ScheduledJob> {
+    return this.withLock(async () => {
+      const jobs = await this.readJobs();
+      if (jobs.some(existing => existing.id === job.id)) {
+        throw new Error(`Job already exists: ${job.id}`);
+      }
+      jobs.push(job);
+      await this.writeJobs(jobs);
+      return job;
+    });
+  }
+
+  async update(id: string, mutate: (job: ScheduledJob) => void): Promise<ScheduledJob | null> {
+    return this.withLock(async () => {
+      const jobs = await this.readJobs();
+      const job = jobs.find(existing => existing.id === id);
+      if (!job) {
+        return null;
+      }
+      mutate(job);
+      job.updatedAt = new Date();
+      await this.writeJobs(jobs);
+      return job;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.withLock(async () => {
+      const jobs = await this.readJobs();
+      const remaining = jobs.filter(job => job.id !== id);
+      if (remaining.length === jobs.length) {
+        return false;
+      }
+      await this.writeJobs(remaining);
+      return true;
+    });
+  }
+
+  /**
+   * Lease a job for exclusive processing
+   * Returns null when another worker holds an unexpired lease
+   */
+  async acquireLease(id: string, owner: string, durationMs: number, now: Date = new Date()): Promise<ScheduledJob | null> {
+    return this.withLock(async () => {
+      const jobs = await this.readJobs();
+      const job = jobs.find(existing => existing.id === id);
+      if (!job || (job.lease && hasActiveLease(job, now) && job.lease.owner !== owner)) {
+        return null;
+      }
+      job.lease = { owner, expiresAt: new Date(now.getTime() + durationMs) };
+      await this.writeJobs(jobs);
+      return job;
+    });
+  }
+
+  async releaseLease(id: string, owner: string): Promise<void> {
+    await this.withLock(async () => {
+      const jobs = await this.readJobs();
+      const job = jobs.find(existing => existing.id === id);
+      if (job?.lease?.owner === owner) {
+        delete job.lease;
+        await this.writeJobs(jobs);
+      }
+    });
+  }
+
+  async getGrant(ownerAddress: string, permissionId: string): Promise<PermissionGrant | null> {
+    const grants = await this.readGrants();
+    return grants.find(grant => isGrantFor(grant, ownerAddress, permissionId)) || null;
+  }
+
+  async listGrants(ownerAddress: string): Promise<PermissionGrant[]> {
+    const grants = await this.readGrants();
+    return grants.filter(grant => grant.ownerAddress.toLowerCase() === ownerAddress.toLowerCase());
+  }
+
+  async recordGrant(grant: PermissionGrant): Promise<PermissionGrant> {
+    return this.withLock(async () => {
+      const grants = await this.readGrants();
+      const existing = grants.find(candidate => isGrantFor(candidate, grant.ownerAddress, grant.permission.id));
+      if (existing) {
+        return existing;
+      }
+      grants.push(grant);
+      await this.writeFile(this.grantsPath, grants);
+      return grant;
+    });
+  }
+
+  async updateGrant(ownerAddress: string, permissionId: string, mutate: (grant: PermissionGrant) => void): Promise<PermissionGrant | null> {
+    return this.withLock(async () => {
+      const grants = await this.readGrants();
+      const grant = grants.find(candidate => isGrantFor(candidate, ownerAddress, permissionId));
+      if (!grant) {
+        return null;
+      }
+      mutate(grant);
+      await this.writeFile(this.grantsPath, grants);
+      return grant;
+    });
+  }
+
+  /**
+   * Private: Run a read-modify-write exclusively, in this process and across processes
+   */
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(() => this.withFileLock(fn));
+    this.queue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private async withFileLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let acquired = false;
+    while (!acquired) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.close();
+        acquired = true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+
+        // Remove a lock left behind by a crashed process
+        const stat = await fs.stat(lockPath).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          await fs.rm(lockPath, { force: true });
+          continue;
+        }
+
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for job store lock: ${lockPath}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Private: Load jobs from disk and restore Date fields
+   */
+  private async readJobs(): Promise<ScheduledJob[]> {
+    return (await this.readFile(this.filePath)).map(reviveJob);
+  }
+
+  /**
+   * Private: Load permission grants from disk and restore Date fields
+   */
+  private async readGrants(): Promise<PermissionGrant[]> {
+    return (await this.readFile(this.grantsPath)).map(reviveGrant);
+  }
+
+  private async readFile(filePath: string): Promise<any[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return JSON.parse(raw);
+  }
+
+  /**
+   * Private: Write jobs atomically (temp file + rename)
+   */
+  private async writeJobs(jobs: ScheduledJob[]): Promise<void> {
+    await this.writeFile(this.filePath, jobs);
+  }
+
+  private async writeFile(filePath: string, data: unknown[]): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+}
+
+/**
+ * Private: Whether a grant is an owner's grant of a permission
+ */
+function isGrantFor(grant: PermissionGrant, ownerAddress: string, permissionId: string): boolean {
+  return grant.ownerAddress.toLowerCase() === ownerAddress.toLowerCase() && grant.permission.id === permissionId;
+}
+
+let defaultStore: JobStore | null = null;
+
+/**
+ * Shared job store configured from SCHEDULER_STORE_PATH
+ */
+export function getJobStore(): JobStore {
+  if (!defaultStore) {
+    defaultStore = new FileJobStore(
+      process.env.SCHEDULER_STORE_PATH || path.join(process.cwd(), '.data', 'scheduler-jobs.json')
+    );
+  }
+  return defaultStore;
+}
@@ -0,0 +1,124 @@
+/**
+ * Scheduled job helpers shared by the server job store and the browser client
+ */
+
+import type { PermissionGrant, ScheduledJob } from '@/types/scheduler';
+import type { PeriodSpend } from '@/types/permissions';
+import { TokenAmount, getAmountDecimals } from '@/lib/tokenAmount';
+import { addPeriodSpend, getPeriodIndex } from '@/services/permissions/PeriodicAllowance';
+import { VELOCITY_WINDOW_MS } from '@/services/permissions/RateLimiter';
+
+/**
+ * Whether a job is currently leased by a live worker
+ */
+export function hasActiveLease(job: ScheduledJob, now: Date = new Date()): boolean {
+  return !!job.lease && job.lease.expiresAt.getTime() > now.getTime();
+}
+
+/**
+ * Restore Date fields on a job read from JSON
+ */
+export function reviveJob(data: any): ScheduledJob {
+  const schedule = data.intent.schedule;
+  return {
+    ...data,
+    intent: {
+      ...data.intent,
+      schedule: schedule ? {
+        ...schedule,
+        nextExecution: schedule.nextExecution ? new Date(schedule.nextExecution) : undefined,
+        endDate: schedule.endDate ? new Date(schedule.endDate) : undefined,
+      } : undefined,
+    },
+    permission: {
+      ...data.permission,
+      startTime: new Date(data.permission.startTime),
+      endTime: new Date(data.permission.endTime),
+    },
+    nextRunAt: data.nextRunAt ? new Date(data.nextRunAt) : null,
+    permissionRevokedAt: data.permissionRevokedAt ? new Date(data.permissionRevokedAt) : undefined,
+    lease: data.lease ? { owner: data.lease.owner, expiresAt: new Date(data.lease.expiresAt) } : undefined,
+    runs: (data.runs || []).map((run: any) => ({
+      ...run,
+      scheduledFor: new Date(run.scheduledFor),
+      startedAt: new Date(run.startedAt),
+      finishedAt: new Date(run.finishedAt),
+      decision: run.decision ? {
+        ...run.decision,
+        llmExchanges: run.decision.llmExchanges?.map((exchange: any) => ({
+          ...exchange,
+          requestedAt: new Date(exchange.requestedAt),
+        })),
+      } : undefined,
+    })),
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+  };
+}
+
+/**
+ * Restore Date fields on a permission grant read from JSON
+ */
+export function reviveGrant(data: any): PermissionGrant {
+  return {
+    ...data,
+    permission: {
+      ...data.permission,
+      startTime: new Date(data.permission.startTime),
+      endTime: new Date(data.permission.endTime),
+    },
+    grantedAt: new Date(data.grantedAt),
+    spentAmount: data.spentAmount || '0',
+    reportedSpent: data.reportedSpent || '0',
+    revokedAt: data.revokedAt ? new Date(data.revokedAt) : undefined,
+    recentSpend: data.recentSpend?.map((entry: any) => ({ ...entry, timestamp: new Date(entry.timestamp) })),
+  };
+}
+
+/**
+ * Count an executed run's spend against its grant
+ */
+export function addGrantSpend(grant: PermissionGrant, amount: TokenAmount, at: Date): void {
+  const decimals = getAmountDecimals(grant.permission);
+  grant.spentAmount = TokenAmount.parse(grant.spentAmount, decimals).plus(amount).toString();
+  grant.periodSpend = addPeriodSpend(grant.permission, grant.periodSpend, amount, at);
+  grant.recentSpend = (grant.recentSpend || [])
+    .filter(entry => at.getTime() - entry.timestamp.getTime() < VELOCITY_WINDOW_MS)
+    .concat({ timestamp: at, amount: amount.toString() });
+}
+
+/**
+ * Count spend the browser reports with a job request against its grant
+ *
+ * Reports are cumulative, so only the part above the highest earlier report
+ * is added: a lower or repeated report never lowers what the grant has spent.
+ */
+export function addReportedSpend(
+  grant: PermissionGrant,
+  spentAmount: string | undefined,
+  periodSpend: PeriodSpend | undefined,
+  now: Date = new Date()
+): void {
+  const decimals = getAmountDecimals(grant.permission);
+
+  const reported = TokenAmount.fromLegacy(spentAmount || '0', decimals).atLeastZero();
+  const previous = TokenAmount.parse(grant.reportedSpent, decimals);
+  if (reported.gt(previous)) {
+    grant.spentAmount = TokenAmount.parse(grant.spentAmount, decimals).plus(reported.minus(previous)).toString();
+    grant.reportedSpent = reported.toString();
+  }
+
+  // Period reports only count while their period lasts
+  const { period } = grant.permission;
+  if (!period || !periodSpend || periodSpend.index !== getPeriodIndex(period, grant.permission.startTime, now)) {
+    return;
+  }
+  const reportedInPeriod = TokenAmount.fromLegacy(periodSpend.spent, decimals);
+  const previousInPeriod = grant.reportedPeriodSpend && grant.reportedPeriodSpend.index === periodSpend.index
+    ? TokenAmount.parse(grant.reportedPeriodSpend.spent, decimals)
+    : TokenAmount.zero(decimals);
+  if (reportedInPeriod.gt(previousInPeriod)) {
+    grant.periodSpend = addPeriodSpend(grant.permission, grant.periodSpend, reportedInPeriod.minus(previousInPeriod), now);
+    grant.reportedPeriodSpend = { index: periodSpend.index, spent: reportedInPeriod.toString() };
+  }
+}
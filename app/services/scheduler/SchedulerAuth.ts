@@ -0,0 +1,196 @@
+/**
+ * Scheduler Auth
+ * Signed owner requests for the server scheduler API
+ *
+ * The browser signs a sign-in message (EIP-4361 style) once per session and
+ * sends it with every request, so the API knows which account is asking. A
+ * job also carries its owner's EIP-712 signature over the permission's terms:
+ * that signed grant, not the request body, bounds what the server signer may
+ * send for the job. Shared by the browser client and the API routes.
+ */
+
+import { ethers } from 'ethers';
+import { SCHEDULER_CONFIG } from '@/lib/constants';
+import { getAmountDecimals } from '@/lib/tokenAmount';
+import type { JobPermissionSnapshot } from '@/types/scheduler';
+
+export const SIGN_IN_STATEMENT = 'Manage my MetaPilot server scheduler jobs.';
+
+const AUTH_SCHEME = 'Signature ';
+
+export const PERMISSION_GRANT_DOMAIN = {
+  name: 'MetaPilot Scheduler',
+  version: '1',
+  chainId: SCHEDULER_CONFIG.CHAIN_ID,
+};
+
+export const PERMISSION_GRANT_TYPES = {
+  PermissionGrant: [
+    { name: 'permissionId', type: 'string' },
+    { name: 'tokenAddress', type: 'address' },
+    { name: 'maxSpendAmount', type: 'string' },
+    { name: 'decimals', type: 'uint8' },
+    { name: 'startTime', type: 'uint256' },
+    { name: 'endTime', type: 'uint256' },
+    { name: 'allowedContracts', type: 'address[]' },
+    { name: 'period', type: 'string' },
+    { name: 'rateLimit', type: 'string' },
+    { name: 'policy', type: 'string' },
+  ],
+};
+
+export interface SignInMessageFields {
+  domain: string; // Host the API is served from
+  uri: string;
+  address: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Sign-in message for the scheduler API, in the EIP-4361 layout
+ */
+export function buildSignInMessage(fields: SignInMessageFields): string {
+  return [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    ethers.getAddress(fields.address),
+    '',
+    SIGN_IN_STATEMENT,
+    '',
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain ID: ${SCHEDULER_CONFIG.CHAIN_ID}`,
+    `Issued At: ${fields.issuedAt.toISOString()}`,
+    `Expiration Time: ${fields.expiresAt.toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Authorization header value for a signed sign-in message
+ */
+export function encodeAuthorization(message: string, signature: string): string {
+  return AUTH_SCHEME + btoa(JSON.stringify({ message, signature }));
+}
+
+/**
+ * Account that signed an Authorization header for this API
+ * Throws when the header is missing, malformed, for another host, expired or
+ * not signed by the account it names.
+ */
+export function verifyAuthorization(header: string | null, domain: string, now: Date = new Date()): string {
+  if (!header || header.indexOf(AUTH_SCHEME) !== 0) {
+    throw new Error('Sign in with your wallet to use the scheduler');
+  }
+
+  let message: string;
+  let signature: string;
+  try {
+    const payload = JSON.parse(atob(header.slice(AUTH_SCHEME.length)));
+    message = String(payload.message);
+    signature = String(payload.signature);
+  } catch {
+    throw new Error('Malformed authorization');
+  }
+
+  const lines = message.split('\n');
+  if (lines[0] !== `${domain} wants you to sign in with your Ethereum account:` || lines.indexOf(SIGN_IN_STATEMENT) === -1) {
+    throw new Error('The sign-in message is not for this scheduler');
+  }
+
+  const issuedAt = new Date(readField(lines, 'Issued At'));
+  const expiresAt = new Date(readField(lines, 'Expiration Time'));
+  if (isNaN(issuedAt.getTime()) || isNaN(expiresAt.getTime())) {
+    throw new Error('The sign-in message has no valid issue and expiration times');
+  }
+  if (issuedAt.getTime() > now.getTime() + SCHEDULER_CONFIG.AUTH_CLOCK_SKEW_MS ||
+      expiresAt.getTime() <= now.getTime() ||
+      expiresAt.getTime() - issuedAt.getTime() > SCHEDULER_CONFIG.AUTH_SESSION_MS) {
+    throw new Error('The sign-in has expired; sign in again');
+  }
+
+  let address: string;
+  let signer: string;
+  try {
+    address = ethers.getAddress(lines[1]);
+    signer = ethers.verifyMessage(message, signature);
+  } catch {
+    throw new Error('Invalid sign-in signature');
+  }
+  if (signer !== address) {
+    throw new Error('The sign-in was not signed by the account it names');
+  }
+  return address;
+}
+
+/**
+ * EIP-712 value of a permission's terms, as its owner signs them
+ * Policy, rate limit and period are canonical JSON, so key order does not matter
+ */
+export function toPermissionGrant(permission: JobPermissionSnapshot): Record<string, unknown> {
+  return {
+    permissionId: permission.id,
+    tokenAddress: ethers.getAddress(permission.tokenAddress),
+    maxSpendAmount: permission.maxSpendAmount,
+    decimals: getAmountDecimals(permission),
+    startTime: permission.startTime.getTime(),
+    endTime: permission.endTime.getTime(),
+    allowedContracts: permission.allowedContracts.map(address => ethers.getAddress(address)),
+    period: toCanonicalJson(permission.period || null),
+    rateLimit: toCanonicalJson(permission.rateLimit || null),
+    policy: toCanonicalJson(permission.policy || null),
+  };
+}
+
+/**
+ * Whether `signature` is `ownerAddress`'s EIP-712 signature over the permission's terms
+ */
+export function verifyPermissionGrant(permission: JobPermissionSnapshot, signature: string, ownerAddress: string): boolean {
+  try {
+    const signer = ethers.verifyTypedData(PERMISSION_GRANT_DOMAIN, PERMISSION_GRANT_TYPES, toPermissionGrant(permission), signature);
+    return signer === ethers.getAddress(ownerAddress);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether two snapshots have the same signed terms
+ */
+export function isSamePermissionGrant(a: JobPermissionSnapshot, b: JobPermissionSnapshot): boolean {
+  return toCanonicalJson(toPermissionGrant(a)) === toCanonicalJson(toPermissionGrant(b));
+}
+
+/**
+ * Accounts the server signer may act for, from SCHEDULER_ALLOWED_OWNERS (comma separated)
+ * Server only
+ */
+export function getAllowedOwners(): string[] {
+  return (process.env.SCHEDULER_ALLOWED_OWNERS || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(address => ethers.isAddress(address))
+    .map(address => ethers.getAddress(address));
+}
+
+/**
+ * Private: Value of a "Name: value" line of a sign-in message
+ */
+function readField(lines: string[], name: string): string {
+  const line = lines.find(candidate => candidate.indexOf(`${name}: `) === 0);
+  return line ? line.slice(name.length + 2) : '';
+}
+
+/**
+ * Private: JSON with object keys sorted, so equal values always serialize the same
+ */
+function toCanonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return item;
+    }
+    return Object.keys(item).sort().reduce((sorted, key) => {
+      sorted[key] = item[key];
+      return sorted;
+    }, {} as Record<string, unknown>);
+  });
+}
@@ -0,0 +1,173 @@
+/**
+ * Scheduler API Client
+ * Browser-side access to the server scheduler's job API
+ *
+ * Requests are signed in with the connected wallet (one signature per
+ * session), and new jobs carry the owner's signature over the permission.
+ */
+
+import { ethers } from 'ethers';
+import { SCHEDULER_CONFIG } from '@/lib/constants';
+import type { CatchUpPolicy, JobAgentSettings, JobCounterparties, JobPermissionSnapshot, ScheduledJob } from '@/types/scheduler';
+import type { ApprovalPolicy } from '@/services/agent/ApprovalPolicy';
+import type { PeriodSpend, VelocityCap } from '@/types/permissions';
+import type { AgentIntent } from '@/services/agent/AgentExecutor';
+import { reviveJob } from './ScheduledJobs';
+import {
+  PERMISSION_GRANT_DOMAIN,
+  PERMISSION_GRANT_TYPES,
+  buildSignInMessage,
+  encodeAuthorization,
+  toPermissionGrant,
+} from './SchedulerAuth';
+
+export interface CreateJobRequest {
+  intent: AgentIntent;
+  permission: JobPermissionSnapshot;
+  catchUpPolicy?: CatchUpPolicy;
+  agentId?: string; // Agent the job runs for, so pausing the agent pauses the job
+  agent?: JobAgentSettings; // Persona, model settings and permission binding the job's runs decide with
+  approvalPolicy?: ApprovalPolicy; // Runs the policy would ask about are held instead of sent
+  knownCounterparties?: JobCounterparties;
+  velocityCap?: VelocityCap; // Account spend cap for the permission's token
+  spentAmount?: string;
+  periodSpend?: PeriodSpend; // Spent in the permission's current period before the job was created
+}
+
+interface SignInSession {
+  address: string;
+  authorization: string;
+  expiresAt: number;
+}
+
+// A session is renewed this long before it expires
+const SESSION_RENEW_MS = 60 * 1000;
+
+export class SchedulerClient {
+  private baseUrl: string;
+  private getSigner: () => Promise<ethers.Signer | null>;
+  private session: Promise<SignInSession> | null = null;
+
+  constructor(baseUrl: string = '', getSigner: () => Promise<ethers.Signer | null> = async () => null) {
+    this.baseUrl = baseUrl;
+    this.getSigner = getSigner;
+  }
+
+  /**
+   * Jobs of the signed-in account
+   */
+  async listJobs(): Promise<ScheduledJob[]> {
+    const data = await this.request('/api/scheduler/jobs');
+    return data.map(reviveJob);
+  }
+
+  /**
+   * Create a job, signing the permission's terms as the grant the server signer acts under
+   */
+  async createJob(request: CreateJobRequest): Promise<ScheduledJob> {
+    const signer = await this.requireSigner();
+    const permissionSignature = await signer.signTypedData(
+      PERMISSION_GRANT_DOMAIN,
+      PERMISSION_GRANT_TYPES,
+      toPermissionGrant(request.permission)
+    );
+    const data = await this.request('/api/scheduler/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ ...request, permissionSignature }),
+    });
+    return reviveJob(data);
+  }
+
+  /**
+   * Pause a job; `withAgent` marks it as paused along with its agent
+   */
+  async pauseJob(id: string, withAgent: boolean = false): Promise<ScheduledJob> {
+    return reviveJob(await this.request(`/api/scheduler/jobs/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ action: 'pause', withAgent }),
+    }));
+  }
+
+  async resumeJob(id: string): Promise<ScheduledJob> {
+    return reviveJob(await this.request(`/api/scheduler/jobs/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ action: 'resume' }),
+    }));
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    await this.request(`/api/scheduler/jobs/${id}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Revoke a permission's grant on the server; its jobs are completed and never run again
+   */
+  async revokePermission(permissionId: string): Promise<{ permissionId: string; revokedAt: Date; completedJobIds: string[] }> {
+    const data = await this.request(`/api/scheduler/permissions/${encodeURIComponent(permissionId)}/revoke`, { method: 'POST' });
+    return { ...data, revokedAt: new Date(data.revokedAt) };
+  }
+
+  /**
+   * Private: Call the API and unwrap `data`, throwing the API's error message on failure
+   */
+  private async request(path: string, init: RequestInit = {}): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: await this.authorize() },
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      const details = Array.isArray(body.details) ? body.details.join('; ') : body.details;
+      throw new Error(details ? `${body.error}: ${details}` : body.error || response.statusText);
+    }
+
+    return body.data;
+  }
+
+  /**
+   * Private: Authorization header of the current sign-in, signing in again
+   * when the wallet account changed or the session is about to expire
+   */
+  private async authorize(): Promise<string> {
+    const address = await (await this.requireSigner()).getAddress();
+    const current = this.session ? await this.session.catch(() => null) : null;
+    if (current && current.address === address && current.expiresAt - SESSION_RENEW_MS > Date.now()) {
+      return current.authorization;
+    }
+
+    const session = this.signIn(address);
+    this.session = session;
+    try {
+      return (await session).authorization;
+    } catch (error) {
+      this.session = null;
+      throw error;
+    }
+  }
+
+  /**
+   * Private: Sign a sign-in message for this API's host
+   */
+  private async signIn(address: string): Promise<SignInSession> {
+    const signer = await this.requireSigner();
+    const origin = new URL(this.baseUrl || window.location.origin);
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + SCHEDULER_CONFIG.AUTH_SESSION_MS);
+    const message = buildSignInMessage({ domain: origin.host, uri: origin.origin, address, issuedAt, expiresAt });
+
+    return {
+      address,
+      authorization: encodeAuthorization(message, await signer.signMessage(message)),
+      expiresAt: expiresAt.getTime(),
+    };
+  }
+
+  private async requireSigner(): Promise<ethers.Signer> {
+    const signer = await this.getSigner();
+    if (!signer) {
+      throw new Error('Connect your wallet to use the server scheduler');
+    }
+    return signer;
+  }
+}
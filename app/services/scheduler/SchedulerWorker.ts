@@ -0,0 +1,282 @@
+/**
+ * Scheduler Worker
+ * Runs due server-side jobs under a lease and applies the catch-up policy for missed runs
+ */
+
+import { hasScheduleEnded, planDueOccurrences } from '@/services/agent/ScheduleCalculator';
+import type { OccurrencePlan } from '@/services/agent/ScheduleCalculator';
+import type { AgentDecision } from '@/services/agent/AgentExecutor';
+import { SCHEDULER_CONFIG } from '@/lib/constants';
+import { TokenAmount, getAmountDecimals } from '@/lib/tokenAmount';
+import { addPeriodSpend } from '@/services/permissions/PeriodicAllowance';
+import type { CatchUpPolicy, JobRun, RunSpend, ScheduledJob } from '@/types/scheduler';
+import type { JobStore } from './JobStore';
+import { addGrantSpend, hasActiveLease } from './ScheduledJobs';
+
+/**
+ * Result of running one occurrence of a job
+ */
+export interface JobRunOutcome {
+  status: 'executed' | 'blocked' | 'failed';
+  explanation: string;
+  transactionHash?: string;
+  decision?: AgentDecision;
+  amountSpent?: string; // Added to the spent amount of the job's grant
+}
+
+export interface JobRunner {
+  run(job: ScheduledJob, scheduledFor: Date): Promise<JobRunOutcome>;
+}
+
+export interface SchedulerWorkerOptions {
+  workerId?: string;
+  pollIntervalMs?: number;
+  leaseDurationMs?: number;
+  misfireGraceMs?: number;
+  maxCatchUpRuns?: number;
+}
+
+export interface TickResult {
+  checked: number; // Due jobs seen
+  ran: number; // Occurrences executed
+  skipped: number; // Missed occurrences skipped by the catch-up policy
+}
+
+/**
+ * Work out what to do with a job's due occurrences at `now`
+ * See planDueOccurrences for how each catch-up policy treats missed runs
+ */
+export function planOccurrences(
+  job: ScheduledJob,
+  now: Date,
+  misfireGraceMs: number,
+  maxCatchUpRuns: number
+): OccurrencePlan {
+  const schedule = job.intent.schedule;
+  if (!schedule || !job.nextRunAt) {
+    return { run: [], skipped: [], nextRunAt: null };
+  }
+
+  return planDueOccurrences(schedule, job.nextRunAt, now, job.catchUpPolicy, misfireGraceMs, maxCatchUpRuns);
+}
+
+/**
+ * Polls the job store and runs due jobs
+ *
+ * Several workers can share one store: a job is only processed by the
+ * worker holding its lease, and a crashed worker's lease simply expires.
+ * Spend is kept on the job's permission grant, so jobs sharing a permission
+ * share its budget.
+ */
+export class SchedulerWorker {
+  private store: JobStore;
+  private runner: JobRunner;
+  private workerId: string;
+  private pollIntervalMs: number;
+  private leaseDurationMs: number;
+  private misfireGraceMs: number;
+  private maxCatchUpRuns: number;
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+
+  constructor(store: JobStore, runner: JobRunner, options: SchedulerWorkerOptions = {}) {
+    this.store = store;
+    this.runner = runner;
+    this.workerId = options.workerId || `worker_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+    this.pollIntervalMs = options.pollIntervalMs || SCHEDULER_CONFIG.POLL_INTERVAL_MS;
+    this.leaseDurationMs = options.leaseDurationMs || SCHEDULER_CONFIG.LEASE_DURATION_MS;
+    this.misfireGraceMs = options.misfireGraceMs ?? SCHEDULER_CONFIG.MISFIRE_GRACE_MS;
+    this.maxCatchUpRuns = options.maxCatchUpRuns || SCHEDULER_CONFIG.MAX_CATCH_UP_RUNS;
+  }
+
+  /**
+   * Start polling the store
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`⏰ Scheduler worker ${this.workerId} started (every ${this.pollIntervalMs / 1000}s)`);
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('❌ Scheduler tick failed:', error));
+    }, this.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log(`🛑 Scheduler worker ${this.workerId} stopped`);
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Run every job that is due at `now`
+   */
+  async tick(now: Date = new Date()): Promise<TickResult> {
+    const result: TickResult = { checked: 0, ran: 0, skipped: 0 };
+
+    // A slow run must not overlap with the next poll
+    if (this.isTicking) {
+      return result;
+    }
+    this.isTicking = true;
+
+    try {
+      const jobs = await this.store.list();
+      const due = jobs.filter(job =>
+        job.status === 'active' &&
+        job.nextRunAt !== null &&
+        job.nextRunAt.getTime() <= now.getTime() &&
+        !hasActiveLease(job, now)
+      );
+
+      for (const job of due) {
+        result.checked++;
+        try {
+          const jobResult = await this.processJob(job.id, now);
+          result.ran += jobResult.ran;
+          result.skipped += jobResult.skipped;
+        } catch (error) {
+          console.error(`❌ Scheduler job ${job.id} failed:`, error);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Private: Lease a job, run its due occurrences and advance it
+   */
+  private async processJob(jobId: string, now: Date): Promise<{ ran: number; skipped: number }> {
+    const job = await this.store.acquireLease(jobId, this.workerId, this.leaseDurationMs, now);
+    if (!job) {
+      return { ran: 0, skipped: 0 }; // Another worker got there first
+    }
+
+    let ran = 0;
+    try {
+      const plan = planOccurrences(job, now, this.misfireGraceMs, this.maxCatchUpRuns);
+
+      if (plan.skipped.length > 0) {
+        await this.recordRun(job, {
+          scheduledFor: plan.skipped[0],
+          startedAt: now,
+          finishedAt: now,
+          status: 'skipped',
+          explanation: describeSkipped(plan.skipped, job.catchUpPolicy),
+        });
+      }
+
+      let current: ScheduledJob | null = job;
+      for (const scheduledFor of plan.run) {
+        if (!current || current.status !== 'active') {
+          break; // Paused or deleted while earlier occurrences ran
+        }
+
+        console.log(`🤖 Running job ${jobId} for ${scheduledFor.toISOString()}`);
+        const startedAt = new Date();
+        let outcome: JobRunOutcome;
+        try {
+          outcome = await this.runner.run(await this.withGrantSpend(current), scheduledFor);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          outcome = { status: 'failed', explanation: `Execution failed: ${message}` };
+        }
+
+        current = await this.recordRun(job, {
+          scheduledFor,
+          startedAt,
+          finishedAt: new Date(),
+          status: outcome.status,
+          explanation: outcome.explanation,
+          transactionHash: outcome.transactionHash,
+          decision: outcome.decision,
+        }, outcome.amountSpent);
+        ran++;
+      }
+
+      await this.store.update(jobId, updated => {
+        updated.nextRunAt = plan.nextRunAt;
+        if (updated.intent.schedule) {
+          updated.intent.schedule.nextExecution = plan.nextRunAt || undefined;
+        }
+
+        const ended = !plan.nextRunAt || (updated.intent.schedule && hasScheduleEnded(updated.intent.schedule, now));
+        if (ended && updated.status !== 'paused') {
+          updated.status = 'completed';
+          updated.nextRunAt = null;
+          console.log(`🏁 Job ${jobId} completed`);
+        }
+      });
+
+      return { ran, skipped: plan.skipped.length };
+    } finally {
+      await this.store.releaseLease(jobId, this.workerId);
+    }
+  }
+
+  /**
+   * Private: The job with the spend recorded on its grant, which other jobs of the permission add to,
+   * whether the grant was revoked, and the owner's recent server spend of the token for its velocity cap
+   * Jobs without a grant keep their own spend
+   */
+  private async withGrantSpend(job: ScheduledJob): Promise<ScheduledJob> {
+    const grants = await this.store.listGrants(job.ownerAddress);
+    const grant = grants.find(candidate => candidate.permission.id === job.permission.id);
+    const token = job.permission.tokenAddress.toLowerCase();
+    const tokenSpend = grants
+      .filter(candidate => candidate.permission.tokenAddress.toLowerCase() === token)
+      .reduce((entries, candidate) => entries.concat(candidate.recentSpend || []), [] as RunSpend[]);
+
+    return grant
+      ? { ...job, spentAmount: grant.spentAmount, periodSpend: grant.periodSpend, permissionRevokedAt: grant.revokedAt || job.permissionRevokedAt, tokenSpend }
+      : { ...job, tokenSpend };
+  }
+
+  /**
+   * Private: Append a run to the job's history and count its spend against the grant, renewing the lease
+   */
+  private async recordRun(job: ScheduledJob, run: JobRun, amountSpent?: string): Promise<ScheduledJob | null> {
+    const spent = amountSpent ? TokenAmount.parse(amountSpent, getAmountDecimals(job.permission)) : null;
+    const grant = spent
+      ? await this.store.updateGrant(job.ownerAddress, job.permission.id, updated => addGrantSpend(updated, spent, run.finishedAt))
+      : await this.store.getGrant(job.ownerAddress, job.permission.id);
+
+    return this.store.update(job.id, updated => {
+      updated.runs = [run, ...updated.runs].slice(0, SCHEDULER_CONFIG.MAX_RUN_HISTORY);
+
+      if (run.status !== 'skipped' && updated.intent.schedule) {
+        updated.intent.schedule.occurrenceCount = (updated.intent.schedule.occurrenceCount || 0) + 1;
+      }
+      if (grant) {
+        updated.spentAmount = grant.spentAmount;
+        updated.periodSpend = grant.periodSpend;
+      } else if (spent) {
+        updated.spentAmount = TokenAmount.fromLegacy(updated.spentAmount, spent.decimals).plus(spent).toString();
+        updated.periodSpend = addPeriodSpend(updated.permission, updated.periodSpend, spent, run.finishedAt);
+      }
+      if (updated.lease?.owner === this.workerId) {
+        updated.lease.expiresAt = new Date(Date.now() + this.leaseDurationMs);
+      }
+    });
+  }
+}
+
+/**
+ * Summarize skipped occurrences for the run history
+ */
+function describeSkipped(skipped: Date[], policy: CatchUpPolicy): string {
+  const first = skipped[0].toISOString();
+  const last = skipped[skipped.length - 1].toISOString();
+  const range = skipped.length === 1 ? first : `${first} to ${last}`;
+  return `Skipped ${skipped.length} missed run${skipped.length === 1 ? '' : 's'} (${range}) under the ${policy} catch-up policy`;
+}
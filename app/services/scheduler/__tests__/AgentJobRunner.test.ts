@@ -0,0 +1,173 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Server job runs: the owner's approval policy holds runs it would ask about,
+ * and each job decides with the settings of the agent that created it
+ */
+
+import { ethers } from 'ethers';
+import { describe, expect, it, jest } from '@jest/globals';
+import { AgentJobRunner } from '@/services/scheduler/AgentJobRunner';
+import { LLMDecisionMaker } from '@/services/agent/DecisionMaker';
+import { DEFAULT_APPROVAL_POLICY } from '@/services/agent/ApprovalPolicy';
+import { ScriptedProvider } from '@/services/agent/LLMProvider';
+import type { MarketDataProvider } from '@/services/agent/MarketDataProvider';
+import type { ActionRegistry } from '@/services/blockchain/ActionRegistry';
+import type { ScheduledJob } from '@/types/scheduler';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const TOKEN = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+
+const marketDataProvider: MarketDataProvider = {
+  name: 'fixture',
+  getMarketContext: async () => ({
+    gasPrice: '1',
+    tokenPrice: '1',
+    networkCongestion: 'low',
+    timestamp: new Date(),
+    sources: {
+      gasPrice: { provider: 'fixture', observedAt: new Date(), ageMs: 0 },
+      tokenPrice: { provider: 'fixture', observedAt: new Date(), ageMs: 0 },
+      networkCongestion: { provider: 'fixture', observedAt: new Date(), ageMs: 0 },
+    },
+  }),
+};
+
+// Builds a plain transfer without reading the chain
+const actionRegistry = {
+  build: async () => ({
+    type: 'transfer',
+    requests: [{ to: TOKEN, data: '0x' }],
+    spendAmount: '5',
+    balanceDeltas: [],
+    summary: 'Transfer 5',
+  }),
+} as unknown as ActionRegistry;
+
+function createSigner() {
+  const sendTransaction = jest.fn(async () => ({ hash: '0xabc', wait: async () => null }));
+  const signer = { getAddress: async () => OWNER, sendTransaction } as unknown as ethers.Signer;
+  return { signer, sendTransaction };
+}
+
+function createJob(overrides: Partial<ScheduledJob> = {}): ScheduledJob {
+  const now = new Date();
+  return {
+    id: 'job_approval',
+    intent: {
+      description: 'Send 5 USDC every hour',
+      tokenAddress: TOKEN,
+      amount: '5',
+      contractAddress: RECIPIENT,
+      permissionId: 'perm_approval',
+      schedule: { type: 'recurring', frequency: 'hourly', isActive: true },
+    },
+    permission: {
+      id: 'perm_approval',
+      tokenAddress: TOKEN,
+      maxSpendAmount: '100',
+      decimals: 6,
+      startTime: new Date(now.getTime() - 60 * 60 * 1000),
+      endTime: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+      allowedContracts: [RECIPIENT],
+    },
+    ownerAddress: OWNER,
+    status: 'active',
+    catchUpPolicy: 'run_once',
+    nextRunAt: now,
+    spentAmount: '0',
+    runs: [],
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe('AgentJobRunner approval policy', () => {
+  it('holds a run above the approval amount without signing', async () => {
+    const { signer, sendTransaction } = createSigner();
+    const runner = new AgentJobRunner({ marketDataProvider, decisionMaker: new LLMDecisionMaker(null), signer, actionRegistry });
+
+    const outcome = await runner.run(createJob({
+      approvalPolicy: { ...DEFAULT_APPROVAL_POLICY, maxAmount: '1' },
+      knownCounterparties: { recipients: [RECIPIENT.toLowerCase()], contracts: [] },
+    }));
+
+    expect(outcome.status).toBe('blocked');
+    expect(outcome.explanation).toContain('Held for approval');
+    expect(outcome.explanation).toContain('above 1');
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('holds the first transfer to a new recipient without signing', async () => {
+    const { signer, sendTransaction } = createSigner();
+    const runner = new AgentJobRunner({ marketDataProvider, decisionMaker: new LLMDecisionMaker(null), signer, actionRegistry });
+
+    const outcome = await runner.run(createJob({ approvalPolicy: DEFAULT_APPROVAL_POLICY }));
+
+    expect(outcome.status).toBe('blocked');
+    expect(outcome.explanation).toContain(`First transfer to ${RECIPIENT}`);
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('sends runs the policy does not ask about', async () => {
+    const { signer, sendTransaction } = createSigner();
+    const runner = new AgentJobRunner({ marketDataProvider, decisionMaker: new LLMDecisionMaker(null), signer, actionRegistry });
+
+    const outcome = await runner.run(createJob({
+      approvalPolicy: DEFAULT_APPROVAL_POLICY,
+      knownCounterparties: { recipients: [RECIPIENT.toLowerCase()], contracts: [] },
+    }));
+
+    expect(outcome.status).toBe('executed');
+    expect(sendTransaction).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AgentJobRunner agent settings', () => {
+  const decline = JSON.stringify({
+    shouldExecute: false,
+    reasoning: 'Holding off for this run',
+    confidence: 90,
+    riskAssessment: 'Low',
+  });
+
+  it('decides each job with the persona and model settings of its agent', async () => {
+    const llmProvider = new ScriptedProvider([decline, decline]);
+    const runner = new AgentJobRunner({ marketDataProvider, llmProvider, signer: null, actionRegistry });
+
+    await runner.run(createJob({
+      agentId: 'agent_saver',
+      agent: { name: 'Saver', persona: 'A cautious saver', llm: { temperature: 0.1, maxTokens: 200 }, permissionIds: null },
+    }));
+    await runner.run(createJob({
+      agentId: 'agent_trader',
+      agent: { name: 'Trader', persona: 'A momentum trader', llm: { temperature: 0.9 }, permissionIds: ['perm_approval'] },
+    }));
+
+    const [saver, trader] = llmProvider.requests;
+    expect(saver.temperature).toBe(0.1);
+    expect(saver.maxTokens).toBe(200);
+    expect(saver.messages[0].content).toContain('YOUR PERSONA: A cautious saver');
+    expect(trader.temperature).toBe(0.9);
+    expect(trader.messages[0].content).toContain('YOUR PERSONA: A momentum trader');
+    expect(trader.messages[0].content).not.toContain('cautious saver');
+  });
+
+  it('blocks a job whose agent is not bound to its permission', async () => {
+    const llmProvider = new ScriptedProvider([decline]);
+    const runner = new AgentJobRunner({ marketDataProvider, llmProvider, signer: null, actionRegistry });
+
+    const outcome = await runner.run(createJob({
+      agentId: 'agent_trader',
+      agent: { name: 'Trader', permissionIds: ['perm_other'] },
+    }));
+
+    expect(outcome.status).toBe('blocked');
+    expect(outcome.explanation).toContain('not bound to agent "Trader"');
+    expect(llmProvider.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Revoking a permission's grant stops the server jobs running under it
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { FileJobStore } from '@/services/scheduler/JobStore';
+import { SchedulerWorker } from '@/services/scheduler/SchedulerWorker';
+import { AgentJobRunner } from '@/services/scheduler/AgentJobRunner';
+import { LLMDecisionMaker } from '@/services/agent/DecisionMaker';
+import type { MarketDataProvider } from '@/services/agent/MarketDataProvider';
+import type { JobPermissionSnapshot, ScheduledJob } from '@/types/scheduler';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const TOKEN = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+
+const marketDataProvider: MarketDataProvider = {
+  name: 'fixture',
+  getMarketContext: async () => ({
+    gasPrice: '1',
+    tokenPrice: '1',
+    networkCongestion: 'low',
+    timestamp: new Date(),
+    sources: {
+      gasPrice: { provider: 'fixture', observedAt: new Date(), ageMs: 0 },
+      tokenPrice: { provider: 'fixture', observedAt: new Date(), ageMs: 0 },
+      networkCongestion: { provider: 'fixture', observedAt: new Date(), ageMs: 0 },
+    },
+  }),
+};
+
+function createJob(permission: JobPermissionSnapshot, now: Date): ScheduledJob {
+  return {
+    id: 'job_revocation',
+    intent: {
+      description: 'Send 1 USDC every hour',
+      tokenAddress: TOKEN,
+      amount: '1',
+      contractAddress: RECIPIENT,
+      permissionId: permission.id,
+      schedule: { type: 'recurring', frequency: 'hourly', isActive: true },
+    },
+    permission,
+    ownerAddress: OWNER,
+    status: 'active',
+    catchUpPolicy: 'run_once',
+    nextRunAt: now,
+    spentAmount: '0',
+    runs: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe('permission revocation', () => {
+  let directory: string;
+  let store: FileJobStore;
+  let worker: SchedulerWorker;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'metapilot-revocation-'));
+    store = new FileJobStore(path.join(directory, 'jobs.json'));
+    worker = new SchedulerWorker(store, new AgentJobRunner({
+      marketDataProvider,
+      decisionMaker: new LLMDecisionMaker(null),
+      signer: null,
+    }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('blocks the next run once the grant is revoked', async () => {
+    const now = new Date();
+    const permission: JobPermissionSnapshot = {
+      id: 'perm_revoked',
+      tokenAddress: TOKEN,
+      maxSpendAmount: '100',
+      decimals: 6,
+      startTime: new Date(now.getTime() - 60 * 60 * 1000),
+      endTime: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+      allowedContracts: [RECIPIENT],
+    };
+    await store.recordGrant({ ownerAddress: OWNER, permission, signature: '0x00', grantedAt: now, spentAmount: '0', reportedSpent: '0' });
+    await store.create(createJob(permission, now));
+
+    await store.updateGrant(OWNER, permission.id, grant => {
+      grant.revokedAt = now;
+    });
+    await worker.tick(now);
+
+    const job = await store.get('job_revocation');
+    expect(job?.runs).toHaveLength(1);
+    expect(job?.runs[0].status).toBe('blocked');
+    expect(job?.runs[0].explanation).toContain('Permission was revoked');
+  });
+
+  it('runs the job while the grant is not revoked', async () => {
+    const now = new Date();
+    const permission: JobPermissionSnapshot = {
+      id: 'perm_active',
+      tokenAddress: TOKEN,
+      maxSpendAmount: '100',
+      decimals: 6,
+      startTime: new Date(now.getTime() - 60 * 60 * 1000),
+      endTime: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+      allowedContracts: [RECIPIENT],
+    };
+    await store.recordGrant({ ownerAddress: OWNER, permission, signature: '0x00', grantedAt: now, spentAmount: '0', reportedSpent: '0' });
+    await store.create(createJob(permission, now));
+
+    await worker.tick(now);
+
+    const job = await store.get('job_revocation');
+    expect(job?.runs[0].explanation).not.toContain('Permission was revoked');
+  });
+});
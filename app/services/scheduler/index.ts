@@ -0,0 +1,14 @@
+/**
+ * Scheduler services exports
+ *
+ * Server only. Browser code uses SchedulerClient directly.
+ */
+
+export { FileJobStore, getJobStore } from './JobStore';
+export type { JobStore } from './JobStore';
+export { SchedulerWorker, planOccurrences } from './SchedulerWorker';
+export type { JobRunner, JobRunOutcome, SchedulerWorkerOptions, TickResult } from './SchedulerWorker';
+export type { OccurrencePlan } from '@/services/agent/ScheduleCalculator';
+export { AgentJobRunner, checkPermissionSnapshot, createServerSigner, getJobCounterparties, paceJob } from './AgentJobRunner';
+export { addGrantSpend, addReportedSpend, hasActiveLease, reviveGrant, reviveJob } from './ScheduledJobs';
+export { verifyAuthorization, verifyPermissionGrant, isSamePermissionGrant, getAllowedOwners } from './SchedulerAuth';
@@ -11,6 +11,7 @@ import {
   toMetaMaskSmartAccount,
   MetaMaskSmartAccount,
 } from '@metamask/smart-accounts-kit';
+import { TokenAmount, getTokenDecimals } from '@/lib/tokenAmount';
 
 export interface SmartAccountConfig {
   rpcUrl: string;
@@ -123,7 +124,8 @@ export class SmartAccountService {
   async createPermission(params: {
     spender: Address;
     token: Address;
-    allowance: string;
+    allowance: string; // Decimal token units
+    decimals?: number; // Of the token; from the token registry when omitted
     startTime: Date;
     endTime: Date;
     permissionManagerId?: string; // Optional ID from PermissionManager
@@ -152,10 +154,10 @@ export class SmartAccountService {
         willUseManagerId: !!params.permissionManagerId,
       });
       
-      // Convert allowance to Wei (assuming it's in ETH/token units)
+      // Convert allowance to the token's base units
       let allowanceInWei: bigint;
       try {
-        allowanceInWei = this.toWei(params.allowance);
+        allowanceInWei = this.toWei(params.allowance, params.decimals ?? getTokenDecimals(params.token));
       } catch (error) {
         console.error('Failed to convert allowance to Wei:', params.allowance, error);
         return {
@@ -231,27 +233,11 @@ export class SmartAccountService {
         };
       }
 
-      if (!transaction.permissionId) {
+      const permissionError = this.checkPermission(transaction.permissionId);
+      if (permissionError) {
         return {
           success: false,
-          error: 'Permission ID required for gasless execution',
-        };
-      }
-
-      const permission = this.permissions.get(transaction.permissionId);
-      if (!permission) {
-        return {
-          success: false,
-          error: 'Permission not found',
-        };
-      }
-
-      // Validate permission is still valid
-      const now = Math.floor(Date.now() / 1000);
-      if (now < permission.period.start || now > permission.period.end) {
-        return {
-          success: false,
-          error: 'Permission expired or not yet active',
+          error: permissionError,
         };
       }
 
@@ -288,6 +274,99 @@ export class SmartAccountService {
     }
   }
 
+  /**
+   * Execute several calls as one batched Smart Account execution (gasless)
+   * Every call's permission is checked first, so either all calls run or none do
+   */
+  async executeBatchWithPermission(
+    transactions: SmartAccountTransaction[]
+  ): Promise<{
+    success: boolean;
+    txHash?: Hex;
+    error?: string;
+  }> {
+    try {
+      if (!this.smartAccount) {
+        return {
+          success: false,
+          error: 'Smart Account not initialized',
+        };
+      }
+
+      if (transactions.length === 0) {
+        return {
+          success: false,
+          error: 'Batch has no calls',
+        };
+      }
+
+      for (let index = 0; index < transactions.length; index++) {
+        const permissionError = this.checkPermission(transactions[index].permissionId);
+        if (permissionError) {
+          return {
+            success: false,
+            error: `Call ${index + 1}: ${permissionError}`,
+          };
+        }
+      }
+
+      // One execution's calldata for the whole batch
+      const callData = await this.smartAccount.encodeCalls(
+        transactions.map(transaction => ({
+          to: transaction.to,
+          value: transaction.value,
+          data: transaction.data,
+        }))
+      );
+
+      console.log(`🚀 Executing gasless batch of ${transactions.length} calls`);
+      console.log('📋 Batch calldata:', callData);
+
+      // In a real implementation, this would submit a single UserOperation
+      // carrying the batch calldata and every permission proof it needs
+
+      // For now, simulate the gasless execution
+      const simulatedTxHash = `0x${Math.random().toString(16).substring(2).padStart(64, '0')}` as Hex;
+
+      console.log('✅ Gasless batch executed:', simulatedTxHash);
+
+      return {
+        success: true,
+        txHash: simulatedTxHash,
+      };
+
+    } catch (error) {
+      console.error('❌ Gasless batch failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Private: Check that a permission exists and is inside its validity period
+   * Returns the reason it cannot be used, or null
+   */
+  private checkPermission(permissionId?: string): string | null {
+    if (!permissionId) {
+      return 'Permission ID required for gasless execution';
+    }
+
+    const permission = this.permissions.get(permissionId);
+    if (!permission) {
+      return 'Permission not found';
+    }
+
+    // Validate permission is still valid
+    const now = Math.floor(Date.now() / 1000);
+    if (now < permission.period.start || now > permission.period.end) {
+      return 'Permission expired or not yet active';
+    }
+
+    return null;
+  }
+
   /**
    * Get Smart Account address
    */
@@ -395,22 +474,17 @@ export class SmartAccountService {
   }
 
   /**
-   * Convert ETH/token amount to Wei
+   * Convert a decimal token amount to base units (Wei for 18 decimals)
    */
-  private toWei(amount: string): bigint {
-    const amountFloat = parseFloat(amount);
-    if (isNaN(amountFloat) || amountFloat < 0) {
-      throw new Error(`Invalid amount: ${amount}`);
-    }
-    // Convert to Wei (multiply by 10^18)
-    return BigInt(Math.floor(amountFloat * 1e18));
+  private toWei(amount: string, decimals: number): bigint {
+    return TokenAmount.parse(amount, decimals).units;
   }
 
   /**
-   * Convert Wei to ETH/token amount
+   * Convert base units to a decimal token amount
    */
-  private fromWei(wei: bigint): string {
-    return (Number(wei) / 1e18).toString();
+  private fromWei(wei: bigint, decimals: number): string {
+    return TokenAmount.fromUnits(wei, decimals).toString();
   }
 
   /**
@@ -2,6 +2,7 @@
  * Core wallet manager for MetaMask Smart Account integration
  */
 
+import { ethers } from 'ethers';
 import { 
   ConnectionState, 
   ConnectionResult, 
@@ -326,6 +327,17 @@ export class WalletManager implements IWalletManager {
     return state.smartAccount?.address || null;
   }
 
+  /**
+   * Signer of the connected MetaMask account (the Smart Account's owner), for
+   * signing messages and typed data; null when MetaMask is unavailable
+   */
+  async getSigner(): Promise<ethers.Signer | null> {
+    if (typeof window === 'undefined' || !window.ethereum) {
+      return null;
+    }
+    return new ethers.BrowserProvider(window.ethereum as ethers.Eip1193Provider).getSigner();
+  }
+
   /**
    * Get Smart Account service for advanced operations
    */
@@ -2,4 +2,6 @@
 export * from './wallet';
 export * from './permissions';
 export * from './agent';
-export * from './envio';
\ No newline at end of file
+export * from './envio';
+export * from './scheduler';
+export * from './policy';
\ No newline at end of file
@@ -2,10 +2,13 @@
  * ERC-7715 Advanced Permission type definitions
  */
 
+import type { PolicyRule } from './policy';
+
 export interface ERC7715Permission {
   id: string;
   tokenAddress: string;
-  maxSpendAmount: string;
+  maxSpendAmount: string; // Decimal token units, exact to the token's decimals
+  decimals?: number; // Of the token, recorded when granted; from the token registry when unset
   startTime: Date;
   endTime: Date;
   allowedContracts: string[];
@@ -13,23 +16,83 @@ export interface ERC7715Permission {
   grantedAt: Date;
   transactionHash?: string;
   smartAccountPermissionId?: string; // Maps to SmartAccountService permission ID
+  policy?: PolicyRule[]; // Rules the agent's decisions must satisfy; the default policy applies when empty
+  rateLimit?: PermissionRateLimit; // How often the agent may execute under this permission
+  period?: PermissionPeriod; // Spend limit per period, on top of maxSpendAmount
 }
 
 export type PermissionStatus = 'active' | 'expired' | 'revoked' | 'pending';
 
 export interface PermissionRequest {
   tokenAddress: string;
-  maxSpendAmount: string;
+  maxSpendAmount: string; // Decimal token units
+  decimals?: number; // Of the token; looked up in the token registry when omitted
   startTime: Date;
   endTime: Date;
   allowedContracts: string[];
+  policy?: PolicyRule[];
+  rateLimit?: PermissionRateLimit;
+  period?: PermissionPeriod;
+}
+
+/**
+ * Periodic allowance, e.g. 50 USDC per day: periods follow each other from the
+ * permission's startTime, and what is not spent in one does not carry over
+ */
+export interface PermissionPeriod {
+  durationMs: number;
+  amount: string; // Decimal token units per period
+}
+
+/**
+ * Execution rate limits of a permission; unset fields are not limited
+ */
+export interface PermissionRateLimit {
+  maxExecutions?: number; // Per rolling window
+  windowMs?: number; // Rolling window for maxExecutions
+  minSpacingMs?: number; // Between two executions
+}
+
+/**
+ * Account-wide spend caps for one token, across every permission for it; null means no cap
+ */
+export interface VelocityCap {
+  tokenAddress: string; // Limits are in this token's units
+  dailyLimit: string | null; // Over the last 24 hours
+  weeklyLimit: string | null; // Over the last 7 days
+}
+
+export type RateLimitKind = 'max_executions' | 'min_spacing' | 'daily_velocity' | 'weekly_velocity';
+
+/**
+ * The limit an execution would trip, and when it would next be allowed
+ */
+export interface RateLimitViolation {
+  limit: RateLimitKind;
+  message: string;
+  retryAt: Date;
 }
 
+/**
+ * Spend against a permission; amounts are exact decimal strings in token units,
+ * computed with TokenAmount at the permission token's decimals
+ */
 export interface SpendTracking {
   permissionId: string;
+  decimals: number;
   totalSpent: string;
   remainingAllowance: string;
   spendEntries: SpendEntry[];
+  executions: ExecutionRecord[]; // Every transaction sent under the permission, spending or not
+  periodSpend?: PeriodSpend; // Spend in the latest period spent in, for permissions with a period
+}
+
+/**
+ * Spend within one period of a periodic allowance
+ */
+export interface PeriodSpend {
+  index: number; // 0 for the period starting at the permission's startTime
+  spent: string;
 }
 
 export interface SpendEntry {
@@ -37,4 +100,12 @@ export interface SpendEntry {
   amount: string;
   transactionHash: string;
   remainingAfter: string;
+}
+
+/**
+ * A transaction sent under a permission, for execution rate limits
+ */
+export interface ExecutionRecord {
+  timestamp: Date;
+  transactionHash: string;
 }
\ No newline at end of file
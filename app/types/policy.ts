@@ -0,0 +1,42 @@
+/**
+ * Permission policy type definitions
+ */
+
+export type PolicySeverity = 'block' | 'warn';
+
+interface PolicyRuleBase {
+  id?: string; // Shown in verdicts; defaults to the rule type and position
+  description?: string;
+  severity?: PolicySeverity; // 'warn' reports a failure without blocking (default 'block')
+}
+
+/**
+ * User-authored rule stored with a permission
+ */
+export type PolicyRule = PolicyRuleBase & (
+  | { type: 'gas_ceiling'; maxGwei: number }
+  | { type: 'time_window'; startHour: number; endHour: number; days?: number[]; timezone?: string } // endHour exclusive, wraps past midnight; days 0 = Sunday
+  | { type: 'max_amount'; amount: string } // Per-transaction cap
+  | { type: 'recipient'; allow?: string[]; deny?: string[] } // Transfer recipients
+  | { type: 'min_confidence'; confidence: number } // Floor for LLM decisions
+  | { type: 'max_congestion'; level: 'low' | 'medium' | 'high' }
+  | { type: 'expression'; expression: string } // e.g. "gasPrice < 30 && hour >= 9"
+);
+
+export type PolicyRuleType = PolicyRule['type'];
+
+/**
+ * Result of one rule
+ * skip: the rule does not apply (e.g. a confidence floor before the LLM has answered)
+ */
+export interface RuleVerdict {
+  ruleId: string;
+  type: PolicyRuleType;
+  outcome: 'pass' | 'fail' | 'warn' | 'skip';
+  detail: string;
+}
+
+export interface PolicyEvaluation {
+  allowed: boolean; // No blocking rule failed
+  verdicts: RuleVerdict[];
+}
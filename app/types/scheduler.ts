@@ -0,0 +1,107 @@
+/**
+ * Server-side scheduler types
+ */
+
+import type { AgentDecision, AgentIntent } from '@/services/agent/AgentExecutor';
+import type { ApprovalPolicy } from '@/services/agent/ApprovalPolicy';
+import type { AgentLLMSettings } from '@/services/agent/LLMProvider';
+import type { PolicyRule } from './policy';
+import type { PeriodSpend, PermissionPeriod, PermissionRateLimit, SpendEntry, VelocityCap } from './permissions';
+
+// What to do with runs that were missed while no worker was running
+export type CatchUpPolicy = 'skip' | 'run_once' | 'run_all';
+
+/**
+ * Permission boundaries captured when the job was created
+ */
+export interface JobPermissionSnapshot {
+  id: string;
+  tokenAddress: string;
+  maxSpendAmount: string;
+  decimals?: number; // Of the token; from the token registry when unset
+  startTime: Date;
+  endTime: Date;
+  allowedContracts: string[];
+  policy?: PolicyRule[];
+  rateLimit?: PermissionRateLimit; // Enforced against the job's own executed runs
+  period?: PermissionPeriod; // Enforced against periodSpend
+}
+
+/**
+ * A permission its owner granted to the server signer, kept by the server
+ * Jobs use these terms, never the ones in a job request
+ */
+export interface PermissionGrant {
+  ownerAddress: string;
+  permission: JobPermissionSnapshot;
+  signature: string; // Owner's EIP-712 signature over the terms, see SchedulerAuth
+  grantedAt: Date;
+  spentAmount: string; // Spent under the grant by every job, plus spend reported from the browser
+  periodSpend?: PeriodSpend; // Same, for the permission's current period
+  reportedSpent: string; // Highest browser spend reported with a job request
+  reportedPeriodSpend?: PeriodSpend;
+  revokedAt?: Date; // When the owner revoked the permission; its jobs no longer run
+  recentSpend?: RunSpend[]; // Server run spend still inside a velocity cap window, oldest first
+}
+
+/**
+ * Settings of the agent a job runs for, captured when the job was created
+ */
+export interface JobAgentSettings {
+  name?: string;
+  persona?: string;
+  llm?: AgentLLMSettings; // Model, temperature, timeout and failover order for the job's decisions
+  permissionIds: string[] | null; // Permissions the agent is bound to; null for all
+}
+
+/**
+ * Addresses the owner's agent had already sent to or called when a job was created
+ */
+export interface JobCounterparties {
+  recipients: string[]; // Lowercase
+  contracts: string[]; // Lowercase
+}
+
+/**
+ * Spend of one executed server run, for velocity caps
+ */
+export type RunSpend = Pick<SpendEntry, 'timestamp' | 'amount'>;
+
+export interface JobLease {
+  owner: string; // Worker id
+  expiresAt: Date;
+}
+
+export interface JobRun {
+  scheduledFor: Date;
+  startedAt: Date;
+  finishedAt: Date;
+  status: 'executed' | 'blocked' | 'failed' | 'skipped';
+  explanation: string;
+  transactionHash?: string;
+  decision?: AgentDecision;
+}
+
+export interface ScheduledJob {
+  id: string;
+  intent: AgentIntent; // intent.schedule holds timing, timezone and end conditions
+  permission: JobPermissionSnapshot;
+  ownerAddress: string;
+  agentId?: string; // Agent that created the job; jobs from before named agents belong to the default agent
+  agent?: JobAgentSettings; // Runs decide with these; jobs from before agent settings were sent use the server's
+  status: 'active' | 'paused' | 'completed';
+  pausedWithAgent?: boolean; // Paused by pausing its agent, so resuming the agent resumes it
+  approvalPolicy?: ApprovalPolicy; // The agent's policy when the job was created; runs it would ask about are held
+  knownCounterparties?: JobCounterparties; // Counterparties the policy treats as known, besides the job's own executed runs
+  catchUpPolicy: CatchUpPolicy;
+  nextRunAt: Date | null;
+  spentAmount: string; // Spent against the permission, copied from its grant before each run
+  periodSpend?: PeriodSpend; // Spent in the permission's current period, for permissions with a period
+  velocityCap?: VelocityCap; // Owner's spend cap for the permission's token, enforced against server runs
+  permissionRevokedAt?: Date; // When the owner revoked the job's permission, from its grant
+  tokenSpend?: RunSpend[]; // Recent server spend of the token under all the owner's grants; set by the worker before a run, not stored
+  lease?: JobLease;
+  runs: JobRun[]; // Most recent first
+  createdAt: Date;
+  updatedAt: Date;
+}
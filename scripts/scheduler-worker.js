@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+/**
+ * Scheduler worker process
+ * Calls the scheduler tick route on an interval so server-side agent jobs run
+ * without an open browser tab. Several workers can run at once: job leases in
+ * the store keep each occurrence on a single worker.
+ *
+ * Usage: SCHEDULER_SECRET=... SCHEDULER_URL=http://localhost:3000 npm run scheduler
+ */
+
+const baseUrl = process.env.SCHEDULER_URL || 'http://localhost:3000';
+const intervalMs = parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '15000', 10);
+const secret = process.env.SCHEDULER_SECRET;
+
+if (!secret) {
+  console.error('❌ SCHEDULER_SECRET is not set; the tick route refuses unauthenticated calls');
+  process.exit(1);
+}
+
+let stopped = false;
+let timer = null;
+
+async function tick() {
+  try {
+    const response = await fetch(`${baseUrl}/api/scheduler/tick`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${secret}` },
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      console.error(`❌ Scheduler tick failed (${response.status}):`, body.error, body.details || '');
+    } else if (body.data.checked > 0) {
+      console.log(`⏰ Ran ${body.data.ran} and skipped ${body.data.skipped} occurrence(s) across ${body.data.checked} job(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Scheduler tick request failed:', error.message);
+  }
+
+  if (!stopped) {
+    timer = setTimeout(tick, intervalMs);
+  }
+}
+
+function shutdown() {
+  stopped = true;
+  if (timer) {
+    clearTimeout(timer);
+  }
+  console.log('🛑 Scheduler worker stopped');
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+console.log(`⏰ Scheduler worker polling ${baseUrl}/api/scheduler/tick every ${intervalMs / 1000}s`);
+tick();